@@ -1,10 +1,17 @@
 import { Ionicons } from '@expo/vector-icons';
+import * as ImagePicker from 'expo-image-picker';
 import { useRouter } from 'expo-router';
 import { useEffect, useMemo, useRef, useState } from 'react';
-import { Alert, Pressable, StyleSheet, Text, View } from 'react-native';
+import { Alert, Image, Pressable, ScrollView, StyleSheet, Text, TextInput, View } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 
-import { hazardService, locationService, type HazardType } from '@/src/services';
+import {
+  hazardService,
+  locationService,
+  type AddHazardResult,
+  type HazardPhotoInput,
+  type HazardType,
+} from '@/src/services';
 
 type Position = { latitude: number; longitude: number };
 
@@ -23,8 +30,14 @@ const hazardOptions: Array<{
   { type: 'CONSTRUCTION', label: 'Construction', icon: 'construct-outline' },
   { type: 'WATERLOGGING', label: 'Waterlogging', icon: 'water-outline' },
   { type: 'ACCIDENT_ZONE', label: 'Accident Zone', icon: 'warning-outline' },
+  { type: 'ANIMAL', label: 'Animal', icon: 'paw-outline' },
+  { type: 'OIL_SPILL', label: 'Oil Spill', icon: 'color-fill-outline' },
+  { type: 'BROKEN_SIGNAL', label: 'Broken Signal', icon: 'stop-circle-outline' },
 ];
 
+const severityLevels = [1, 2, 3, 4, 5] as const;
+const DESCRIPTION_MAX_LENGTH = 280;
+
 function loadMapModules(): MapModules {
   try {
     // eslint-disable-next-line @typescript-eslint/no-require-imports
@@ -46,18 +59,27 @@ export default function ReportHazardScreen() {
   const [selectedType, setSelectedType] = useState<HazardType | null>(null);
   const [selectedPosition, setSelectedPosition] = useState<Position | null>(null);
   const [currentPosition, setCurrentPosition] = useState<Position | null>(null);
+  const [currentHeading, setCurrentHeading] = useState<number | null>(null);
+  const [severity, setSeverity] = useState<number | null>(null);
+  const [description, setDescription] = useState('');
+  const [photo, setPhoto] = useState<HazardPhotoInput | null>(null);
+  const [submitting, setSubmitting] = useState(false);
 
   useEffect(() => {
     let active = true;
     let unsubscribe: (() => void) | null = null;
 
     locationService
-      .watchPosition((point) => {
+      .watchFixes((fix) => {
         if (!active) {
           return;
         }
-        const position = { latitude: point.latitude, longitude: point.longitude };
+        const position = { latitude: fix.latitude, longitude: fix.longitude };
         setCurrentPosition(position);
+        // Keep the last valid course; it drops to -1 or null once the rider stops to report.
+        if (fix.heading !== null && fix.heading >= 0) {
+          setCurrentHeading(fix.heading);
+        }
         setSelectedPosition(position);
         mapRef.current?.animateToRegion?.({
           latitude: position.latitude,
@@ -87,33 +109,80 @@ export default function ReportHazardScreen() {
     [currentPosition, selectedPosition]
   );
 
-  const canSubmit = Boolean(selectedType);
+  const canSubmit = Boolean(selectedType) && !submitting;
+
+  const onPickPhoto = async () => {
+    const permission = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (!permission.granted) {
+      Alert.alert('Photos unavailable', 'Allow photo access to attach a picture of the hazard.');
+      return;
+    }
+    const picked = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ['images'],
+      quality: 0.6,
+    });
+    const asset = picked.canceled ? null : picked.assets[0];
+    if (asset) {
+      setPhoto({ uri: asset.uri, mimeType: asset.mimeType ?? 'image/jpeg', fileName: asset.fileName });
+    }
+  };
+
+  const report = async (position: Position): Promise<AddHazardResult> => {
+    const trimmed = description.trim();
+    return hazardService.addHazard({
+      type: selectedType as HazardType,
+      latitude: position.latitude,
+      longitude: position.longitude,
+      severity,
+      description: trimmed.length > 0 ? trimmed : null,
+      heading: currentHeading,
+    });
+  };
+
+  const resetForm = () => {
+    setSelectedType(null);
+    setSeverity(null);
+    setDescription('');
+    setPhoto(null);
+  };
 
   const onSubmit = async () => {
     if (!selectedType) {
       return;
     }
+    setSubmitting(true);
     try {
-      const livePoint = await locationService.getCurrentLocation();
-      await hazardService.addHazard({
-        type: selectedType,
-        latitude: livePoint.latitude,
-        longitude: livePoint.longitude,
-      });
-      setSelectedType(null);
-      Alert.alert('Report submitted', 'You can report another hazard or close this screen.');
-    } catch {
-      if (!currentPosition) {
-        Alert.alert('Location unavailable', 'Please enable location services and try again.');
+      let result: AddHazardResult;
+      try {
+        result = await report(await locationService.getCurrentLocation());
+      } catch {
+        if (!currentPosition) {
+          Alert.alert('Location unavailable', 'Please enable location services and try again.');
+          return;
+        }
+        result = await report(currentPosition);
+      }
+
+      if (result.status === 'QUEUED') {
+        resetForm();
+        showReportQueued(Boolean(photo));
         return;
       }
-      await hazardService.addHazard({
-        type: selectedType,
-        latitude: currentPosition.latitude,
-        longitude: currentPosition.longitude,
-      });
-      setSelectedType(null);
-      Alert.alert('Report submitted', 'You can report another hazard or close this screen.');
+
+      // Merged reports belong to another rider, who owns the hazard's photo.
+      let photoUploaded = true;
+      if (photo && !result.merged) {
+        photoUploaded = await hazardService
+          .uploadHazardPhoto(result.hazard.id, photo)
+          .then(() => true)
+          .catch(() => false);
+      }
+      resetForm();
+      showReportSubmitted(result.merged, photoUploaded);
+    } catch {
+      Alert.alert('Report failed', 'Could not submit the hazard. Please try again.');
+    } finally {
+      setSubmitting(false);
     }
   };
 
@@ -149,50 +218,109 @@ export default function ReportHazardScreen() {
         </View>
       </View>
 
-      <View style={styles.sectionHeader}>
-        <Text style={styles.sectionTitle}>Select Hazard Type</Text>
-      </View>
+      <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+        <View style={styles.sectionHeader}>
+          <Text style={styles.sectionTitle}>Select Hazard Type</Text>
+        </View>
 
-      <View style={styles.hazardGrid}>
-        {hazardOptions.map((option) => {
-          const isSelected = option.type === selectedType;
-          return (
-            <Pressable
-              key={option.type}
-              style={[styles.hazardCard, isSelected ? styles.hazardCardActive : null]}
-              onPress={() => setSelectedType(option.type)}
-            >
-              <View style={[styles.hazardIcon, isSelected ? styles.hazardIconActive : null]}>
-                <Ionicons
-                  name={option.icon}
-                  size={22}
-                  color={isSelected ? '#FFFFFF' : '#60A5FA'}
-                />
-              </View>
-              <Text style={styles.hazardLabel}>{option.label}</Text>
-            </Pressable>
-          );
-        })}
-      </View>
+        <View style={styles.hazardGrid}>
+          {hazardOptions.map((option) => {
+            const isSelected = option.type === selectedType;
+            return (
+              <Pressable
+                key={option.type}
+                style={[styles.hazardCard, isSelected ? styles.hazardCardActive : null]}
+                onPress={() => setSelectedType(option.type)}
+              >
+                <View style={[styles.hazardIcon, isSelected ? styles.hazardIconActive : null]}>
+                  <Ionicons
+                    name={option.icon}
+                    size={22}
+                    color={isSelected ? '#FFFFFF' : '#60A5FA'}
+                  />
+                </View>
+                <Text style={styles.hazardLabel}>{option.label}</Text>
+              </Pressable>
+            );
+          })}
+        </View>
 
-      <Pressable style={styles.photoCard}>
-        <View style={styles.photoIcon}>
-          <Ionicons name="camera-outline" size={20} color="#9CA3AF" />
+        <View style={styles.sectionHeader}>
+          <Text style={styles.sectionTitle}>Severity (Optional)</Text>
         </View>
-        <Text style={styles.photoText}>Add Photo (Optional)</Text>
-      </Pressable>
 
-      <Pressable
-        style={[styles.submitButton, !canSubmit ? styles.submitButtonDisabled : null]}
-        onPress={() => void onSubmit()}
-        disabled={!canSubmit}
-      >
-        <Text style={styles.submitText}>Submit Report</Text>
-      </Pressable>
+        <View style={styles.severityRow}>
+          {severityLevels.map((level) => {
+            const isSelected = level === severity;
+            return (
+              <Pressable
+                key={level}
+                style={[styles.severityChip, isSelected ? styles.severityChipActive : null]}
+                onPress={() => setSeverity(isSelected ? null : level)}
+              >
+                <Text style={styles.severityText}>{level}</Text>
+              </Pressable>
+            );
+          })}
+        </View>
+
+        <TextInput
+          style={styles.descriptionInput}
+          value={description}
+          onChangeText={setDescription}
+          placeholder="Describe the hazard (Optional)"
+          placeholderTextColor="#6B7280"
+          maxLength={DESCRIPTION_MAX_LENGTH}
+          multiline
+        />
+
+        <Pressable style={styles.photoCard} onPress={() => void onPickPhoto()}>
+          {photo ? (
+            <Image source={{ uri: photo.uri }} style={styles.photoPreview} />
+          ) : (
+            <View style={styles.photoIcon}>
+              <Ionicons name="camera-outline" size={20} color="#9CA3AF" />
+            </View>
+          )}
+          <Text style={styles.photoText}>{photo ? 'Change Photo' : 'Add Photo (Optional)'}</Text>
+        </Pressable>
+
+        <Pressable
+          style={[styles.submitButton, !canSubmit ? styles.submitButtonDisabled : null]}
+          onPress={() => void onSubmit()}
+          disabled={!canSubmit}
+        >
+          <Text style={styles.submitText}>{submitting ? 'Submitting…' : 'Submit Report'}</Text>
+        </Pressable>
+      </ScrollView>
     </SafeAreaView>
   );
 }
 
+function showReportQueued(hadPhoto: boolean): void {
+  Alert.alert(
+    'Report saved offline',
+    hadPhoto
+      ? 'It will be sent automatically once you are back online. Photos need a connection, so it was not attached.'
+      : 'It will be sent automatically once you are back online.'
+  );
+}
+
+function showReportSubmitted(merged: boolean, photoUploaded: boolean): void {
+  if (!photoUploaded) {
+    Alert.alert('Report submitted', 'The hazard was reported, but the photo could not be uploaded.');
+    return;
+  }
+  if (merged) {
+    Alert.alert(
+      'Report added',
+      'Another rider already reported this hazard here, so your report was added to it.'
+    );
+    return;
+  }
+  Alert.alert('Report submitted', 'You can report another hazard or close this screen.');
+}
+
 const styles = StyleSheet.create({
   container: {
     flex: 1,
@@ -264,6 +392,9 @@ const styles = StyleSheet.create({
     textTransform: 'uppercase',
     letterSpacing: 0.8,
   },
+  scrollContent: {
+    paddingBottom: 12,
+  },
   sectionHeader: {
     marginBottom: 8,
   },
@@ -310,6 +441,42 @@ const styles = StyleSheet.create({
     fontSize: 13,
     fontWeight: '700',
   },
+  severityRow: {
+    flexDirection: 'row',
+    gap: 10,
+    marginBottom: 14,
+  },
+  severityChip: {
+    flex: 1,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#1F2937',
+    backgroundColor: '#121A2C',
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  severityChipActive: {
+    borderColor: '#2563EB',
+    backgroundColor: '#2563EB',
+  },
+  severityText: {
+    color: '#E5E7EB',
+    fontSize: 14,
+    fontWeight: '800',
+  },
+  descriptionInput: {
+    minHeight: 72,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#1F2937',
+    backgroundColor: '#0F172A',
+    color: '#E5E7EB',
+    fontSize: 14,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    textAlignVertical: 'top',
+    marginBottom: 14,
+  },
   photoCard: {
     borderRadius: 16,
     borderWidth: 1,
@@ -330,6 +497,11 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'center',
   },
+  photoPreview: {
+    width: 34,
+    height: 34,
+    borderRadius: 12,
+  },
   photoText: {
     color: '#9CA3AF',
     fontSize: 13,
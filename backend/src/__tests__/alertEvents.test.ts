@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+
+import { validateAlertEventsQuery } from '../routes/alertEvents';
+
+describe('alert events query validation', () => {
+  it('defaults to the first page of 50 events', () => {
+    expect(validateAlertEventsQuery({})).toEqual({ ok: true, value: { limit: 50, cursor: null } });
+  });
+
+  it('accepts a limit and a cursor from a previous page', () => {
+    const result = validateAlertEventsQuery({ limit: '20', cursor: '67b07e7f6d4a9b7a8b9957d1' });
+    expect(result).toEqual({ ok: true, value: { limit: 20, cursor: '67b07e7f6d4a9b7a8b9957d1' } });
+  });
+
+  it('rejects limits outside the allowed range', () => {
+    expect(validateAlertEventsQuery({ limit: '0' }).ok).toBe(false);
+    expect(validateAlertEventsQuery({ limit: '201' }).ok).toBe(false);
+    expect(validateAlertEventsQuery({ limit: 'ten' }).ok).toBe(false);
+  });
+
+  it('rejects a malformed cursor', () => {
+    const result = validateAlertEventsQuery({ cursor: 'not-an-id' });
+    expect(result).toEqual({ ok: false, message: 'cursor must be an event id returned as nextCursor.' });
+  });
+});
@@ -1,10 +1,21 @@
-import { describe, expect, it, vi } from 'vitest';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
 
+import mongoose from 'mongoose';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { createApp } from '../app';
+import { resolveAlertRecord } from '../models/alert';
 import {
   createAlertsRouter,
   processCreateAlertRequest,
+  processResolveAlertRequest,
   processUpdateAlertStatusRequest,
+  validateListAlertsQuery,
+  validateNearbyAlertsQuery,
+  validateResolveAlertPayload,
 } from '../routes/alerts';
+import { findAlertsNearPoint } from '../services/dispatchService';
 import type { AlertLocation, AlertRecord, CreateAlertPersistenceInput } from '../types/alert';
 
 const FIXED_NOW_MS = 1_739_555_556_000;
@@ -68,6 +79,7 @@ describe('alerts contract', () => {
       requestId: 'req-success-location',
       nowMs: () => FIXED_NOW_MS,
       createAlert,
+      authDeviceId: 'device-123',
     });
 
     expect(result.statusCode).toBe(201);
@@ -88,6 +100,7 @@ describe('alerts contract', () => {
       requestId: 'req-success-null-location',
       nowMs: () => FIXED_NOW_MS,
       createAlert,
+      authDeviceId: 'device-123',
     });
 
     expect(result.statusCode).toBe(201);
@@ -113,6 +126,7 @@ describe('alerts contract', () => {
       requestId: 'req-success-omitted-location',
       nowMs: () => FIXED_NOW_MS,
       createAlert,
+      authDeviceId: 'device-123',
     });
 
     expect(result.statusCode).toBe(201);
@@ -131,6 +145,7 @@ describe('alerts contract', () => {
       requestId: 'req-invalid-status',
       nowMs: () => FIXED_NOW_MS,
       createAlert,
+      authDeviceId: 'device-123',
     });
 
     expect(result.statusCode).toBe(400);
@@ -160,6 +175,7 @@ describe('alerts contract', () => {
       requestId: 'req-missing-fields',
       nowMs: () => FIXED_NOW_MS,
       createAlert,
+      authDeviceId: 'device-123',
     });
 
     expect(result.statusCode).toBe(400);
@@ -183,6 +199,7 @@ describe('alerts contract', () => {
       requestId: 'req-unknown-field',
       nowMs: () => FIXED_NOW_MS,
       createAlert,
+      authDeviceId: 'device-123',
     });
 
     expect(result.statusCode).toBe(400);
@@ -212,6 +229,7 @@ describe('alerts contract', () => {
       requestId: 'req-invalid-latitude',
       nowMs: () => FIXED_NOW_MS,
       createAlert,
+      authDeviceId: 'device-123',
     });
 
     expect(result.statusCode).toBe(400);
@@ -245,6 +263,7 @@ describe('alerts contract', () => {
       requestId: 'req-breadcrumb-too-long',
       nowMs: () => FIXED_NOW_MS,
       createAlert,
+      authDeviceId: 'device-123',
     });
 
     expect(result.statusCode).toBe(400);
@@ -272,6 +291,7 @@ describe('alerts contract', () => {
       requestId: 'req-too-old-triggered-at',
       nowMs: () => FIXED_NOW_MS,
       createAlert,
+      authDeviceId: 'device-123',
     });
 
     expect(result.statusCode).toBe(400);
@@ -299,6 +319,7 @@ describe('alerts contract', () => {
       requestId: 'req-future-triggered-at',
       nowMs: () => FIXED_NOW_MS,
       createAlert,
+      authDeviceId: 'device-123',
     });
 
     expect(result.statusCode).toBe(400);
@@ -326,6 +347,7 @@ describe('alerts contract', () => {
       requestId: 'req-internal-error',
       nowMs: () => FIXED_NOW_MS,
       createAlert,
+      authDeviceId: 'device-123',
     });
 
     expect(result.statusCode).toBe(500);
@@ -344,6 +366,7 @@ describe('alerts contract', () => {
       requestId: 'req-success-id',
       nowMs: () => FIXED_NOW_MS,
       createAlert: createAlertSuccess,
+      authDeviceId: 'device-123',
     });
 
     const validation = await processCreateAlertRequest({
@@ -351,6 +374,7 @@ describe('alerts contract', () => {
       requestId: 'req-validation-id',
       nowMs: () => FIXED_NOW_MS,
       createAlert: createAlertSuccess,
+      authDeviceId: 'device-123',
     });
 
     const createAlertFailure = vi.fn(async () => {
@@ -361,6 +385,7 @@ describe('alerts contract', () => {
       requestId: 'req-server-error-id',
       nowMs: () => FIXED_NOW_MS,
       createAlert: createAlertFailure,
+      authDeviceId: 'device-123',
     });
 
     expect(success.body.requestId).toBe('req-success-id');
@@ -376,6 +401,7 @@ describe('alerts contract', () => {
       payload: { status: 'CANCELLED' },
       requestId: 'req-update-success',
       updateAlertStatus,
+      authDeviceId: 'device-123',
     });
 
     expect(result.statusCode).toBe(200);
@@ -385,7 +411,7 @@ describe('alerts contract', () => {
 
     expect(result.body.requestId).toBe('req-update-success');
     expect(result.body.data).toEqual(buildUpdateResult('67b07e7f6d4a9b7a8b9957d1').data);
-    expect(updateAlertStatus).toHaveBeenCalledWith('67b07e7f6d4a9b7a8b9957d1', 'CANCELLED');
+    expect(updateAlertStatus).toHaveBeenCalledWith('67b07e7f6d4a9b7a8b9957d1', 'CANCELLED', 'device-123');
   });
 
   it('200 when status update payload escalates alert', async () => {
@@ -396,6 +422,7 @@ describe('alerts contract', () => {
       payload: { status: 'ESCALATED' },
       requestId: 'req-update-escalated',
       updateAlertStatus,
+      authDeviceId: 'device-123',
     });
 
     expect(result.statusCode).toBe(200);
@@ -404,7 +431,7 @@ describe('alerts contract', () => {
     }
 
     expect(result.body.data.status).toBe('ESCALATED');
-    expect(updateAlertStatus).toHaveBeenCalledWith('67b07e7f6d4a9b7a8b9957d1', 'ESCALATED');
+    expect(updateAlertStatus).toHaveBeenCalledWith('67b07e7f6d4a9b7a8b9957d1', 'ESCALATED', 'device-123');
   });
 
   it('400 when status update payload has unknown fields', async () => {
@@ -415,6 +442,7 @@ describe('alerts contract', () => {
       payload: { status: 'CANCELLED', extra: true },
       requestId: 'req-update-unknown-field',
       updateAlertStatus,
+      authDeviceId: 'device-123',
     });
 
     expect(result.statusCode).toBe(400);
@@ -438,6 +466,7 @@ describe('alerts contract', () => {
       payload: {},
       requestId: 'req-update-missing-status',
       updateAlertStatus,
+      authDeviceId: 'device-123',
     });
 
     expect(result.statusCode).toBe(400);
@@ -460,6 +489,7 @@ describe('alerts contract', () => {
       payload: { status: 'DISPATCHED' },
       requestId: 'req-update-invalid-status',
       updateAlertStatus,
+      authDeviceId: 'device-123',
     });
 
     expect(result.statusCode).toBe(400);
@@ -482,6 +512,7 @@ describe('alerts contract', () => {
       payload: { status: 'CANCELLED' },
       requestId: 'req-update-invalid-id',
       updateAlertStatus,
+      authDeviceId: 'device-123',
     });
 
     expect(result.statusCode).toBe(400);
@@ -504,6 +535,7 @@ describe('alerts contract', () => {
       payload: { status: 'CANCELLED' },
       requestId: 'req-update-not-found',
       updateAlertStatus,
+      authDeviceId: 'device-123',
     });
 
     expect(result.statusCode).toBe(404);
@@ -524,6 +556,7 @@ describe('alerts contract', () => {
       payload: { status: 'CANCELLED' },
       requestId: 'req-update-server-error',
       updateAlertStatus,
+      authDeviceId: 'device-123',
     });
 
     expect(result.statusCode).toBe(500);
@@ -542,6 +575,7 @@ describe('alerts contract', () => {
       payload: { status: 'ESCALATED' },
       requestId: 'req-update-blocked',
       updateAlertStatus,
+      authDeviceId: 'device-123',
     });
 
     expect(result.statusCode).toBe(400);
@@ -568,6 +602,7 @@ describe('alerts contract', () => {
       payload: { status: 'CANCELLED' },
       requestId: 'req-update-blocked-escalated',
       updateAlertStatus,
+      authDeviceId: 'device-123',
     });
 
     expect(result.statusCode).toBe(400);
@@ -615,3 +650,378 @@ describe('alerts contract', () => {
     );
   });
 });
+
+describe('alert ownership', () => {
+  it('403 when an authenticated device raises an alert for another device', async () => {
+    const createAlert = vi.fn(async (input: CreateAlertPersistenceInput) => buildAlertRecord(input));
+    const result = await processCreateAlertRequest({
+      payload: buildPayload(),
+      requestId: 'req-owner-1',
+      nowMs: () => FIXED_NOW_MS,
+      createAlert,
+      authDeviceId: 'device-999',
+    });
+
+    expect(result.statusCode).toBe(403);
+    expect(createAlert).not.toHaveBeenCalled();
+  });
+
+  it('passes the authenticated device to status updates and maps forbidden to 403', async () => {
+    const updateAlertStatus = vi.fn(async () => ({ kind: 'forbidden' as const }));
+    const result = await processUpdateAlertStatusRequest({
+      alertId: '67b07e7f6d4a9b7a8b9957d1',
+      payload: { status: 'CANCELLED' },
+      requestId: 'req-owner-2',
+      updateAlertStatus,
+      authDeviceId: 'device-999',
+    });
+
+    expect(updateAlertStatus).toHaveBeenCalledWith('67b07e7f6d4a9b7a8b9957d1', 'CANCELLED', 'device-999');
+    expect(result.statusCode).toBe(403);
+  });
+
+  it('401 instead of skipping the ownership check when no device is authenticated', async () => {
+    const createAlert = vi.fn(async (input: CreateAlertPersistenceInput) => buildAlertRecord(input));
+    const created = await processCreateAlertRequest({
+      payload: buildPayload(),
+      requestId: 'req-owner-3',
+      nowMs: () => FIXED_NOW_MS,
+      createAlert,
+    });
+    expect(created.statusCode).toBe(401);
+    expect(createAlert).not.toHaveBeenCalled();
+
+    const updateAlertStatus = vi.fn(async (id: string) => buildUpdateResult(id));
+    const updated = await processUpdateAlertStatusRequest({
+      alertId: '67b07e7f6d4a9b7a8b9957d1',
+      payload: { status: 'CANCELLED' },
+      requestId: 'req-owner-4',
+      updateAlertStatus,
+    });
+    expect(updated.statusCode).toBe(401);
+    expect(updateAlertStatus).not.toHaveBeenCalled();
+  });
+});
+
+describe('alert read queries', () => {
+  it('parses list filters and defaults the page size', () => {
+    const result = validateListAlertsQuery({ deviceId: ' device-123 ', status: 'DISPATCHED', since: '1739555000000' });
+    expect(result).toEqual({
+      ok: true,
+      value: { deviceId: 'device-123', status: 'DISPATCHED', since: 1_739_555_000_000, limit: 20, cursor: null },
+    });
+  });
+
+  it('rejects an unknown status and a malformed cursor', () => {
+    const result = validateListAlertsQuery({ status: 'LOST', cursor: 'abc' });
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.details.map((issue) => issue.field)).toEqual(['status', 'cursor']);
+    }
+  });
+
+  describe('list route', () => {
+    let server: Server | null = null;
+
+    async function getFromApp(
+      path: string,
+      deps: Pick<Parameters<typeof createApp>[0], 'listAlerts' | 'findAlert'>,
+      deviceId = 'device-123'
+    ) {
+      const app = createApp({
+        getDbHealth: () => ({ connected: true, readyStateCode: 1, readyState: 'connected' }),
+        createAlert: async () => {
+          throw new Error('not used');
+        },
+        ...deps,
+        verifyDeviceToken: (token) => ({ ok: true, deviceId: token, expiresAt: FIXED_NOW_MS + 60_000 }),
+        now: () => new Date(FIXED_NOW_MS),
+        uptimeSec: () => 1,
+        corsOrigins: [],
+      });
+      server = app.listen(0);
+      await new Promise<void>((resolve) => server?.once('listening', () => resolve()));
+      const { port } = server.address() as AddressInfo;
+      return fetch(`http://127.0.0.1:${port}${path}`, {
+        headers: { Authorization: `Bearer ${deviceId}` },
+      });
+    }
+
+    function getAlerts(query: string, listAlerts: NonNullable<Parameters<typeof createApp>[0]['listAlerts']>) {
+      return getFromApp(`/api/v1/alerts${query}`, { listAlerts });
+    }
+
+    afterEach(async () => {
+      await new Promise<void>((resolve) => (server ? server.close(() => resolve()) : resolve()));
+      server = null;
+    });
+
+    it('403 when listing another device\'s alerts', async () => {
+      const listAlerts = vi.fn(async () => ({ alerts: [], nextCursor: null }));
+      const response = await getAlerts('?deviceId=device-999', listAlerts);
+
+      expect(response.status).toBe(403);
+      expect(listAlerts).not.toHaveBeenCalled();
+    });
+
+    it('scopes an unfiltered list to the authenticated device', async () => {
+      const listAlerts = vi.fn(async () => ({ alerts: [], nextCursor: null }));
+      const response = await getAlerts('?status=DISPATCHED', listAlerts);
+
+      expect(response.status).toBe(200);
+      expect(listAlerts).toHaveBeenCalledWith(expect.objectContaining({ deviceId: 'device-123', status: 'DISPATCHED' }));
+    });
+
+    it('shows a single alert only to its victim, its responder or riders who can still accept it', async () => {
+      const base = buildAlertRecord({
+        deviceId: 'victim-1',
+        status: 'TRIGGERED',
+        triggeredAt: VALID_TRIGGERED_AT,
+        location: buildLocation(),
+      });
+      const assigned: AlertRecord = { ...base, status: 'RESPONDER_ASSIGNED', responderDeviceId: 'responder-1' };
+      const path = `/api/v1/alerts/${base.id}`;
+
+      const open = await getFromApp(path, { findAlert: async () => base }, 'bystander-1');
+      await new Promise<void>((resolve) => server?.close(() => resolve()));
+      const stale = await getFromApp(
+        path,
+        { findAlert: async () => ({ ...base, triggeredAt: FIXED_NOW_MS - 25 * 60 * 60 * 1000 }) },
+        'bystander-1'
+      );
+      await new Promise<void>((resolve) => server?.close(() => resolve()));
+      const taken = await getFromApp(path, { findAlert: async () => assigned }, 'bystander-1');
+      await new Promise<void>((resolve) => server?.close(() => resolve()));
+      const victim = await getFromApp(path, { findAlert: async () => assigned }, 'victim-1');
+      await new Promise<void>((resolve) => server?.close(() => resolve()));
+      const responder = await getFromApp(path, { findAlert: async () => assigned }, 'responder-1');
+
+      expect(open.status).toBe(200);
+      expect(stale.status).toBe(403);
+      expect(taken.status).toBe(403);
+      expect(victim.status).toBe(200);
+      expect(responder.status).toBe(200);
+    });
+  });
+
+  it('requires coordinates for nearby lookups and caps the radius', () => {
+    expect(validateNearbyAlertsQuery({ lat: '28.6', lon: '77.2' })).toEqual({
+      ok: true,
+      value: { latitude: 28.6, longitude: 77.2, radiusMeters: 10_000 },
+    });
+    const missing = validateNearbyAlertsQuery({ lat: '28.6' });
+    expect(missing.ok).toBe(false);
+    expect(validateNearbyAlertsQuery({ lat: '28.6', lon: '77.2', radius: '60000' }).ok).toBe(false);
+  });
+
+  it('keeps only located alerts inside the radius, nearest first', () => {
+    const base = buildAlertRecord({
+      deviceId: 'device-123',
+      status: 'TRIGGERED',
+      triggeredAt: VALID_TRIGGERED_AT,
+      location: buildLocation(),
+    });
+    const alerts = [
+      { ...base, id: 'far', location: buildLocation({ latitude: 28.7 }) },
+      { ...base, id: 'near', location: buildLocation({ latitude: 28.6149 }) },
+      { ...base, id: 'unlocated', location: null },
+    ];
+
+    const nearby = findAlertsNearPoint({ alerts, latitude: 28.6139, longitude: 77.209, radiusMeters: 5_000 });
+    expect(nearby.map((alert) => alert.id)).toEqual(['near']);
+    expect(nearby[0].distanceMeters).toBeGreaterThan(100);
+    expect(nearby[0].distanceMeters).toBeLessThan(120);
+  });
+
+  it('registers GET routes with nearby ahead of the id route', () => {
+    const router = createAlertsRouter({
+      nowMs: () => FIXED_NOW_MS,
+      createAlert: async (input: CreateAlertPersistenceInput) => buildAlertRecord(input),
+    });
+
+    const getPaths = (
+      (router as unknown as {
+        stack?: Array<{ route?: { path?: string; methods?: Record<string, boolean> } }>;
+      }).stack ?? []
+    )
+      .map((layer) => layer.route)
+      .filter((route) => route?.methods?.get)
+      .map((route) => route?.path);
+
+    expect(getPaths).toEqual(['/api/v1/alerts', '/api/v1/alerts/nearby', '/api/v1/alerts/:id']);
+  });
+});
+
+describe('alert resolution', () => {
+  const ALERT_ID = '67b07e7f6d4a9b7a8b9957d1';
+
+  function buildResolvedRecord(): AlertRecord {
+    return {
+      ...buildAlertRecord({
+        deviceId: 'device-123',
+        status: 'RESOLVED',
+        triggeredAt: VALID_TRIGGERED_AT,
+        location: buildLocation(),
+      }),
+      responderDeviceId: 'responder-1',
+      resolution: {
+        outcome: 'MINOR',
+        notes: 'Scraped knee, rider walked away.',
+        arrivedAt: FIXED_NOW_MS - 60_000,
+        resolvedAt: FIXED_NOW_MS,
+        resolvedByDeviceId: 'responder-1',
+      },
+    };
+  }
+
+  it('validates the outcome report and normalizes optional fields', () => {
+    expect(
+      validateResolveAlertPayload(
+        { deviceId: ' responder-1 ', outcome: 'FALSE_ALARM', notes: '   ', arrivedAt: null },
+        FIXED_NOW_MS
+      )
+    ).toEqual({
+      ok: true,
+      value: { deviceId: 'responder-1', outcome: 'FALSE_ALARM', notes: null, arrivedAt: null },
+    });
+
+    const invalid = validateResolveAlertPayload(
+      { deviceId: 'responder-1', outcome: 'FINE', arrivedAt: FIXED_NOW_MS + 10 * 60_000, extra: true },
+      FIXED_NOW_MS
+    );
+    expect(invalid.ok).toBe(false);
+    if (!invalid.ok) {
+      expect(invalid.details.map((issue) => issue.field)).toEqual(['extra', 'outcome', 'arrivedAt']);
+    }
+  });
+
+  it('200 resolves the alert and broadcasts the resolution', async () => {
+    const record = buildResolvedRecord();
+    const resolveAlert = vi.fn(async () => ({ kind: 'resolved' as const, record }));
+    const onAlertResolved = vi.fn();
+    const result = await processResolveAlertRequest({
+      alertId: ALERT_ID,
+      payload: { deviceId: 'responder-1', outcome: 'MINOR', notes: 'Scraped knee, rider walked away.' },
+      requestId: 'req-resolve-1',
+      nowMs: () => FIXED_NOW_MS,
+      resolveAlert,
+      onAlertResolved,
+      authDeviceId: 'responder-1',
+    });
+
+    expect(result.statusCode).toBe(200);
+    expect(resolveAlert).toHaveBeenCalledWith({
+      alertId: ALERT_ID,
+      deviceId: 'responder-1',
+      outcome: 'MINOR',
+      notes: 'Scraped knee, rider walked away.',
+      arrivedAt: null,
+      resolvedAt: FIXED_NOW_MS,
+    });
+    expect(onAlertResolved).toHaveBeenCalledWith(record);
+  });
+
+  it('403 for devices outside the incident and 409 once the alert is closed', async () => {
+    const mismatch = await processResolveAlertRequest({
+      alertId: ALERT_ID,
+      payload: { deviceId: 'responder-1', outcome: 'MINOR' },
+      requestId: 'req-resolve-2',
+      nowMs: () => FIXED_NOW_MS,
+      resolveAlert: async () => ({ kind: 'forbidden' }),
+      authDeviceId: 'device-999',
+    });
+    expect(mismatch.statusCode).toBe(403);
+
+    const bystander = await processResolveAlertRequest({
+      alertId: ALERT_ID,
+      payload: { deviceId: 'device-999', outcome: 'MINOR' },
+      requestId: 'req-resolve-3',
+      nowMs: () => FIXED_NOW_MS,
+      resolveAlert: async () => ({ kind: 'forbidden' }),
+      authDeviceId: 'device-999',
+    });
+    expect(bystander.statusCode).toBe(403);
+
+    const onAlertResolved = vi.fn();
+    const closed = await processResolveAlertRequest({
+      alertId: ALERT_ID,
+      payload: { deviceId: 'device-123', outcome: 'FALSE_ALARM' },
+      requestId: 'req-resolve-4',
+      nowMs: () => FIXED_NOW_MS,
+      resolveAlert: async () => ({ kind: 'blocked', currentStatus: 'CANCELLED' }),
+      onAlertResolved,
+      authDeviceId: 'device-123',
+    });
+    expect(closed.statusCode).toBe(409);
+    expect(closed.body).toMatchObject({ error: { code: 'INVALID_TRANSITION', currentStatus: 'CANCELLED' } });
+    expect(onAlertResolved).not.toHaveBeenCalled();
+  });
+
+  describe('resolveAlertRecord', () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    function resolvesLean<T>(value: T) {
+      return { lean: async () => value } as never;
+    }
+
+    function buildAlertDocument(status: AlertRecord['status']) {
+      return {
+        _id: new mongoose.Types.ObjectId(ALERT_ID),
+        deviceId: 'device-123',
+        status,
+        triggeredAt: VALID_TRIGGERED_AT,
+        location: null,
+        responderDeviceId: null,
+        dispatchStep: 1,
+        nextDispatchAt: FIXED_NOW_MS + 30_000,
+        dispatchSteps: [],
+        createdAt: VALID_TRIGGERED_AT,
+        updatedAt: VALID_TRIGGERED_AT,
+      };
+    }
+
+    const RESOLVE_INPUT = {
+      alertId: ALERT_ID,
+      outcome: 'FALSE_ALARM' as const,
+      notes: null,
+      arrivedAt: null,
+      resolvedAt: FIXED_NOW_MS,
+    };
+
+    it('lets the victim resolve an alert that is still dispatching and clears the next dispatch', async () => {
+      vi.spyOn(mongoose.Model, 'findById').mockReturnValue(resolvesLean(buildAlertDocument('DISPATCHING')));
+      const findOneAndUpdate = vi.spyOn(mongoose.Model, 'findOneAndUpdate').mockReturnValue(
+        resolvesLean({ ...buildAlertDocument('RESOLVED'), nextDispatchAt: null })
+      );
+      const create = vi
+        .spyOn(mongoose.Model, 'create')
+        .mockResolvedValue({ toObject: () => ({ _id: new mongoose.Types.ObjectId() }) } as never);
+
+      const result = await resolveAlertRecord({ ...RESOLVE_INPUT, deviceId: 'device-123' });
+
+      expect(result.kind).toBe('resolved');
+      expect(findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: ALERT_ID, status: 'DISPATCHING' },
+        { $set: expect.objectContaining({ status: 'RESOLVED', nextDispatchAt: null }) },
+        { new: true }
+      );
+      expect(create).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'ALERT_RESOLVED', fromStatus: 'DISPATCHING', toStatus: 'RESOLVED' })
+      );
+    });
+
+    it('keeps a dispatching alert closed to the responder side', async () => {
+      vi.spyOn(mongoose.Model, 'findById').mockReturnValue(
+        resolvesLean({ ...buildAlertDocument('DISPATCHED'), responderDeviceId: 'responder-1' })
+      );
+      const findOneAndUpdate = vi.spyOn(mongoose.Model, 'findOneAndUpdate');
+
+      const result = await resolveAlertRecord({ ...RESOLVE_INPUT, deviceId: 'responder-1' });
+
+      expect(result).toEqual({ kind: 'blocked', currentStatus: 'DISPATCHED' });
+      expect(findOneAndUpdate).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import express from 'express';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { createContactsRouter, validateContactPayload } from '../routes/contacts';
+import {
+  buildContactNotificationMessage,
+  createFileContactNotifier,
+  notifyAlertContacts,
+  type ContactNotifier,
+} from '../services/contactNotifier';
+import type { AlertRecord } from '../types/alert';
+import type { EmergencyContactRecord } from '../types/contact';
+
+const FIXED_NOW_MS = 1_739_555_556_000;
+
+function buildAlert(overrides?: Partial<AlertRecord>): AlertRecord {
+  return {
+    id: 'alert-1',
+    deviceId: 'device-123',
+    victimName: 'Asha',
+    status: 'TRIGGERED',
+    triggeredAt: FIXED_NOW_MS - 1000,
+    location: {
+      latitude: 28.6139,
+      longitude: 77.209,
+      timestamp: FIXED_NOW_MS - 1000,
+      breadcrumbTrail: [],
+    },
+    createdAt: FIXED_NOW_MS,
+    updatedAt: FIXED_NOW_MS,
+    ...overrides,
+  };
+}
+
+function buildContact(overrides?: Partial<EmergencyContactRecord>): EmergencyContactRecord {
+  return {
+    id: 'contact-1',
+    deviceId: 'device-123',
+    name: 'Ravi',
+    phone: '9876543210',
+    email: null,
+    createdAt: FIXED_NOW_MS,
+    updatedAt: FIXED_NOW_MS,
+    ...overrides,
+  };
+}
+
+describe('contact payload validation', () => {
+  it('normalizes phone digits and email', () => {
+    const result = validateContactPayload({ name: '  Ravi ', phone: '(987) 654-3210', email: ' Ravi@Example.com ' });
+    expect(result).toEqual({
+      ok: true,
+      value: { name: 'Ravi', phone: '9876543210', email: 'ravi@example.com' },
+    });
+  });
+
+  it('rejects phone numbers without exactly ten digits', () => {
+    const result = validateContactPayload({ name: 'Ravi', phone: '12345' });
+    expect(result).toEqual({ ok: false, message: 'phone must contain exactly 10 digits.' });
+  });
+
+  it('rejects malformed email addresses', () => {
+    const result = validateContactPayload({ name: 'Ravi', phone: '9876543210', email: 'not-an-email' });
+    expect(result.ok).toBe(false);
+  });
+});
+
+describe('contact routes', () => {
+  let server: Server | null = null;
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => (server ? server.close(() => resolve()) : resolve()));
+    server = null;
+  });
+
+  it('401 instead of listing contacts when the router is reached without device auth', async () => {
+    const listContacts = vi.fn(async () => [buildContact()]);
+    const app = express();
+    app.use(
+      createContactsRouter({
+        listContacts,
+        createContact: async () => ({ kind: 'limit_reached', maxContacts: 0 }),
+        updateContact: async () => ({ kind: 'not_found' }),
+        deleteContact: async () => ({ removed: false }),
+      })
+    );
+    server = app.listen(0);
+    await new Promise<void>((resolve) => server?.once('listening', () => resolve()));
+    const { port } = server.address() as AddressInfo;
+
+    const response = await fetch(`http://127.0.0.1:${port}/api/v1/riders/device-123/contacts`);
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toMatchObject({ error: { code: 'UNAUTHORIZED' } });
+    expect(listContacts).not.toHaveBeenCalled();
+  });
+});
+
+describe('contact notifications', () => {
+  it('builds a message with victim name, maps link and alert id', () => {
+    const message = buildContactNotificationMessage(buildAlert(), 'ALERT_CREATED');
+    expect(message).toContain('Asha');
+    expect(message).toContain('https://maps.google.com/?q=28.613900,77.209000');
+    expect(message).toContain('Alert ID: alert-1');
+  });
+
+  it('sends one notification per registered contact and reports failures', async () => {
+    const send = vi
+      .fn<ContactNotifier['send']>()
+      .mockResolvedValueOnce({ ok: true, channel: 'test' })
+      .mockRejectedValueOnce(new Error('gateway down'));
+    const results = await notifyAlertContacts({
+      alert: buildAlert(),
+      event: 'ALERT_ESCALATED',
+      listContacts: async () => [buildContact(), buildContact({ id: 'contact-2', phone: '9123456780' })],
+      notifier: { channel: 'test', send },
+    });
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(send.mock.calls[0]?.[0].event).toBe('ALERT_ESCALATED');
+    expect(results).toEqual([
+      { ok: true, channel: 'test' },
+      { ok: false, channel: 'test', reason: 'gateway down' },
+    ]);
+  });
+
+  it('appends notifications to a file when using the file notifier', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'contact-notifier-'));
+    try {
+      const filePath = join(dir, 'notifications.log');
+      const notifier = createFileContactNotifier(filePath);
+      const result = await notifier.send({
+        event: 'ALERT_CREATED',
+        alertId: 'alert-1',
+        contact: buildContact(),
+        message: 'hello',
+      });
+
+      expect(result).toEqual({ ok: true, channel: 'file' });
+      const lines = (await readFile(filePath, 'utf8')).trim().split('\n');
+      expect(lines).toHaveLength(1);
+      expect(JSON.parse(lines[0] ?? '{}')).toMatchObject({ alertId: 'alert-1', message: 'hello' });
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,149 @@
+import { generateKeyPairSync, randomBytes, sign } from 'node:crypto';
+
+import { describe, expect, it } from 'vitest';
+
+import { validateDeviceProofPayload } from '../routes/devices';
+import {
+  buildDeviceCertificateMessage,
+  buildDeviceTokenMessage,
+  createDeviceCertificateAuthority,
+  createDeviceTokenService,
+  DEVICE_CERTIFICATE_TTL_MS,
+  readBearerToken,
+  verifyDeviceSignature,
+} from '../services/deviceAuthService';
+
+const FIXED_NOW_MS = 1_739_555_556_000;
+const SECRET = 'test-secret-with-at-least-32-characters';
+
+function createDeviceKeys() {
+  const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+  const jwk = publicKey.export({ format: 'jwk' }) as { x: string };
+  return {
+    publicKey: Buffer.from(jwk.x, 'base64url').toString('base64'),
+    sign: (message: string) => sign(null, Buffer.from(message, 'utf8'), privateKey).toString('base64'),
+  };
+}
+
+describe('device signatures', () => {
+  it('verifies an Ed25519 signature over the token request message', () => {
+    const keys = createDeviceKeys();
+    const message = buildDeviceTokenMessage({ deviceId: 'device-123', timestamp: FIXED_NOW_MS });
+
+    expect(verifyDeviceSignature({ message, signature: keys.sign(message), publicKey: keys.publicKey })).toBe(true);
+  });
+
+  it('rejects a signature made by another key or over another message', () => {
+    const keys = createDeviceKeys();
+    const other = createDeviceKeys();
+    const message = buildDeviceTokenMessage({ deviceId: 'device-123', timestamp: FIXED_NOW_MS });
+
+    expect(verifyDeviceSignature({ message, signature: other.sign(message), publicKey: keys.publicKey })).toBe(false);
+    expect(
+      verifyDeviceSignature({ message: `${message}0`, signature: keys.sign(message), publicKey: keys.publicKey })
+    ).toBe(false);
+    expect(verifyDeviceSignature({ message, signature: 'not-base64!', publicKey: keys.publicKey })).toBe(false);
+  });
+
+  it('rejects proofs with a stale timestamp', () => {
+    const result = validateDeviceProofPayload(
+      { deviceId: 'device-123', timestamp: FIXED_NOW_MS - 10 * 60 * 1000, signature: 'abc' },
+      FIXED_NOW_MS,
+      { requirePublicKey: false }
+    );
+    expect(result).toEqual({ ok: false, message: 'timestamp must be within 5 minutes of server time.' });
+  });
+
+  it('rejects device ids outside the format the app generates', () => {
+    for (const deviceId of ['device 123', 'device.123', '$where', 'd'.repeat(65)]) {
+      const result = validateDeviceProofPayload(
+        { deviceId, timestamp: FIXED_NOW_MS, signature: 'abc' },
+        FIXED_NOW_MS,
+        { requirePublicKey: false }
+      );
+      expect(result).toEqual({ ok: false, message: 'deviceId must be 1-64 letters, digits, "-" or "_".' });
+    }
+    expect(
+      validateDeviceProofPayload(
+        { deviceId: 'device-1739555556000-k3x9a2b1', timestamp: FIXED_NOW_MS, signature: 'abc' },
+        FIXED_NOW_MS,
+        { requirePublicKey: false }
+      ).ok
+    ).toBe(true);
+  });
+
+  it('requires a 32-byte public key for registration', () => {
+    const result = validateDeviceProofPayload(
+      { deviceId: 'device-123', publicKey: 'c2hvcnQ=', timestamp: FIXED_NOW_MS, signature: 'abc' },
+      FIXED_NOW_MS,
+      { requirePublicKey: true }
+    );
+    expect(result.ok).toBe(false);
+  });
+});
+
+describe('device tokens', () => {
+  it('round-trips the device id until the token expires', () => {
+    let nowMs = FIXED_NOW_MS;
+    const tokens = createDeviceTokenService({ secret: SECRET, nowMs: () => nowMs, ttlMs: 60_000 });
+    const issued = tokens.issue('device-123');
+
+    expect(tokens.verify(issued.token)).toEqual({ ok: true, deviceId: 'device-123', expiresAt: FIXED_NOW_MS + 60_000 });
+
+    nowMs += 60_000;
+    expect(tokens.verify(issued.token)).toEqual({ ok: false, reason: 'EXPIRED' });
+  });
+
+  it('rejects tokens that were altered or signed with another secret', () => {
+    const tokens = createDeviceTokenService({ secret: SECRET, nowMs: () => FIXED_NOW_MS });
+    const foreign = createDeviceTokenService({ secret: `${SECRET}-other`, nowMs: () => FIXED_NOW_MS });
+    const issued = tokens.issue('device-123');
+    const [, mac] = issued.token.split('.');
+    const forgedBody = Buffer.from(JSON.stringify({ deviceId: 'device-999', expiresAt: FIXED_NOW_MS + 60_000 })).toString(
+      'base64url'
+    );
+
+    expect(tokens.verify(`${forgedBody}.${mac}`)).toEqual({ ok: false, reason: 'BAD_SIGNATURE' });
+    expect(tokens.verify(foreign.issue('device-123').token)).toEqual({ ok: false, reason: 'BAD_SIGNATURE' });
+    expect(tokens.verify('garbage')).toEqual({ ok: false, reason: 'MALFORMED' });
+  });
+
+  it('reads bearer tokens from the authorization header', () => {
+    expect(readBearerToken('Bearer abc.def')).toBe('abc.def');
+    expect(readBearerToken('Basic abc')).toBeNull();
+    expect(readBearerToken(undefined)).toBeNull();
+  });
+});
+
+describe('device certificates', () => {
+  it('signs the device id and key so they verify against the authority key', () => {
+    const device = createDeviceKeys();
+    const authority = createDeviceCertificateAuthority({ seed: randomBytes(32), nowMs: () => FIXED_NOW_MS });
+    const { signature, ...certificate } = authority.issue({ deviceId: 'device-123', publicKey: device.publicKey });
+
+    expect(certificate.expiresAt).toBe(FIXED_NOW_MS + DEVICE_CERTIFICATE_TTL_MS);
+    expect(
+      verifyDeviceSignature({
+        message: buildDeviceCertificateMessage(certificate),
+        signature,
+        publicKey: authority.publicKey,
+      })
+    ).toBe(true);
+    expect(
+      verifyDeviceSignature({
+        message: buildDeviceCertificateMessage({ ...certificate, deviceId: 'device-456' }),
+        signature,
+        publicKey: authority.publicKey,
+      })
+    ).toBe(false);
+  });
+
+  it('derives the same authority key from the same seed', () => {
+    const seed = randomBytes(32);
+    const first = createDeviceCertificateAuthority({ seed, nowMs: () => FIXED_NOW_MS });
+    const second = createDeviceCertificateAuthority({ seed, nowMs: () => FIXED_NOW_MS });
+
+    expect(first.publicKey).toBe(second.publicKey);
+    expect(() => createDeviceCertificateAuthority({ seed: randomBytes(16), nowMs: () => FIXED_NOW_MS })).toThrow();
+  });
+});
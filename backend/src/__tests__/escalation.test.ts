@@ -0,0 +1,172 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { haversineMeters } from '../services/dispatchService';
+import { createEscalationScheduler, type EscalationSchedulerDeps } from '../services/escalationService';
+import type { AlertRecord } from '../types/alert';
+import type { RiderPresenceRecord } from '../types/rider';
+
+const FIXED_NOW_MS = 1_739_555_556_000;
+const LADDER = [
+  { radiusMeters: 1_000, waitMs: 60_000 },
+  { radiusMeters: 3_000, waitMs: 60_000 },
+];
+
+function buildAlert(overrides?: Partial<AlertRecord>): AlertRecord {
+  return {
+    id: 'alert-1',
+    deviceId: 'victim-device',
+    status: 'TRIGGERED',
+    triggeredAt: FIXED_NOW_MS,
+    location: { latitude: 28.6139, longitude: 77.209, timestamp: FIXED_NOW_MS, breadcrumbTrail: [] },
+    dispatchStep: 0,
+    nextDispatchAt: FIXED_NOW_MS,
+    dispatchSteps: [],
+    createdAt: FIXED_NOW_MS,
+    updatedAt: FIXED_NOW_MS,
+    ...overrides,
+  };
+}
+
+function buildRider(deviceId: string, latitudeOffset: number): RiderPresenceRecord {
+  return {
+    id: deviceId,
+    deviceId,
+    latitude: 28.6139 + latitudeOffset,
+    longitude: 77.209,
+    timestamp: FIXED_NOW_MS,
+    lastSeenAt: FIXED_NOW_MS,
+    updatedAt: FIXED_NOW_MS,
+    createdAt: FIXED_NOW_MS,
+  };
+}
+
+// One alert held in memory, with the same step claim semantics as the Mongo model.
+function buildHarness(riders: RiderPresenceRecord[]) {
+  let nowMs = FIXED_NOW_MS;
+  let stored = buildAlert();
+  const onRidersNotified = vi.fn();
+  const onEscalated = vi.fn();
+
+  const deps: EscalationSchedulerDeps = {
+    ladder: LADDER,
+    nowMs: () => nowMs,
+    pollIntervalMs: 1_000,
+    leaseMs: 30_000,
+    riderActiveWindowMs: 60_000,
+    findNearbyRiders: async (query) =>
+      riders
+        .filter((rider) => rider.lastSeenAt >= query.sinceMs && rider.deviceId !== query.excludeDeviceId)
+        .map((rider) => ({ deviceId: rider.deviceId, distanceMeters: haversineMeters(query, rider) }))
+        .filter((match) => match.distanceMeters <= query.radiusMeters)
+        .sort((a, b) => a.distanceMeters - b.distanceMeters),
+    listDueAlerts: async (now) =>
+      stored.nextDispatchAt !== null && (stored.nextDispatchAt ?? 0) <= now ? [stored] : [],
+    beginStep: async ({ step, nowMs: now, leaseMs }) => {
+      if (stored.dispatchStep !== step || stored.status === 'ESCALATED') {
+        return null;
+      }
+      stored = { ...stored, status: 'DISPATCHING', nextDispatchAt: now + leaseMs };
+      return stored;
+    },
+    completeStep: async ({ record, nextDispatchAt }) => {
+      stored = {
+        ...stored,
+        status: 'DISPATCHED',
+        dispatchStep: (stored.dispatchStep ?? 0) + 1,
+        nextDispatchAt,
+        dispatchSteps: [...(stored.dispatchSteps ?? []), record],
+      };
+      return stored;
+    },
+    escalate: async ({ record }) => {
+      stored = {
+        ...stored,
+        status: 'ESCALATED',
+        nextDispatchAt: null,
+        dispatchSteps: [...(stored.dispatchSteps ?? []), record],
+      };
+      return stored;
+    },
+    onRidersNotified,
+    onEscalated,
+  };
+
+  return {
+    scheduler: createEscalationScheduler(deps),
+    advance: (ms: number) => {
+      nowMs += ms;
+    },
+    current: () => stored,
+    onRidersNotified,
+    onEscalated,
+  };
+}
+
+describe('escalation ladder', () => {
+  it('dispatches at the first radius and schedules the next step', async () => {
+    // ~0.5 km and ~2.2 km north of the alert.
+    const harness = buildHarness([buildRider('near', 0.0045), buildRider('far', 0.02)]);
+
+    await harness.scheduler.runStep(harness.current());
+
+    const alert = harness.current();
+    expect(alert.status).toBe('DISPATCHED');
+    expect(alert.dispatchStep).toBe(1);
+    expect(alert.nextDispatchAt).toBe(FIXED_NOW_MS + 60_000);
+    expect(alert.dispatchSteps?.[0]).toMatchObject({
+      step: 0,
+      action: 'DISPATCH',
+      radiusMeters: 1_000,
+      candidateRiders: 1,
+      notifiedDeviceIds: ['near'],
+    });
+    expect(harness.onRidersNotified).toHaveBeenCalledTimes(1);
+  });
+
+  it('widens the radius without re-notifying riders from earlier steps', async () => {
+    const harness = buildHarness([buildRider('near', 0.0045), buildRider('far', 0.02)]);
+    await harness.scheduler.runStep(harness.current());
+
+    harness.advance(30_000);
+    expect(await harness.scheduler.runDueSteps()).toBe(0);
+
+    harness.advance(30_000);
+    expect(await harness.scheduler.runDueSteps()).toBe(1);
+
+    const secondStep = harness.current().dispatchSteps?.[1];
+    expect(secondStep?.radiusMeters).toBe(3_000);
+    expect(secondStep?.matchedDeviceIds).toEqual(['near', 'far']);
+    expect(secondStep?.notifiedDeviceIds).toEqual(['far']);
+    const [, matches] = harness.onRidersNotified.mock.calls[1];
+    expect(matches.map((match: { deviceId: string }) => match.deviceId)).toEqual(['far']);
+  });
+
+  it('escalates after the final step times out', async () => {
+    const harness = buildHarness([]);
+    await harness.scheduler.runStep(harness.current());
+    harness.advance(60_000);
+    await harness.scheduler.runDueSteps();
+    harness.advance(60_000);
+    await harness.scheduler.runDueSteps();
+
+    const alert = harness.current();
+    expect(alert.status).toBe('ESCALATED');
+    expect(alert.nextDispatchAt).toBeNull();
+    expect(alert.dispatchSteps?.map((entry) => entry.action)).toEqual(['DISPATCH', 'DISPATCH', 'ESCALATE']);
+    expect(harness.onRidersNotified).not.toHaveBeenCalled();
+    expect(harness.onEscalated).toHaveBeenCalledTimes(1);
+
+    harness.advance(60_000);
+    expect(await harness.scheduler.runDueSteps()).toBe(0);
+  });
+
+  it('skips a step that another worker already claimed', async () => {
+    const harness = buildHarness([buildRider('near', 0.0045)]);
+    const snapshot = harness.current();
+    await harness.scheduler.runStep(snapshot);
+
+    expect(await harness.scheduler.runStep(snapshot)).toBeNull();
+    expect(harness.current().dispatchSteps).toHaveLength(1);
+    expect(harness.onRidersNotified).toHaveBeenCalledTimes(1);
+  });
+});
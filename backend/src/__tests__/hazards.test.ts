@@ -0,0 +1,453 @@
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+import mongoose from 'mongoose';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { createApp } from '../app';
+import {
+  castHazardVote,
+  listHazardRecords,
+  mergeIntoNearbyHazard,
+  removeExpiredHazardRecords,
+  removeHazardRecord,
+} from '../models/hazard';
+import { validateCreateHazardPayload, validateHazardAreaQuery } from '../routes/hazards';
+import {
+  computeHazardConfidence,
+  createHazardSweeper,
+  hazardExpiresAt,
+  shouldRemoveHazard,
+} from '../services/hazardLifecycleService';
+import type { CreateHazardInput, HazardRecord } from '../types/hazard';
+
+const FIXED_NOW_MS = 1_739_555_556_000;
+
+describe('hazard area query validation', () => {
+  it('returns no area when no geo params are given', () => {
+    expect(validateHazardAreaQuery({})).toEqual({ ok: true, value: null });
+  });
+
+  it('parses a radius query', () => {
+    const result = validateHazardAreaQuery({ lat: '28.6139', lon: '77.209', radius: '2000' });
+    expect(result).toEqual({
+      ok: true,
+      value: { kind: 'radius', latitude: 28.6139, longitude: 77.209, radiusMeters: 2000 },
+    });
+  });
+
+  it('parses a bounding box', () => {
+    const result = validateHazardAreaQuery({ bbox: '77.1,28.5,77.3,28.7' });
+    expect(result).toEqual({
+      ok: true,
+      value: { kind: 'bbox', minLongitude: 77.1, minLatitude: 28.5, maxLongitude: 77.3, maxLatitude: 28.7 },
+    });
+  });
+
+  it('rejects oversized radii, inverted boxes and mixed params', () => {
+    expect(validateHazardAreaQuery({ lat: '28.6', lon: '77.2', radius: '60000' }).ok).toBe(false);
+    expect(validateHazardAreaQuery({ bbox: '77.3,28.5,77.1,28.7' }).ok).toBe(false);
+    expect(validateHazardAreaQuery({ bbox: '77.1,28.5,77.3', lat: '28.6' }).ok).toBe(false);
+    expect(validateHazardAreaQuery({ lat: '28.6', lon: '77.2' }).ok).toBe(false);
+  });
+});
+
+describe('hazard listing', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('caps the newest-first list when no area is given', async () => {
+    const query = { sort: vi.fn(), limit: vi.fn(), lean: vi.fn(async () => []) };
+    query.sort.mockReturnValue(query);
+    query.limit.mockReturnValue(query);
+    const find = vi.spyOn(mongoose.Model, 'find').mockReturnValue(query as never);
+
+    await listHazardRecords(null);
+
+    expect(find).toHaveBeenCalledWith({});
+    expect(query.sort).toHaveBeenCalledWith({ createdAt: -1 });
+    expect(query.limit).toHaveBeenCalledWith(500);
+  });
+});
+
+describe('hazard create validation', () => {
+  const basePayload = { type: 'ANIMAL', latitude: 28.6139, longitude: 77.209, deviceId: 'device-1' };
+
+  it('defaults the optional report details to null', () => {
+    expect(validateCreateHazardPayload(basePayload)).toEqual({
+      ok: true,
+      value: {
+        type: 'ANIMAL',
+        latitude: 28.6139,
+        longitude: 77.209,
+        reporterDeviceId: 'device-1',
+        severity: null,
+        description: null,
+        heading: null,
+      },
+    });
+  });
+
+  it('keeps severity, a trimmed description and heading', () => {
+    const result = validateCreateHazardPayload({
+      ...basePayload,
+      type: 'OIL_SPILL',
+      severity: 4,
+      description: '  Diesel across both lanes  ',
+      heading: 182.5,
+    });
+    expect(result.ok && result.value).toMatchObject({
+      type: 'OIL_SPILL',
+      severity: 4,
+      description: 'Diesel across both lanes',
+      heading: 182.5,
+    });
+  });
+
+  it('rejects out-of-range severity, long descriptions and invalid headings', () => {
+    const result = validateCreateHazardPayload({
+      ...basePayload,
+      severity: 6,
+      description: 'x'.repeat(281),
+      heading: 360,
+    });
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.details.map((detail) => detail.field)).toEqual([
+      'severity',
+      'description',
+      'heading',
+    ]);
+    expect(validateCreateHazardPayload({ ...basePayload, severity: 2.5 }).ok).toBe(false);
+  });
+});
+
+describe('hazard create merging', () => {
+  const reportBody = { type: 'POTHOLE', latitude: 28.6139, longitude: 77.209, deviceId: 'device-2' };
+  let server: Server | null = null;
+
+  function createRecord(overrides: Partial<HazardRecord> = {}): HazardRecord {
+    return {
+      id: 'hazard-1',
+      type: 'POTHOLE',
+      latitude: 28.6139,
+      longitude: 77.209,
+      severity: null,
+      description: null,
+      heading: null,
+      photoUrl: null,
+      reporterDeviceId: 'device-1',
+      reportCount: 1,
+      confirmations: 0,
+      denials: 0,
+      confidence: 1,
+      lastConfirmedAt: null,
+      expiresAt: FIXED_NOW_MS + 60_000,
+      createdAt: FIXED_NOW_MS,
+      updatedAt: FIXED_NOW_MS,
+      ...overrides,
+    };
+  }
+
+  async function postReport(deps: {
+    mergeIntoNearbyHazard: (
+      input: CreateHazardInput,
+      options: { mergeRadiusMeters: number; nowMs: number }
+    ) => Promise<HazardRecord | null>;
+    createHazard: (input: CreateHazardInput) => Promise<HazardRecord>;
+    hazardMergeRadiusMeters: number;
+    onHazardCreated?: (hazard: HazardRecord) => void;
+    onHazardUpdated?: (hazard: HazardRecord) => void;
+  }, body: Record<string, unknown> = reportBody) {
+    const app = createApp({
+      getDbHealth: () => ({ connected: true, readyStateCode: 1, readyState: 'connected' }),
+      createAlert: async () => {
+        throw new Error('not used');
+      },
+      verifyDeviceToken: (token) => ({ ok: true, deviceId: token, expiresAt: FIXED_NOW_MS + 60_000 }),
+      now: () => new Date(FIXED_NOW_MS),
+      uptimeSec: () => 1,
+      corsOrigins: [],
+      ...deps,
+    });
+    server = app.listen(0);
+    await new Promise<void>((resolve) => server?.once('listening', () => resolve()));
+    const { port } = server.address() as AddressInfo;
+
+    const response = await fetch(`http://127.0.0.1:${port}/api/v1/hazards`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${reportBody.deviceId}` },
+      body: JSON.stringify(body),
+    });
+    return { status: response.status, body: await response.json() };
+  }
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await new Promise<void>((resolve) => (server ? server.close(() => resolve()) : resolve()));
+    server = null;
+  });
+
+  it('folds a repeat report into the nearby hazard and answers MERGED', async () => {
+    const merged = createRecord({ reportCount: 2, updatedAt: FIXED_NOW_MS + 1 });
+    const mergeDep = vi.fn(async () => merged);
+    const createHazard = vi.fn(async () => createRecord({ id: 'hazard-2' }));
+    const onHazardCreated = vi.fn();
+    const onHazardUpdated = vi.fn();
+
+    const { status, body } = await postReport({
+      mergeIntoNearbyHazard: mergeDep,
+      createHazard,
+      hazardMergeRadiusMeters: 25,
+      onHazardCreated,
+      onHazardUpdated,
+    });
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ outcome: 'MERGED', data: { id: 'hazard-1', reportCount: 2 } });
+    expect(mergeDep).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'POTHOLE', latitude: 28.6139, longitude: 77.209 }),
+      { mergeRadiusMeters: 25, nowMs: FIXED_NOW_MS }
+    );
+    expect(createHazard).not.toHaveBeenCalled();
+    expect(onHazardUpdated).toHaveBeenCalledWith(merged);
+    expect(onHazardCreated).not.toHaveBeenCalled();
+  });
+
+  it('creates a new hazard when nothing mergeable is nearby', async () => {
+    const created = createRecord({ id: 'hazard-2', reporterDeviceId: 'device-2' });
+    const createHazard = vi.fn(async () => created);
+    const onHazardCreated = vi.fn();
+
+    const { status, body } = await postReport({
+      mergeIntoNearbyHazard: async () => null,
+      createHazard,
+      hazardMergeRadiusMeters: 25,
+      onHazardCreated,
+    });
+
+    expect(status).toBe(201);
+    expect(body).toMatchObject({ outcome: 'CREATED', data: { id: 'hazard-2', reportCount: 1 } });
+    expect(createHazard).toHaveBeenCalledOnce();
+    expect(onHazardCreated).toHaveBeenCalledWith(created);
+  });
+
+  it('never merges when the merge radius is zero', async () => {
+    const mergeDep = vi.fn(async () => createRecord());
+
+    const { status, body } = await postReport({
+      mergeIntoNearbyHazard: mergeDep,
+      createHazard: async () => createRecord({ id: 'hazard-2' }),
+      hazardMergeRadiusMeters: 0,
+    });
+
+    expect(status).toBe(201);
+    expect(body.outcome).toBe('CREATED');
+    expect(mergeDep).not.toHaveBeenCalled();
+  });
+
+  it('stores a "$"-prefixed description as text when merging', async () => {
+    const existing = { _id: new mongoose.Types.ObjectId(), type: 'POTHOLE', latitude: 28.6139, longitude: 77.209 };
+    vi.spyOn(mongoose.Model, 'findOne').mockReturnValue({ lean: async () => existing } as never);
+    const findOneAndUpdate = vi.spyOn(mongoose.Model, 'findOneAndUpdate').mockReturnValue({
+      lean: async () => ({
+        ...existing,
+        reporterDeviceId: 'device-1',
+        reportCount: 2,
+        description: '$$ROOT',
+        votes: [],
+        createdAt: FIXED_NOW_MS,
+        updatedAt: FIXED_NOW_MS,
+      }),
+    } as never);
+
+    const { status } = await postReport(
+      {
+        mergeIntoNearbyHazard,
+        createHazard: async () => createRecord({ id: 'hazard-2' }),
+        hazardMergeRadiusMeters: 25,
+      },
+      { ...reportBody, description: '$$ROOT' }
+    );
+
+    expect(status).toBe(200);
+    const [stage] = findOneAndUpdate.mock.calls[0]?.[1] as { $set: Record<string, unknown> }[];
+    expect(stage.$set.description).toEqual({ $ifNull: ['$description', { $literal: '$$ROOT' }] });
+  });
+
+  it('only merges into an unexpired hazard of the same type within the radius', async () => {
+    const findOne = vi.spyOn(mongoose.Model, 'findOne').mockReturnValue({ lean: async () => null } as never);
+    const input: CreateHazardInput = {
+      type: 'POTHOLE',
+      latitude: 28.6139,
+      longitude: 77.209,
+      reporterDeviceId: 'device-2',
+      severity: null,
+      description: null,
+      heading: null,
+    };
+
+    const result = await mergeIntoNearbyHazard(input, { mergeRadiusMeters: 25, nowMs: FIXED_NOW_MS });
+
+    expect(result).toBeNull();
+    expect(findOne).toHaveBeenCalledWith({
+      type: 'POTHOLE',
+      expiresAt: { $gt: FIXED_NOW_MS },
+      location: {
+        $nearSphere: {
+          $geometry: { type: 'Point', coordinates: [77.209, 28.6139] },
+          $maxDistance: 25,
+        },
+      },
+    });
+  });
+});
+
+describe('hazard lifecycle', () => {
+  it('counts the original report as a confirmation when scoring confidence', () => {
+    expect(computeHazardConfidence(0, 0)).toBe(1);
+    expect(computeHazardConfidence(1, 2)).toBe(0.5);
+    expect(computeHazardConfidence(0, 3)).toBe(0.25);
+  });
+
+  it('removes a hazard only once enough denials outweigh confirmations', () => {
+    expect(shouldRemoveHazard(0, 2)).toBe(false);
+    expect(shouldRemoveHazard(0, 3)).toBe(true);
+    expect(shouldRemoveHazard(2, 3)).toBe(false);
+    expect(shouldRemoveHazard(2, 4)).toBe(true);
+  });
+
+  it('expires waterlogging within hours and construction after weeks', () => {
+    expect(hazardExpiresAt('WATERLOGGING', FIXED_NOW_MS) - FIXED_NOW_MS).toBeLessThanOrEqual(24 * 60 * 60 * 1000);
+    expect(hazardExpiresAt('CONSTRUCTION', FIXED_NOW_MS) - FIXED_NOW_MS).toBeGreaterThanOrEqual(
+      7 * 24 * 60 * 60 * 1000
+    );
+  });
+
+  it('reports expired hazard ids from a sweep', async () => {
+    const removeExpired = vi.fn(async () => ['hazard-1', 'hazard-2']);
+    const onHazardsExpired = vi.fn();
+    const sweeper = createHazardSweeper({
+      nowMs: () => FIXED_NOW_MS,
+      intervalMs: 60_000,
+      removeExpired,
+      onHazardsExpired,
+    });
+
+    expect(await sweeper.sweep()).toBe(2);
+    expect(removeExpired).toHaveBeenCalledWith(FIXED_NOW_MS);
+    expect(onHazardsExpired).toHaveBeenCalledWith(['hazard-1', 'hazard-2']);
+  });
+});
+
+describe('hazard photo cleanup', () => {
+  const photoFileId = new mongoose.Types.ObjectId();
+  const hazardId = new mongoose.Types.ObjectId();
+  const photo = { fileId: photoFileId, contentType: 'image/jpeg', size: 1024, uploadedAt: FIXED_NOW_MS };
+  let deleteFile: ReturnType<typeof vi.fn>;
+
+  function resolvesLean<T>(value: T) {
+    return { lean: async () => value } as never;
+  }
+
+  beforeEach(() => {
+    deleteFile = vi.fn(async () => undefined);
+    vi.spyOn(mongoose.mongo.GridFSBucket.prototype, 'delete').mockImplementation(deleteFile);
+    // The bucket only needs a db handle to construct; every call it makes is stubbed above.
+    Object.assign(mongoose.connection, { db: { collection: () => ({}) } });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    Object.assign(mongoose.connection, { db: undefined });
+  });
+
+  it('deletes the photo of a hazard its reporter removes', async () => {
+    vi.spyOn(mongoose.Model, 'findOneAndDelete').mockReturnValue(resolvesLean({ _id: hazardId, photo }));
+
+    const result = await removeHazardRecord({ hazardId: hazardId.toString(), deviceId: 'reporter-1' });
+
+    expect(result).toEqual({ kind: 'removed' });
+    expect(deleteFile).toHaveBeenCalledWith(photoFileId);
+  });
+
+  it('deletes the photo of a hazard voted off the map', async () => {
+    const denials = ['voter-1', 'voter-2', 'voter-3'].map((deviceId) => ({ deviceId, vote: 'DENY', at: FIXED_NOW_MS }));
+    const hazard = {
+      _id: hazardId,
+      type: 'POTHOLE',
+      latitude: 28.6139,
+      longitude: 77.209,
+      photo,
+      reporterDeviceId: 'reporter-1',
+      reportCount: 1,
+      votes: denials,
+      createdAt: FIXED_NOW_MS,
+      updatedAt: FIXED_NOW_MS,
+    };
+    vi.spyOn(mongoose.Model, 'findById').mockReturnValue(resolvesLean(hazard));
+    vi.spyOn(mongoose.Model, 'findOneAndUpdate').mockReturnValue(resolvesLean(hazard));
+    vi.spyOn(mongoose.Model, 'findOneAndDelete').mockReturnValue(resolvesLean({ _id: hazardId, photo }));
+
+    const result = await castHazardVote({
+      hazardId: hazardId.toString(),
+      deviceId: 'voter-3',
+      vote: 'DENY',
+      nowMs: FIXED_NOW_MS,
+    });
+
+    expect(result.kind).toBe('removed');
+    expect(deleteFile).toHaveBeenCalledWith(photoFileId);
+  });
+
+  it('deletes the photos of expired hazards', async () => {
+    const deleteMany = vi.spyOn(mongoose.Model, 'deleteMany').mockResolvedValue({} as never);
+    vi.spyOn(mongoose.Model, 'find').mockReturnValue(
+      resolvesLean([
+        { _id: hazardId, photo },
+        { _id: new mongoose.Types.ObjectId(), photo: null },
+      ])
+    );
+
+    const removed = await removeExpiredHazardRecords(FIXED_NOW_MS);
+
+    expect(removed).toHaveLength(2);
+    expect(deleteMany).toHaveBeenCalledOnce();
+    expect(deleteFile).toHaveBeenCalledTimes(1);
+    expect(deleteFile).toHaveBeenCalledWith(photoFileId);
+  });
+});
+
+describe('hazard votes', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('passes the voter id to the update pipeline as a literal', async () => {
+    const hazard = {
+      _id: new mongoose.Types.ObjectId(),
+      type: 'POTHOLE',
+      latitude: 28.6139,
+      longitude: 77.209,
+      reporterDeviceId: 'reporter-1',
+      votes: [],
+      createdAt: FIXED_NOW_MS,
+      updatedAt: FIXED_NOW_MS,
+    };
+    vi.spyOn(mongoose.Model, 'findById').mockReturnValue({ lean: async () => hazard } as never);
+    const findOneAndUpdate = vi
+      .spyOn(mongoose.Model, 'findOneAndUpdate')
+      .mockReturnValue({ lean: async () => hazard } as never);
+
+    await castHazardVote({
+      hazardId: hazard._id.toString(),
+      deviceId: '$reporterDeviceId',
+      vote: 'CONFIRM',
+      nowMs: FIXED_NOW_MS,
+    });
+
+    const pipeline = JSON.stringify(findOneAndUpdate.mock.calls[0]?.[1]);
+    expect(pipeline.split('{"$literal":"$reporterDeviceId"}')).toHaveLength(3);
+    expect(pipeline.replaceAll('{"$literal":"$reporterDeviceId"}', '')).not.toContain('$reporterDeviceId');
+  });
+});
@@ -0,0 +1,164 @@
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { createApp } from '../app';
+import type { CreateHazardInput } from '../types/hazard';
+import type { IdempotencyRecord, IdempotencyStore } from '../types/idempotency';
+
+const FIXED_NOW = new Date('2026-02-14T12:00:00.000Z');
+
+function createMemoryIdempotencyStore(): IdempotencyStore {
+  const records = new Map<string, IdempotencyRecord>();
+  return {
+    async claim({ scope, fingerprint, nowMs }) {
+      const existing = records.get(scope);
+      if (existing) {
+        return { kind: 'existing', record: existing };
+      }
+      records.set(scope, { scope, fingerprint, response: null, createdAt: nowMs });
+      return { kind: 'claimed' };
+    },
+    async complete(scope, response) {
+      const existing = records.get(scope);
+      if (existing) {
+        records.set(scope, { ...existing, response });
+      }
+    },
+    async release(scope) {
+      if (records.get(scope)?.response === null) {
+        records.delete(scope);
+      }
+    },
+  };
+}
+
+let server: Server | null = null;
+
+afterEach(async () => {
+  await new Promise<void>((resolve) => {
+    if (!server) {
+      resolve();
+      return;
+    }
+    server.close(() => resolve());
+  });
+  server = null;
+});
+
+async function startApp(createHazard: (input: CreateHazardInput) => Promise<void>): Promise<string> {
+  let nextId = 0;
+  const app = createApp({
+    getDbHealth: () => ({ connected: true, readyStateCode: 1, readyState: 'connected' }),
+    createAlert: async () => {
+      throw new Error('not used');
+    },
+    createHazard: async (input) => {
+      await createHazard(input);
+      nextId += 1;
+      return {
+        id: `hazard-${nextId}`,
+        type: input.type,
+        latitude: input.latitude,
+        longitude: input.longitude,
+        severity: input.severity,
+        description: input.description,
+        heading: input.heading,
+        photoUrl: null,
+        reporterDeviceId: input.reporterDeviceId,
+        reportCount: 1,
+        confirmations: 0,
+        denials: 0,
+        confidence: 1,
+        lastConfirmedAt: null,
+        expiresAt: 0,
+        createdAt: 0,
+        updatedAt: 0,
+      };
+    },
+    idempotencyStore: createMemoryIdempotencyStore(),
+    verifyDeviceToken: (token) => ({ ok: true, deviceId: token, expiresAt: FIXED_NOW.getTime() + 60_000 }),
+    now: () => FIXED_NOW,
+    uptimeSec: () => 1,
+    corsOrigins: [],
+  });
+
+  server = app.listen(0);
+  await new Promise<void>((resolve) => server?.once('listening', () => resolve()));
+  const { port } = server.address() as AddressInfo;
+  return `http://127.0.0.1:${port}`;
+}
+
+function postHazard(baseUrl: string, body: Record<string, unknown>, idempotencyKey?: string) {
+  return fetch(`${baseUrl}/api/v1/hazards`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${String(body.deviceId)}`,
+      ...(idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+const hazardBody = { type: 'POTHOLE', latitude: 28.6139, longitude: 77.209, deviceId: 'device-1' };
+
+describe('idempotency keys', () => {
+  it('replays the first response instead of creating a duplicate', async () => {
+    const created: CreateHazardInput[] = [];
+    const baseUrl = await startApp(async (input) => {
+      created.push(input);
+    });
+
+    const first = await postHazard(baseUrl, hazardBody, 'outbox-key-0001');
+    const replay = await postHazard(baseUrl, hazardBody, 'outbox-key-0001');
+
+    expect(first.status).toBe(201);
+    expect(replay.status).toBe(201);
+    expect(replay.headers.get('idempotent-replayed')).toBe('true');
+    expect((await replay.json()).data.id).toBe((await first.json()).data.id);
+    expect(created).toHaveLength(1);
+  });
+
+  it('rejects a reused key carrying a different request', async () => {
+    const baseUrl = await startApp(async () => {});
+
+    await postHazard(baseUrl, hazardBody, 'outbox-key-0002');
+    const reused = await postHazard(baseUrl, { ...hazardBody, type: 'ANIMAL' }, 'outbox-key-0002');
+
+    expect(reused.status).toBe(422);
+    expect((await reused.json()).error.code).toBe('IDEMPOTENCY_KEY_REUSED');
+  });
+
+  it('does not store server errors so a retry runs the handler again', async () => {
+    let attempts = 0;
+    const baseUrl = await startApp(async () => {
+      attempts += 1;
+      if (attempts === 1) {
+        throw new Error('database unavailable');
+      }
+    });
+
+    const failed = await postHazard(baseUrl, hazardBody, 'outbox-key-0003');
+    const retried = await postHazard(baseUrl, hazardBody, 'outbox-key-0003');
+
+    expect(failed.status).toBe(500);
+    expect(retried.status).toBe(201);
+    expect(attempts).toBe(2);
+  });
+
+  it('leaves requests without a key untouched and rejects malformed keys', async () => {
+    const created: CreateHazardInput[] = [];
+    const baseUrl = await startApp(async (input) => {
+      created.push(input);
+    });
+
+    await postHazard(baseUrl, hazardBody);
+    await postHazard(baseUrl, hazardBody);
+    const malformed = await postHazard(baseUrl, hazardBody, 'short');
+
+    expect(created).toHaveLength(2);
+    expect(malformed.status).toBe(400);
+  });
+});
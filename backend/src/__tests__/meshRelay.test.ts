@@ -0,0 +1,543 @@
+import { generateKeyPairSync, randomBytes, sign } from 'node:crypto';
+
+import nacl from 'tweetnacl';
+import { describe, expect, it } from 'vitest';
+
+import { buildMeshTrust, processMeshRelayRequest, type CreateMeshRelayRouterDeps } from '../routes/meshRelay';
+import { createDeviceCertificateAuthority, verifyDeviceSignature } from '../services/deviceAuthService';
+import { buildMeshRelaySigningMessage, buildMeshSigningMessage } from '../services/meshEnvelopeService';
+import { createMeshKeyring } from '../services/meshSealService';
+import type { AlertRecord } from '../types/alert';
+import type {
+  ClaimMeshRelayMessageInput,
+  MeshEnvelope,
+  MeshEnvelopeV1,
+  MeshEnvelopeV2,
+  MeshKeysResponse,
+  MeshSealedContents,
+} from '../types/mesh';
+
+const FIXED_NOW_MS = 1_739_555_556_000;
+
+function createDeviceKeys() {
+  const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+  const jwk = publicKey.export({ format: 'jwk' }) as { x: string };
+  return {
+    publicKey: Buffer.from(jwk.x, 'base64url').toString('base64'),
+    sign: (message: string) => sign(null, Buffer.from(message, 'utf8'), privateKey).toString('base64'),
+  };
+}
+
+function createSignedEnvelope(
+  keys: ReturnType<typeof createDeviceKeys>,
+  overrides: Partial<Omit<MeshEnvelopeV1, 'signature' | 'relays'>> = {}
+): MeshEnvelopeV1 {
+  const unsigned: Omit<MeshEnvelopeV1, 'signature' | 'relays'> = {
+    version: 1,
+    messageId: 'mesh-1739555556000-abc123',
+    originDeviceId: 'victim-1',
+    originPublicKey: keys.publicKey,
+    type: 'SOS_TRIGGERED',
+    createdAt: FIXED_NOW_MS - 30_000,
+    hop: 0,
+    maxHops: 3,
+    payload: {
+      alertId: 'local-alert-1',
+      victimDeviceId: 'victim-1',
+      victimName: 'Asha',
+      triggeredAt: FIXED_NOW_MS - 30_000,
+      location: null,
+    },
+    ...overrides,
+  };
+  return { ...unsigned, signature: keys.sign(buildMeshSigningMessage(unsigned)), relays: [] };
+}
+
+function relayThrough<T extends MeshEnvelope>(
+  envelope: T,
+  relayKeys: ReturnType<typeof createDeviceKeys>,
+  deviceId: string
+): T {
+  const hop = envelope.hop + 1;
+  const previousSignature = envelope.relays.at(-1)?.signature ?? envelope.signature;
+  const signature = relayKeys.sign(
+    buildMeshRelaySigningMessage({
+      messageId: envelope.messageId,
+      hop,
+      previousSignature,
+      deviceId,
+      publicKey: relayKeys.publicKey,
+    })
+  );
+  return { ...envelope, hop, relays: [...envelope.relays, { deviceId, publicKey: relayKeys.publicKey, signature }] };
+}
+
+// Mirrors the client's sealing: contents under a one-off key, that key wrapped for the gateway.
+function createSealedEnvelope(
+  keys: ReturnType<typeof createDeviceKeys>,
+  meshKeys: MeshKeysResponse,
+  contents: MeshSealedContents
+): MeshEnvelopeV2 {
+  const gatewayKey = meshKeys.gatewayKey!;
+  const nonce = nacl.randomBytes(nacl.box.nonceLength);
+  const contentKey = nacl.randomBytes(nacl.secretbox.keyLength);
+  const ephemeral = nacl.box.keyPair();
+  const wrappedKey = nacl.box(contentKey, nonce, Buffer.from(gatewayKey.publicKey, 'base64'), ephemeral.secretKey);
+  const ciphertext = nacl.secretbox(Buffer.from(JSON.stringify(contents), 'utf8'), nonce, contentKey);
+  const unsigned: Omit<MeshEnvelopeV2, 'signature' | 'relays'> = {
+    version: 2,
+    messageId: 'mesh-1739555556000-sealed',
+    originPublicKey: keys.publicKey,
+    type: 'SOS_TRIGGERED',
+    createdAt: FIXED_NOW_MS - 30_000,
+    hop: 0,
+    maxHops: 3,
+    sealed: {
+      nonce: Buffer.from(nonce).toString('base64'),
+      recipients: [
+        {
+          kind: 'GATEWAY',
+          keyId: gatewayKey.keyId,
+          ephemeralPublicKey: Buffer.from(ephemeral.publicKey).toString('base64'),
+          wrappedKey: Buffer.from(wrappedKey).toString('base64'),
+        },
+      ],
+      ciphertext: Buffer.from(ciphertext).toString('base64'),
+    },
+  };
+  return { ...unsigned, signature: keys.sign(buildMeshSigningMessage(unsigned)), relays: [] };
+}
+
+function sosPayload(alertId: string, triggeredAt: number): Record<string, unknown> {
+  return { alertId, victimDeviceId: 'victim-1', triggeredAt, location: null };
+}
+
+function relayViaGateway(deps: CreateMeshRelayRouterDeps, envelope: MeshEnvelope, requestId: string) {
+  return processMeshRelayRequest(deps, {
+    payload: { relayDeviceId: 'gateway-1', envelope },
+    requestId,
+    authDeviceId: 'gateway-1',
+  });
+}
+
+function createRelayDeps() {
+  const keyring = createMeshKeyring({ groupKey: randomBytes(32), gatewaySecretKey: randomBytes(32) });
+  const alerts: AlertRecord[] = [];
+  const claimed = new Set<string>();
+  const claims: ClaimMeshRelayMessageInput[] = [];
+  const cancelled: string[] = [];
+  const revokedKeys = new Set<string>();
+  const authority = createDeviceCertificateAuthority({ seed: randomBytes(32), nowMs: () => FIXED_NOW_MS });
+  const deps: CreateMeshRelayRouterDeps = {
+    nowMs: () => FIXED_NOW_MS,
+    verifySignature: verifyDeviceSignature,
+    registerDevice: async (input) => ({
+      kind: 'existing',
+      record: { id: input.deviceId, ...input, createdAt: 0, updatedAt: 0 },
+    }),
+    claimMessage: async (input) => {
+      if (claimed.has(input.messageId)) {
+        return false;
+      }
+      claimed.add(input.messageId);
+      claims.push(input);
+      return true;
+    },
+    releaseMessage: async (messageId) => {
+      claimed.delete(messageId);
+    },
+    describeMeshKeys: keyring.describeKeys,
+    openSealedPayload: keyring.openSealedPayload,
+    findDevice: async (deviceId) =>
+      deviceId === 'victim-1'
+        ? { id: deviceId, deviceId, publicKey: 'victim-key', createdAt: 0, updatedAt: 0 }
+        : null,
+    isKeyRevoked: async (publicKey) => revokedKeys.has(publicKey),
+    listRevokedKeys: async () => [...revokedKeys],
+    certificateAuthorityPublicKey: authority.publicKey,
+    issueCertificate: authority.issue,
+    findOpenAlertForDevice: async (deviceId) =>
+      alerts
+        .filter((alert) => alert.deviceId === deviceId && alert.status === 'TRIGGERED')
+        .sort((a, b) => b.triggeredAt - a.triggeredAt)[0] ?? null,
+    findAlertByClientId: async (deviceId, clientAlertId) =>
+      alerts.find((alert) => alert.deviceId === deviceId && alert.clientAlertId === clientAlertId) ?? null,
+    findAlert: async (alertId) => alerts.find((alert) => alert.id === alertId) ?? null,
+    createAlert: async (input) => {
+      const record: AlertRecord = {
+        ...input,
+        id: `alert-${alerts.length + 1}`,
+        createdAt: FIXED_NOW_MS,
+        updatedAt: FIXED_NOW_MS,
+      };
+      alerts.push(record);
+      return record;
+    },
+    updateAlertStatus: async (alertId, status) => {
+      const alert = alerts.find((candidate) => candidate.id === alertId);
+      if (!alert) {
+        return { kind: 'not_found' };
+      }
+      alert.status = status;
+      cancelled.push(alertId);
+      return { kind: 'updated', data: { id: alertId, status, updatedAt: FIXED_NOW_MS } };
+    },
+    acceptAlert: async () => ({ ok: false, code: 'ALERT_NOT_CLAIMABLE', record: null }),
+  };
+  return { deps, alerts, cancelled, claims, revokedKeys, meshKeys: keyring.describeKeys() };
+}
+
+describe('mesh relay', () => {
+  it('raises the origin device alert once however many gateways relay the envelope', async () => {
+    const keys = createDeviceKeys();
+    const { deps, alerts } = createRelayDeps();
+    const envelope = createSignedEnvelope(keys);
+
+    const first = await processMeshRelayRequest(deps, {
+      payload: { relayDeviceId: 'gateway-1', envelope },
+      requestId: 'req-1',
+      authDeviceId: 'gateway-1',
+    });
+    const second = await processMeshRelayRequest(deps, {
+      payload: { relayDeviceId: 'gateway-2', envelope },
+      requestId: 'req-2',
+      authDeviceId: 'gateway-2',
+    });
+
+    expect(first.statusCode).toBe(201);
+    expect(first.body).toMatchObject({ data: { outcome: 'CREATED', alertId: 'alert-1' } });
+    expect(second.body).toMatchObject({ data: { outcome: 'DUPLICATE' } });
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0]).toMatchObject({ deviceId: 'victim-1', victimName: 'Asha', status: 'TRIGGERED' });
+  });
+
+  it('rejects an envelope whose payload was changed after signing', async () => {
+    const keys = createDeviceKeys();
+    const { deps, alerts } = createRelayDeps();
+    const envelope = createSignedEnvelope(keys);
+
+    const result = await processMeshRelayRequest(deps, {
+      payload: { relayDeviceId: 'gateway-1', envelope: { ...envelope, originDeviceId: 'someone-else' } },
+      requestId: 'req-1',
+      authDeviceId: 'gateway-1',
+    });
+
+    expect(result.statusCode).toBe(401);
+    expect(alerts).toHaveLength(0);
+  });
+
+  it('cancels the origin open alert when the victim only knows its local alert id', async () => {
+    const keys = createDeviceKeys();
+    const { deps, cancelled } = createRelayDeps();
+    await processMeshRelayRequest(deps, {
+      payload: { relayDeviceId: 'gateway-1', envelope: createSignedEnvelope(keys) },
+      requestId: 'req-1',
+      authDeviceId: 'gateway-1',
+    });
+
+    const cancel = createSignedEnvelope(keys, {
+      messageId: 'mesh-1739555556000-def456',
+      type: 'SOS_CANCELLED',
+      payload: { alertId: 'local-alert-1', cancelledAt: FIXED_NOW_MS - 10_000 },
+    });
+    const result = await processMeshRelayRequest(deps, {
+      payload: { relayDeviceId: 'gateway-1', envelope: cancel },
+      requestId: 'req-2',
+      authDeviceId: 'gateway-1',
+    });
+
+    expect(result.body).toMatchObject({ data: { outcome: 'UPDATED', alertId: 'alert-1' } });
+    expect(cancelled).toEqual(['alert-1']);
+  });
+
+  it('raises a newer SOS while the earlier cancel is in flight, which then closes only its own alert', async () => {
+    const keys = createDeviceKeys();
+    const { deps, alerts } = createRelayDeps();
+    const relay = (envelope: MeshEnvelope, requestId: string) => relayViaGateway(deps, envelope, requestId);
+
+    await relay(createSignedEnvelope(keys), 'req-1');
+    const second = await relay(
+      createSignedEnvelope(keys, {
+        messageId: 'mesh-1739555556000-second',
+        createdAt: FIXED_NOW_MS - 5_000,
+        payload: sosPayload('local-alert-2', FIXED_NOW_MS - 5_000),
+      }),
+      'req-2'
+    );
+    const lateCancel = await relay(
+      createSignedEnvelope(keys, {
+        messageId: 'mesh-1739555556000-cancel1',
+        type: 'SOS_CANCELLED',
+        createdAt: FIXED_NOW_MS - 20_000,
+        payload: { alertId: 'local-alert-1', cancelledAt: FIXED_NOW_MS - 20_000 },
+      }),
+      'req-3'
+    );
+
+    expect(second.body).toMatchObject({ data: { outcome: 'CREATED', alertId: 'alert-2' } });
+    expect(lateCancel.body).toMatchObject({ data: { outcome: 'UPDATED', alertId: 'alert-1' } });
+    expect(alerts.map((alert) => [alert.clientAlertId, alert.status])).toEqual([
+      ['local-alert-1', 'CANCELLED'],
+      ['local-alert-2', 'TRIGGERED'],
+    ]);
+  });
+
+  it('ignores a cancel for an SOS that never arrived instead of closing the newer open alert', async () => {
+    const keys = createDeviceKeys();
+    const { deps, alerts } = createRelayDeps();
+    const relay = (envelope: MeshEnvelope, requestId: string) => relayViaGateway(deps, envelope, requestId);
+
+    await relay(
+      createSignedEnvelope(keys, {
+        messageId: 'mesh-1739555556000-second',
+        createdAt: FIXED_NOW_MS - 5_000,
+        payload: sosPayload('local-alert-2', FIXED_NOW_MS - 5_000),
+      }),
+      'req-1'
+    );
+    const unknownCancel = await relay(
+      createSignedEnvelope(keys, {
+        messageId: 'mesh-1739555556000-cancel1',
+        type: 'SOS_CANCELLED',
+        createdAt: FIXED_NOW_MS - 20_000,
+        payload: { alertId: 'local-alert-1', cancelledAt: FIXED_NOW_MS - 20_000 },
+      }),
+      'req-2'
+    );
+    // Without a local id the open alert stands in, but a cancel signed before it was raised is not for it.
+    const olderCancel = await relay(
+      createSignedEnvelope(keys, {
+        messageId: 'mesh-1739555556000-cancel0',
+        type: 'SOS_CANCELLED',
+        createdAt: FIXED_NOW_MS - 20_000,
+        payload: { cancelledAt: FIXED_NOW_MS - 20_000 },
+      }),
+      'req-3'
+    );
+    const lateTrigger = await relay(createSignedEnvelope(keys, { messageId: 'mesh-1739555556000-first' }), 'req-4');
+
+    expect(unknownCancel.body).toMatchObject({ data: { outcome: 'IGNORED', alertId: null } });
+    expect(olderCancel.body).toMatchObject({ data: { outcome: 'IGNORED', alertId: 'alert-1' } });
+    expect(lateTrigger.body).toMatchObject({ data: { outcome: 'DUPLICATE', alertId: 'alert-1' } });
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0]).toMatchObject({ clientAlertId: 'local-alert-2', status: 'TRIGGERED' });
+  });
+
+  it('assigns the alert the responder heard, not whichever alert the victim has open now', async () => {
+    const keys = createDeviceKeys();
+    const responderKeys = createDeviceKeys();
+    const { deps } = createRelayDeps();
+    const accepted: string[] = [];
+    deps.acceptAlert = async (input) => {
+      accepted.push(input.alertId);
+      return { ok: false, code: 'ALERT_NOT_CLAIMABLE', record: null };
+    };
+    await processMeshRelayRequest(deps, {
+      payload: {
+        relayDeviceId: 'gateway-1',
+        envelope: createSignedEnvelope(keys, {
+          payload: sosPayload('local-alert-2', FIXED_NOW_MS - 30_000),
+        }),
+      },
+      requestId: 'req-1',
+      authDeviceId: 'gateway-1',
+    });
+
+    const result = await processMeshRelayRequest(deps, {
+      payload: {
+        relayDeviceId: 'gateway-1',
+        envelope: createSignedEnvelope(responderKeys, {
+          messageId: 'mesh-1739555556000-assign1',
+          originDeviceId: 'responder-1',
+          type: 'SOS_ASSIGNED',
+          payload: { alertId: 'local-alert-1', victimDeviceId: 'victim-1', responderDeviceId: 'responder-1' },
+        }),
+      },
+      requestId: 'req-2',
+      authDeviceId: 'gateway-1',
+    });
+
+    expect(result.body).toMatchObject({ data: { outcome: 'IGNORED', alertId: null } });
+    expect(accepted).toEqual([]);
+  });
+
+  it('rejects stale envelopes and relays on behalf of another device', async () => {
+    const keys = createDeviceKeys();
+    const { deps } = createRelayDeps();
+
+    const stale = await processMeshRelayRequest(deps, {
+      payload: {
+        relayDeviceId: 'gateway-1',
+        envelope: createSignedEnvelope(keys, { createdAt: FIXED_NOW_MS - 60 * 60 * 1000 }),
+      },
+      requestId: 'req-1',
+      authDeviceId: 'gateway-1',
+    });
+    const impersonated = await processMeshRelayRequest(deps, {
+      payload: { relayDeviceId: 'gateway-1', envelope: createSignedEnvelope(keys) },
+      requestId: 'req-2',
+      authDeviceId: 'gateway-2',
+    });
+
+    expect(stale.statusCode).toBe(400);
+    expect(impersonated.statusCode).toBe(403);
+  });
+
+  it('rejects origin and gateway ids outside the device id format', async () => {
+    const keys = createDeviceKeys();
+    const { deps, alerts } = createRelayDeps();
+
+    const badOrigin = await processMeshRelayRequest(deps, {
+      payload: {
+        relayDeviceId: 'gateway-1',
+        envelope: createSignedEnvelope(keys, { originDeviceId: '{"$gt":""}' }),
+      },
+      requestId: 'req-1',
+      authDeviceId: 'gateway-1',
+    });
+    const badGateway = await processMeshRelayRequest(deps, {
+      payload: { relayDeviceId: 'gateway/1', envelope: createSignedEnvelope(keys) },
+      requestId: 'req-2',
+      authDeviceId: 'gateway/1',
+    });
+
+    expect(badOrigin.statusCode).toBe(400);
+    expect(badGateway.statusCode).toBe(400);
+    expect(alerts).toHaveLength(0);
+  });
+
+  it('401 when no gateway device is authenticated', async () => {
+    const keys = createDeviceKeys();
+    const { deps, alerts } = createRelayDeps();
+
+    const result = await processMeshRelayRequest(deps, {
+      payload: { relayDeviceId: 'gateway-1', envelope: createSignedEnvelope(keys) },
+      requestId: 'req-1',
+    });
+
+    expect(result.statusCode).toBe(401);
+    expect(result.body).toMatchObject({ error: { code: 'UNAUTHORIZED' } });
+    expect(alerts).toHaveLength(0);
+  });
+
+  it('opens a v2 envelope sealed for the gateway and raises the alert for the sealed origin', async () => {
+    const keys = createDeviceKeys();
+    const { deps, alerts, meshKeys } = createRelayDeps();
+    const envelope = createSealedEnvelope(keys, meshKeys, {
+      originDeviceId: 'victim-1',
+      payload: { alertId: 'local-alert-1', victimName: 'Asha', triggeredAt: FIXED_NOW_MS - 30_000, location: null },
+    });
+
+    const result = await processMeshRelayRequest(deps, {
+      payload: { relayDeviceId: 'gateway-1', envelope },
+      requestId: 'req-1',
+      authDeviceId: 'gateway-1',
+    });
+    const tampered = await processMeshRelayRequest(deps, {
+      payload: {
+        relayDeviceId: 'gateway-1',
+        envelope: { ...envelope, sealed: { ...envelope.sealed, ciphertext: Buffer.from('forged').toString('base64') } },
+      },
+      requestId: 'req-2',
+      authDeviceId: 'gateway-1',
+    });
+
+    expect(result.statusCode).toBe(201);
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0]).toMatchObject({ deviceId: 'victim-1', victimName: 'Asha' });
+    expect(tampered.statusCode).toBe(401);
+  });
+
+  it('refuses a v2 envelope sealed for a different gateway key', async () => {
+    const keys = createDeviceKeys();
+    const { deps, alerts } = createRelayDeps();
+    const otherGateway = createMeshKeyring({ groupKey: randomBytes(32), gatewaySecretKey: randomBytes(32) });
+    const envelope = createSealedEnvelope(keys, otherGateway.describeKeys(), {
+      originDeviceId: 'victim-1',
+      payload: { alertId: 'local-alert-1', location: null },
+    });
+
+    const result = await processMeshRelayRequest(deps, {
+      payload: { relayDeviceId: 'gateway-1', envelope },
+      requestId: 'req-1',
+      authDeviceId: 'gateway-1',
+    });
+
+    expect(result.statusCode).toBe(400);
+    expect(result.body).toMatchObject({ error: { code: 'UNREADABLE_ENVELOPE' } });
+    expect(alerts).toHaveLength(0);
+  });
+
+  it('accepts an envelope relayed over several hops and records the relay path', async () => {
+    const keys = createDeviceKeys();
+    const { deps, alerts, claims } = createRelayDeps();
+    const envelope = relayThrough(
+      relayThrough(createSignedEnvelope(keys), createDeviceKeys(), 'relay-a'),
+      createDeviceKeys(),
+      'relay-b'
+    );
+
+    const result = await processMeshRelayRequest(deps, {
+      payload: { relayDeviceId: 'gateway-1', envelope },
+      requestId: 'req-1',
+      authDeviceId: 'gateway-1',
+    });
+
+    expect(result.statusCode).toBe(201);
+    expect(alerts).toHaveLength(1);
+    expect(claims[0]).toMatchObject({ relayDeviceId: 'gateway-1', relayPath: ['relay-a', 'relay-b'] });
+  });
+
+  it('rejects a hop count or relay path that the attestations do not vouch for', async () => {
+    const keys = createDeviceKeys();
+    const { deps, alerts } = createRelayDeps();
+    const relayed = relayThrough(createSignedEnvelope(keys), createDeviceKeys(), 'relay-a');
+
+    const skippedHop = await processMeshRelayRequest(deps, {
+      payload: { relayDeviceId: 'gateway-1', envelope: { ...relayed, hop: 2 } },
+      requestId: 'req-1',
+      authDeviceId: 'gateway-1',
+    });
+    const renamedRelay = await processMeshRelayRequest(deps, {
+      payload: {
+        relayDeviceId: 'gateway-1',
+        envelope: { ...relayed, relays: [{ ...relayed.relays[0], deviceId: 'relay-z' }] },
+      },
+      requestId: 'req-2',
+      authDeviceId: 'gateway-1',
+    });
+
+    expect(skippedHop.statusCode).toBe(400);
+    expect(renamedRelay.statusCode).toBe(401);
+    expect(renamedRelay.body).toMatchObject({ error: { code: 'INVALID_RELAY_CHAIN' } });
+    expect(alerts).toHaveLength(0);
+  });
+
+  it('drops envelopes signed with a revoked origin key', async () => {
+    const keys = createDeviceKeys();
+    const { deps, alerts, revokedKeys } = createRelayDeps();
+    revokedKeys.add(keys.publicKey);
+
+    const result = await processMeshRelayRequest(deps, {
+      payload: { relayDeviceId: 'gateway-1', envelope: createSignedEnvelope(keys) },
+      requestId: 'req-1',
+      authDeviceId: 'gateway-1',
+    });
+
+    expect(result.statusCode).toBe(403);
+    expect(result.body).toMatchObject({ error: { code: 'ORIGIN_KEY_REVOKED' } });
+    expect(alerts).toHaveLength(0);
+  });
+
+  it('certifies only the registered key of the requesting device', async () => {
+    const { deps, revokedKeys } = createRelayDeps();
+    revokedKeys.add('old-victim-key');
+
+    const trust = await buildMeshTrust(deps, 'victim-1');
+    const anonymous = await buildMeshTrust(deps, null);
+
+    expect(trust.certificate).toMatchObject({ deviceId: 'victim-1', publicKey: 'victim-key' });
+    expect(trust.revokedKeys).toEqual(['old-victim-key']);
+    expect(anonymous.certificate).toBeNull();
+  });
+});
@@ -0,0 +1,176 @@
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+import mongoose from 'mongoose';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { createApp } from '../app';
+import { maxPlausibleDistanceKm } from '../models/ride';
+import { appendRideTrackChunk, getRideTrackRecord } from '../models/rideTrack';
+import { validateRideTrackPayload } from '../routes/rides';
+
+const ONE_HOUR_MS = 60 * 60 * 1000;
+
+describe('ride distance plausibility', () => {
+  it('allows only the tolerance for a zero-length ride', () => {
+    expect(maxPlausibleDistanceKm(0)).toBeCloseTo(0.5);
+  });
+
+  it('scales with ride duration', () => {
+    expect(maxPlausibleDistanceKm(ONE_HOUR_MS)).toBeCloseTo(160.5);
+    expect(maxPlausibleDistanceKm(ONE_HOUR_MS / 4)).toBeCloseTo(40.5);
+  });
+
+  it('treats negative durations as zero', () => {
+    expect(maxPlausibleDistanceKm(-ONE_HOUR_MS)).toBeCloseTo(0.5);
+  });
+});
+
+describe('ride track payload validation', () => {
+  const NOW_MS = 1_739_555_556_000;
+
+  function buildPoint(overrides?: Record<string, unknown>): Record<string, unknown> {
+    return {
+      timestamp: NOW_MS - 1000,
+      latitude: 28.6139,
+      longitude: 77.209,
+      speed: 8.2,
+      accuracy: 6,
+      ...overrides,
+    };
+  }
+
+  it('accepts a chunk and sorts points by timestamp', () => {
+    const result = validateRideTrackPayload(
+      {
+        seq: 0,
+        points: [buildPoint({ timestamp: NOW_MS - 1000 }), buildPoint({ timestamp: NOW_MS - 5000, speed: null })],
+      },
+      NOW_MS
+    );
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) {
+      throw new Error('Expected valid track payload');
+    }
+    expect(result.value.seq).toBe(0);
+    expect(result.value.points.map((point) => point.timestamp)).toEqual([NOW_MS - 5000, NOW_MS - 1000]);
+    expect(result.value.points[0]?.speed).toBeNull();
+  });
+
+  it('rejects a negative sequence number', () => {
+    const result = validateRideTrackPayload({ seq: -1, points: [buildPoint()] }, NOW_MS);
+    expect(result).toEqual({ ok: false, message: 'seq must be a non-negative integer.' });
+  });
+
+  it('rejects an empty chunk', () => {
+    const result = validateRideTrackPayload({ seq: 1, points: [] }, NOW_MS);
+    expect(result.ok).toBe(false);
+  });
+
+  it('rejects out of range coordinates with the point index', () => {
+    const result = validateRideTrackPayload({ seq: 1, points: [buildPoint(), buildPoint({ latitude: 91 })] }, NOW_MS);
+    expect(result).toEqual({ ok: false, message: 'points[1].latitude must be between -90 and 90.' });
+  });
+});
+
+describe('ride track routes', () => {
+  const NOW_MS = 1_739_555_556_000;
+  const RIDE_ID = '67b07e7f6d4a9b7a8b9957d2';
+  let server: Server | null = null;
+
+  function buildRideDocument(overrides?: Record<string, unknown>) {
+    return {
+      _id: new mongoose.Types.ObjectId(RIDE_ID),
+      deviceId: 'device-owner',
+      sessionId: 'session-1',
+      status: 'ACTIVE',
+      startedAt: NOW_MS - ONE_HOUR_MS,
+      endedAt: null,
+      durationMs: null,
+      distanceKm: 0,
+      fatigueWarnings: 0,
+      hazardWarnings: 0,
+      hazardsReported: 0,
+      sosTriggered: 0,
+      createdAt: NOW_MS - ONE_HOUR_MS,
+      updatedAt: NOW_MS - ONE_HOUR_MS,
+      ...overrides,
+    };
+  }
+
+  async function startApp(): Promise<string> {
+    const app = createApp({
+      getDbHealth: () => ({ connected: true, readyStateCode: 1, readyState: 'connected' }),
+      createAlert: async () => {
+        throw new Error('not used');
+      },
+      appendRideTrack: appendRideTrackChunk,
+      getRideTrack: getRideTrackRecord,
+      // The token is the device id, which is enough to authenticate as any device here.
+      verifyDeviceToken: (token) => ({ ok: true, deviceId: token, expiresAt: NOW_MS + ONE_HOUR_MS }),
+      now: () => new Date(NOW_MS),
+      uptimeSec: () => 1,
+      corsOrigins: [],
+    });
+    server = app.listen(0);
+    await new Promise<void>((resolve) => server?.once('listening', () => resolve()));
+    const { port } = server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}/api/v1/rides/${RIDE_ID}/track`;
+  }
+
+  function postChunk(url: string, deviceId: string, timestamp = NOW_MS - 1000) {
+    return fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${deviceId}` },
+      body: JSON.stringify({ seq: 0, points: [{ timestamp, latitude: 28.6139, longitude: 77.209 }] }),
+    });
+  }
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await new Promise<void>((resolve) => (server ? server.close(() => resolve()) : resolve()));
+    server = null;
+  });
+
+  it('403 when another device reads the track', async () => {
+    vi.spyOn(mongoose.Model, 'findById').mockReturnValue({ lean: async () => buildRideDocument() } as never);
+    const find = vi.spyOn(mongoose.Model, 'find');
+    const url = await startApp();
+
+    const response = await fetch(url, { headers: { Authorization: 'Bearer device-other' } });
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({ error: { code: 'FORBIDDEN' } });
+    expect(find).not.toHaveBeenCalled();
+  });
+
+  it('403 when another device appends to the track', async () => {
+    vi.spyOn(mongoose.Model, 'findById').mockReturnValue({ lean: async () => buildRideDocument() } as never);
+    const updateOne = vi.spyOn(mongoose.Model, 'updateOne');
+    const url = await startApp();
+
+    const response = await postChunk(url, 'device-other');
+
+    expect(response.status).toBe(403);
+    expect(updateOne).not.toHaveBeenCalled();
+  });
+
+  it('accepts the owner\'s last chunk after the ride ended but not fixes from after the end', async () => {
+    const endedAt = NOW_MS - 60_000;
+    vi.spyOn(mongoose.Model, 'findById').mockReturnValue({
+      lean: async () => buildRideDocument({ status: 'ENDED', endedAt }),
+    } as never);
+    const updateOne = vi.spyOn(mongoose.Model, 'updateOne').mockResolvedValue({ upsertedCount: 1 } as never);
+    const url = await startApp();
+
+    const late = await postChunk(url, 'device-owner', endedAt + 1000);
+    expect(late.status).toBe(409);
+    expect(await late.json()).toMatchObject({ error: { code: 'RIDE_ENDED' } });
+    expect(updateOne).not.toHaveBeenCalled();
+
+    const lastChunk = await postChunk(url, 'device-owner', endedAt - 1000);
+    expect(lastChunk.status).toBe(201);
+    expect(updateOne).toHaveBeenCalledTimes(1);
+  });
+});
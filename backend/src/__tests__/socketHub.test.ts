@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+
+import { parseResponderLocationUpdate } from '../socket/hub';
+
+describe('parseResponderLocationUpdate', () => {
+  it('accepts a location fix and drops out-of-range optional fields', () => {
+    expect(
+      parseResponderLocationUpdate({
+        alertId: ' 65f0c1f0a1b2c3d4e5f60718 ',
+        latitude: 12.9716,
+        longitude: 77.5946,
+        timestamp: 1_739_555_556_000,
+        speedMps: -1,
+        heading: 400,
+      })
+    ).toEqual({
+      alertId: '65f0c1f0a1b2c3d4e5f60718',
+      latitude: 12.9716,
+      longitude: 77.5946,
+      timestamp: 1_739_555_556_000,
+      speedMps: null,
+      heading: null,
+    });
+  });
+
+  it('rejects updates without an alert id or with invalid coordinates', () => {
+    expect(parseResponderLocationUpdate(null)).toBeNull();
+    expect(
+      parseResponderLocationUpdate({ alertId: '', latitude: 1, longitude: 1, timestamp: 1 })
+    ).toBeNull();
+    expect(
+      parseResponderLocationUpdate({ alertId: 'alert-1', latitude: 91, longitude: 1, timestamp: 1 })
+    ).toBeNull();
+    expect(
+      parseResponderLocationUpdate({ alertId: 'alert-1', latitude: 1, longitude: 1, timestamp: Number.NaN })
+    ).toBeNull();
+  });
+});
@@ -3,27 +3,82 @@ import { randomUUID } from 'node:crypto';
 import cors from 'cors';
 import express from 'express';
 
+import { createDeviceAuthMiddleware } from './middleware/deviceAuth';
+import { createIdempotencyMiddleware } from './middleware/idempotency';
+import { createAlertEventsRouter } from './routes/alertEvents';
 import { createAlertsRouter } from './routes/alerts';
+import { createContactsRouter } from './routes/contacts';
+import { createDevicesRouter } from './routes/devices';
 import { createHazardsRouter } from './routes/hazards';
 import { createHealthRouter } from './routes/health';
+import { createMeshRelayRouter } from './routes/meshRelay';
 import { createRidersRouter } from './routes/riders';
 import { createRidesRouter } from './routes/rides';
-import type { AlertRecord, CreateAlertPersistenceInput } from './types/alert';
+import type {
+  AlertEventPage,
+  AlertPage,
+  AlertRecord,
+  CreateAlertPersistenceInput,
+  ListAlertsQuery,
+  NearbyAlertRecord,
+  NearbyAlertsQuery,
+  ResolveAlertPersistenceInput,
+  ResolveAlertResult,
+} from './types/alert';
+import type {
+  CreateContactInput,
+  CreateContactResult,
+  EmergencyContactRecord,
+  UpdateContactInput,
+  UpdateContactResult,
+} from './types/contact';
+import type {
+  DeviceRecord,
+  RegisterDeviceInput,
+  RegisterDeviceResult,
+  RotateDeviceKeyInput,
+  RotateDeviceKeyResult,
+} from './types/device';
 import type { DatabaseHealth } from './types/health';
-import type { CreateHazardInput, HazardRecord } from './types/hazard';
+import type {
+  AttachHazardPhotoInput,
+  AttachHazardPhotoResult,
+  CreateHazardInput,
+  HazardAreaQuery,
+  HazardPhotoStream,
+  HazardRecord,
+  HazardVoteInput,
+  HazardVoteResult,
+  RemoveHazardResult,
+} from './types/hazard';
+import type { IdempotencyStore } from './types/idempotency';
+import type { ClaimMeshRelayMessageInput } from './types/mesh';
 import type { RiderPresenceRecord } from './types/rider';
-import type { EndRideInput, RideRecord, StartRideInput } from './types/ride';
+import type { DeviceTokenVerification } from './services/deviceAuthService';
+import type { DeviceCertificateAuthority } from './services/deviceAuthService';
+import type { MeshKeyring } from './services/meshSealService';
+import type {
+  AppendRideTrackInput,
+  AppendRideTrackResult,
+  EndRideInput,
+  EndRideResult,
+  GetRideTrackResult,
+  RideRecord,
+  StartRideInput,
+} from './types/ride';
 
 interface CreateAppDeps {
   getDbHealth: () => DatabaseHealth;
   createAlert: (input: CreateAlertPersistenceInput) => Promise<AlertRecord>;
   updateAlertStatus?: (
     alertId: string,
-    status: 'CANCELLED' | 'ESCALATED'
+    status: 'CANCELLED' | 'ESCALATED',
+    actorDeviceId: string | null
   ) => Promise<
     | { kind: 'updated'; data: Pick<AlertRecord, 'id' | 'status' | 'updatedAt'> }
     | { kind: 'not_found' }
     | { kind: 'blocked'; currentStatus: AlertRecord['status'] }
+    | { kind: 'forbidden' }
   >;
   acceptAlert?: (input: {
     alertId: string;
@@ -34,27 +89,65 @@ interface CreateAppDeps {
     | { ok: true; record: AlertRecord }
     | { ok: false; code: 'ALERT_NOT_FOUND' | 'ALERT_ALREADY_ASSIGNED' | 'ALERT_NOT_CLAIMABLE'; record: AlertRecord | null }
   >;
+  resolveAlert?: (input: ResolveAlertPersistenceInput) => Promise<ResolveAlertResult>;
   upsertHeartbeat?: (input: {
     deviceId: string;
     latitude: number;
     longitude: number;
     timestamp: number;
   }) => Promise<RiderPresenceRecord>;
+  findAlert?: (alertId: string) => Promise<AlertRecord | null>;
+  findOpenAlertForDevice?: (deviceId: string) => Promise<AlertRecord | null>;
+  findAlertByClientId?: (deviceId: string, clientAlertId: string) => Promise<AlertRecord | null>;
+  listAlerts?: (query: ListAlertsQuery) => Promise<AlertPage>;
+  listNearbyAlerts?: (query: NearbyAlertsQuery) => Promise<NearbyAlertRecord[]>;
+  listAlertEvents?: (input: { alertId: string; limit: number; cursor: string | null }) => Promise<AlertEventPage>;
   onAlertCreated?: (alert: AlertRecord) => Promise<void> | void;
   onAlertAssigned?: (alert: AlertRecord) => Promise<void> | void;
+  onAlertResolved?: (alert: AlertRecord) => Promise<void> | void;
   onAlertStatusUpdated?: (input: {
     alertId: string;
     status: 'CANCELLED' | 'ESCALATED';
     updatedAt: number;
   }) => Promise<void> | void;
-  listHazards?: () => Promise<HazardRecord[]>;
+  listHazards?: (area: HazardAreaQuery | null) => Promise<HazardRecord[]>;
   createHazard?: (input: CreateHazardInput) => Promise<HazardRecord>;
-  removeHazard?: (hazardId: string) => Promise<{ removed: boolean }>;
+  mergeIntoNearbyHazard?: (
+    input: CreateHazardInput,
+    options: { mergeRadiusMeters: number; nowMs: number }
+  ) => Promise<HazardRecord | null>;
+  hazardMergeRadiusMeters?: number;
+  removeHazard?: (input: { hazardId: string; deviceId: string }) => Promise<RemoveHazardResult>;
+  voteHazard?: (input: HazardVoteInput) => Promise<HazardVoteResult>;
+  attachHazardPhoto?: (input: AttachHazardPhotoInput) => Promise<AttachHazardPhotoResult>;
+  openHazardPhoto?: (hazardId: string) => Promise<HazardPhotoStream | null>;
   onHazardCreated?: (hazard: HazardRecord) => Promise<void> | void;
+  onHazardUpdated?: (hazard: HazardRecord) => Promise<void> | void;
   onHazardRemoved?: (hazardId: string) => Promise<void> | void;
   startRide?: (input: StartRideInput) => Promise<RideRecord>;
-  endRide?: (input: EndRideInput) => Promise<RideRecord | null>;
+  endRide?: (input: EndRideInput) => Promise<EndRideResult>;
   listRidesForDevice?: (deviceId: string) => Promise<RideRecord[]>;
+  appendRideTrack?: (input: AppendRideTrackInput) => Promise<AppendRideTrackResult>;
+  getRideTrack?: (rideId: string, actorDeviceId: string) => Promise<GetRideTrackResult>;
+  listContacts?: (deviceId: string) => Promise<EmergencyContactRecord[]>;
+  createContact?: (input: CreateContactInput) => Promise<CreateContactResult>;
+  updateContact?: (input: UpdateContactInput) => Promise<UpdateContactResult>;
+  deleteContact?: (input: { deviceId: string; contactId: string }) => Promise<{ removed: boolean }>;
+  registerDevice?: (input: RegisterDeviceInput) => Promise<RegisterDeviceResult>;
+  findDevice?: (deviceId: string) => Promise<DeviceRecord | null>;
+  rotateDeviceKey?: (input: RotateDeviceKeyInput) => Promise<RotateDeviceKeyResult>;
+  isDeviceKeyRevoked?: (publicKey: string) => Promise<boolean>;
+  listRevokedDeviceKeys?: () => Promise<string[]>;
+  deviceCertificateAuthority?: DeviceCertificateAuthority;
+  verifyDeviceSignature?: (input: { message: string; signature: string; publicKey: string }) => boolean;
+  issueDeviceToken?: (deviceId: string) => { token: string; expiresAt: number };
+  claimMeshRelayMessage?: (input: ClaimMeshRelayMessageInput) => Promise<boolean>;
+  releaseMeshRelayMessage?: (messageId: string) => Promise<void>;
+  meshKeyring?: MeshKeyring;
+  /** When provided, every route mounted after health and device registration requires a device token. */
+  verifyDeviceToken?: (token: string) => DeviceTokenVerification;
+  /** Enables `Idempotency-Key` replay on mutating routes when provided. */
+  idempotencyStore?: IdempotencyStore;
   now: () => Date;
   uptimeSec: () => number;
   corsOrigins: string[];
@@ -65,18 +158,51 @@ export function createApp({
   createAlert,
   updateAlertStatus,
   acceptAlert,
+  resolveAlert,
   upsertHeartbeat,
+  findAlert,
+  findOpenAlertForDevice,
+  findAlertByClientId,
+  listAlerts,
+  listNearbyAlerts,
+  listAlertEvents,
   onAlertCreated,
   onAlertAssigned,
+  onAlertResolved,
   onAlertStatusUpdated,
   listHazards,
   createHazard,
+  mergeIntoNearbyHazard,
+  hazardMergeRadiusMeters,
   removeHazard,
+  voteHazard,
+  attachHazardPhoto,
+  openHazardPhoto,
   onHazardCreated,
+  onHazardUpdated,
   onHazardRemoved,
   startRide,
   endRide,
   listRidesForDevice,
+  appendRideTrack,
+  getRideTrack,
+  listContacts,
+  createContact,
+  updateContact,
+  deleteContact,
+  registerDevice,
+  findDevice,
+  rotateDeviceKey,
+  isDeviceKeyRevoked,
+  listRevokedDeviceKeys,
+  deviceCertificateAuthority,
+  verifyDeviceSignature,
+  issueDeviceToken,
+  claimMeshRelayMessage,
+  releaseMeshRelayMessage,
+  meshKeyring,
+  verifyDeviceToken,
+  idempotencyStore,
   now,
   uptimeSec,
   corsOrigins,
@@ -129,6 +255,8 @@ export function createApp({
       updatedAt: 0,
       createdAt: 0,
     }));
+  const findAlertImpl = findAlert ?? (async () => null);
+  const listAlertEventsImpl = listAlertEvents ?? (async () => ({ events: [], nextCursor: null }));
   const listHazardsImpl = listHazards ?? (async () => []);
   const createHazardImpl =
     createHazard ??
@@ -137,10 +265,25 @@ export function createApp({
       type: input.type,
       latitude: input.latitude,
       longitude: input.longitude,
+      severity: input.severity,
+      description: input.description,
+      heading: input.heading,
+      photoUrl: null,
+      reporterDeviceId: input.reporterDeviceId,
+      reportCount: 1,
+      confirmations: 0,
+      denials: 0,
+      confidence: 1,
+      lastConfirmedAt: null,
+      expiresAt: 0,
       createdAt: 0,
       updatedAt: 0,
     }));
-  const removeHazardImpl = removeHazard ?? (async () => ({ removed: false }));
+  const mergeIntoNearbyHazardImpl = mergeIntoNearbyHazard ?? (async () => null);
+  const removeHazardImpl = removeHazard ?? (async () => ({ kind: 'not_found' as const }));
+  const voteHazardImpl = voteHazard ?? (async () => ({ kind: 'not_found' as const }));
+  const attachHazardPhotoImpl = attachHazardPhoto ?? (async () => ({ kind: 'not_found' as const }));
+  const openHazardPhotoImpl = openHazardPhoto ?? (async () => null);
   const startRideImpl =
     startRide ??
     (async (input) => ({
@@ -153,27 +296,106 @@ export function createApp({
       durationMs: null,
       distanceKm: 0,
       fatigueWarnings: 0,
+      hazardWarnings: 0,
       hazardsReported: 0,
       sosTriggered: 0,
       createdAt: 0,
       updatedAt: 0,
     }));
-  const endRideImpl = endRide ?? (async () => null);
+  const endRideImpl = endRide ?? (async () => ({ kind: 'not_found' as const }));
   const listRidesForDeviceImpl = listRidesForDevice ?? (async () => []);
+  const appendRideTrackImpl = appendRideTrack ?? (async () => ({ kind: 'not_found' as const }));
+  const getRideTrackImpl = getRideTrack ?? (async () => ({ kind: 'not_found' as const }));
+  const listContactsImpl = listContacts ?? (async () => []);
+  const createContactImpl = createContact ?? (async () => ({ kind: 'limit_reached' as const, maxContacts: 0 }));
+  const updateContactImpl = updateContact ?? (async () => ({ kind: 'not_found' as const }));
+  const deleteContactImpl = deleteContact ?? (async () => ({ removed: false }));
+  const registerDeviceImpl = registerDevice ?? (async () => ({ kind: 'key_mismatch' as const }));
+  const findDeviceImpl = findDevice ?? (async () => null);
+  const rotateDeviceKeyImpl = rotateDeviceKey ?? (async () => ({ kind: 'not_found' as const }));
+  const isDeviceKeyRevokedImpl = isDeviceKeyRevoked ?? (async () => false);
+  const listRevokedDeviceKeysImpl = listRevokedDeviceKeys ?? (async () => []);
+  const deviceCertificateAuthorityImpl: DeviceCertificateAuthority = deviceCertificateAuthority ?? {
+    publicKey: '',
+    issue: ({ deviceId, publicKey }) => ({ deviceId, publicKey, issuedAt: 0, expiresAt: 0, signature: '' }),
+  };
+  const verifyDeviceSignatureImpl = verifyDeviceSignature ?? (() => false);
+  const issueDeviceTokenImpl = issueDeviceToken ?? (() => ({ token: '', expiresAt: 0 }));
+  const findOpenAlertForDeviceImpl = findOpenAlertForDevice ?? (async () => null);
+  const findAlertByClientIdImpl = findAlertByClientId ?? (async () => null);
+  const claimMeshRelayMessageImpl = claimMeshRelayMessage ?? (async () => true);
+  const releaseMeshRelayMessageImpl = releaseMeshRelayMessage ?? (async () => {});
+  const meshKeyringImpl: MeshKeyring = meshKeyring ?? {
+    describeKeys: () => ({ groupKey: null, gatewayKey: null }),
+    openSealedPayload: () => null,
+  };
 
   app.use(express.json());
   app.use(createHealthRouter({ getDbHealth, now, uptimeSec }));
+  app.use(
+    createDevicesRouter({
+      nowMs: () => now().getTime(),
+      registerDevice: registerDeviceImpl,
+      findDevice: findDeviceImpl,
+      rotateDeviceKey: rotateDeviceKeyImpl,
+      isKeyRevoked: isDeviceKeyRevokedImpl,
+      verifySignature: verifyDeviceSignatureImpl,
+      issueToken: issueDeviceTokenImpl,
+    })
+  );
+  if (verifyDeviceToken) {
+    app.use(createDeviceAuthMiddleware(verifyDeviceToken));
+  }
+  if (idempotencyStore) {
+    app.use(createIdempotencyMiddleware({ store: idempotencyStore, nowMs: () => now().getTime() }));
+  }
   app.use(
     createAlertsRouter({
       nowMs: () => now().getTime(),
       createAlert,
       updateAlertStatus: updateAlertStatusImpl,
       acceptAlert: acceptAlertImpl,
+      resolveAlert,
+      findAlert: findAlertImpl,
+      listAlerts,
+      listNearbyAlerts,
       onAlertCreated,
       onAlertAssigned,
+      onAlertResolved,
       onAlertStatusUpdated,
     })
   );
+  app.use(
+    createMeshRelayRouter({
+      nowMs: () => now().getTime(),
+      verifySignature: verifyDeviceSignatureImpl,
+      registerDevice: registerDeviceImpl,
+      claimMessage: claimMeshRelayMessageImpl,
+      releaseMessage: releaseMeshRelayMessageImpl,
+      describeMeshKeys: meshKeyringImpl.describeKeys,
+      openSealedPayload: meshKeyringImpl.openSealedPayload,
+      findDevice: findDeviceImpl,
+      isKeyRevoked: isDeviceKeyRevokedImpl,
+      listRevokedKeys: listRevokedDeviceKeysImpl,
+      certificateAuthorityPublicKey: deviceCertificateAuthorityImpl.publicKey,
+      issueCertificate: deviceCertificateAuthorityImpl.issue,
+      findOpenAlertForDevice: findOpenAlertForDeviceImpl,
+      findAlertByClientId: findAlertByClientIdImpl,
+      findAlert: findAlertImpl,
+      createAlert,
+      updateAlertStatus: updateAlertStatusImpl,
+      acceptAlert: acceptAlertImpl,
+      onAlertCreated,
+      onAlertAssigned,
+      onAlertStatusUpdated,
+    })
+  );
+  app.use(
+    createAlertEventsRouter({
+      findAlert: findAlertImpl,
+      listAlertEvents: listAlertEventsImpl,
+    })
+  );
   app.use(
     createRidersRouter({
       nowMs: () => now().getTime(),
@@ -184,8 +406,15 @@ export function createApp({
     createHazardsRouter({
       listHazards: listHazardsImpl,
       createHazard: createHazardImpl,
+      mergeIntoNearbyHazard: mergeIntoNearbyHazardImpl,
       removeHazard: removeHazardImpl,
+      voteHazard: voteHazardImpl,
+      attachPhoto: attachHazardPhotoImpl,
+      openPhoto: openHazardPhotoImpl,
+      nowMs: () => now().getTime(),
+      mergeRadiusMeters: hazardMergeRadiusMeters ?? 0,
       onHazardCreated,
+      onHazardUpdated,
       onHazardRemoved,
     })
   );
@@ -195,6 +424,16 @@ export function createApp({
       startRide: startRideImpl,
       endRide: endRideImpl,
       listRidesForDevice: listRidesForDeviceImpl,
+      appendRideTrack: appendRideTrackImpl,
+      getRideTrack: getRideTrackImpl,
+    })
+  );
+  app.use(
+    createContactsRouter({
+      listContacts: listContactsImpl,
+      createContact: createContactImpl,
+      updateContact: updateContactImpl,
+      deleteContact: deleteContactImpl,
     })
   );
 
@@ -1,9 +1,16 @@
+import { randomBytes } from 'node:crypto';
+
 import dotenv from 'dotenv';
 
+import { DEFAULT_ESCALATION_LADDER, type EscalationLadderStep } from '../services/escalationService';
+
 dotenv.config();
 
 const DEFAULT_PORT = 4000;
 const DEFAULT_NODE_ENV = 'development';
+const DEFAULT_HAZARD_MERGE_RADIUS_METERS = 30;
+// Mesh sealing keys and the certificate authority seed are all raw 32-byte keys.
+const SECRET_KEY_BYTES = 32;
 const DEFAULT_CORS_ORIGINS = [
   'http://localhost:8081',
   'http://localhost:19006',
@@ -12,11 +19,23 @@ const DEFAULT_CORS_ORIGINS = [
 
 type NodeEnv = 'development' | 'test' | 'production';
 
+export type ContactNotifierConfig =
+  | { kind: 'console' }
+  | { kind: 'file'; filePath: string }
+  | { kind: 'webhook'; url: string };
+
 export interface EnvConfig {
   nodeEnv: NodeEnv;
   port: number;
   mongodbUri: string;
   corsOrigins: string[];
+  contactNotifier: ContactNotifierConfig;
+  escalationLadder: EscalationLadderStep[];
+  deviceAuthSecret: string;
+  hazardMergeRadiusMeters: number;
+  meshGroupKey: Buffer;
+  meshGatewaySecretKey: Buffer;
+  deviceCertificateSeed: Buffer;
 }
 
 function parseNodeEnv(value: string | undefined): NodeEnv {
@@ -71,11 +90,116 @@ function parseCorsOrigins(value: string | undefined): string[] {
   return parsed;
 }
 
+function parseContactNotifier(env: NodeJS.ProcessEnv): ContactNotifierConfig {
+  const kind = (env.CONTACT_NOTIFIER ?? 'console').trim();
+  if (kind === 'console') {
+    return { kind };
+  }
+
+  if (kind === 'file') {
+    const filePath = env.CONTACT_NOTIFIER_FILE?.trim();
+    if (!filePath) {
+      throw new Error('CONTACT_NOTIFIER_FILE is required when CONTACT_NOTIFIER=file.');
+    }
+    return { kind, filePath };
+  }
+
+  if (kind === 'webhook') {
+    const url = env.CONTACT_NOTIFIER_WEBHOOK_URL?.trim();
+    if (!url || !(url.startsWith('http://') || url.startsWith('https://'))) {
+      throw new Error('CONTACT_NOTIFIER_WEBHOOK_URL must be an http(s) URL when CONTACT_NOTIFIER=webhook.');
+    }
+    return { kind, url };
+  }
+
+  throw new Error(`Invalid CONTACT_NOTIFIER: ${kind}. Expected console, file, or webhook.`);
+}
+
+function parseEscalationLadder(value: string | undefined): EscalationLadderStep[] {
+  if (!value?.trim()) {
+    return DEFAULT_ESCALATION_LADDER;
+  }
+
+  const steps = value.split(',').map((entry) => {
+    const [radiusRaw, waitRaw] = entry.trim().split(':');
+    const radiusMeters = Number(radiusRaw);
+    const waitSec = Number(waitRaw);
+    if (!Number.isFinite(radiusMeters) || radiusMeters <= 0 || !Number.isFinite(waitSec) || waitSec <= 0) {
+      throw new Error(`Invalid ESCALATION_LADDER entry: ${entry}. Expected <radiusMeters>:<waitSeconds>.`);
+    }
+    return { radiusMeters, waitMs: waitSec * 1000 };
+  });
+
+  for (let index = 1; index < steps.length; index += 1) {
+    if (steps[index].radiusMeters <= steps[index - 1].radiusMeters) {
+      throw new Error('ESCALATION_LADDER radii must be strictly increasing.');
+    }
+  }
+
+  return steps;
+}
+
+function parseDeviceAuthSecret(value: string | undefined, nodeEnv: NodeEnv): string {
+  const secret = value?.trim();
+  if (secret) {
+    if (secret.length < 32) {
+      throw new Error('DEVICE_AUTH_SECRET must be at least 32 characters.');
+    }
+    return secret;
+  }
+
+  if (nodeEnv === 'production') {
+    throw new Error('DEVICE_AUTH_SECRET is required in production.');
+  }
+
+  // Outside production a per-process secret is fine; clients simply fetch a new token after a restart.
+  return randomBytes(32).toString('hex');
+}
+
+function parseHazardMergeRadius(value: string | undefined): number {
+  if (!value?.trim()) {
+    return DEFAULT_HAZARD_MERGE_RADIUS_METERS;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0 || parsed > 500) {
+    throw new Error(`Invalid HAZARD_MERGE_RADIUS_METERS: ${value}. Expected a number between 0 and 500.`);
+  }
+
+  return parsed;
+}
+
+function parseSecretKey(name: string, value: string | undefined, nodeEnv: NodeEnv): Buffer {
+  const encoded = value?.trim();
+  if (encoded) {
+    const key = Buffer.from(encoded, 'base64');
+    if (key.length !== SECRET_KEY_BYTES) {
+      throw new Error(`${name} must be ${SECRET_KEY_BYTES} bytes, base64 encoded.`);
+    }
+    return key;
+  }
+
+  if (nodeEnv === 'production') {
+    throw new Error(`${name} is required in production.`);
+  }
+
+  // Outside production a per-process key is fine; devices fetch the new keys and certificates on their next refresh.
+  return randomBytes(SECRET_KEY_BYTES);
+}
+
 export function loadEnv(): EnvConfig {
+  const nodeEnv = parseNodeEnv(process.env.NODE_ENV);
   return {
-    nodeEnv: parseNodeEnv(process.env.NODE_ENV),
+    nodeEnv,
     port: parsePort(process.env.PORT),
     mongodbUri: parseMongoUri(process.env.MONGODB_URI),
     corsOrigins: parseCorsOrigins(process.env.CORS_ORIGINS),
+    contactNotifier: parseContactNotifier(process.env),
+    escalationLadder: parseEscalationLadder(process.env.ESCALATION_LADDER),
+    deviceAuthSecret: parseDeviceAuthSecret(process.env.DEVICE_AUTH_SECRET, nodeEnv),
+    hazardMergeRadiusMeters: parseHazardMergeRadius(process.env.HAZARD_MERGE_RADIUS_METERS),
+    meshGroupKey: parseSecretKey('MESH_GROUP_KEY', process.env.MESH_GROUP_KEY, nodeEnv),
+    meshGatewaySecretKey: parseSecretKey('MESH_GATEWAY_SECRET_KEY', process.env.MESH_GATEWAY_SECRET_KEY, nodeEnv),
+    deviceCertificateSeed: parseSecretKey('DEVICE_CA_SEED', process.env.DEVICE_CA_SEED, nodeEnv),
   };
 }
@@ -0,0 +1,60 @@
+import { randomUUID } from 'node:crypto';
+
+import type { RequestHandler, Response } from 'express';
+
+import { readBearerToken, type DeviceTokenVerification } from '../services/deviceAuthService';
+
+const AUTH_DEVICE_LOCAL = 'authDeviceId';
+
+function resolveRequestId(response: Response): string {
+  const requestId = response.locals.requestId;
+  if (typeof requestId === 'string' && requestId.length > 0) {
+    return requestId;
+  }
+
+  const fallbackId = randomUUID();
+  response.locals.requestId = fallbackId;
+  return fallbackId;
+}
+
+export type UnauthorizedResponse = { requestId: string; error: { code: 'UNAUTHORIZED'; message: string } };
+
+export function buildUnauthorizedResponse(
+  requestId: string,
+  message = 'A valid device token is required.'
+): UnauthorizedResponse {
+  return { requestId, error: { code: 'UNAUTHORIZED', message } };
+}
+
+/** Device id proven by the request's bearer token, or null when auth is not enforced for this app. */
+export function resolveAuthDeviceId(response: Response): string | null {
+  const deviceId = response.locals[AUTH_DEVICE_LOCAL];
+  return typeof deviceId === 'string' && deviceId.length > 0 ? deviceId : null;
+}
+
+/**
+ * Like resolveAuthDeviceId, for routes that check ownership: without an authenticated device it answers
+ * 401 itself and returns null, so a missing auth middleware fails closed instead of skipping the check.
+ */
+export function requireAuthDeviceId(response: Response): string | null {
+  const deviceId = resolveAuthDeviceId(response);
+  if (!deviceId) {
+    response.status(401).json(buildUnauthorizedResponse(resolveRequestId(response)));
+  }
+  return deviceId;
+}
+
+export function createDeviceAuthMiddleware(verifyToken: (token: string) => DeviceTokenVerification): RequestHandler {
+  return (request, response, next) => {
+    const token = readBearerToken(request.header('authorization'));
+    const verification = token ? verifyToken(token) : null;
+    if (!verification?.ok) {
+      const message = verification?.reason === 'EXPIRED' ? 'Device token expired.' : undefined;
+      response.status(401).json(buildUnauthorizedResponse(resolveRequestId(response), message));
+      return;
+    }
+
+    response.locals[AUTH_DEVICE_LOCAL] = verification.deviceId;
+    next();
+  };
+}
@@ -0,0 +1,135 @@
+import { createHash, randomUUID } from 'node:crypto';
+
+import type { Request, RequestHandler, Response } from 'express';
+
+import type { ClaimIdempotencyKeyResult, IdempotencyStore } from '../types/idempotency';
+import { resolveAuthDeviceId } from './deviceAuth';
+
+const IDEMPOTENCY_KEY_HEADER = 'idempotency-key';
+const IDEMPOTENCY_KEY_PATTERN = /^[A-Za-z0-9._:-]{8,128}$/;
+const SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+function resolveRequestId(response: Response): string {
+  const requestId = response.locals.requestId;
+  if (typeof requestId === 'string' && requestId.length > 0) {
+    return requestId;
+  }
+
+  const fallbackId = randomUUID();
+  response.locals.requestId = fallbackId;
+  return fallbackId;
+}
+
+export function fingerprintRequest(request: Pick<Request, 'method' | 'originalUrl' | 'body'>): string {
+  return createHash('sha256')
+    .update(`${request.method.toUpperCase()} ${request.originalUrl}\n`)
+    .update(JSON.stringify(request.body ?? null))
+    .digest('hex');
+}
+
+/**
+ * Replays the stored response for a repeated `Idempotency-Key` so outbox retries never duplicate records.
+ * Requests without the header pass through untouched; 5xx responses are not stored so they can be retried.
+ */
+export function createIdempotencyMiddleware({
+  store,
+  nowMs,
+}: {
+  store: IdempotencyStore;
+  nowMs: () => number;
+}): RequestHandler {
+  return async (request, response, next) => {
+    const key = request.header(IDEMPOTENCY_KEY_HEADER);
+    if (SAFE_METHODS.has(request.method.toUpperCase()) || key === undefined) {
+      next();
+      return;
+    }
+
+    const requestId = resolveRequestId(response);
+    if (!IDEMPOTENCY_KEY_PATTERN.test(key)) {
+      response.status(400).json({
+        requestId,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Request validation failed',
+          details: [
+            {
+              field: 'Idempotency-Key',
+              message: 'Idempotency-Key must be 8-128 characters of letters, digits, ".", "_", ":" or "-".',
+            },
+          ],
+        },
+      });
+      return;
+    }
+
+    const scope = `${resolveAuthDeviceId(response) ?? 'anonymous'}:${key}`;
+    const fingerprint = fingerprintRequest(request);
+    let claim: ClaimIdempotencyKeyResult;
+    try {
+      claim = await store.claim({ scope, fingerprint, nowMs: nowMs() });
+    } catch (error) {
+      // Fail open: an unavailable key store must not block SOS-adjacent writes.
+      const reason = error instanceof Error ? error.message : String(error);
+      console.error(`[idempotency] Failed to claim key: ${reason}`);
+      next();
+      return;
+    }
+
+    if (claim.kind === 'existing') {
+      if (claim.record.fingerprint !== fingerprint) {
+        response.status(422).json({
+          requestId,
+          error: {
+            code: 'IDEMPOTENCY_KEY_REUSED',
+            message: 'Idempotency-Key was already used for a different request.',
+          },
+        });
+        return;
+      }
+      if (!claim.record.response) {
+        response.setHeader('Retry-After', '1');
+        response.status(409).json({
+          requestId,
+          error: {
+            code: 'IDEMPOTENCY_IN_PROGRESS',
+            message: 'A request with this Idempotency-Key is still being processed.',
+          },
+        });
+        return;
+      }
+      response.setHeader('Idempotent-Replayed', 'true');
+      response.status(claim.record.response.statusCode).json(claim.record.response.body);
+      return;
+    }
+
+    let capturedBody: unknown;
+    let captured = false;
+    const json = response.json.bind(response);
+    response.json = (body: unknown) => {
+      capturedBody = body;
+      captured = true;
+      return json(body);
+    };
+
+    let settled = false;
+    const settle = (finished: boolean) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      const outcome =
+        finished && captured && response.statusCode < 500
+          ? store.complete(scope, { statusCode: response.statusCode, body: capturedBody })
+          : store.release(scope);
+      outcome.catch((error: unknown) => {
+        // A released or unrecorded key only means the next retry runs the handler again.
+        const reason = error instanceof Error ? error.message : String(error);
+        console.error(`[idempotency] Failed to record key outcome: ${reason}`);
+      });
+    };
+    response.once('finish', () => settle(true));
+    response.once('close', () => settle(false));
+    next();
+  };
+}
@@ -2,11 +2,21 @@ import mongoose, { Schema, type InferSchemaType } from 'mongoose';
 
 import type {
   AcceptAlertFailureCode,
+  AlertDispatchStep,
+  AlertPage,
   AlertRecord,
+  AlertResolution,
   AlertStatus,
   CreateAlertPersistenceInput,
+  ListAlertsQuery,
+  NearbyAlertRecord,
+  NearbyAlertsQuery,
+  ResolveAlertPersistenceInput,
+  ResolveAlertResult,
 } from '../types/alert';
-import { ALERT_STATUSES } from '../types/alert';
+import { ALERT_OUTCOMES, ALERT_STATUSES, CLAIMABLE_ALERT_MAX_AGE_MS, CLAIMABLE_ALERT_STATUSES } from '../types/alert';
+import { boundingBoxForRadius, findAlertsNearPoint } from '../services/dispatchService';
+import { recordAlertEvent } from './alertEvent';
 
 const breadcrumbPointSchema = new Schema(
   {
@@ -37,6 +47,36 @@ const alertLocationSchema = new Schema(
   }
 );
 
+const dispatchStepSchema = new Schema(
+  {
+    step: { type: Number, required: true },
+    action: { type: String, required: true, enum: ['DISPATCH', 'ESCALATE'] },
+    radiusMeters: { type: Number, required: false, default: null },
+    candidateRiders: { type: Number, required: true },
+    matchedDeviceIds: { type: [String], required: true, default: [] },
+    notifiedDeviceIds: { type: [String], required: true, default: [] },
+    at: { type: Number, required: true },
+  },
+  {
+    _id: false,
+    strict: 'throw',
+  }
+);
+
+const resolutionSchema = new Schema(
+  {
+    outcome: { type: String, required: true, enum: ALERT_OUTCOMES },
+    notes: { type: String, required: false, default: null },
+    arrivedAt: { type: Number, required: false, default: null },
+    resolvedAt: { type: Number, required: true },
+    resolvedByDeviceId: { type: String, required: true, trim: true },
+  },
+  {
+    _id: false,
+    strict: 'throw',
+  }
+);
+
 const alertSchema = new Schema(
   {
     deviceId: { type: String, required: true, trim: true },
@@ -52,6 +92,7 @@ const alertSchema = new Schema(
       required: false,
       default: null,
     },
+    clientAlertId: { type: String, required: false, default: null, trim: true },
     responderDeviceId: {
       type: String,
       required: false,
@@ -69,6 +110,18 @@ const alertSchema = new Schema(
       required: false,
       default: null,
     },
+    dispatchStep: { type: Number, required: true, default: 0 },
+    nextDispatchAt: { type: Number, required: false, default: null, index: true },
+    dispatchSteps: {
+      type: [dispatchStepSchema],
+      required: true,
+      default: [],
+    },
+    resolution: {
+      type: resolutionSchema,
+      required: false,
+      default: null,
+    },
     createdAt: { type: Number, required: true },
     updatedAt: { type: Number, required: true },
   },
@@ -79,15 +132,20 @@ const alertSchema = new Schema(
   }
 );
 
+alertSchema.index({ deviceId: 1, clientAlertId: 1 });
+
 type AlertDocument = InferSchemaType<typeof alertSchema> & {
   _id: mongoose.Types.ObjectId;
   status: AlertStatus;
+  dispatchSteps: AlertDispatchStep[];
+  resolution?: AlertResolution | null;
 };
 
 export type AlertStatusTransitionResult =
   | { kind: 'updated'; data: Pick<AlertRecord, 'id' | 'status' | 'updatedAt'> }
   | { kind: 'not_found' }
-  | { kind: 'blocked'; currentStatus: AlertStatus };
+  | { kind: 'blocked'; currentStatus: AlertStatus }
+  | { kind: 'forbidden' };
 
 const AlertModel =
   (mongoose.models.Alert as mongoose.Model<AlertDocument> | undefined) ??
@@ -112,9 +170,30 @@ function mapAlertDocument(document: AlertDocument): AlertRecord {
           })),
         }
       : null,
+    clientAlertId: document.clientAlertId ?? null,
     responderDeviceId: document.responderDeviceId ?? null,
     responderName: document.responderName ?? null,
     assignedAt: document.assignedAt ?? null,
+    dispatchStep: document.dispatchStep ?? 0,
+    nextDispatchAt: document.nextDispatchAt ?? null,
+    dispatchSteps: (document.dispatchSteps ?? []).map((step) => ({
+      step: step.step,
+      action: step.action,
+      radiusMeters: step.radiusMeters ?? null,
+      candidateRiders: step.candidateRiders,
+      matchedDeviceIds: [...step.matchedDeviceIds],
+      notifiedDeviceIds: [...step.notifiedDeviceIds],
+      at: step.at,
+    })),
+    resolution: document.resolution
+      ? {
+          outcome: document.resolution.outcome,
+          notes: document.resolution.notes ?? null,
+          arrivedAt: document.resolution.arrivedAt ?? null,
+          resolvedAt: document.resolution.resolvedAt,
+          resolvedByDeviceId: document.resolution.resolvedByDeviceId,
+        }
+      : null,
     createdAt: document.createdAt,
     updatedAt: document.updatedAt,
   };
@@ -127,22 +206,122 @@ export async function createAlertRecord(input: CreateAlertPersistenceInput): Pro
     ...input,
     victimName: input.victimName ?? null,
     location: input.location,
+    clientAlertId: input.clientAlertId ?? null,
     responderDeviceId: null,
     responderName: null,
     assignedAt: null,
+    dispatchStep: 0,
+    nextDispatchAt: nowMs,
+    dispatchSteps: [],
+    resolution: null,
     createdAt: nowMs,
     updatedAt: nowMs,
   });
 
-  return mapAlertDocument(document.toObject() as AlertDocument);
+  const record = mapAlertDocument(document.toObject() as AlertDocument);
+  await recordAlertEvent({
+    alertId: record.id,
+    type: 'ALERT_CREATED',
+    actorDeviceId: record.deviceId,
+    fromStatus: null,
+    toStatus: record.status,
+    metadata: {
+      triggeredAt: record.triggeredAt,
+      victimName: record.victimName ?? null,
+      hasLocation: record.location !== null,
+    },
+  });
+  return record;
+}
+
+export async function findAlertRecordById(alertId: string): Promise<AlertRecord | null> {
+  if (!mongoose.isValidObjectId(alertId)) {
+    return null;
+  }
+
+  const existing = await AlertModel.findById(alertId).lean<AlertDocument | null>();
+  return existing ? mapAlertDocument(existing) : null;
+}
+
+// A relayed SOS for a device that already has one of these attaches to it instead of duplicating.
+const OPEN_ALERT_STATUSES: AlertStatus[] = [
+  'TRIGGERED',
+  'ESCALATED',
+  'DISPATCHING',
+  'DISPATCHED',
+  'RESPONDER_ASSIGNED',
+];
+
+export async function findOpenAlertForDevice(deviceId: string): Promise<AlertRecord | null> {
+  const existing = await AlertModel.findOne({ deviceId, status: { $in: OPEN_ALERT_STATUSES } })
+    .sort({ triggeredAt: -1 })
+    .lean<AlertDocument | null>();
+  return existing ? mapAlertDocument(existing) : null;
+}
+
+export async function findAlertRecordByClientId(deviceId: string, clientAlertId: string): Promise<AlertRecord | null> {
+  const existing = await AlertModel.findOne({ deviceId, clientAlertId })
+    .sort({ triggeredAt: -1 })
+    .lean<AlertDocument | null>();
+  return existing ? mapAlertDocument(existing) : null;
+}
+
+export async function listAlertRecords(query: ListAlertsQuery): Promise<AlertPage> {
+  const filter: Record<string, unknown> = {};
+  if (query.deviceId) {
+    filter.deviceId = query.deviceId;
+  }
+  if (query.status) {
+    filter.status = query.status;
+  }
+  if (query.since !== null) {
+    filter.triggeredAt = { $gte: query.since };
+  }
+  if (query.cursor) {
+    if (!mongoose.isValidObjectId(query.cursor)) {
+      return { alerts: [], nextCursor: null };
+    }
+    filter._id = { $lt: new mongoose.Types.ObjectId(query.cursor) };
+  }
+
+  const records = await AlertModel.find(filter)
+    .sort({ _id: -1 })
+    .limit(query.limit + 1)
+    .lean<AlertDocument[]>();
+  const alerts = records.slice(0, query.limit).map((record) => mapAlertDocument(record));
+  return {
+    alerts,
+    nextCursor: records.length > query.limit ? (alerts[alerts.length - 1]?.id ?? null) : null,
+  };
+}
+
+const NEARBY_ALERT_LIMIT = 50;
+
+export async function listNearbyActiveAlertRecords(query: NearbyAlertsQuery): Promise<NearbyAlertRecord[]> {
+  const box = boundingBoxForRadius(query);
+  const records = await AlertModel.find({
+    status: { $in: CLAIMABLE_ALERT_STATUSES },
+    triggeredAt: { $gte: Date.now() - CLAIMABLE_ALERT_MAX_AGE_MS },
+    'location.latitude': { $gte: box.minLatitude, $lte: box.maxLatitude },
+    'location.longitude': { $gte: box.minLongitude, $lte: box.maxLongitude },
+  })
+    .sort({ triggeredAt: -1 })
+    .limit(NEARBY_ALERT_LIMIT * 2)
+    .lean<AlertDocument[]>();
+
+  // The bounding box over-selects at its corners; the exact distance check trims it to the radius.
+  return findAlertsNearPoint({
+    alerts: records.map((record) => mapAlertDocument(record)),
+    latitude: query.latitude,
+    longitude: query.longitude,
+    radiusMeters: query.radiusMeters,
+  }).slice(0, NEARBY_ALERT_LIMIT);
 }
 
 export type AcceptAlertRecordResult =
   | { ok: true; record: AlertRecord }
   | { ok: false; code: AcceptAlertFailureCode; record: AlertRecord | null };
 
-const CLAIMABLE_STATUSES: AlertStatus[] = ['TRIGGERED', 'DISPATCHING', 'DISPATCHED'];
-
 export async function acceptAlertRecord(input: {
   alertId: string;
   responderDeviceId: string;
@@ -157,28 +336,41 @@ export async function acceptAlertRecord(input: {
     };
   }
 
-  const updated = await AlertModel.findOneAndUpdate(
+  const assignment = {
+    responderDeviceId: input.responderDeviceId,
+    responderName: input.responderName ?? null,
+    assignedAt: input.assignedAt,
+    status: 'RESPONDER_ASSIGNED' as const,
+    nextDispatchAt: null,
+    updatedAt: Date.now(),
+  };
+  // Read the pre-update document so the audit event can record the status the responder claimed from.
+  const previous = await AlertModel.findOneAndUpdate(
     {
       _id: input.alertId,
-      status: { $in: CLAIMABLE_STATUSES },
+      status: { $in: CLAIMABLE_ALERT_STATUSES },
       responderDeviceId: null,
     },
-    {
-      $set: {
-        responderDeviceId: input.responderDeviceId,
-        responderName: input.responderName ?? null,
-        assignedAt: input.assignedAt,
-        status: 'RESPONDER_ASSIGNED',
-        updatedAt: Date.now(),
-      },
-    },
-    { new: true }
+    { $set: assignment },
+    { new: false }
   ).lean<AlertDocument | null>();
 
-  if (updated) {
+  if (previous) {
+    const record = mapAlertDocument({ ...previous, ...assignment });
+    await recordAlertEvent({
+      alertId: record.id,
+      type: 'RESPONDER_ASSIGNED',
+      actorDeviceId: input.responderDeviceId,
+      fromStatus: previous.status,
+      toStatus: record.status,
+      metadata: {
+        responderName: record.responderName ?? null,
+        assignedAt: input.assignedAt,
+      },
+    });
     return {
       ok: true,
-      record: mapAlertDocument(updated),
+      record,
     };
   }
 
@@ -212,6 +404,7 @@ const ESCALATABLE_STATUSES: AlertStatus[] = ['TRIGGERED', 'DISPATCHING', 'DISPAT
 export async function updateAlertStatusRecord(input: {
   alertId: string;
   status: 'CANCELLED' | 'ESCALATED';
+  actorDeviceId?: string | null;
 }): Promise<AlertStatusTransitionResult> {
   if (!mongoose.isValidObjectId(input.alertId)) {
     return { kind: 'not_found' };
@@ -221,6 +414,9 @@ export async function updateAlertStatusRecord(input: {
   if (!existing) {
     return { kind: 'not_found' };
   }
+  if (input.actorDeviceId && existing.deviceId !== input.actorDeviceId) {
+    return { kind: 'forbidden' };
+  }
 
   const canTransition =
     input.status === 'CANCELLED'
@@ -237,10 +433,18 @@ export async function updateAlertStatusRecord(input: {
     {
       $set: {
         status: input.status,
+        nextDispatchAt: null,
         updatedAt,
       },
     }
   );
+  await recordAlertEvent({
+    alertId: input.alertId,
+    type: 'STATUS_UPDATED',
+    actorDeviceId: input.actorDeviceId ?? existing.deviceId,
+    fromStatus: existing.status,
+    toStatus: input.status,
+  });
 
   return {
     kind: 'updated',
@@ -251,3 +455,184 @@ export async function updateAlertStatusRecord(input: {
     },
   };
 }
+
+// Escalated alerts have no responder but still need closing once the victim is safe.
+const RESOLVABLE_STATUSES: AlertStatus[] = ['RESPONDER_ASSIGNED', 'ESCALATED'];
+// The victim escalates locally before the server ladder catches up, so they may close an
+// alert that is still being dispatched.
+const VICTIM_RESOLVABLE_STATUSES: AlertStatus[] = [...RESOLVABLE_STATUSES, 'TRIGGERED', 'DISPATCHING', 'DISPATCHED'];
+
+export async function resolveAlertRecord(input: ResolveAlertPersistenceInput): Promise<ResolveAlertResult> {
+  if (!mongoose.isValidObjectId(input.alertId)) {
+    return { kind: 'not_found' };
+  }
+
+  const existing = await AlertModel.findById(input.alertId).lean<AlertDocument | null>();
+  if (!existing) {
+    return { kind: 'not_found' };
+  }
+  if (input.deviceId !== existing.deviceId && input.deviceId !== existing.responderDeviceId) {
+    return { kind: 'forbidden' };
+  }
+  const resolvableStatuses =
+    input.deviceId === existing.deviceId ? VICTIM_RESOLVABLE_STATUSES : RESOLVABLE_STATUSES;
+  if (!resolvableStatuses.includes(existing.status)) {
+    return { kind: 'blocked', currentStatus: existing.status };
+  }
+
+  const resolution: AlertResolution = {
+    outcome: input.outcome,
+    notes: input.notes,
+    arrivedAt: input.arrivedAt,
+    resolvedAt: input.resolvedAt,
+    resolvedByDeviceId: input.deviceId,
+  };
+  // Guard on the status we just read so a concurrent cancel or second resolve cannot be overwritten.
+  const updated = await AlertModel.findOneAndUpdate(
+    { _id: input.alertId, status: existing.status },
+    {
+      $set: {
+        status: 'RESOLVED',
+        resolution,
+        nextDispatchAt: null,
+        updatedAt: Date.now(),
+      },
+    },
+    { new: true }
+  ).lean<AlertDocument | null>();
+
+  if (!updated) {
+    const current = await AlertModel.findById(input.alertId).lean<AlertDocument | null>();
+    return current ? { kind: 'blocked', currentStatus: current.status } : { kind: 'not_found' };
+  }
+
+  await recordAlertEvent({
+    alertId: input.alertId,
+    type: 'ALERT_RESOLVED',
+    actorDeviceId: input.deviceId,
+    fromStatus: existing.status,
+    toStatus: 'RESOLVED',
+    metadata: {
+      outcome: input.outcome,
+      arrivedAt: input.arrivedAt,
+      resolvedBy: input.deviceId === existing.deviceId ? 'VICTIM' : 'RESPONDER',
+    },
+  });
+  return { kind: 'resolved', record: mapAlertDocument(updated) };
+}
+
+const DISPATCHABLE_STATUSES: AlertStatus[] = ['TRIGGERED', 'DISPATCHING', 'DISPATCHED'];
+
+export async function listAlertsDueForDispatch(nowMs: number): Promise<AlertRecord[]> {
+  const records = await AlertModel.find({
+    status: { $in: DISPATCHABLE_STATUSES },
+    nextDispatchAt: { $ne: null, $lte: nowMs },
+  })
+    .sort({ nextDispatchAt: 1 })
+    .limit(50)
+    .lean<AlertDocument[]>();
+  return records.map((record) => mapAlertDocument(record));
+}
+
+export async function beginAlertDispatchStep(input: {
+  alertId: string;
+  step: number;
+  nowMs: number;
+  leaseMs: number;
+}): Promise<AlertRecord | null> {
+  if (!mongoose.isValidObjectId(input.alertId)) {
+    return null;
+  }
+
+  const updated = await AlertModel.findOneAndUpdate(
+    {
+      _id: input.alertId,
+      status: { $in: DISPATCHABLE_STATUSES },
+      dispatchStep: input.step,
+      nextDispatchAt: { $ne: null, $lte: input.nowMs },
+    },
+    {
+      $set: {
+        status: 'DISPATCHING',
+        // The lease lets another poll retry the step if this process dies mid-dispatch.
+        nextDispatchAt: input.nowMs + input.leaseMs,
+        updatedAt: Date.now(),
+      },
+    },
+    { new: true }
+  ).lean<AlertDocument | null>();
+  return updated ? mapAlertDocument(updated) : null;
+}
+
+export async function completeAlertDispatchStep(input: {
+  alertId: string;
+  record: AlertDispatchStep;
+  nextDispatchAt: number;
+}): Promise<AlertRecord | null> {
+  const updated = await AlertModel.findOneAndUpdate(
+    {
+      _id: input.alertId,
+      status: 'DISPATCHING',
+      dispatchStep: input.record.step,
+    },
+    {
+      $set: {
+        status: 'DISPATCHED',
+        dispatchStep: input.record.step + 1,
+        nextDispatchAt: input.nextDispatchAt,
+        updatedAt: Date.now(),
+      },
+      $push: { dispatchSteps: input.record },
+    },
+    { new: true }
+  ).lean<AlertDocument | null>();
+  if (!updated) {
+    return null;
+  }
+
+  await recordAlertEvent({
+    alertId: input.alertId,
+    type: 'DISPATCH_STEP',
+    actorDeviceId: null,
+    fromStatus: 'DISPATCHING',
+    toStatus: 'DISPATCHED',
+    metadata: { ...input.record, nextDispatchAt: input.nextDispatchAt },
+  });
+  return mapAlertDocument(updated);
+}
+
+export async function escalateAlertDispatch(input: {
+  alertId: string;
+  record: AlertDispatchStep;
+}): Promise<AlertRecord | null> {
+  const updated = await AlertModel.findOneAndUpdate(
+    {
+      _id: input.alertId,
+      status: 'DISPATCHING',
+      dispatchStep: input.record.step,
+    },
+    {
+      $set: {
+        status: 'ESCALATED',
+        dispatchStep: input.record.step + 1,
+        nextDispatchAt: null,
+        updatedAt: Date.now(),
+      },
+      $push: { dispatchSteps: input.record },
+    },
+    { new: true }
+  ).lean<AlertDocument | null>();
+  if (!updated) {
+    return null;
+  }
+
+  await recordAlertEvent({
+    alertId: input.alertId,
+    type: 'ESCALATED',
+    actorDeviceId: null,
+    fromStatus: 'DISPATCHING',
+    toStatus: 'ESCALATED',
+    metadata: { step: input.record.step, reason: 'DISPATCH_LADDER_EXHAUSTED' },
+  });
+  return mapAlertDocument(updated);
+}
@@ -0,0 +1,99 @@
+import mongoose, { Schema, type InferSchemaType } from 'mongoose';
+
+import type {
+  AlertEventPage,
+  AlertEventRecord,
+  AlertEventType,
+  AlertStatus,
+  AppendAlertEventInput,
+} from '../types/alert';
+import { ALERT_EVENT_TYPES, ALERT_STATUSES } from '../types/alert';
+
+const alertEventSchema = new Schema(
+  {
+    alertId: { type: String, required: true, trim: true },
+    type: { type: String, required: true, enum: ALERT_EVENT_TYPES },
+    actorDeviceId: { type: String, required: false, default: null, trim: true },
+    fromStatus: { type: String, required: false, default: null, enum: [...ALERT_STATUSES, null] },
+    toStatus: { type: String, required: false, default: null, enum: [...ALERT_STATUSES, null] },
+    metadata: { type: Schema.Types.Mixed, required: false, default: {} },
+    createdAt: { type: Number, required: true },
+  },
+  {
+    collection: 'alert_events',
+    versionKey: false,
+    strict: 'throw',
+    minimize: false,
+  }
+);
+
+alertEventSchema.index({ alertId: 1, _id: 1 });
+
+type AlertEventDocument = InferSchemaType<typeof alertEventSchema> & {
+  _id: mongoose.Types.ObjectId;
+  type: AlertEventType;
+  fromStatus: AlertStatus | null;
+  toStatus: AlertStatus | null;
+  metadata: Record<string, unknown> | null;
+};
+
+const AlertEventModel =
+  (mongoose.models.AlertEvent as mongoose.Model<AlertEventDocument> | undefined) ??
+  mongoose.model<AlertEventDocument>('AlertEvent', alertEventSchema);
+
+function mapAlertEventDocument(document: AlertEventDocument): AlertEventRecord {
+  return {
+    id: document._id.toString(),
+    alertId: document.alertId,
+    type: document.type,
+    actorDeviceId: document.actorDeviceId ?? null,
+    fromStatus: document.fromStatus ?? null,
+    toStatus: document.toStatus ?? null,
+    metadata: document.metadata ?? {},
+    createdAt: document.createdAt,
+  };
+}
+
+export async function appendAlertEventRecord(input: AppendAlertEventInput): Promise<AlertEventRecord> {
+  const document = await AlertEventModel.create({
+    ...input,
+    metadata: input.metadata ?? {},
+    createdAt: Date.now(),
+  });
+  return mapAlertEventDocument(document.toObject() as AlertEventDocument);
+}
+
+// The audit trail must never fail the alert transition it describes, so write errors are only logged.
+export async function recordAlertEvent(input: AppendAlertEventInput): Promise<void> {
+  try {
+    await appendAlertEventRecord(input);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    console.error(`[alert-events] Failed to record ${input.type} for alert ${input.alertId}: ${reason}`);
+  }
+}
+
+export async function listAlertEventRecords(input: {
+  alertId: string;
+  limit: number;
+  cursor: string | null;
+}): Promise<AlertEventPage> {
+  const filter: Record<string, unknown> = { alertId: input.alertId };
+  if (input.cursor) {
+    if (!mongoose.isValidObjectId(input.cursor)) {
+      return { events: [], nextCursor: null };
+    }
+    filter._id = { $gt: new mongoose.Types.ObjectId(input.cursor) };
+  }
+
+  // ObjectIds grow with insertion time, so they double as a stable append-order cursor.
+  const records = await AlertEventModel.find(filter)
+    .sort({ _id: 1 })
+    .limit(input.limit + 1)
+    .lean<AlertEventDocument[]>();
+  const page = records.slice(0, input.limit).map((record) => mapAlertEventDocument(record));
+  return {
+    events: page,
+    nextCursor: records.length > input.limit ? (page[page.length - 1]?.id ?? null) : null,
+  };
+}
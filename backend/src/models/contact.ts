@@ -0,0 +1,122 @@
+import mongoose, { Schema, type InferSchemaType } from 'mongoose';
+
+import type {
+  CreateContactInput,
+  CreateContactResult,
+  EmergencyContactRecord,
+  UpdateContactInput,
+  UpdateContactResult,
+} from '../types/contact';
+
+export const MAX_CONTACTS_PER_DEVICE = 3;
+
+const contactSchema = new Schema(
+  {
+    deviceId: { type: String, required: true, trim: true, index: true },
+    name: { type: String, required: true, trim: true },
+    phone: { type: String, required: true, trim: true },
+    email: { type: String, required: false, default: null, trim: true },
+    createdAt: { type: Number, required: true },
+    updatedAt: { type: Number, required: true },
+  },
+  {
+    collection: 'emergency_contacts',
+    versionKey: false,
+    strict: 'throw',
+  }
+);
+
+contactSchema.index({ deviceId: 1, phone: 1 }, { unique: true });
+
+type ContactDocument = InferSchemaType<typeof contactSchema> & {
+  _id: mongoose.Types.ObjectId;
+};
+
+const ContactModel =
+  (mongoose.models.EmergencyContact as mongoose.Model<ContactDocument> | undefined) ??
+  mongoose.model<ContactDocument>('EmergencyContact', contactSchema);
+
+function mapContactDocument(document: ContactDocument): EmergencyContactRecord {
+  return {
+    id: document._id.toString(),
+    deviceId: document.deviceId,
+    name: document.name,
+    phone: document.phone,
+    email: document.email ?? null,
+    createdAt: document.createdAt,
+    updatedAt: document.updatedAt,
+  };
+}
+
+function isDuplicateKeyError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { code?: unknown }).code === 11000;
+}
+
+export async function listContactRecordsForDevice(deviceId: string): Promise<EmergencyContactRecord[]> {
+  const records = await ContactModel.find({ deviceId }).sort({ createdAt: -1 }).lean<ContactDocument[]>();
+  return records.map((record) => mapContactDocument(record));
+}
+
+export async function createContactRecord(input: CreateContactInput): Promise<CreateContactResult> {
+  const existingCount = await ContactModel.countDocuments({ deviceId: input.deviceId });
+  if (existingCount >= MAX_CONTACTS_PER_DEVICE) {
+    return { kind: 'limit_reached', maxContacts: MAX_CONTACTS_PER_DEVICE };
+  }
+
+  const nowMs = Date.now();
+  try {
+    const document = await ContactModel.create({
+      ...input,
+      createdAt: nowMs,
+      updatedAt: nowMs,
+    });
+    return { kind: 'created', record: mapContactDocument(document.toObject() as ContactDocument) };
+  } catch (error) {
+    if (isDuplicateKeyError(error)) {
+      return { kind: 'duplicate_phone' };
+    }
+    throw error;
+  }
+}
+
+export async function updateContactRecord(input: UpdateContactInput): Promise<UpdateContactResult> {
+  if (!mongoose.isValidObjectId(input.contactId)) {
+    return { kind: 'not_found' };
+  }
+
+  try {
+    const record = await ContactModel.findOneAndUpdate(
+      { _id: input.contactId, deviceId: input.deviceId },
+      {
+        $set: {
+          name: input.name,
+          phone: input.phone,
+          email: input.email,
+          updatedAt: Date.now(),
+        },
+      },
+      { new: true }
+    ).lean<ContactDocument | null>();
+    if (!record) {
+      return { kind: 'not_found' };
+    }
+    return { kind: 'updated', record: mapContactDocument(record) };
+  } catch (error) {
+    if (isDuplicateKeyError(error)) {
+      return { kind: 'duplicate_phone' };
+    }
+    throw error;
+  }
+}
+
+export async function deleteContactRecord(input: {
+  deviceId: string;
+  contactId: string;
+}): Promise<{ removed: boolean }> {
+  if (!mongoose.isValidObjectId(input.contactId)) {
+    return { removed: false };
+  }
+
+  const result = await ContactModel.deleteOne({ _id: input.contactId, deviceId: input.deviceId });
+  return { removed: result.deletedCount > 0 };
+}
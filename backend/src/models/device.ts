@@ -0,0 +1,116 @@
+import mongoose, { Schema, type InferSchemaType } from 'mongoose';
+
+import type {
+  DeviceRecord,
+  RegisterDeviceInput,
+  RegisterDeviceResult,
+  RotateDeviceKeyInput,
+  RotateDeviceKeyResult,
+} from '../types/device';
+import { revokeDeviceKeyRecord } from './revokedDeviceKey';
+
+const deviceSchema = new Schema(
+  {
+    deviceId: { type: String, required: true, trim: true, unique: true },
+    publicKey: { type: String, required: true, trim: true },
+    createdAt: { type: Number, required: true },
+    updatedAt: { type: Number, required: true },
+  },
+  {
+    collection: 'devices',
+    versionKey: false,
+    strict: 'throw',
+  }
+);
+
+type DeviceDocument = InferSchemaType<typeof deviceSchema> & {
+  _id: mongoose.Types.ObjectId;
+};
+
+const DeviceModel =
+  (mongoose.models.Device as mongoose.Model<DeviceDocument> | undefined) ??
+  mongoose.model<DeviceDocument>('Device', deviceSchema);
+
+function mapDeviceDocument(document: DeviceDocument): DeviceRecord {
+  return {
+    id: document._id.toString(),
+    deviceId: document.deviceId,
+    publicKey: document.publicKey,
+    createdAt: document.createdAt,
+    updatedAt: document.updatedAt,
+  };
+}
+
+export async function findDeviceRecord(deviceId: string): Promise<DeviceRecord | null> {
+  const record = await DeviceModel.findOne({ deviceId }).lean<DeviceDocument | null>();
+  return record ? mapDeviceDocument(record) : null;
+}
+
+function isDuplicateKeyError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { code?: unknown }).code === 11000;
+}
+
+export async function registerDeviceRecord(input: RegisterDeviceInput): Promise<RegisterDeviceResult> {
+  // First registration wins: a device id stays bound to the key that claimed it.
+  const existing = await findDeviceRecord(input.deviceId);
+  if (existing) {
+    return existing.publicKey === input.publicKey ? { kind: 'existing', record: existing } : { kind: 'key_mismatch' };
+  }
+
+  const nowMs = Date.now();
+  try {
+    const document = await DeviceModel.create({
+      ...input,
+      createdAt: nowMs,
+      updatedAt: nowMs,
+    });
+    return { kind: 'registered', record: mapDeviceDocument(document.toObject() as DeviceDocument) };
+  } catch (error) {
+    if (!isDuplicateKeyError(error)) {
+      throw error;
+    }
+    // Lost a race with a concurrent registration for the same id.
+    const winner = await findDeviceRecord(input.deviceId);
+    return winner && winner.publicKey === input.publicKey
+      ? { kind: 'existing', record: winner }
+      : { kind: 'key_mismatch' };
+  }
+}
+
+/** Swaps the device's key only if it is still the one that signed the rotation, then revokes the old key. */
+export async function rotateDeviceKeyRecord(input: RotateDeviceKeyInput): Promise<RotateDeviceKeyResult> {
+  const nowMs = Date.now();
+  const updated = await DeviceModel.findOneAndUpdate(
+    { deviceId: input.deviceId, publicKey: input.currentPublicKey },
+    { $set: { publicKey: input.newPublicKey, updatedAt: nowMs } },
+    { new: true }
+  ).lean<DeviceDocument | null>();
+  if (!updated) {
+    return (await findDeviceRecord(input.deviceId)) ? { kind: 'stale' } : { kind: 'not_found' };
+  }
+
+  await revokeDeviceKeyRecord({
+    deviceId: input.deviceId,
+    publicKey: input.currentPublicKey,
+    reason: 'ROTATED',
+    revokedAt: nowMs,
+  });
+  return { kind: 'rotated', record: mapDeviceDocument(updated) };
+}
+
+/** Revokes a leaked key and frees the device id, so its owner can register a fresh key. */
+export async function revokeCompromisedDeviceKey(deviceId: string): Promise<DeviceRecord | null> {
+  const record = await findDeviceRecord(deviceId);
+  if (!record) {
+    return null;
+  }
+
+  await revokeDeviceKeyRecord({
+    deviceId,
+    publicKey: record.publicKey,
+    reason: 'COMPROMISED',
+    revokedAt: Date.now(),
+  });
+  await DeviceModel.deleteOne({ deviceId, publicKey: record.publicKey });
+  return record;
+}
@@ -1,7 +1,65 @@
 import mongoose, { Schema, type InferSchemaType } from 'mongoose';
 
-import type { CreateHazardInput, HazardRecord, HazardType } from '../types/hazard';
-import { HAZARD_TYPES } from '../types/hazard';
+import {
+  computeHazardConfidence,
+  HAZARD_TTL_MS,
+  hazardExpiresAt,
+  shouldRemoveHazard,
+} from '../services/hazardLifecycleService';
+import type {
+  AttachHazardPhotoInput,
+  AttachHazardPhotoResult,
+  CreateHazardInput,
+  HazardAreaQuery,
+  HazardPhotoStream,
+  HazardRecord,
+  HazardType,
+  HazardVote,
+  HazardVoteInput,
+  HazardVoteResult,
+  RemoveHazardResult,
+} from '../types/hazard';
+import { HAZARD_TYPES, HAZARD_VOTES } from '../types/hazard';
+
+const geoPointSchema = new Schema(
+  {
+    type: { type: String, required: true, enum: ['Point'] },
+    // GeoJSON order: [longitude, latitude].
+    coordinates: { type: [Number], required: true },
+  },
+  {
+    _id: false,
+    strict: 'throw',
+  }
+);
+
+const hazardVoteSchema = new Schema(
+  {
+    deviceId: { type: String, required: true, trim: true },
+    vote: { type: String, required: true, enum: HAZARD_VOTES },
+    at: { type: Number, required: true },
+  },
+  {
+    _id: false,
+    strict: 'throw',
+  }
+);
+
+const hazardPhotoSchema = new Schema(
+  {
+    fileId: { type: Schema.Types.ObjectId, required: true },
+    contentType: { type: String, required: true },
+    size: { type: Number, required: true },
+    uploadedAt: { type: Number, required: true },
+  },
+  {
+    _id: false,
+    strict: 'throw',
+  }
+);
+
+const HAZARD_PHOTO_BUCKET = 'hazardPhotos';
+const MAX_LISTED_HAZARDS = 500;
 
 const hazardSchema = new Schema(
   {
@@ -12,6 +70,16 @@ const hazardSchema = new Schema(
     },
     latitude: { type: Number, required: true },
     longitude: { type: Number, required: true },
+    location: { type: geoPointSchema, required: false },
+    severity: { type: Number, required: false, default: null, min: 1, max: 5 },
+    description: { type: String, required: false, default: null, trim: true },
+    heading: { type: Number, required: false, default: null },
+    photo: { type: hazardPhotoSchema, required: false, default: null },
+    reporterDeviceId: { type: String, required: false, default: null, trim: true },
+    reportCount: { type: Number, required: true, default: 1 },
+    votes: { type: [hazardVoteSchema], required: true, default: [] },
+    lastConfirmedAt: { type: Number, required: false, default: null },
+    expiresAt: { type: Number, required: false, index: true },
     createdAt: { type: Number, required: true },
     updatedAt: { type: Number, required: true },
   },
@@ -22,9 +90,12 @@ const hazardSchema = new Schema(
   }
 );
 
+hazardSchema.index({ location: '2dsphere' });
+
 type HazardDocument = InferSchemaType<typeof hazardSchema> & {
   _id: mongoose.Types.ObjectId;
   type: HazardType;
+  votes?: { deviceId: string; vote: HazardVote; at: number }[];
 };
 
 const HazardModel =
@@ -32,36 +103,334 @@ const HazardModel =
   mongoose.model<HazardDocument>('Hazard', hazardSchema);
 
 function mapHazardDocument(document: HazardDocument): HazardRecord {
+  const votes = document.votes ?? [];
+  const confirmations = votes.filter((entry) => entry.vote === 'CONFIRM').length;
+  const denials = votes.length - confirmations;
   return {
     id: document._id.toString(),
     type: document.type,
     latitude: document.latitude,
     longitude: document.longitude,
+    severity: document.severity ?? null,
+    description: document.description ?? null,
+    heading: document.heading ?? null,
+    // The version query keeps clients from showing a cached image after the photo is replaced.
+    photoUrl: document.photo
+      ? `/api/v1/hazards/${document._id.toString()}/photo?v=${document.photo.uploadedAt}`
+      : null,
+    reporterDeviceId: document.reporterDeviceId ?? null,
+    reportCount: document.reportCount ?? 1,
+    confirmations,
+    denials,
+    confidence: computeHazardConfidence(confirmations, denials),
+    lastConfirmedAt: document.lastConfirmedAt ?? null,
+    // Hazards stored before expiry existed age out from their creation time.
+    expiresAt: document.expiresAt ?? hazardExpiresAt(document.type, document.createdAt),
     createdAt: document.createdAt,
     updatedAt: document.updatedAt,
   };
 }
 
-export async function listHazardRecords(): Promise<HazardRecord[]> {
-  const docs = await HazardModel.find().sort({ createdAt: -1 }).lean<HazardDocument[]>();
-  return docs.map(mapHazardDocument);
+function buildAreaFilter(area: HazardAreaQuery): Record<string, unknown> {
+  switch (area.kind) {
+    case 'radius':
+      return {
+        location: {
+          $nearSphere: {
+            $geometry: { type: 'Point', coordinates: [area.longitude, area.latitude] },
+            $maxDistance: area.radiusMeters,
+          },
+        },
+      };
+    case 'bbox':
+      return {
+        location: {
+          $geoWithin: {
+            $geometry: {
+              type: 'Polygon',
+              coordinates: [
+                [
+                  [area.minLongitude, area.minLatitude],
+                  [area.maxLongitude, area.minLatitude],
+                  [area.maxLongitude, area.maxLatitude],
+                  [area.minLongitude, area.maxLatitude],
+                  [area.minLongitude, area.minLatitude],
+                ],
+              ],
+            },
+          },
+        },
+      };
+  }
+}
+
+export async function listHazardRecords(area: HazardAreaQuery | null = null): Promise<HazardRecord[]> {
+  const nowMs = Date.now();
+  // $nearSphere already orders by distance and cannot be combined with another sort.
+  // Capped so a query without an area, or with a world-sized box, cannot return the whole collection.
+  const docs =
+    area?.kind === 'radius'
+      ? await HazardModel.find(buildAreaFilter(area)).limit(MAX_LISTED_HAZARDS).lean<HazardDocument[]>()
+      : await HazardModel.find(area ? buildAreaFilter(area) : {})
+          .sort({ createdAt: -1 })
+          .limit(MAX_LISTED_HAZARDS)
+          .lean<HazardDocument[]>();
+  // Expired hazards stay hidden between sweeps.
+  return docs.map(mapHazardDocument).filter((hazard) => hazard.expiresAt > nowMs);
+}
+
+/** Folds the report into an unexpired hazard of the same type within the merge radius; null when there is none. */
+export async function mergeIntoNearbyHazard(
+  input: CreateHazardInput,
+  options: { mergeRadiusMeters: number; nowMs: number }
+): Promise<HazardRecord | null> {
+  const { mergeRadiusMeters, nowMs: now } = options;
+  const existing = await HazardModel.findOne({
+    type: input.type,
+    expiresAt: { $gt: now },
+    location: {
+      $nearSphere: {
+        $geometry: { type: 'Point', coordinates: [input.longitude, input.latitude] },
+        $maxDistance: mergeRadiusMeters,
+      },
+    },
+  }).lean<HazardDocument | null>();
+  if (!existing) {
+    return null;
+  }
+
+  // A repeat report is as good as a confirmation, so it also restarts the type's TTL.
+  const merged = await HazardModel.findOneAndUpdate(
+    { _id: existing._id },
+    [
+      {
+        $set: {
+          reportCount: { $add: [{ $ifNull: ['$reportCount', 1] }, 1] },
+          // Keep the worst rating and the first description anyone gave.
+          severity:
+            input.severity === null ? { $ifNull: ['$severity', null] } : { $max: ['$severity', input.severity] },
+          // The description is free text, so $literal keeps "$..." from being evaluated as an expression.
+          description: { $ifNull: ['$description', { $literal: input.description }] },
+          expiresAt: { $max: ['$expiresAt', hazardExpiresAt(input.type, now)] },
+          updatedAt: now,
+        },
+      },
+    ],
+    { new: true }
+  ).lean<HazardDocument | null>();
+  return merged ? mapHazardDocument(merged) : null;
 }
 
 export async function createHazardRecord(input: CreateHazardInput): Promise<HazardRecord> {
   const now = Date.now();
   const doc = await HazardModel.create({
     ...input,
+    location: { type: 'Point', coordinates: [input.longitude, input.latitude] },
+    reportCount: 1,
+    photo: null,
+    votes: [],
+    lastConfirmedAt: null,
+    expiresAt: hazardExpiresAt(input.type, now),
     createdAt: now,
     updatedAt: now,
   });
   return mapHazardDocument(doc.toObject() as HazardDocument);
 }
 
-export async function removeHazardRecord(hazardId: string): Promise<{ removed: boolean }> {
+export async function castHazardVote(input: HazardVoteInput): Promise<HazardVoteResult> {
+  if (!mongoose.isValidObjectId(input.hazardId)) {
+    return { kind: 'not_found' };
+  }
+
+  const current = await HazardModel.findById(input.hazardId).lean<HazardDocument | null>();
+  if (!current) {
+    return { kind: 'not_found' };
+  }
+  if (current.reporterDeviceId === input.deviceId) {
+    return { kind: 'own_hazard' };
+  }
+
+  // Replace this device's earlier vote atomically so concurrent voters never overwrite each other.
+  const confirming = input.vote === 'CONFIRM';
+  const updated = await HazardModel.findOneAndUpdate(
+    { _id: input.hazardId },
+    [
+      {
+        $set: {
+          votes: {
+            $concatArrays: [
+              {
+                $filter: {
+                  input: { $ifNull: ['$votes', []] },
+                  cond: { $ne: ['$$this.deviceId', { $literal: input.deviceId }] },
+                },
+              },
+              // $literal keeps a client string that starts with "$" from being read as a field path.
+              [{ deviceId: { $literal: input.deviceId }, vote: { $literal: input.vote }, at: input.nowMs }],
+            ],
+          },
+          lastConfirmedAt: confirming ? input.nowMs : { $ifNull: ['$lastConfirmedAt', null] },
+          // A confirmation restarts the type's TTL; a denial never extends it.
+          expiresAt: confirming
+            ? { $max: ['$expiresAt', hazardExpiresAt(current.type, input.nowMs)] }
+            : { $ifNull: ['$expiresAt', hazardExpiresAt(current.type, current.createdAt)] },
+          updatedAt: input.nowMs,
+        },
+      },
+    ],
+    { new: true }
+  ).lean<HazardDocument | null>();
+  if (!updated) {
+    return { kind: 'not_found' };
+  }
+
+  const record = mapHazardDocument(updated);
+  if (shouldRemoveHazard(record.confirmations, record.denials)) {
+    const removed = await HazardModel.findOneAndDelete(
+      { _id: input.hazardId },
+      { projection: { photo: 1 } }
+    ).lean<Pick<HazardDocument, 'photo'> | null>();
+    await deleteHazardPhotos(removed ? [removed] : []);
+    return { kind: 'removed', hazardId: record.id };
+  }
+  return { kind: 'updated', record };
+}
+
+export async function removeHazardRecord(input: { hazardId: string; deviceId: string }): Promise<RemoveHazardResult> {
+  if (!mongoose.isValidObjectId(input.hazardId)) {
+    return { kind: 'not_found' };
+  }
+
+  const removed = await HazardModel.findOneAndDelete(
+    { _id: input.hazardId, reporterDeviceId: input.deviceId },
+    { projection: { photo: 1 } }
+  ).lean<Pick<HazardDocument, 'photo'> | null>();
+  if (removed) {
+    await deleteHazardPhotos([removed]);
+    return { kind: 'removed' };
+  }
+  const exists = await HazardModel.exists({ _id: input.hazardId });
+  return exists ? { kind: 'forbidden' } : { kind: 'not_found' };
+}
+
+function openPhotoBucket(): mongoose.mongo.GridFSBucket {
+  const db = mongoose.connection.db;
+  if (!db) {
+    throw new Error('MongoDB is not connected.');
+  }
+  return new mongoose.mongo.GridFSBucket(db, { bucketName: HAZARD_PHOTO_BUCKET });
+}
+
+async function deletePhotoFile(fileId: mongoose.Types.ObjectId): Promise<void> {
+  try {
+    await openPhotoBucket().delete(fileId);
+  } catch {
+    // An orphaned file only wastes space; the hazard no longer references it.
+  }
+}
+
+async function deleteHazardPhotos(removed: Pick<HazardDocument, 'photo'>[]): Promise<void> {
+  for (const { photo } of removed) {
+    if (photo) {
+      await deletePhotoFile(photo.fileId);
+    }
+  }
+}
+
+/** Stores the photo in GridFS and points the hazard at it, replacing any earlier photo. Reporter only. */
+export async function attachHazardPhoto(input: AttachHazardPhotoInput): Promise<AttachHazardPhotoResult> {
+  if (!mongoose.isValidObjectId(input.hazardId)) {
+    return { kind: 'not_found' };
+  }
+
+  const current = await HazardModel.findById(input.hazardId).lean<HazardDocument | null>();
+  if (!current) {
+    return { kind: 'not_found' };
+  }
+  if (current.reporterDeviceId !== input.deviceId) {
+    return { kind: 'forbidden' };
+  }
+
+  const upload = openPhotoBucket().openUploadStream(`hazard-${input.hazardId}`, {
+    metadata: { hazardId: input.hazardId, contentType: input.contentType },
+  });
+  await new Promise<void>((resolve, reject) => {
+    upload.once('finish', () => resolve());
+    upload.once('error', reject);
+    upload.end(input.data);
+  });
+
+  const updated = await HazardModel.findOneAndUpdate(
+    { _id: input.hazardId },
+    {
+      $set: {
+        photo: {
+          fileId: upload.id,
+          contentType: input.contentType,
+          size: input.data.length,
+          uploadedAt: input.nowMs,
+        },
+        updatedAt: input.nowMs,
+      },
+    },
+    { new: true }
+  ).lean<HazardDocument | null>();
+  if (!updated) {
+    await deletePhotoFile(upload.id);
+    return { kind: 'not_found' };
+  }
+  if (current.photo) {
+    await deletePhotoFile(current.photo.fileId);
+  }
+  return { kind: 'attached', record: mapHazardDocument(updated) };
+}
+
+export async function openHazardPhoto(hazardId: string): Promise<HazardPhotoStream | null> {
   if (!mongoose.isValidObjectId(hazardId)) {
-    return { removed: false };
+    return null;
   }
-  const result = await HazardModel.deleteOne({ _id: hazardId });
-  return { removed: result.deletedCount > 0 };
+
+  const doc = await HazardModel.findById(hazardId, { photo: 1 }).lean<Pick<HazardDocument, 'photo'> | null>();
+  if (!doc?.photo) {
+    return null;
+  }
+  return {
+    contentType: doc.photo.contentType,
+    length: doc.photo.size,
+    stream: openPhotoBucket().openDownloadStream(doc.photo.fileId),
+  };
 }
 
+/** Deletes hazards past their TTL and returns their ids so clients can drop them. */
+export async function removeExpiredHazardRecords(nowMs: number): Promise<string[]> {
+  const expired = await HazardModel.find(
+    {
+      $or: [
+        { expiresAt: { $lte: nowMs } },
+        ...HAZARD_TYPES.map((type) => ({
+          expiresAt: { $exists: false },
+          type,
+          createdAt: { $lte: nowMs - HAZARD_TTL_MS[type] },
+        })),
+      ],
+    },
+    { _id: 1, photo: 1 }
+  ).lean<Pick<HazardDocument, '_id' | 'photo'>[]>();
+  if (expired.length === 0) {
+    return [];
+  }
+
+  const ids = expired.map((doc) => doc._id);
+  await HazardModel.deleteMany({ _id: { $in: ids } });
+  await deleteHazardPhotos(expired);
+  return ids.map((id) => id.toString());
+}
+
+/** Adds the GeoJSON point to hazards written before it existed; returns how many were updated. */
+export async function backfillHazardLocations(): Promise<number> {
+  const result = await HazardModel.collection.updateMany({ location: { $exists: false } }, [
+    { $set: { location: { type: 'Point', coordinates: ['$longitude', '$latitude'] } } },
+  ]);
+  await HazardModel.syncIndexes();
+  return result.modifiedCount;
+}
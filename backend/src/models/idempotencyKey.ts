@@ -0,0 +1,101 @@
+import mongoose, { Schema, type InferSchemaType } from 'mongoose';
+
+import type {
+  ClaimIdempotencyKeyInput,
+  ClaimIdempotencyKeyResult,
+  IdempotencyRecord,
+  IdempotentResponse,
+} from '../types/idempotency';
+
+// Outbox entries are retried for at most a day, so keys only need to outlive that.
+const IDEMPOTENCY_KEY_TTL_SECONDS = 24 * 60 * 60;
+// A claim older than this without a stored response belongs to a request that died mid-flight.
+const STALE_CLAIM_MS = 60_000;
+
+const idempotentResponseSchema = new Schema(
+  {
+    statusCode: { type: Number, required: true },
+    body: { type: Schema.Types.Mixed, required: false, default: null },
+  },
+  { _id: false }
+);
+
+const idempotencyKeySchema = new Schema(
+  {
+    scope: { type: String, required: true, unique: true },
+    fingerprint: { type: String, required: true },
+    response: { type: idempotentResponseSchema, required: false, default: null },
+    createdAt: { type: Number, required: true },
+    expiresAt: { type: Date, required: true },
+  },
+  {
+    collection: 'idempotency_keys',
+    versionKey: false,
+    strict: 'throw',
+  }
+);
+
+idempotencyKeySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+type IdempotencyKeyDocument = InferSchemaType<typeof idempotencyKeySchema> & {
+  _id: mongoose.Types.ObjectId;
+};
+
+const IdempotencyKeyModel =
+  (mongoose.models.IdempotencyKey as mongoose.Model<IdempotencyKeyDocument> | undefined) ??
+  mongoose.model<IdempotencyKeyDocument>('IdempotencyKey', idempotencyKeySchema);
+
+function mapIdempotencyKeyDocument(document: IdempotencyKeyDocument): IdempotencyRecord {
+  return {
+    scope: document.scope,
+    fingerprint: document.fingerprint,
+    response: document.response
+      ? { statusCode: document.response.statusCode, body: document.response.body ?? null }
+      : null,
+    createdAt: document.createdAt,
+  };
+}
+
+function isDuplicateKeyError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { code?: unknown }).code === 11000;
+}
+
+export async function claimIdempotencyKey(input: ClaimIdempotencyKeyInput): Promise<ClaimIdempotencyKeyResult> {
+  const fields = {
+    fingerprint: input.fingerprint,
+    response: null,
+    createdAt: input.nowMs,
+    expiresAt: new Date(input.nowMs + IDEMPOTENCY_KEY_TTL_SECONDS * 1000),
+  };
+  try {
+    await IdempotencyKeyModel.create({ scope: input.scope, ...fields });
+    return { kind: 'claimed' };
+  } catch (error) {
+    if (!isDuplicateKeyError(error)) {
+      throw error;
+    }
+  }
+
+  const reclaimed = await IdempotencyKeyModel.findOneAndUpdate(
+    { scope: input.scope, response: null, createdAt: { $lte: input.nowMs - STALE_CLAIM_MS } },
+    { $set: fields }
+  ).lean<IdempotencyKeyDocument | null>();
+  if (reclaimed) {
+    return { kind: 'claimed' };
+  }
+
+  const existing = await IdempotencyKeyModel.findOne({ scope: input.scope }).lean<IdempotencyKeyDocument | null>();
+  if (!existing) {
+    // Expired between the insert and the lookup; the retry will claim it.
+    return claimIdempotencyKey(input);
+  }
+  return { kind: 'existing', record: mapIdempotencyKeyDocument(existing) };
+}
+
+export async function completeIdempotencyKey(scope: string, response: IdempotentResponse): Promise<void> {
+  await IdempotencyKeyModel.updateOne({ scope }, { $set: { response } });
+}
+
+export async function releaseIdempotencyKey(scope: string): Promise<void> {
+  await IdempotencyKeyModel.deleteOne({ scope, response: null });
+}
@@ -0,0 +1,60 @@
+import mongoose, { Schema, type InferSchemaType } from 'mongoose';
+
+import type { ClaimMeshRelayMessageInput } from '../types/mesh';
+
+// Envelopes older than the relay window are rejected anyway, so message ids only need to outlive it.
+const MESH_RELAY_MESSAGE_TTL_SECONDS = 60 * 60;
+
+const meshRelayMessageSchema = new Schema(
+  {
+    messageId: { type: String, required: true, unique: true },
+    originDeviceId: { type: String, required: true },
+    relayDeviceId: { type: String, required: true },
+    relayPath: { type: [String], default: [] },
+    receivedAt: { type: Number, required: true },
+    expiresAt: { type: Date, required: true },
+  },
+  {
+    collection: 'mesh_relay_messages',
+    versionKey: false,
+    strict: 'throw',
+  }
+);
+
+meshRelayMessageSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+type MeshRelayMessageDocument = InferSchemaType<typeof meshRelayMessageSchema> & {
+  _id: mongoose.Types.ObjectId;
+};
+
+const MeshRelayMessageModel =
+  (mongoose.models.MeshRelayMessage as mongoose.Model<MeshRelayMessageDocument> | undefined) ??
+  mongoose.model<MeshRelayMessageDocument>('MeshRelayMessage', meshRelayMessageSchema);
+
+function isDuplicateKeyError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { code?: unknown }).code === 11000;
+}
+
+/** Returns false when another gateway already relayed this message. */
+export async function claimMeshRelayMessage(input: ClaimMeshRelayMessageInput): Promise<boolean> {
+  try {
+    await MeshRelayMessageModel.create({
+      messageId: input.messageId,
+      originDeviceId: input.originDeviceId,
+      relayDeviceId: input.relayDeviceId,
+      relayPath: input.relayPath,
+      receivedAt: input.nowMs,
+      expiresAt: new Date(input.nowMs + MESH_RELAY_MESSAGE_TTL_SECONDS * 1000),
+    });
+    return true;
+  } catch (error) {
+    if (isDuplicateKeyError(error)) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+export async function releaseMeshRelayMessage(messageId: string): Promise<void> {
+  await MeshRelayMessageModel.deleteOne({ messageId });
+}
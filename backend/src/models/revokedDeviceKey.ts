@@ -0,0 +1,53 @@
+import mongoose, { Schema, type InferSchemaType } from 'mongoose';
+
+import { DEVICE_CERTIFICATE_TTL_MS } from '../services/deviceAuthService';
+import type { RevokeDeviceKeyInput } from '../types/device';
+
+const revokedDeviceKeySchema = new Schema(
+  {
+    publicKey: { type: String, required: true, unique: true },
+    deviceId: { type: String, required: true },
+    reason: { type: String, required: true, enum: ['ROTATED', 'COMPROMISED'] },
+    revokedAt: { type: Number, required: true },
+    expiresAt: { type: Date, required: true },
+  },
+  {
+    collection: 'revoked_device_keys',
+    versionKey: false,
+    strict: 'throw',
+  }
+);
+
+// Once every certificate for the key has expired, phones no longer trust it anyway.
+revokedDeviceKeySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+type RevokedDeviceKeyDocument = InferSchemaType<typeof revokedDeviceKeySchema> & {
+  _id: mongoose.Types.ObjectId;
+};
+
+const RevokedDeviceKeyModel =
+  (mongoose.models.RevokedDeviceKey as mongoose.Model<RevokedDeviceKeyDocument> | undefined) ??
+  mongoose.model<RevokedDeviceKeyDocument>('RevokedDeviceKey', revokedDeviceKeySchema);
+
+/** Idempotent: revoking an already revoked key keeps the first revocation. */
+export async function revokeDeviceKeyRecord(input: RevokeDeviceKeyInput): Promise<void> {
+  await RevokedDeviceKeyModel.updateOne(
+    { publicKey: input.publicKey },
+    {
+      $setOnInsert: {
+        ...input,
+        expiresAt: new Date(input.revokedAt + DEVICE_CERTIFICATE_TTL_MS),
+      },
+    },
+    { upsert: true }
+  );
+}
+
+export async function isDeviceKeyRevoked(publicKey: string): Promise<boolean> {
+  return (await RevokedDeviceKeyModel.exists({ publicKey })) !== null;
+}
+
+export async function listRevokedDeviceKeys(): Promise<string[]> {
+  const records = await RevokedDeviceKeyModel.find({}, { publicKey: 1 }).lean<{ publicKey: string }[]>();
+  return records.map((record) => record.publicKey);
+}
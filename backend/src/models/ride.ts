@@ -1,8 +1,11 @@
 import mongoose, { Schema, type InferSchemaType } from 'mongoose';
 
-import type { EndRideInput, RideRecord, RideStatus, StartRideInput } from '../types/ride';
+import type { EndRideInput, EndRideResult, RideRecord, RideStatus, StartRideInput } from '../types/ride';
 import { RIDE_STATUSES } from '../types/ride';
 
+const MAX_PLAUSIBLE_AVERAGE_SPEED_KMH = 160;
+const DISTANCE_TOLERANCE_KM = 0.5;
+
 const rideSchema = new Schema(
   {
     deviceId: { type: String, required: true, trim: true, index: true },
@@ -13,6 +16,7 @@ const rideSchema = new Schema(
     durationMs: { type: Number, required: false, default: null },
     distanceKm: { type: Number, required: true, default: 0 },
     fatigueWarnings: { type: Number, required: true, default: 0 },
+    hazardWarnings: { type: Number, required: true, default: 0 },
     hazardsReported: { type: Number, required: true, default: 0 },
     sosTriggered: { type: Number, required: true, default: 0 },
     createdAt: { type: Number, required: true },
@@ -45,6 +49,7 @@ function mapRideDocument(document: RideDocument): RideRecord {
     durationMs: document.durationMs ?? null,
     distanceKm: document.distanceKm,
     fatigueWarnings: document.fatigueWarnings,
+    hazardWarnings: document.hazardWarnings ?? 0,
     hazardsReported: document.hazardsReported,
     sosTriggered: document.sosTriggered,
     createdAt: document.createdAt,
@@ -52,6 +57,15 @@ function mapRideDocument(document: RideDocument): RideRecord {
   };
 }
 
+export async function findRideRecordById(rideId: string): Promise<RideRecord | null> {
+  if (!mongoose.isValidObjectId(rideId)) {
+    return null;
+  }
+
+  const doc = await RideModel.findById(rideId).lean<RideDocument | null>();
+  return doc ? mapRideDocument(doc) : null;
+}
+
 export async function startRideRecord(input: StartRideInput): Promise<RideRecord> {
   const now = Date.now();
   const doc = await RideModel.create({
@@ -63,6 +77,7 @@ export async function startRideRecord(input: StartRideInput): Promise<RideRecord
     durationMs: null,
     distanceKm: 0,
     fatigueWarnings: 0,
+    hazardWarnings: 0,
     hazardsReported: 0,
     sosTriggered: 0,
     createdAt: now,
@@ -71,17 +86,30 @@ export async function startRideRecord(input: StartRideInput): Promise<RideRecord
   return mapRideDocument(doc.toObject() as RideDocument);
 }
 
-export async function endRideRecord(input: EndRideInput): Promise<RideRecord | null> {
+export function maxPlausibleDistanceKm(durationMs: number): number {
+  const durationHours = Math.max(0, durationMs) / (60 * 60 * 1000);
+  return durationHours * MAX_PLAUSIBLE_AVERAGE_SPEED_KMH + DISTANCE_TOLERANCE_KM;
+}
+
+export async function endRideRecord(input: EndRideInput): Promise<EndRideResult> {
   if (!mongoose.isValidObjectId(input.rideId)) {
-    return null;
+    return { kind: 'not_found' };
   }
 
   const existing = await RideModel.findById(input.rideId).lean<RideDocument | null>();
   if (!existing || existing.status !== 'ACTIVE') {
-    return null;
+    return { kind: 'not_found' };
+  }
+  if (existing.deviceId !== input.actorDeviceId) {
+    return { kind: 'forbidden' };
   }
 
   const durationMs = Math.max(0, input.endedAt - existing.startedAt);
+  const maxDistanceKm = maxPlausibleDistanceKm(durationMs);
+  if (input.distanceKm > maxDistanceKm) {
+    return { kind: 'implausible_distance', maxDistanceKm };
+  }
+
   const updatedAt = Date.now();
 
   const updated = await RideModel.findOneAndUpdate(
@@ -93,6 +121,7 @@ export async function endRideRecord(input: EndRideInput): Promise<RideRecord | n
         durationMs,
         distanceKm: input.distanceKm,
         fatigueWarnings: input.fatigueWarnings,
+        hazardWarnings: input.hazardWarnings,
         hazardsReported: input.hazardsReported,
         sosTriggered: input.sosTriggered,
         updatedAt,
@@ -102,10 +131,10 @@ export async function endRideRecord(input: EndRideInput): Promise<RideRecord | n
   ).lean<RideDocument | null>();
 
   if (!updated) {
-    return null;
+    return { kind: 'not_found' };
   }
 
-  return mapRideDocument(updated);
+  return { kind: 'ended', record: mapRideDocument(updated) };
 }
 
 export async function listRideRecordsForDevice(deviceId: string): Promise<RideRecord[]> {
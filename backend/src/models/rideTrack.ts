@@ -0,0 +1,118 @@
+import mongoose, { Schema, type InferSchemaType } from 'mongoose';
+
+import type {
+  AppendRideTrackInput,
+  AppendRideTrackResult,
+  GetRideTrackResult,
+  RideTrackPoint,
+} from '../types/ride';
+import { findRideRecordById } from './ride';
+
+const trackPointSchema = new Schema(
+  {
+    timestamp: { type: Number, required: true },
+    latitude: { type: Number, required: true },
+    longitude: { type: Number, required: true },
+    speed: { type: Number, required: false, default: null },
+    accuracy: { type: Number, required: false, default: null },
+  },
+  {
+    _id: false,
+    strict: 'throw',
+  }
+);
+
+const rideTrackChunkSchema = new Schema(
+  {
+    rideId: { type: String, required: true, trim: true },
+    seq: { type: Number, required: true },
+    points: { type: [trackPointSchema], required: true, default: [] },
+    createdAt: { type: Number, required: true },
+  },
+  {
+    collection: 'ride_tracks',
+    versionKey: false,
+    strict: 'throw',
+  }
+);
+
+rideTrackChunkSchema.index({ rideId: 1, seq: 1 }, { unique: true });
+
+type RideTrackChunkDocument = InferSchemaType<typeof rideTrackChunkSchema> & {
+  _id: mongoose.Types.ObjectId;
+};
+
+const RideTrackChunkModel =
+  (mongoose.models.RideTrackChunk as mongoose.Model<RideTrackChunkDocument> | undefined) ??
+  mongoose.model<RideTrackChunkDocument>('RideTrackChunk', rideTrackChunkSchema);
+
+function mapTrackPoint(point: RideTrackChunkDocument['points'][number]): RideTrackPoint {
+  return {
+    timestamp: point.timestamp,
+    latitude: point.latitude,
+    longitude: point.longitude,
+    speed: point.speed ?? null,
+    accuracy: point.accuracy ?? null,
+  };
+}
+
+export async function appendRideTrackChunk(input: AppendRideTrackInput): Promise<AppendRideTrackResult> {
+  const ride = await findRideRecordById(input.rideId);
+  if (!ride) {
+    return { kind: 'not_found' };
+  }
+  if (ride.deviceId !== input.actorDeviceId) {
+    return { kind: 'forbidden' };
+  }
+  // The last chunk may reach the server after the ride ended, but never with fixes from after the end.
+  const { endedAt } = ride;
+  if (endedAt !== null && input.points.some((point) => point.timestamp > endedAt)) {
+    return { kind: 'ride_ended', endedAt };
+  }
+
+  // Chunks are keyed by (rideId, seq) so a client retrying an upload never duplicates points.
+  const result = await RideTrackChunkModel.updateOne(
+    { rideId: ride.id, seq: input.seq },
+    {
+      $setOnInsert: {
+        rideId: ride.id,
+        seq: input.seq,
+        points: input.points,
+        createdAt: Date.now(),
+      },
+    },
+    { upsert: true }
+  );
+
+  if (result.upsertedCount === 0) {
+    return { kind: 'duplicate', rideId: ride.id, seq: input.seq };
+  }
+
+  return { kind: 'appended', rideId: ride.id, seq: input.seq, pointCount: input.points.length };
+}
+
+export async function getRideTrackRecord(
+  rideId: string,
+  actorDeviceId: string
+): Promise<GetRideTrackResult> {
+  const ride = await findRideRecordById(rideId);
+  if (!ride) {
+    return { kind: 'not_found' };
+  }
+  if (ride.deviceId !== actorDeviceId) {
+    return { kind: 'forbidden' };
+  }
+
+  const chunks = await RideTrackChunkModel.find({ rideId: ride.id })
+    .sort({ seq: 1 })
+    .lean<RideTrackChunkDocument[]>();
+
+  return {
+    kind: 'found',
+    track: {
+      rideId: ride.id,
+      chunkCount: chunks.length,
+      points: chunks.flatMap((chunk) => chunk.points.map(mapTrackPoint)),
+    },
+  };
+}
@@ -1,12 +1,26 @@
 import mongoose, { Schema, type InferSchemaType } from 'mongoose';
 
-import type { RiderPresenceRecord } from '../types/rider';
+import type { NearbyRiderMatch } from '../services/dispatchService';
+import type { NearbyRidersQuery, RiderPresenceRecord } from '../types/rider';
+
+const geoPointSchema = new Schema(
+  {
+    type: { type: String, required: true, enum: ['Point'] },
+    // GeoJSON order: [longitude, latitude].
+    coordinates: { type: [Number], required: true },
+  },
+  {
+    _id: false,
+    strict: 'throw',
+  }
+);
 
 const riderSchema = new Schema(
   {
     deviceId: { type: String, required: true, trim: true, unique: true },
     latitude: { type: Number, required: true },
     longitude: { type: Number, required: true },
+    location: { type: geoPointSchema, required: false },
     timestamp: { type: Number, required: true },
     lastSeenAt: { type: Number, required: true, index: true },
     createdAt: { type: Number, required: true },
@@ -19,6 +33,8 @@ const riderSchema = new Schema(
   }
 );
 
+riderSchema.index({ location: '2dsphere' });
+
 type RiderDocument = InferSchemaType<typeof riderSchema> & {
   _id: mongoose.Types.ObjectId;
 };
@@ -53,6 +69,7 @@ export async function upsertRiderHeartbeat(input: {
       $set: {
         latitude: input.latitude,
         longitude: input.longitude,
+        location: { type: 'Point', coordinates: [input.longitude, input.latitude] },
         timestamp: input.timestamp,
         lastSeenAt: now,
         updatedAt: now,
@@ -67,7 +84,34 @@ export async function upsertRiderHeartbeat(input: {
   return mapRiderDocument(record);
 }
 
-export async function listActiveRiders(sinceMs: number): Promise<RiderPresenceRecord[]> {
-  const records = await RiderModel.find({ lastSeenAt: { $gte: sinceMs } }).lean<RiderDocument[]>();
-  return records.map((record) => mapRiderDocument(record));
+/** Active riders inside the radius, nearest first, resolved by the 2dsphere index rather than in Node. */
+export async function findActiveRidersNear(query: NearbyRidersQuery): Promise<NearbyRiderMatch[]> {
+  const filter: Record<string, unknown> = { lastSeenAt: { $gte: query.sinceMs } };
+  if (query.excludeDeviceId) {
+    filter.deviceId = { $ne: query.excludeDeviceId };
+  }
+
+  const matches = await RiderModel.aggregate<{ deviceId: string; distanceMeters: number }>([
+    {
+      $geoNear: {
+        near: { type: 'Point', coordinates: [query.longitude, query.latitude] },
+        key: 'location',
+        distanceField: 'distanceMeters',
+        maxDistance: query.radiusMeters,
+        spherical: true,
+        query: filter,
+      },
+    },
+    { $project: { _id: 0, deviceId: 1, distanceMeters: 1 } },
+  ]);
+  return matches.map((match) => ({ deviceId: match.deviceId, distanceMeters: match.distanceMeters }));
+}
+
+/** Adds the GeoJSON point to riders written before it existed; returns how many were updated. */
+export async function backfillRiderLocations(): Promise<number> {
+  const result = await RiderModel.collection.updateMany({ location: { $exists: false } }, [
+    { $set: { location: { type: 'Point', coordinates: ['$longitude', '$latitude'] } } },
+  ]);
+  await RiderModel.syncIndexes();
+  return result.modifiedCount;
 }
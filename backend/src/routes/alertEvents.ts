@@ -0,0 +1,112 @@
+import { randomUUID } from 'node:crypto';
+
+import { type RequestHandler, type Response, Router } from 'express';
+import { isValidObjectId } from 'mongoose';
+
+import type { AlertEventPage, AlertRecord } from '../types/alert';
+
+const DEFAULT_EVENTS_PAGE_SIZE = 50;
+const MAX_EVENTS_PAGE_SIZE = 200;
+
+interface CreateAlertEventsRouterDeps {
+  findAlert: (alertId: string) => Promise<AlertRecord | null>;
+  listAlertEvents: (input: { alertId: string; limit: number; cursor: string | null }) => Promise<AlertEventPage>;
+}
+
+function resolveRequestId(response: Response): string {
+  const requestId = response.locals.requestId;
+  if (typeof requestId === 'string' && requestId.length > 0) {
+    return requestId;
+  }
+
+  const fallbackId = randomUUID();
+  response.locals.requestId = fallbackId;
+  return fallbackId;
+}
+
+export function validateAlertEventsQuery(query: Record<string, unknown>): {
+  ok: true;
+  value: { limit: number; cursor: string | null };
+} | {
+  ok: false;
+  message: string;
+} {
+  let limit = DEFAULT_EVENTS_PAGE_SIZE;
+  if (query.limit !== undefined) {
+    const parsed = typeof query.limit === 'string' ? Number(query.limit) : Number.NaN;
+    if (!Number.isInteger(parsed) || parsed < 1 || parsed > MAX_EVENTS_PAGE_SIZE) {
+      return { ok: false, message: `limit must be an integer between 1 and ${MAX_EVENTS_PAGE_SIZE}.` };
+    }
+    limit = parsed;
+  }
+
+  let cursor: string | null = null;
+  if (query.cursor !== undefined) {
+    if (typeof query.cursor !== 'string' || !isValidObjectId(query.cursor)) {
+      return { ok: false, message: 'cursor must be an event id returned as nextCursor.' };
+    }
+    cursor = query.cursor;
+  }
+
+  return { ok: true, value: { limit, cursor } };
+}
+
+export function createAlertEventsRouter({ findAlert, listAlertEvents }: CreateAlertEventsRouterDeps): Router {
+  const router = Router();
+
+  const listHandler: RequestHandler = async (request, response) => {
+    const requestId = resolveRequestId(response);
+    const alertId = request.params.id;
+    if (!isValidObjectId(alertId)) {
+      response.status(400).json({
+        requestId,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'id must be a valid MongoDB ObjectId.',
+        },
+      });
+      return;
+    }
+
+    const validation = validateAlertEventsQuery(request.query);
+    if (!validation.ok) {
+      response.status(400).json({
+        requestId,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: validation.message,
+        },
+      });
+      return;
+    }
+
+    try {
+      const alert = await findAlert(alertId);
+      if (!alert) {
+        response.status(404).json({
+          requestId,
+          error: {
+            code: 'ALERT_NOT_FOUND',
+            message: 'Alert not found.',
+          },
+        });
+        return;
+      }
+
+      const page = await listAlertEvents({ alertId: alert.id, ...validation.value });
+      response.status(200).json({ requestId, data: page });
+    } catch {
+      response.status(500).json({
+        requestId,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to load alert events.',
+        },
+      });
+    }
+  };
+
+  router.get('/api/v1/alerts/:id/events', listHandler);
+
+  return router;
+}
@@ -7,33 +7,56 @@ import type {
   AcceptAlertFailureCode,
   AlertBreadcrumbPoint,
   AlertLocation,
+  AlertPage,
   AlertRecord,
+  AlertStatus,
   AcceptAlertRequest,
   CreateAlertPersistenceInput,
   CreateAlertSuccessResponse,
   InternalErrorResponse,
+  ListAlertsQuery,
+  NearbyAlertRecord,
+  NearbyAlertsQuery,
+  ResolveAlertRequest,
+  ResolveAlertResult,
   UpdateAlertStatusResponse,
   ValidationErrorResponse,
   ValidationIssue,
   ValidationIssueCode,
 } from '../types/alert';
-import { ALERT_STATUSES } from '../types/alert';
+import { ALERT_OUTCOMES, ALERT_STATUSES, CLAIMABLE_ALERT_MAX_AGE_MS, CLAIMABLE_ALERT_STATUSES } from '../types/alert';
+import {
+  buildUnauthorizedResponse,
+  requireAuthDeviceId,
+  resolveAuthDeviceId,
+  type UnauthorizedResponse,
+} from '../middleware/deviceAuth';
 
 const MAX_PAST_WINDOW_MS = 24 * 60 * 60 * 1000;
 const MAX_FUTURE_SKEW_MS = 5 * 60 * 1000;
 const MAX_BREADCRUMB_POINTS = 10;
+const DEFAULT_ALERTS_PAGE_SIZE = 20;
+const MAX_ALERTS_PAGE_SIZE = 100;
+const DEFAULT_NEARBY_RADIUS_METERS = 10_000;
+const MAX_NEARBY_RADIUS_METERS = 50_000;
+const MAX_RESOLUTION_NOTES_LENGTH = 1000;
 
 const TOP_LEVEL_ALLOWED_FIELDS = new Set(['deviceId', 'victimName', 'status', 'triggeredAt', 'location']);
 const LOCATION_ALLOWED_FIELDS = new Set(['latitude', 'longitude', 'timestamp', 'breadcrumbTrail']);
 const POINT_ALLOWED_FIELDS = new Set(['latitude', 'longitude', 'timestamp']);
+const RESOLVE_ALLOWED_FIELDS = new Set(['deviceId', 'outcome', 'notes', 'arrivedAt']);
 
 type ValidationResult =
   | { ok: true; value: CreateAlertPersistenceInput }
   | { ok: false; details: ValidationIssue[] };
 
+type ForbiddenResponse = { requestId: string; error: { code: 'FORBIDDEN'; message: string } };
+
 type CreateAlertResult =
   | { statusCode: 201; body: CreateAlertSuccessResponse }
   | { statusCode: 400; body: ValidationErrorResponse }
+  | { statusCode: 401; body: UnauthorizedResponse }
+  | { statusCode: 403; body: ForbiddenResponse }
   | { statusCode: 500; body: InternalErrorResponse };
 
 export interface CreateAlertsRouteDeps {
@@ -41,11 +64,13 @@ export interface CreateAlertsRouteDeps {
   createAlert: (input: CreateAlertPersistenceInput) => Promise<AlertRecord>;
   updateAlertStatus?: (
     alertId: string,
-    status: 'CANCELLED' | 'ESCALATED'
+    status: 'CANCELLED' | 'ESCALATED',
+    actorDeviceId: string | null
   ) => Promise<
     | { kind: 'updated'; data: Pick<AlertRecord, 'id' | 'status' | 'updatedAt'> }
     | { kind: 'not_found' }
     | { kind: 'blocked'; currentStatus: AlertRecord['status'] }
+    | { kind: 'forbidden' }
   >;
   acceptAlert?: (input: {
     alertId: string;
@@ -60,8 +85,13 @@ export interface CreateAlertsRouteDeps {
     code: AcceptAlertFailureCode;
     record: AlertRecord | null;
   }>;
+  resolveAlert?: (input: ResolveAlertRequest & { alertId: string; resolvedAt: number }) => Promise<ResolveAlertResult>;
+  findAlert?: (alertId: string) => Promise<AlertRecord | null>;
+  listAlerts?: (query: ListAlertsQuery) => Promise<AlertPage>;
+  listNearbyAlerts?: (query: NearbyAlertsQuery) => Promise<NearbyAlertRecord[]>;
   onAlertCreated?: (alert: AlertRecord) => void | Promise<void>;
   onAlertAssigned?: (alert: AlertRecord) => void | Promise<void>;
+  onAlertResolved?: (alert: AlertRecord) => void | Promise<void>;
   onAlertStatusUpdated?: (input: {
     alertId: string;
     status: 'CANCELLED' | 'ESCALATED';
@@ -75,11 +105,14 @@ interface ProcessCreateAlertDeps {
   nowMs: CreateAlertsRouteDeps['nowMs'];
   createAlert: CreateAlertsRouteDeps['createAlert'];
   onAlertCreated?: (alert: AlertRecord) => void | Promise<void>;
+  authDeviceId?: string | null;
 }
 
 type UpdateAlertStatusResult =
   | { statusCode: 200; body: UpdateAlertStatusResponse }
   | { statusCode: 400; body: ValidationErrorResponse }
+  | { statusCode: 401; body: UnauthorizedResponse }
+  | { statusCode: 403; body: ForbiddenResponse }
   | {
       statusCode: 404;
       body: { requestId: string; error: { code: 'ALERT_NOT_FOUND'; message: string } };
@@ -95,11 +128,14 @@ interface ProcessUpdateAlertStatusDeps {
   payload: unknown;
   requestId: string;
   updateAlertStatus: NonNullable<CreateAlertsRouteDeps['updateAlertStatus']>;
+  authDeviceId?: string | null;
 }
 
 type AcceptAlertResult =
   | { statusCode: 200; body: { requestId: string; data: AlertRecord } }
   | { statusCode: 400; body: { requestId: string; error: { code: 'VALIDATION_ERROR'; message: string } } }
+  | { statusCode: 401; body: UnauthorizedResponse }
+  | { statusCode: 403; body: ForbiddenResponse }
   | { statusCode: 404; body: { requestId: string; error: { code: 'ALERT_NOT_FOUND'; message: string } } }
   | {
       statusCode: 409;
@@ -113,6 +149,21 @@ type AcceptAlertResult =
     }
   | { statusCode: 500; body: InternalErrorResponse };
 
+type ResolveAlertResponse =
+  | { statusCode: 200; body: { requestId: string; data: AlertRecord } }
+  | { statusCode: 400; body: ValidationErrorResponse }
+  | { statusCode: 401; body: UnauthorizedResponse }
+  | { statusCode: 403; body: ForbiddenResponse }
+  | { statusCode: 404; body: { requestId: string; error: { code: 'ALERT_NOT_FOUND'; message: string } } }
+  | {
+      statusCode: 409;
+      body: {
+        requestId: string;
+        error: { code: 'INVALID_TRANSITION'; message: string; currentStatus: AlertRecord['status'] };
+      };
+    }
+  | { statusCode: 500; body: InternalErrorResponse };
+
 function isPlainObject(value: unknown): value is Record<string, unknown> {
   return typeof value === 'object' && value !== null && !Array.isArray(value);
 }
@@ -431,6 +482,7 @@ export async function processCreateAlertRequest({
   nowMs,
   createAlert,
   onAlertCreated,
+  authDeviceId,
 }: ProcessCreateAlertDeps): Promise<CreateAlertResult> {
   const validation = validateCreateAlertPayload(payload, nowMs());
 
@@ -448,6 +500,22 @@ export async function processCreateAlertRequest({
     };
   }
 
+  if (!authDeviceId) {
+    return { statusCode: 401, body: buildUnauthorizedResponse(requestId) };
+  }
+  if (validation.value.deviceId !== authDeviceId) {
+    return {
+      statusCode: 403,
+      body: {
+        requestId,
+        error: {
+          code: 'FORBIDDEN',
+          message: 'Alerts can only be raised for the authenticated device.',
+        },
+      },
+    };
+  }
+
   try {
     const record = await createAlert(validation.value);
     if (onAlertCreated) {
@@ -528,6 +596,7 @@ async function processAcceptAlertRequest(input: {
   nowMs: () => number;
   acceptAlert: NonNullable<CreateAlertsRouteDeps['acceptAlert']>;
   onAlertAssigned?: CreateAlertsRouteDeps['onAlertAssigned'];
+  authDeviceId?: string | null;
 }): Promise<AcceptAlertResult> {
   const validation = validateAcceptAlertPayload(input.payload);
   if (!validation.ok) {
@@ -543,6 +612,22 @@ async function processAcceptAlertRequest(input: {
     };
   }
 
+  if (!input.authDeviceId) {
+    return { statusCode: 401, body: buildUnauthorizedResponse(input.requestId) };
+  }
+  if (validation.value.responderDeviceId !== input.authDeviceId) {
+    return {
+      statusCode: 403,
+      body: {
+        requestId: input.requestId,
+        error: {
+          code: 'FORBIDDEN',
+          message: 'responderDeviceId must match the authenticated device.',
+        },
+      },
+    };
+  }
+
   try {
     const result = await input.acceptAlert({
       alertId: input.alertId,
@@ -698,8 +783,12 @@ export async function processUpdateAlertStatusRequest(
     };
   }
 
+  if (!input.authDeviceId) {
+    return { statusCode: 401, body: buildUnauthorizedResponse(input.requestId) };
+  }
+
   try {
-    const result = await input.updateAlertStatus(input.alertId, validation.value.status);
+    const result = await input.updateAlertStatus(input.alertId, validation.value.status, input.authDeviceId);
 
     if (result.kind === 'not_found') {
       return {
@@ -714,6 +803,19 @@ export async function processUpdateAlertStatusRequest(
       };
     }
 
+    if (result.kind === 'forbidden') {
+      return {
+        statusCode: 403,
+        body: {
+          requestId: input.requestId,
+          error: {
+            code: 'FORBIDDEN',
+            message: 'Only the device that raised the alert can change its status.',
+          },
+        },
+      };
+    }
+
     if (result.kind === 'blocked') {
       return {
         statusCode: 400,
@@ -755,6 +857,314 @@ export async function processUpdateAlertStatusRequest(
   }
 }
 
+export function validateResolveAlertPayload(payload: unknown, nowMs: number): {
+  ok: true;
+  value: ResolveAlertRequest;
+} | {
+  ok: false;
+  details: ValidationIssue[];
+} {
+  const details: ValidationIssue[] = [];
+
+  if (!isPlainObject(payload)) {
+    return {
+      ok: false,
+      details: [
+        {
+          field: 'body',
+          code: 'INVALID_TYPE',
+          message: 'Request body must be a JSON object',
+        },
+      ],
+    };
+  }
+
+  pushUnknownFieldIssues(details, payload, RESOLVE_ALLOWED_FIELDS);
+
+  let deviceId = '';
+  if (!Object.prototype.hasOwnProperty.call(payload, 'deviceId')) {
+    pushIssue(details, 'deviceId', 'REQUIRED_FIELD', 'deviceId is required');
+  } else if (typeof payload.deviceId !== 'string' || !payload.deviceId.trim()) {
+    pushIssue(details, 'deviceId', 'INVALID_VALUE', 'deviceId must be a non-empty string');
+  } else {
+    deviceId = payload.deviceId.trim();
+  }
+
+  if (!Object.prototype.hasOwnProperty.call(payload, 'outcome')) {
+    pushIssue(details, 'outcome', 'REQUIRED_FIELD', 'outcome is required');
+  } else if (!ALERT_OUTCOMES.includes(payload.outcome as ResolveAlertRequest['outcome'])) {
+    pushIssue(details, 'outcome', 'INVALID_ENUM', `outcome must be one of: ${ALERT_OUTCOMES.join(', ')}`);
+  }
+
+  let notes: string | null = null;
+  if (payload.notes !== undefined && payload.notes !== null) {
+    if (typeof payload.notes !== 'string') {
+      pushIssue(details, 'notes', 'INVALID_TYPE', 'notes must be a string or null');
+    } else if (payload.notes.trim().length > MAX_RESOLUTION_NOTES_LENGTH) {
+      pushIssue(
+        details,
+        'notes',
+        'OUT_OF_RANGE',
+        `notes must be at most ${MAX_RESOLUTION_NOTES_LENGTH} characters`
+      );
+    } else {
+      notes = payload.notes.trim() || null;
+    }
+  }
+
+  let arrivedAt: number | null = null;
+  if (payload.arrivedAt !== undefined && payload.arrivedAt !== null) {
+    if (!isFiniteInteger(payload.arrivedAt)) {
+      pushIssue(details, 'arrivedAt', 'INVALID_TYPE', 'arrivedAt must be a Unix epoch milliseconds integer');
+    } else if (payload.arrivedAt < nowMs - MAX_PAST_WINDOW_MS || payload.arrivedAt > nowMs + MAX_FUTURE_SKEW_MS) {
+      pushIssue(
+        details,
+        'arrivedAt',
+        'TIME_OUT_OF_RANGE',
+        'arrivedAt must be within the last 24 hours and not in the future'
+      );
+    } else {
+      arrivedAt = payload.arrivedAt;
+    }
+  }
+
+  if (details.length > 0) {
+    return { ok: false, details };
+  }
+
+  return {
+    ok: true,
+    value: {
+      deviceId,
+      outcome: payload.outcome as ResolveAlertRequest['outcome'],
+      notes,
+      arrivedAt,
+    },
+  };
+}
+
+export async function processResolveAlertRequest(input: {
+  alertId: string;
+  payload: unknown;
+  requestId: string;
+  nowMs: () => number;
+  resolveAlert: NonNullable<CreateAlertsRouteDeps['resolveAlert']>;
+  onAlertResolved?: CreateAlertsRouteDeps['onAlertResolved'];
+  authDeviceId?: string | null;
+}): Promise<ResolveAlertResponse> {
+  const nowMs = input.nowMs();
+  const validation = validateResolveAlertPayload(input.payload, nowMs);
+  if (!validation.ok) {
+    return {
+      statusCode: 400,
+      body: {
+        requestId: input.requestId,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Request validation failed',
+          details: validation.details,
+        },
+      },
+    };
+  }
+
+  if (!input.authDeviceId) {
+    return { statusCode: 401, body: buildUnauthorizedResponse(input.requestId) };
+  }
+  if (validation.value.deviceId !== input.authDeviceId) {
+    return {
+      statusCode: 403,
+      body: {
+        requestId: input.requestId,
+        error: {
+          code: 'FORBIDDEN',
+          message: 'deviceId must match the authenticated device.',
+        },
+      },
+    };
+  }
+
+  try {
+    const result = await input.resolveAlert({
+      ...validation.value,
+      alertId: input.alertId,
+      resolvedAt: nowMs,
+    });
+
+    if (result.kind === 'not_found') {
+      return {
+        statusCode: 404,
+        body: {
+          requestId: input.requestId,
+          error: {
+            code: 'ALERT_NOT_FOUND',
+            message: 'Alert not found.',
+          },
+        },
+      };
+    }
+
+    if (result.kind === 'forbidden') {
+      return {
+        statusCode: 403,
+        body: {
+          requestId: input.requestId,
+          error: {
+            code: 'FORBIDDEN',
+            message: 'Only the victim or the assigned responder can resolve this alert.',
+          },
+        },
+      };
+    }
+
+    if (result.kind === 'blocked') {
+      return {
+        statusCode: 409,
+        body: {
+          requestId: input.requestId,
+          error: {
+            code: 'INVALID_TRANSITION',
+            message: `Cannot resolve an alert that is ${result.currentStatus}.`,
+            currentStatus: result.currentStatus,
+          },
+        },
+      };
+    }
+
+    if (input.onAlertResolved) {
+      await input.onAlertResolved(result.record);
+    }
+    return {
+      statusCode: 200,
+      body: {
+        requestId: input.requestId,
+        data: result.record,
+      },
+    };
+  } catch {
+    return {
+      statusCode: 500,
+      body: {
+        requestId: input.requestId,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to persist alert',
+        },
+      },
+    };
+  }
+}
+
+function readNumberParam(value: unknown): number | null {
+  if (typeof value !== 'string' || !value.trim()) {
+    return null;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+export function validateListAlertsQuery(query: Record<string, unknown>): {
+  ok: true;
+  value: ListAlertsQuery;
+} | {
+  ok: false;
+  details: ValidationIssue[];
+} {
+  const details: ValidationIssue[] = [];
+
+  let deviceId: string | null = null;
+  if (query.deviceId !== undefined) {
+    if (typeof query.deviceId !== 'string' || !query.deviceId.trim()) {
+      pushIssue(details, 'deviceId', 'INVALID_VALUE', 'deviceId must be a non-empty string');
+    } else {
+      deviceId = query.deviceId.trim();
+    }
+  }
+
+  let status: AlertStatus | null = null;
+  if (query.status !== undefined) {
+    if (typeof query.status !== 'string' || !(ALERT_STATUSES as readonly string[]).includes(query.status)) {
+      pushIssue(details, 'status', 'INVALID_ENUM', `status must be one of ${ALERT_STATUSES.join(', ')}`);
+    } else {
+      status = query.status as AlertStatus;
+    }
+  }
+
+  let since: number | null = null;
+  if (query.since !== undefined) {
+    since = readNumberParam(query.since);
+    if (since === null || !Number.isInteger(since) || since < 0) {
+      pushIssue(details, 'since', 'INVALID_VALUE', 'since must be a Unix ms integer');
+      since = null;
+    }
+  }
+
+  let limit = DEFAULT_ALERTS_PAGE_SIZE;
+  if (query.limit !== undefined) {
+    const parsed = readNumberParam(query.limit);
+    if (parsed === null || !Number.isInteger(parsed) || parsed < 1 || parsed > MAX_ALERTS_PAGE_SIZE) {
+      pushIssue(details, 'limit', 'OUT_OF_RANGE', `limit must be an integer between 1 and ${MAX_ALERTS_PAGE_SIZE}`);
+    } else {
+      limit = parsed;
+    }
+  }
+
+  let cursor: string | null = null;
+  if (query.cursor !== undefined) {
+    if (typeof query.cursor !== 'string' || !isValidObjectId(query.cursor)) {
+      pushIssue(details, 'cursor', 'INVALID_VALUE', 'cursor must be an alert id returned as nextCursor');
+    } else {
+      cursor = query.cursor;
+    }
+  }
+
+  if (details.length > 0) {
+    return { ok: false, details };
+  }
+
+  return { ok: true, value: { deviceId, status, since, limit, cursor } };
+}
+
+export function validateNearbyAlertsQuery(query: Record<string, unknown>): {
+  ok: true;
+  value: NearbyAlertsQuery;
+} | {
+  ok: false;
+  details: ValidationIssue[];
+} {
+  const details: ValidationIssue[] = [];
+
+  const latitude = readNumberParam(query.lat);
+  if (query.lat === undefined) {
+    pushIssue(details, 'lat', 'REQUIRED_FIELD', 'lat is required');
+  } else if (latitude === null || latitude < -90 || latitude > 90) {
+    pushIssue(details, 'lat', 'OUT_OF_RANGE', 'lat must be between -90 and 90');
+  }
+
+  const longitude = readNumberParam(query.lon);
+  if (query.lon === undefined) {
+    pushIssue(details, 'lon', 'REQUIRED_FIELD', 'lon is required');
+  } else if (longitude === null || longitude < -180 || longitude > 180) {
+    pushIssue(details, 'lon', 'OUT_OF_RANGE', 'lon must be between -180 and 180');
+  }
+
+  let radiusMeters = DEFAULT_NEARBY_RADIUS_METERS;
+  if (query.radius !== undefined) {
+    const parsed = readNumberParam(query.radius);
+    if (parsed === null || parsed <= 0 || parsed > MAX_NEARBY_RADIUS_METERS) {
+      pushIssue(details, 'radius', 'OUT_OF_RANGE', `radius must be between 1 and ${MAX_NEARBY_RADIUS_METERS} meters`);
+    } else {
+      radiusMeters = parsed;
+    }
+  }
+
+  if (details.length > 0 || latitude === null || longitude === null) {
+    return { ok: false, details };
+  }
+
+  return { ok: true, value: { latitude, longitude, radiusMeters } };
+}
+
 function resolveRequestId(response: Response): string {
   const requestId = response.locals.requestId;
   if (typeof requestId === 'string' && requestId.length > 0) {
@@ -766,13 +1176,26 @@ function resolveRequestId(response: Response): string {
   return fallbackId;
 }
 
+// Same window as `nearby`: anyone may see an alert they could still accept, nobody else's once it is taken or closed.
+function canViewAlert(alert: AlertRecord, deviceId: string, nowMs: number): boolean {
+  if (alert.deviceId === deviceId || alert.responderDeviceId === deviceId) {
+    return true;
+  }
+  return CLAIMABLE_ALERT_STATUSES.includes(alert.status) && alert.triggeredAt >= nowMs - CLAIMABLE_ALERT_MAX_AGE_MS;
+}
+
 export function createAlertsRouter({
   nowMs,
   createAlert,
   updateAlertStatus,
   acceptAlert,
+  resolveAlert,
+  findAlert,
+  listAlerts,
+  listNearbyAlerts,
   onAlertCreated,
   onAlertAssigned,
+  onAlertResolved,
   onAlertStatusUpdated,
 }: CreateAlertsRouteDeps): Router {
   const router = Router();
@@ -797,6 +1220,7 @@ export function createAlertsRouter({
       nowMs,
       createAlert,
       onAlertCreated,
+      authDeviceId: resolveAuthDeviceId(response),
     });
 
     response.status(result.statusCode).json(result.body);
@@ -812,13 +1236,169 @@ export function createAlertsRouter({
       nowMs,
       acceptAlert: acceptAlertFn,
       onAlertAssigned,
+      authDeviceId: resolveAuthDeviceId(response),
+    });
+
+    response.status(result.statusCode).json(result.body);
+  };
+
+  const resolveAlertFn: NonNullable<CreateAlertsRouteDeps['resolveAlert']> =
+    resolveAlert ?? (async () => ({ kind: 'not_found' }));
+
+  const resolveHandler: RequestHandler = async (request, response) => {
+    const requestId = resolveRequestId(response);
+    const result = await processResolveAlertRequest({
+      alertId: request.params.id,
+      payload: request.body,
+      requestId,
+      nowMs,
+      resolveAlert: resolveAlertFn,
+      onAlertResolved,
+      authDeviceId: resolveAuthDeviceId(response),
     });
 
     response.status(result.statusCode).json(result.body);
   };
 
+  const findAlertFn = findAlert ?? (async () => null);
+  const listAlertsFn = listAlerts ?? (async () => ({ alerts: [], nextCursor: null }));
+  const listNearbyAlertsFn = listNearbyAlerts ?? (async () => []);
+
+  const getHandler: RequestHandler = async (request, response) => {
+    const requestId = resolveRequestId(response);
+    const alertId = request.params.id;
+    if (!isValidObjectId(alertId)) {
+      response.status(400).json({
+        requestId,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Request validation failed',
+          details: [{ field: 'id', code: 'INVALID_VALUE', message: 'id must be a valid MongoDB ObjectId' }],
+        },
+      });
+      return;
+    }
+
+    const authDeviceId = requireAuthDeviceId(response);
+    if (!authDeviceId) {
+      return;
+    }
+
+    try {
+      const alert = await findAlertFn(alertId);
+      if (!alert) {
+        response.status(404).json({
+          requestId,
+          error: {
+            code: 'ALERT_NOT_FOUND',
+            message: 'Alert not found.',
+          },
+        });
+        return;
+      }
+      if (!canViewAlert(alert, authDeviceId, nowMs())) {
+        response.status(403).json({
+          requestId,
+          error: {
+            code: 'FORBIDDEN',
+            message: 'Only the victim, the assigned responder or a rider who can still accept the alert may view it.',
+          },
+        });
+        return;
+      }
+      response.status(200).json({ requestId, data: alert });
+    } catch {
+      response.status(500).json({
+        requestId,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to load alert',
+        },
+      });
+    }
+  };
+
+  const listHandler: RequestHandler = async (request, response) => {
+    const requestId = resolveRequestId(response);
+    const validation = validateListAlertsQuery(request.query);
+    if (!validation.ok) {
+      response.status(400).json({
+        requestId,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Request validation failed',
+          details: validation.details,
+        },
+      });
+      return;
+    }
+
+    // Alerts carry the victim's name and location history, so a device may only list its own.
+    const authDeviceId = requireAuthDeviceId(response);
+    if (!authDeviceId) {
+      return;
+    }
+    if (validation.value.deviceId && validation.value.deviceId !== authDeviceId) {
+      response.status(403).json({
+        requestId,
+        error: {
+          code: 'FORBIDDEN',
+          message: 'Alerts can only be listed for the authenticated device.',
+        },
+      });
+      return;
+    }
+
+    try {
+      const page = await listAlertsFn({ ...validation.value, deviceId: authDeviceId });
+      response.status(200).json({ requestId, data: page });
+    } catch {
+      response.status(500).json({
+        requestId,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to list alerts',
+        },
+      });
+    }
+  };
+
+  const nearbyHandler: RequestHandler = async (request, response) => {
+    const requestId = resolveRequestId(response);
+    const validation = validateNearbyAlertsQuery(request.query);
+    if (!validation.ok) {
+      response.status(400).json({
+        requestId,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Request validation failed',
+          details: validation.details,
+        },
+      });
+      return;
+    }
+
+    try {
+      const alerts = await listNearbyAlertsFn(validation.value);
+      response.status(200).json({ requestId, data: alerts });
+    } catch {
+      response.status(500).json({
+        requestId,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to list nearby alerts',
+        },
+      });
+    }
+  };
+
   router.post('/api/v1/alerts', handler);
   router.post('/api/v1/alerts/:id/accept', acceptHandler);
+  router.post('/api/v1/alerts/:id/resolve', resolveHandler);
+  router.get('/api/v1/alerts', listHandler);
+  // Registered before /:id so "nearby" is not treated as an alert id.
+  router.get('/api/v1/alerts/nearby', nearbyHandler);
+  router.get('/api/v1/alerts/:id', getHandler);
 
   const updateStatusHandler: RequestHandler = async (request, response) => {
     const requestId = resolveRequestId(response);
@@ -827,6 +1407,7 @@ export function createAlertsRouter({
       payload: request.body,
       requestId,
       updateAlertStatus: updateAlertStatusFn,
+      authDeviceId: resolveAuthDeviceId(response),
     });
 
     if (
@@ -0,0 +1,262 @@
+import { randomUUID } from 'node:crypto';
+
+import { type RequestHandler, type Response, Router } from 'express';
+
+import type {
+  ContactInput,
+  CreateContactInput,
+  CreateContactResult,
+  EmergencyContactRecord,
+  UpdateContactInput,
+  UpdateContactResult,
+} from '../types/contact';
+import { requireAuthDeviceId } from '../middleware/deviceAuth';
+
+const REQUIRED_PHONE_DIGITS = 10;
+const MAX_NAME_LENGTH = 50;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+interface CreateContactsRouterDeps {
+  listContacts: (deviceId: string) => Promise<EmergencyContactRecord[]>;
+  createContact: (input: CreateContactInput) => Promise<CreateContactResult>;
+  updateContact: (input: UpdateContactInput) => Promise<UpdateContactResult>;
+  deleteContact: (input: { deviceId: string; contactId: string }) => Promise<{ removed: boolean }>;
+}
+
+function resolveRequestId(response: Response): string {
+  const requestId = response.locals.requestId;
+  if (typeof requestId === 'string' && requestId.length > 0) {
+    return requestId;
+  }
+
+  const fallbackId = randomUUID();
+  response.locals.requestId = fallbackId;
+  return fallbackId;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function validateContactPayload(payload: unknown): {
+  ok: true;
+  value: ContactInput;
+} | {
+  ok: false;
+  message: string;
+} {
+  if (!isPlainObject(payload)) {
+    return { ok: false, message: 'Request body must be an object.' };
+  }
+
+  if (typeof payload.name !== 'string' || !payload.name.trim()) {
+    return { ok: false, message: 'name must be a non-empty string.' };
+  }
+  if (payload.name.trim().length > MAX_NAME_LENGTH) {
+    return { ok: false, message: `name must be at most ${MAX_NAME_LENGTH} characters.` };
+  }
+  if (typeof payload.phone !== 'string') {
+    return { ok: false, message: 'phone must be a string.' };
+  }
+  const phone = payload.phone.replace(/\D/g, '');
+  if (phone.length !== REQUIRED_PHONE_DIGITS) {
+    return { ok: false, message: `phone must contain exactly ${REQUIRED_PHONE_DIGITS} digits.` };
+  }
+
+  let email: string | null = null;
+  if (payload.email !== undefined && payload.email !== null) {
+    if (typeof payload.email !== 'string' || !EMAIL_PATTERN.test(payload.email.trim())) {
+      return { ok: false, message: 'email must be a valid email address or null.' };
+    }
+    email = payload.email.trim().toLowerCase();
+  }
+
+  return {
+    ok: true,
+    value: {
+      name: payload.name.trim(),
+      phone,
+      email,
+    },
+  };
+}
+
+export function createContactsRouter({
+  listContacts,
+  createContact,
+  updateContact,
+  deleteContact,
+}: CreateContactsRouterDeps): Router {
+  const router = Router();
+
+  const requireOwner: RequestHandler = (request, response, next) => {
+    const authDeviceId = requireAuthDeviceId(response);
+    if (!authDeviceId) {
+      return;
+    }
+    if (request.params.deviceId !== authDeviceId) {
+      const requestId = resolveRequestId(response);
+      response.status(403).json({
+        requestId,
+        error: {
+          code: 'FORBIDDEN',
+          message: 'Contacts can only be managed by their own device.',
+        },
+      });
+      return;
+    }
+    next();
+  };
+
+  const listHandler: RequestHandler = async (request, response) => {
+    const requestId = resolveRequestId(response);
+    try {
+      const contacts = await listContacts(request.params.deviceId);
+      response.status(200).json({ requestId, data: contacts });
+    } catch {
+      response.status(500).json({
+        requestId,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to list contacts.',
+        },
+      });
+    }
+  };
+
+  const createHandler: RequestHandler = async (request, response) => {
+    const requestId = resolveRequestId(response);
+    const validation = validateContactPayload(request.body);
+    if (!validation.ok) {
+      response.status(400).json({
+        requestId,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: validation.message,
+        },
+      });
+      return;
+    }
+
+    try {
+      const result = await createContact({ deviceId: request.params.deviceId, ...validation.value });
+      if (result.kind === 'limit_reached') {
+        response.status(409).json({
+          requestId,
+          error: {
+            code: 'CONTACT_LIMIT_REACHED',
+            message: `A rider can register at most ${result.maxContacts} contacts.`,
+          },
+        });
+        return;
+      }
+      if (result.kind === 'duplicate_phone') {
+        response.status(409).json({
+          requestId,
+          error: {
+            code: 'DUPLICATE_PHONE',
+            message: 'A contact with this phone number already exists.',
+          },
+        });
+        return;
+      }
+      response.status(201).json({ requestId, data: result.record });
+    } catch {
+      response.status(500).json({
+        requestId,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to create contact.',
+        },
+      });
+    }
+  };
+
+  const updateHandler: RequestHandler = async (request, response) => {
+    const requestId = resolveRequestId(response);
+    const validation = validateContactPayload(request.body);
+    if (!validation.ok) {
+      response.status(400).json({
+        requestId,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: validation.message,
+        },
+      });
+      return;
+    }
+
+    try {
+      const result = await updateContact({
+        deviceId: request.params.deviceId,
+        contactId: request.params.contactId,
+        ...validation.value,
+      });
+      if (result.kind === 'not_found') {
+        response.status(404).json({
+          requestId,
+          error: {
+            code: 'CONTACT_NOT_FOUND',
+            message: 'Contact not found.',
+          },
+        });
+        return;
+      }
+      if (result.kind === 'duplicate_phone') {
+        response.status(409).json({
+          requestId,
+          error: {
+            code: 'DUPLICATE_PHONE',
+            message: 'A contact with this phone number already exists.',
+          },
+        });
+        return;
+      }
+      response.status(200).json({ requestId, data: result.record });
+    } catch {
+      response.status(500).json({
+        requestId,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to update contact.',
+        },
+      });
+    }
+  };
+
+  const deleteHandler: RequestHandler = async (request, response) => {
+    const requestId = resolveRequestId(response);
+    try {
+      const result = await deleteContact({
+        deviceId: request.params.deviceId,
+        contactId: request.params.contactId,
+      });
+      if (!result.removed) {
+        response.status(404).json({
+          requestId,
+          error: {
+            code: 'CONTACT_NOT_FOUND',
+            message: 'Contact not found.',
+          },
+        });
+        return;
+      }
+      response.status(200).json({ requestId, data: { id: request.params.contactId } });
+    } catch {
+      response.status(500).json({
+        requestId,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to delete contact.',
+        },
+      });
+    }
+  };
+
+  router.get('/api/v1/riders/:deviceId/contacts', requireOwner, listHandler);
+  router.post('/api/v1/riders/:deviceId/contacts', requireOwner, createHandler);
+  router.put('/api/v1/riders/:deviceId/contacts/:contactId', requireOwner, updateHandler);
+  router.delete('/api/v1/riders/:deviceId/contacts/:contactId', requireOwner, deleteHandler);
+
+  return router;
+}
@@ -0,0 +1,310 @@
+import { randomUUID } from 'node:crypto';
+
+import { type RequestHandler, type Response, Router } from 'express';
+
+import type {
+  DeviceRecord,
+  DeviceTokenResponse,
+  RegisterDeviceInput,
+  RegisterDeviceResult,
+  RotateDeviceKeyInput,
+  RotateDeviceKeyResult,
+} from '../types/device';
+import {
+  buildDeviceKeyRotationMessage,
+  buildDeviceRegistrationMessage,
+  buildDeviceTokenMessage,
+  DEVICE_SIGNATURE_MAX_SKEW_MS,
+  isDeviceId,
+  isEd25519PublicKey,
+} from '../services/deviceAuthService';
+
+interface CreateDevicesRouterDeps {
+  nowMs: () => number;
+  registerDevice: (input: RegisterDeviceInput) => Promise<RegisterDeviceResult>;
+  findDevice: (deviceId: string) => Promise<DeviceRecord | null>;
+  rotateDeviceKey: (input: RotateDeviceKeyInput) => Promise<RotateDeviceKeyResult>;
+  isKeyRevoked: (publicKey: string) => Promise<boolean>;
+  verifySignature: (input: { message: string; signature: string; publicKey: string }) => boolean;
+  issueToken: (deviceId: string) => { token: string; expiresAt: number };
+}
+
+function resolveRequestId(response: Response): string {
+  const requestId = response.locals.requestId;
+  if (typeof requestId === 'string' && requestId.length > 0) {
+    return requestId;
+  }
+
+  const fallbackId = randomUUID();
+  response.locals.requestId = fallbackId;
+  return fallbackId;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function validateDeviceProofPayload(
+  payload: unknown,
+  nowMs: number,
+  options: { requirePublicKey: boolean }
+): {
+  ok: true;
+  value: { deviceId: string; publicKey: string | null; timestamp: number; signature: string };
+} | {
+  ok: false;
+  message: string;
+} {
+  if (!isPlainObject(payload)) {
+    return { ok: false, message: 'Request body must be an object.' };
+  }
+
+  if (typeof payload.deviceId !== 'string' || !isDeviceId(payload.deviceId.trim())) {
+    return { ok: false, message: 'deviceId must be 1-64 letters, digits, "-" or "_".' };
+  }
+
+  let publicKey: string | null = null;
+  if (options.requirePublicKey) {
+    if (typeof payload.publicKey !== 'string' || !isEd25519PublicKey(payload.publicKey.trim())) {
+      return { ok: false, message: 'publicKey must be a base64 encoded Ed25519 public key.' };
+    }
+    publicKey = payload.publicKey.trim();
+  }
+
+  if (typeof payload.timestamp !== 'number' || !Number.isInteger(payload.timestamp)) {
+    return { ok: false, message: 'timestamp must be a Unix ms integer.' };
+  }
+  // A bounded timestamp keeps a captured proof from being replayed later for a fresh token.
+  if (Math.abs(payload.timestamp - nowMs) > DEVICE_SIGNATURE_MAX_SKEW_MS) {
+    return { ok: false, message: 'timestamp must be within 5 minutes of server time.' };
+  }
+
+  if (typeof payload.signature !== 'string' || !payload.signature.trim()) {
+    return { ok: false, message: 'signature must be a non-empty base64 string.' };
+  }
+
+  return {
+    ok: true,
+    value: {
+      deviceId: payload.deviceId.trim(),
+      publicKey,
+      timestamp: payload.timestamp,
+      signature: payload.signature.trim(),
+    },
+  };
+}
+
+export function createDevicesRouter({
+  nowMs,
+  registerDevice,
+  findDevice,
+  rotateDeviceKey,
+  isKeyRevoked,
+  verifySignature,
+  issueToken,
+}: CreateDevicesRouterDeps): Router {
+  const router = Router();
+
+  const respondWithToken = (response: Response, requestId: string, statusCode: number, deviceId: string) => {
+    const issued = issueToken(deviceId);
+    const data: DeviceTokenResponse = { deviceId, token: issued.token, expiresAt: issued.expiresAt };
+    response.status(statusCode).json({ requestId, data });
+  };
+
+  const registerHandler: RequestHandler = async (request, response) => {
+    const requestId = resolveRequestId(response);
+    const validation = validateDeviceProofPayload(request.body, nowMs(), { requirePublicKey: true });
+    if (!validation.ok || !validation.value.publicKey) {
+      response.status(400).json({
+        requestId,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: validation.ok ? 'publicKey is required.' : validation.message,
+        },
+      });
+      return;
+    }
+
+    const { deviceId, publicKey, timestamp, signature } = validation.value;
+    const message = buildDeviceRegistrationMessage({ deviceId, publicKey, timestamp });
+    if (!verifySignature({ message, signature, publicKey })) {
+      response.status(401).json({
+        requestId,
+        error: {
+          code: 'INVALID_SIGNATURE',
+          message: 'Signature does not match the supplied public key.',
+        },
+      });
+      return;
+    }
+
+    try {
+      // A revoked key must not come back by re-registering, e.g. after an operator freed its device id.
+      if (await isKeyRevoked(publicKey)) {
+        response.status(403).json({
+          requestId,
+          error: {
+            code: 'DEVICE_KEY_REVOKED',
+            message: 'This public key has been revoked.',
+          },
+        });
+        return;
+      }
+
+      const result = await registerDevice({ deviceId, publicKey });
+      if (result.kind === 'key_mismatch') {
+        response.status(409).json({
+          requestId,
+          error: {
+            code: 'DEVICE_KEY_MISMATCH',
+            message: 'This device id is already bound to a different key.',
+          },
+        });
+        return;
+      }
+      respondWithToken(response, requestId, result.kind === 'registered' ? 201 : 200, deviceId);
+    } catch {
+      response.status(500).json({
+        requestId,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to register device.',
+        },
+      });
+    }
+  };
+
+  const tokenHandler: RequestHandler = async (request, response) => {
+    const requestId = resolveRequestId(response);
+    const validation = validateDeviceProofPayload(request.body, nowMs(), { requirePublicKey: false });
+    if (!validation.ok) {
+      response.status(400).json({
+        requestId,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: validation.message,
+        },
+      });
+      return;
+    }
+
+    const { deviceId, timestamp, signature } = validation.value;
+    try {
+      const device = await findDevice(deviceId);
+      if (!device) {
+        response.status(404).json({
+          requestId,
+          error: {
+            code: 'DEVICE_NOT_REGISTERED',
+            message: 'Device must register its public key first.',
+          },
+        });
+        return;
+      }
+
+      const message = buildDeviceTokenMessage({ deviceId, timestamp });
+      if (!verifySignature({ message, signature, publicKey: device.publicKey })) {
+        response.status(401).json({
+          requestId,
+          error: {
+            code: 'INVALID_SIGNATURE',
+            message: 'Signature does not match the registered device key.',
+          },
+        });
+        return;
+      }
+      respondWithToken(response, requestId, 200, deviceId);
+    } catch {
+      response.status(500).json({
+        requestId,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to issue device token.',
+        },
+      });
+    }
+  };
+
+  const rotateKeyHandler: RequestHandler = async (request, response) => {
+    const requestId = resolveRequestId(response);
+    const validation = validateDeviceProofPayload(request.body, nowMs(), { requirePublicKey: true });
+    const newKeySignature = isPlainObject(request.body) ? request.body.newKeySignature : undefined;
+    if (!validation.ok || !validation.value.publicKey || typeof newKeySignature !== 'string' || !newKeySignature) {
+      response.status(400).json({
+        requestId,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: validation.ok ? 'publicKey and newKeySignature are required.' : validation.message,
+        },
+      });
+      return;
+    }
+
+    const { deviceId, publicKey, timestamp, signature } = validation.value;
+    try {
+      const device = await findDevice(deviceId);
+      if (!device) {
+        response.status(404).json({
+          requestId,
+          error: {
+            code: 'DEVICE_NOT_REGISTERED',
+            message: 'Device must register its public key first.',
+          },
+        });
+        return;
+      }
+
+      const message = buildDeviceKeyRotationMessage({ deviceId, publicKey, timestamp });
+      if (
+        !verifySignature({ message, signature, publicKey: device.publicKey }) ||
+        !verifySignature({ message, signature: newKeySignature, publicKey })
+      ) {
+        response.status(401).json({
+          requestId,
+          error: {
+            code: 'INVALID_SIGNATURE',
+            message: 'Rotation must be signed by both the registered key and the new key.',
+          },
+        });
+        return;
+      }
+      if (await isKeyRevoked(publicKey)) {
+        response.status(403).json({
+          requestId,
+          error: {
+            code: 'DEVICE_KEY_REVOKED',
+            message: 'This public key has been revoked.',
+          },
+        });
+        return;
+      }
+
+      const result = await rotateDeviceKey({ deviceId, currentPublicKey: device.publicKey, newPublicKey: publicKey });
+      if (result.kind !== 'rotated') {
+        response.status(409).json({
+          requestId,
+          error: {
+            code: 'DEVICE_KEY_MISMATCH',
+            message: 'The registered key changed while the rotation was in flight.',
+          },
+        });
+        return;
+      }
+      respondWithToken(response, requestId, 200, deviceId);
+    } catch {
+      response.status(500).json({
+        requestId,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to rotate device key.',
+        },
+      });
+    }
+  };
+
+  router.post('/api/v1/devices/register', registerHandler);
+  router.post('/api/v1/devices/rotate-key', rotateKeyHandler);
+  router.post('/api/v1/devices/token', tokenHandler);
+
+  return router;
+}
@@ -1,9 +1,33 @@
 import { randomUUID } from 'node:crypto';
 
 import { type RequestHandler, type Response, Router } from 'express';
+import multer from 'multer';
 
-import type { CreateHazardInput, HazardRecord, HazardType } from '../types/hazard';
-import { HAZARD_TYPES } from '../types/hazard';
+import { requireAuthDeviceId } from '../middleware/deviceAuth';
+import type {
+  AttachHazardPhotoInput,
+  AttachHazardPhotoResult,
+  CreateHazardInput,
+  HazardAreaQuery,
+  HazardPhotoContentType,
+  HazardPhotoStream,
+  HazardRecord,
+  HazardType,
+  HazardVote,
+  HazardVoteInput,
+  HazardVoteResult,
+  RemoveHazardResult,
+} from '../types/hazard';
+import {
+  HAZARD_DESCRIPTION_MAX_LENGTH,
+  HAZARD_PHOTO_CONTENT_TYPES,
+  HAZARD_SEVERITY_MAX,
+  HAZARD_SEVERITY_MIN,
+  HAZARD_TYPES,
+} from '../types/hazard';
+
+const MAX_HAZARD_QUERY_RADIUS_METERS = 50_000;
+const MAX_HAZARD_PHOTO_BYTES = 5 * 1024 * 1024;
 
 type ValidationIssue = {
   field: string;
@@ -19,6 +43,14 @@ type ValidationErrorResponse = {
   };
 };
 
+type ErrorResponse = {
+  requestId: string;
+  error: {
+    code: 'FORBIDDEN' | 'NOT_FOUND' | 'OWN_HAZARD';
+    message: string;
+  };
+};
+
 type InternalErrorResponse = {
   requestId: string;
   error: {
@@ -28,10 +60,21 @@ type InternalErrorResponse = {
 };
 
 export interface HazardsRouteDeps {
-  listHazards: () => Promise<HazardRecord[]>;
+  listHazards: (area: HazardAreaQuery | null) => Promise<HazardRecord[]>;
   createHazard: (input: CreateHazardInput) => Promise<HazardRecord>;
-  removeHazard: (hazardId: string) => Promise<{ removed: boolean }>;
+  mergeIntoNearbyHazard: (
+    input: CreateHazardInput,
+    options: { mergeRadiusMeters: number; nowMs: number }
+  ) => Promise<HazardRecord | null>;
+  /** Reports of the same type closer than this to an existing hazard are merged into it; 0 disables merging. */
+  mergeRadiusMeters: number;
+  removeHazard: (input: { hazardId: string; deviceId: string }) => Promise<RemoveHazardResult>;
+  voteHazard: (input: HazardVoteInput) => Promise<HazardVoteResult>;
+  attachPhoto: (input: AttachHazardPhotoInput) => Promise<AttachHazardPhotoResult>;
+  openPhoto: (hazardId: string) => Promise<HazardPhotoStream | null>;
+  nowMs: () => number;
   onHazardCreated?: (hazard: HazardRecord) => void | Promise<void>;
+  onHazardUpdated?: (hazard: HazardRecord) => void | Promise<void>;
   onHazardRemoved?: (hazardId: string) => void | Promise<void>;
 }
 
@@ -46,7 +89,7 @@ function resolveRequestId(response: Response): string {
   return fallbackId;
 }
 
-function validateCreateHazardPayload(payload: unknown): {
+export function validateCreateHazardPayload(payload: unknown): {
   ok: true;
   value: CreateHazardInput;
 } | {
@@ -76,44 +119,221 @@ function validateCreateHazardPayload(payload: unknown): {
   ) {
     details.push({ field: 'longitude', message: 'longitude must be between -180 and 180.' });
   }
+  if (typeof body.deviceId !== 'string' || body.deviceId.trim().length === 0) {
+    details.push({ field: 'deviceId', message: 'deviceId must be a non-empty string.' });
+  }
+  if (
+    body.severity !== undefined &&
+    body.severity !== null &&
+    (typeof body.severity !== 'number' ||
+      !Number.isInteger(body.severity) ||
+      body.severity < HAZARD_SEVERITY_MIN ||
+      body.severity > HAZARD_SEVERITY_MAX)
+  ) {
+    details.push({
+      field: 'severity',
+      message: `severity must be an integer from ${HAZARD_SEVERITY_MIN} to ${HAZARD_SEVERITY_MAX}.`,
+    });
+  }
+  if (body.description !== undefined && body.description !== null) {
+    if (typeof body.description !== 'string') {
+      details.push({ field: 'description', message: 'description must be a string.' });
+    } else if (body.description.trim().length > HAZARD_DESCRIPTION_MAX_LENGTH) {
+      details.push({
+        field: 'description',
+        message: `description must be at most ${HAZARD_DESCRIPTION_MAX_LENGTH} characters.`,
+      });
+    }
+  }
+  if (
+    body.heading !== undefined &&
+    body.heading !== null &&
+    (typeof body.heading !== 'number' || !Number.isFinite(body.heading) || body.heading < 0 || body.heading >= 360)
+  ) {
+    details.push({ field: 'heading', message: 'heading must be in degrees, from 0 up to 360.' });
+  }
 
   if (details.length > 0) {
     return { ok: false, details };
   }
 
+  const description = typeof body.description === 'string' ? body.description.trim() : '';
   return {
     ok: true,
     value: {
       type: body.type as HazardType,
       latitude: body.latitude as number,
       longitude: body.longitude as number,
+      reporterDeviceId: (body.deviceId as string).trim(),
+      severity: typeof body.severity === 'number' ? body.severity : null,
+      description: description.length > 0 ? description : null,
+      heading: typeof body.heading === 'number' ? body.heading : null,
     },
   };
 }
 
+function readActorDeviceId(payload: unknown): string | null {
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+    return null;
+  }
+  const deviceId = (payload as Record<string, unknown>).deviceId;
+  return typeof deviceId === 'string' && deviceId.trim().length > 0 ? deviceId.trim() : null;
+}
+
+function readQueryNumber(value: unknown): number | null {
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    return null;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/** Parses `lat`/`lon`/`radius` or `bbox=minLon,minLat,maxLon,maxLat`; no area means every hazard. */
+export function validateHazardAreaQuery(query: Record<string, unknown>): {
+  ok: true;
+  value: HazardAreaQuery | null;
+} | {
+  ok: false;
+  details: ValidationIssue[];
+} {
+  const hasRadius = query.lat !== undefined || query.lon !== undefined || query.radius !== undefined;
+  const hasBbox = query.bbox !== undefined;
+  if (hasRadius && hasBbox) {
+    return {
+      ok: false,
+      details: [{ field: 'bbox', message: 'Use either bbox or lat/lon/radius, not both.' }],
+    };
+  }
+
+  if (hasBbox) {
+    const parts = typeof query.bbox === 'string' ? query.bbox.split(',').map(readQueryNumber) : [];
+    if (parts.length !== 4 || parts.some((part) => part === null)) {
+      return {
+        ok: false,
+        details: [{ field: 'bbox', message: 'bbox must be minLon,minLat,maxLon,maxLat.' }],
+      };
+    }
+    const [minLongitude, minLatitude, maxLongitude, maxLatitude] = parts as number[];
+    const details: ValidationIssue[] = [];
+    if (minLongitude < -180 || maxLongitude > 180 || minLongitude >= maxLongitude) {
+      details.push({ field: 'bbox', message: 'bbox longitudes must be within -180..180 with min below max.' });
+    }
+    if (minLatitude < -90 || maxLatitude > 90 || minLatitude >= maxLatitude) {
+      details.push({ field: 'bbox', message: 'bbox latitudes must be within -90..90 with min below max.' });
+    }
+    if (details.length > 0) {
+      return { ok: false, details };
+    }
+    return { ok: true, value: { kind: 'bbox', minLongitude, minLatitude, maxLongitude, maxLatitude } };
+  }
+
+  if (hasRadius) {
+    const latitude = readQueryNumber(query.lat);
+    const longitude = readQueryNumber(query.lon);
+    const radiusMeters = readQueryNumber(query.radius);
+    const details: ValidationIssue[] = [];
+    if (latitude === null || latitude < -90 || latitude > 90) {
+      details.push({ field: 'lat', message: 'lat must be between -90 and 90.' });
+    }
+    if (longitude === null || longitude < -180 || longitude > 180) {
+      details.push({ field: 'lon', message: 'lon must be between -180 and 180.' });
+    }
+    if (radiusMeters === null || radiusMeters <= 0 || radiusMeters > MAX_HAZARD_QUERY_RADIUS_METERS) {
+      details.push({
+        field: 'radius',
+        message: `radius must be greater than 0 and at most ${MAX_HAZARD_QUERY_RADIUS_METERS} meters.`,
+      });
+    }
+    if (details.length > 0) {
+      return { ok: false, details };
+    }
+    return {
+      ok: true,
+      value: { kind: 'radius', latitude: latitude!, longitude: longitude!, radiusMeters: radiusMeters! },
+    };
+  }
+
+  return { ok: true, value: null };
+}
+
 export function createHazardsRouter({
   listHazards,
   createHazard,
+  mergeIntoNearbyHazard,
   removeHazard,
+  voteHazard,
+  attachPhoto,
+  openPhoto,
+  nowMs,
+  mergeRadiusMeters,
   onHazardCreated,
+  onHazardUpdated,
   onHazardRemoved,
 }: HazardsRouteDeps): Router {
   const router = Router();
+  const photoUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: MAX_HAZARD_PHOTO_BYTES, files: 1 },
+  }).single('photo');
+
+  const sendValidationError = (response: Response, requestId: string, details: ValidationIssue[]) => {
+    const body: ValidationErrorResponse = {
+      requestId,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Request validation failed',
+        details,
+      },
+    };
+    response.status(400).json(body);
+  };
+
+  const sendError = (response: Response, statusCode: number, body: ErrorResponse | InternalErrorResponse) => {
+    response.status(statusCode).json(body);
+  };
 
-  const listHandler: RequestHandler = async (_request, response) => {
+  // Resolves the acting device from the body, rejecting ids that differ from the bearer token's device.
+  const resolveActor = (requestBody: unknown, response: Response, requestId: string): string | null => {
+    const deviceId = readActorDeviceId(requestBody);
+    if (!deviceId) {
+      sendValidationError(response, requestId, [
+        { field: 'deviceId', message: 'deviceId must be a non-empty string.' },
+      ]);
+      return null;
+    }
+    const authDeviceId = requireAuthDeviceId(response);
+    if (!authDeviceId) {
+      return null;
+    }
+    if (authDeviceId !== deviceId) {
+      sendError(response, 403, {
+        requestId,
+        error: { code: 'FORBIDDEN', message: 'deviceId must match the authenticated device.' },
+      });
+      return null;
+    }
+    return deviceId;
+  };
+
+  const listHandler: RequestHandler = async (request, response) => {
     const requestId = resolveRequestId(response);
+    const validation = validateHazardAreaQuery(request.query as Record<string, unknown>);
+    if (!validation.ok) {
+      sendValidationError(response, requestId, validation.details);
+      return;
+    }
+
     try {
-      const hazards = await listHazards();
+      const hazards = await listHazards(validation.value);
       response.status(200).json({ requestId, data: hazards });
     } catch {
-      const body: InternalErrorResponse = {
+      sendError(response, 500, {
         requestId,
         error: {
           code: 'INTERNAL_ERROR',
           message: 'Failed to list hazards.',
         },
-      };
-      response.status(500).json(body);
+      });
     }
   };
 
@@ -121,46 +341,119 @@ export function createHazardsRouter({
     const requestId = resolveRequestId(response);
     const validation = validateCreateHazardPayload(request.body);
     if (!validation.ok) {
-      const body: ValidationErrorResponse = {
+      sendValidationError(response, requestId, validation.details);
+      return;
+    }
+
+    const authDeviceId = requireAuthDeviceId(response);
+    if (!authDeviceId) {
+      return;
+    }
+    if (authDeviceId !== validation.value.reporterDeviceId) {
+      sendError(response, 403, {
         requestId,
-        error: {
-          code: 'VALIDATION_ERROR',
-          message: 'Request validation failed',
-          details: validation.details,
-        },
-      };
-      response.status(400).json(body);
+        error: { code: 'FORBIDDEN', message: 'deviceId must match the authenticated device.' },
+      });
       return;
     }
 
     try {
-      const hazard = await createHazard(validation.value);
+      const merged =
+        mergeRadiusMeters > 0
+          ? await mergeIntoNearbyHazard(validation.value, { mergeRadiusMeters, nowMs: nowMs() })
+          : null;
+      if (merged) {
+        if (onHazardUpdated) {
+          await onHazardUpdated(merged);
+        }
+        response.status(200).json({ requestId, data: merged, outcome: 'MERGED' });
+        return;
+      }
+
+      const created = await createHazard(validation.value);
       if (onHazardCreated) {
-        await onHazardCreated(hazard);
+        await onHazardCreated(created);
       }
-      response.status(201).json({ requestId, data: hazard });
+      response.status(201).json({ requestId, data: created, outcome: 'CREATED' });
     } catch {
-      const body: InternalErrorResponse = {
+      sendError(response, 500, {
         requestId,
         error: {
           code: 'INTERNAL_ERROR',
           message: 'Failed to create hazard.',
         },
-      };
-      response.status(500).json(body);
+      });
+    }
+  };
+
+  const createVoteHandler = (vote: HazardVote): RequestHandler => async (request, response) => {
+    const requestId = resolveRequestId(response);
+    const deviceId = resolveActor(request.body, response, requestId);
+    if (!deviceId) {
+      return;
+    }
+
+    try {
+      const result = await voteHazard({ hazardId: request.params.id, deviceId, vote, nowMs: nowMs() });
+      switch (result.kind) {
+        case 'not_found':
+          sendError(response, 404, {
+            requestId,
+            error: { code: 'NOT_FOUND', message: 'Hazard not found.' },
+          });
+          return;
+        case 'own_hazard':
+          sendError(response, 409, {
+            requestId,
+            error: { code: 'OWN_HAZARD', message: 'Reporters cannot vote on their own hazard.' },
+          });
+          return;
+        case 'removed':
+          if (onHazardRemoved) {
+            await onHazardRemoved(result.hazardId);
+          }
+          response.status(200).json({ requestId, data: { id: result.hazardId, removed: true } });
+          return;
+        case 'updated':
+          if (onHazardUpdated) {
+            await onHazardUpdated(result.record);
+          }
+          response.status(200).json({ requestId, data: result.record });
+          return;
+      }
+    } catch {
+      sendError(response, 500, {
+        requestId,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to record hazard vote.',
+        },
+      });
     }
   };
 
   const removeHandler: RequestHandler = async (request, response) => {
     const requestId = resolveRequestId(response);
+    const deviceId = resolveActor(request.body, response, requestId);
+    if (!deviceId) {
+      return;
+    }
+
     try {
-      const result = await removeHazard(request.params.id);
-      if (!result.removed) {
-        response.status(404).json({
+      const result = await removeHazard({ hazardId: request.params.id, deviceId });
+      if (result.kind === 'not_found') {
+        sendError(response, 404, {
+          requestId,
+          error: { code: 'NOT_FOUND', message: 'Hazard not found.' },
+        });
+        return;
+      }
+      if (result.kind === 'forbidden') {
+        sendError(response, 403, {
           requestId,
           error: {
-            code: 'NOT_FOUND',
-            message: 'Hazard not found.',
+            code: 'FORBIDDEN',
+            message: 'Only the reporter can remove a hazard; other riders can deny it instead.',
           },
         });
         return;
@@ -170,20 +463,123 @@ export function createHazardsRouter({
       }
       response.status(200).json({ requestId, data: { id: request.params.id } });
     } catch {
-      const body: InternalErrorResponse = {
+      sendError(response, 500, {
         requestId,
         error: {
           code: 'INTERNAL_ERROR',
           message: 'Failed to remove hazard.',
         },
-      };
-      response.status(500).json(body);
+      });
+    }
+  };
+
+  // Multer errors (oversized or unexpected files) surface as validation errors instead of falling through to a 500.
+  const parsePhotoUpload: RequestHandler = (request, response, next) => {
+    photoUpload(request, response, (error: unknown) => {
+      if (!error) {
+        next();
+        return;
+      }
+      const message =
+        error instanceof multer.MulterError && error.code === 'LIMIT_FILE_SIZE'
+          ? `photo must be at most ${MAX_HAZARD_PHOTO_BYTES} bytes.`
+          : 'photo must be a single multipart file field named "photo".';
+      sendValidationError(response, resolveRequestId(response), [{ field: 'photo', message }]);
+    });
+  };
+
+  const attachPhotoHandler: RequestHandler = async (request, response) => {
+    const requestId = resolveRequestId(response);
+    const deviceId = resolveActor(request.body, response, requestId);
+    if (!deviceId) {
+      return;
+    }
+
+    const file = request.file;
+    if (!file || file.size === 0) {
+      sendValidationError(response, requestId, [{ field: 'photo', message: 'photo file is required.' }]);
+      return;
+    }
+    if (!HAZARD_PHOTO_CONTENT_TYPES.includes(file.mimetype as HazardPhotoContentType)) {
+      sendValidationError(response, requestId, [
+        { field: 'photo', message: `photo must be one of: ${HAZARD_PHOTO_CONTENT_TYPES.join(', ')}` },
+      ]);
+      return;
+    }
+
+    try {
+      const result = await attachPhoto({
+        hazardId: request.params.id,
+        deviceId,
+        contentType: file.mimetype as HazardPhotoContentType,
+        data: file.buffer,
+        nowMs: nowMs(),
+      });
+      if (result.kind === 'not_found') {
+        sendError(response, 404, {
+          requestId,
+          error: { code: 'NOT_FOUND', message: 'Hazard not found.' },
+        });
+        return;
+      }
+      if (result.kind === 'forbidden') {
+        sendError(response, 403, {
+          requestId,
+          error: { code: 'FORBIDDEN', message: 'Only the reporter can attach a photo to a hazard.' },
+        });
+        return;
+      }
+      if (onHazardUpdated) {
+        await onHazardUpdated(result.record);
+      }
+      response.status(200).json({ requestId, data: result.record });
+    } catch {
+      sendError(response, 500, {
+        requestId,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to attach hazard photo.',
+        },
+      });
+    }
+  };
+
+  const photoHandler: RequestHandler = async (request, response) => {
+    const requestId = resolveRequestId(response);
+    try {
+      const photo = await openPhoto(request.params.id);
+      if (!photo) {
+        sendError(response, 404, {
+          requestId,
+          error: { code: 'NOT_FOUND', message: 'Hazard photo not found.' },
+        });
+        return;
+      }
+      response.status(200);
+      response.setHeader('Content-Type', photo.contentType);
+      response.setHeader('Content-Length', String(photo.length));
+      response.setHeader('Cache-Control', 'public, max-age=86400');
+      photo.stream.once('error', () => {
+        response.destroy();
+      });
+      photo.stream.pipe(response);
+    } catch {
+      sendError(response, 500, {
+        requestId,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to load hazard photo.',
+        },
+      });
     }
   };
 
   router.get('/api/v1/hazards', listHandler);
   router.post('/api/v1/hazards', createHandler);
+  router.post('/api/v1/hazards/:id/confirm', createVoteHandler('CONFIRM'));
+  router.post('/api/v1/hazards/:id/deny', createVoteHandler('DENY'));
+  router.post('/api/v1/hazards/:id/photo', parsePhotoUpload, attachPhotoHandler);
+  router.get('/api/v1/hazards/:id/photo', photoHandler);
   router.delete('/api/v1/hazards/:id', removeHandler);
   return router;
 }
-
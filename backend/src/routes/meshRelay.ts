@@ -0,0 +1,654 @@
+import { randomUUID } from 'node:crypto';
+
+import { type RequestHandler, type Response, Router } from 'express';
+
+import type { AlertRecord, CreateAlertPersistenceInput, ValidationIssue } from '../types/alert';
+import type { DeviceCertificate, DeviceRecord, RegisterDeviceInput, RegisterDeviceResult } from '../types/device';
+import {
+  MESH_ENVELOPE_TYPES,
+  type ClaimMeshRelayMessageInput,
+  type MeshEnvelope,
+  type MeshKeysResponse,
+  type MeshRelayAttestation,
+  type MeshRelayRequest,
+  type MeshRelayResult,
+  type MeshSealedContents,
+  type MeshSealedPayload,
+  type MeshSealRecipient,
+  type MeshTrustResponse,
+  type OpenedMeshEnvelope,
+} from '../types/mesh';
+import { buildUnauthorizedResponse, resolveAuthDeviceId } from '../middleware/deviceAuth';
+import { isDeviceId, isEd25519PublicKey } from '../services/deviceAuthService';
+import {
+  MESH_RELAY_MAX_AGE_MS,
+  MESH_RELAY_MAX_FUTURE_SKEW_MS,
+  verifyMeshEnvelope,
+  verifyMeshRelayChain,
+} from '../services/meshEnvelopeService';
+import type { CreateAlertsRouteDeps } from './alerts';
+import { validateCreateAlertPayload } from './alerts';
+
+const MAX_MESSAGE_ID_LENGTH = 128;
+const MAX_SEAL_RECIPIENTS = 8;
+const MAX_CLIENT_ALERT_ID_LENGTH = 128;
+
+export interface CreateMeshRelayRouterDeps {
+  nowMs: () => number;
+  verifySignature: (input: { message: string; signature: string; publicKey: string }) => boolean;
+  registerDevice: (input: RegisterDeviceInput) => Promise<RegisterDeviceResult>;
+  claimMessage: (input: ClaimMeshRelayMessageInput) => Promise<boolean>;
+  releaseMessage: (messageId: string) => Promise<void>;
+  describeMeshKeys: () => MeshKeysResponse;
+  findDevice: (deviceId: string) => Promise<DeviceRecord | null>;
+  isKeyRevoked: (publicKey: string) => Promise<boolean>;
+  listRevokedKeys: () => Promise<string[]>;
+  certificateAuthorityPublicKey: string;
+  issueCertificate: (device: { deviceId: string; publicKey: string }) => DeviceCertificate;
+  openSealedPayload: (sealed: MeshSealedPayload) => MeshSealedContents | null;
+  findOpenAlertForDevice: (deviceId: string) => Promise<AlertRecord | null>;
+  findAlertByClientId: (deviceId: string, clientAlertId: string) => Promise<AlertRecord | null>;
+  findAlert: (alertId: string) => Promise<AlertRecord | null>;
+  createAlert: CreateAlertsRouteDeps['createAlert'];
+  updateAlertStatus: NonNullable<CreateAlertsRouteDeps['updateAlertStatus']>;
+  acceptAlert: NonNullable<CreateAlertsRouteDeps['acceptAlert']>;
+  onAlertCreated?: CreateAlertsRouteDeps['onAlertCreated'];
+  onAlertAssigned?: CreateAlertsRouteDeps['onAlertAssigned'];
+  onAlertStatusUpdated?: CreateAlertsRouteDeps['onAlertStatusUpdated'];
+}
+
+type MeshRelayAction =
+  | { kind: 'trigger'; alert: CreateAlertPersistenceInput }
+  | { kind: 'cancel'; alertId: string | null }
+  | {
+      kind: 'assign';
+      alertId: string | null;
+      victimDeviceId: string;
+      responderName: string | null;
+      assignedAt: number;
+    };
+
+type MeshRelayErrorCode =
+  | 'VALIDATION_ERROR'
+  | 'INVALID_SIGNATURE'
+  | 'INVALID_RELAY_CHAIN'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'ORIGIN_KEY_MISMATCH'
+  | 'ORIGIN_KEY_REVOKED'
+  | 'UNREADABLE_ENVELOPE'
+  | 'INTERNAL_ERROR';
+
+export type MeshRelayResponse =
+  | { statusCode: 200 | 201; body: { requestId: string; data: MeshRelayResult } }
+  | {
+      statusCode: 400 | 401 | 403 | 500;
+      body: {
+        requestId: string;
+        error: { code: MeshRelayErrorCode; message: string; details?: ValidationIssue[] };
+      };
+    };
+
+function resolveRequestId(response: Response): string {
+  const requestId = response.locals.requestId;
+  if (typeof requestId === 'string' && requestId.length > 0) {
+    return requestId;
+  }
+
+  const fallbackId = randomUUID();
+  response.locals.requestId = fallbackId;
+  return fallbackId;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+function isNonNegativeInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+function isMeshEnvelopeType(value: unknown): value is MeshEnvelope['type'] {
+  return typeof value === 'string' && (MESH_ENVELOPE_TYPES as readonly string[]).includes(value);
+}
+
+function readSealRecipient(value: unknown): MeshSealRecipient | null {
+  if (!isPlainObject(value) || !isNonEmptyString(value.keyId) || !isNonEmptyString(value.wrappedKey)) {
+    return null;
+  }
+  if (value.kind === 'GROUP') {
+    return { kind: 'GROUP', keyId: value.keyId, wrappedKey: value.wrappedKey };
+  }
+  if (value.kind === 'GATEWAY' && isNonEmptyString(value.ephemeralPublicKey)) {
+    return {
+      kind: 'GATEWAY',
+      keyId: value.keyId,
+      ephemeralPublicKey: value.ephemeralPublicKey,
+      wrappedKey: value.wrappedKey,
+    };
+  }
+  return null;
+}
+
+// Rebuilt from known fields only, so the signature is checked against exactly what the origin signed.
+function readSealedPayload(value: unknown): MeshSealedPayload | null {
+  if (
+    !isPlainObject(value) ||
+    !isNonEmptyString(value.nonce) ||
+    !isNonEmptyString(value.ciphertext) ||
+    !Array.isArray(value.recipients) ||
+    value.recipients.length === 0 ||
+    value.recipients.length > MAX_SEAL_RECIPIENTS
+  ) {
+    return null;
+  }
+
+  const recipients: MeshSealRecipient[] = [];
+  for (const entry of value.recipients) {
+    const recipient = readSealRecipient(entry);
+    if (!recipient) {
+      return null;
+    }
+    recipients.push(recipient);
+  }
+  return { nonce: value.nonce, recipients, ciphertext: value.ciphertext };
+}
+
+function readRelayAttestations(value: unknown): MeshRelayAttestation[] | null {
+  // Envelopes straight from builds that predate attestations have no relays field.
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    return null;
+  }
+
+  const relays: MeshRelayAttestation[] = [];
+  for (const entry of value) {
+    if (
+      !isPlainObject(entry) ||
+      !isDeviceId(entry.deviceId) ||
+      typeof entry.publicKey !== 'string' ||
+      !isEd25519PublicKey(entry.publicKey) ||
+      !isNonEmptyString(entry.signature)
+    ) {
+      return null;
+    }
+    relays.push({ deviceId: entry.deviceId, publicKey: entry.publicKey, signature: entry.signature });
+  }
+  return relays;
+}
+
+export function validateMeshRelayPayload(payload: unknown, nowMs: number): {
+  ok: true;
+  value: MeshRelayRequest;
+} | {
+  ok: false;
+  message: string;
+} {
+  if (!isPlainObject(payload)) {
+    return { ok: false, message: 'Request body must be an object.' };
+  }
+  if (typeof payload.relayDeviceId !== 'string' || !isDeviceId(payload.relayDeviceId.trim())) {
+    return { ok: false, message: 'relayDeviceId must be 1-64 letters, digits, "-" or "_".' };
+  }
+
+  const envelope = payload.envelope;
+  if (!isPlainObject(envelope)) {
+    return { ok: false, message: 'envelope must be an object.' };
+  }
+  if (envelope.version !== 1 && envelope.version !== 2) {
+    return { ok: false, message: 'envelope.version must be 1 or 2.' };
+  }
+  if (!isNonEmptyString(envelope.messageId) || envelope.messageId.length > MAX_MESSAGE_ID_LENGTH) {
+    return { ok: false, message: `envelope.messageId must be 1-${MAX_MESSAGE_ID_LENGTH} characters.` };
+  }
+  if (envelope.version === 1 && !isDeviceId(envelope.originDeviceId)) {
+    return { ok: false, message: 'envelope.originDeviceId must be 1-64 letters, digits, "-" or "_".' };
+  }
+  if (typeof envelope.originPublicKey !== 'string' || !isEd25519PublicKey(envelope.originPublicKey)) {
+    return { ok: false, message: 'envelope.originPublicKey must be a base64 encoded Ed25519 public key.' };
+  }
+  if (!isMeshEnvelopeType(envelope.type)) {
+    return { ok: false, message: `envelope.type must be one of ${MESH_ENVELOPE_TYPES.join(', ')}.` };
+  }
+  if (!isNonNegativeInteger(envelope.createdAt)) {
+    return { ok: false, message: 'envelope.createdAt must be a Unix ms integer.' };
+  }
+  // A bounded age keeps a captured envelope from re-raising an SOS long after the victim cancelled it.
+  if (
+    envelope.createdAt < nowMs - MESH_RELAY_MAX_AGE_MS ||
+    envelope.createdAt > nowMs + MESH_RELAY_MAX_FUTURE_SKEW_MS
+  ) {
+    return { ok: false, message: 'envelope.createdAt is outside the relay window.' };
+  }
+  if (
+    !isNonNegativeInteger(envelope.hop) ||
+    !isNonNegativeInteger(envelope.maxHops) ||
+    envelope.hop > envelope.maxHops
+  ) {
+    return { ok: false, message: 'envelope.hop and envelope.maxHops must be integers with hop <= maxHops.' };
+  }
+  if (!isNonEmptyString(envelope.signature)) {
+    return { ok: false, message: 'envelope.signature must be a non-empty base64 string.' };
+  }
+  const relays = readRelayAttestations(envelope.relays);
+  if (!relays || relays.length !== envelope.hop) {
+    return { ok: false, message: 'envelope.relays must hold one { deviceId, publicKey, signature } per hop.' };
+  }
+
+  if (envelope.version === 2) {
+    const sealed = readSealedPayload(envelope.sealed);
+    if (!sealed) {
+      return { ok: false, message: 'envelope.sealed must hold a nonce, ciphertext and 1-8 recipients.' };
+    }
+    return {
+      ok: true,
+      value: {
+        relayDeviceId: payload.relayDeviceId.trim(),
+        envelope: {
+          version: 2,
+          messageId: envelope.messageId,
+          originPublicKey: envelope.originPublicKey,
+          type: envelope.type,
+          createdAt: envelope.createdAt,
+          hop: envelope.hop,
+          maxHops: envelope.maxHops,
+          sealed,
+          signature: envelope.signature,
+          relays,
+        },
+      },
+    };
+  }
+
+  if (!isPlainObject(envelope.payload)) {
+    return { ok: false, message: 'envelope.payload must be an object.' };
+  }
+
+  return {
+    ok: true,
+    value: {
+      relayDeviceId: payload.relayDeviceId.trim(),
+      envelope: {
+        version: 1,
+        messageId: envelope.messageId,
+        originDeviceId: envelope.originDeviceId as string,
+        originPublicKey: envelope.originPublicKey,
+        type: envelope.type,
+        createdAt: envelope.createdAt,
+        hop: envelope.hop,
+        maxHops: envelope.maxHops,
+        payload: envelope.payload,
+        signature: envelope.signature,
+        relays,
+      },
+    },
+  };
+}
+
+function readOptionalString(value: unknown): string | null {
+  return typeof value === 'string' && value.trim().length > 0 ? value.trim() : null;
+}
+
+function openMeshEnvelope(
+  deps: Pick<CreateMeshRelayRouterDeps, 'openSealedPayload'>,
+  envelope: MeshEnvelope
+): OpenedMeshEnvelope | null {
+  const contents =
+    envelope.version === 1
+      ? { originDeviceId: envelope.originDeviceId, payload: envelope.payload }
+      : deps.openSealedPayload(envelope.sealed);
+  // Sealed envelopes only reveal the origin once opened, so its id is checked here rather than at validation.
+  if (!contents || !isDeviceId(contents.originDeviceId)) {
+    return null;
+  }
+
+  return {
+    messageId: envelope.messageId,
+    originDeviceId: contents.originDeviceId,
+    originPublicKey: envelope.originPublicKey,
+    type: envelope.type,
+    createdAt: envelope.createdAt,
+    payload: contents.payload,
+  };
+}
+
+function resolveMeshRelayAction(
+  envelope: OpenedMeshEnvelope,
+  nowMs: number
+): { ok: true; action: MeshRelayAction } | { ok: false; message: string; details?: ValidationIssue[] } {
+  const payload = envelope.payload;
+  const origin = envelope.originDeviceId;
+
+  if (envelope.type === 'SOS_TRIGGERED') {
+    if (payload.victimDeviceId !== undefined && payload.victimDeviceId !== origin) {
+      return { ok: false, message: 'An SOS can only be raised by the victim device that signed it.' };
+    }
+    const validation = validateCreateAlertPayload(
+      {
+        deviceId: origin,
+        victimName: readOptionalString(payload.victimName),
+        status: 'TRIGGERED',
+        triggeredAt: payload.triggeredAt ?? envelope.createdAt,
+        location: payload.location ?? null,
+      },
+      nowMs
+    );
+    if (!validation.ok) {
+      return { ok: false, message: 'envelope.payload is not a valid SOS.', details: validation.details };
+    }
+    const clientAlertId = readOptionalString(payload.alertId);
+    if (clientAlertId && clientAlertId.length > MAX_CLIENT_ALERT_ID_LENGTH) {
+      return {
+        ok: false,
+        message: `envelope.payload.alertId must be at most ${MAX_CLIENT_ALERT_ID_LENGTH} characters.`,
+      };
+    }
+    return { ok: true, action: { kind: 'trigger', alert: { ...validation.value, clientAlertId } } };
+  }
+
+  if (envelope.type === 'SOS_CANCELLED') {
+    return { ok: true, action: { kind: 'cancel', alertId: readOptionalString(payload.alertId) } };
+  }
+
+  if (payload.responderDeviceId !== undefined && payload.responderDeviceId !== origin) {
+    return { ok: false, message: 'An assignment can only be claimed by the responder device that signed it.' };
+  }
+  const victimDeviceId = readOptionalString(payload.victimDeviceId);
+  if (!victimDeviceId) {
+    return { ok: false, message: 'envelope.payload.victimDeviceId is required for SOS_ASSIGNED.' };
+  }
+  return {
+    ok: true,
+    action: {
+      kind: 'assign',
+      alertId: readOptionalString(payload.alertId),
+      victimDeviceId,
+      responderName: readOptionalString(payload.responderName),
+      assignedAt: isNonNegativeInteger(payload.assignedAt) ? payload.assignedAt : envelope.createdAt,
+    },
+  };
+}
+
+// Mesh-only victims only know their local alert id, which a relayed SOS keeps as its clientAlertId.
+async function findTargetAlert(
+  deps: Pick<CreateMeshRelayRouterDeps, 'findAlert' | 'findAlertByClientId' | 'findOpenAlertForDevice'>,
+  alertId: string | null,
+  victimDeviceId: string
+): Promise<AlertRecord | null> {
+  if (alertId) {
+    const alert = await deps.findAlert(alertId);
+    if (alert && alert.deviceId === victimDeviceId) {
+      return alert;
+    }
+    const relayed = await deps.findAlertByClientId(victimDeviceId, alertId);
+    if (relayed) {
+      return relayed;
+    }
+  }
+  // An SOS raised over the internet has no local id to match, so the device's open alert stands in,
+  // but never one that a relayed SOS tied to a different local alert.
+  const open = await deps.findOpenAlertForDevice(victimDeviceId);
+  if (open && alertId && open.clientAlertId && open.clientAlertId !== alertId) {
+    return null;
+  }
+  return open;
+}
+
+async function applyMeshRelayAction(
+  deps: CreateMeshRelayRouterDeps,
+  envelope: OpenedMeshEnvelope,
+  action: MeshRelayAction
+): Promise<MeshRelayResult> {
+  const messageId = envelope.messageId;
+
+  if (action.kind === 'trigger') {
+    const clientAlertId = action.alert.clientAlertId;
+    const known = clientAlertId ? await deps.findAlertByClientId(envelope.originDeviceId, clientAlertId) : null;
+    if (known) {
+      return { messageId, outcome: 'DUPLICATE', alertId: known.id };
+    }
+    // A newer local alert is a fresh SOS whose predecessor's cancel has not arrived yet, not a copy of it.
+    const existing = await deps.findOpenAlertForDevice(envelope.originDeviceId);
+    if (existing && !(existing.clientAlertId && clientAlertId && action.alert.triggeredAt > existing.triggeredAt)) {
+      return { messageId, outcome: 'DUPLICATE', alertId: existing.id };
+    }
+    const record = await deps.createAlert(action.alert);
+    await deps.onAlertCreated?.(record);
+    return { messageId, outcome: 'CREATED', alertId: record.id };
+  }
+
+  if (action.kind === 'cancel') {
+    const alert = await findTargetAlert(deps, action.alertId, envelope.originDeviceId);
+    if (!alert) {
+      return { messageId, outcome: 'IGNORED', alertId: null };
+    }
+    // Signed before this alert was raised, so it cancels an earlier SOS that was delivered late.
+    if (envelope.createdAt < alert.triggeredAt) {
+      return { messageId, outcome: 'IGNORED', alertId: alert.id };
+    }
+    const result = await deps.updateAlertStatus(alert.id, 'CANCELLED', envelope.originDeviceId);
+    if (result.kind !== 'updated') {
+      return { messageId, outcome: 'IGNORED', alertId: alert.id };
+    }
+    await deps.onAlertStatusUpdated?.({ alertId: alert.id, status: 'CANCELLED', updatedAt: result.data.updatedAt });
+    return { messageId, outcome: 'UPDATED', alertId: alert.id };
+  }
+
+  const alert = await findTargetAlert(deps, action.alertId, action.victimDeviceId);
+  if (!alert) {
+    return { messageId, outcome: 'IGNORED', alertId: null };
+  }
+  const accepted = await deps.acceptAlert({
+    alertId: alert.id,
+    responderDeviceId: envelope.originDeviceId,
+    responderName: action.responderName,
+    assignedAt: action.assignedAt,
+  });
+  if (!accepted.ok) {
+    const alreadyOurs = accepted.record?.responderDeviceId === envelope.originDeviceId;
+    return { messageId, outcome: alreadyOurs ? 'DUPLICATE' : 'IGNORED', alertId: alert.id };
+  }
+  await deps.onAlertAssigned?.(accepted.record);
+  return { messageId, outcome: 'UPDATED', alertId: alert.id };
+}
+
+/**
+ * Applies an SOS envelope that a gateway device heard over Bluetooth on behalf of its origin device.
+ * The origin's signature is the authorization. Relay attestations prove the path it took, and the gateway
+ * only proves it is a registered device.
+ */
+export async function processMeshRelayRequest(
+  deps: CreateMeshRelayRouterDeps,
+  input: { payload: unknown; requestId: string; authDeviceId?: string | null }
+): Promise<MeshRelayResponse> {
+  const { requestId } = input;
+  const nowMs = deps.nowMs();
+  const validation = validateMeshRelayPayload(input.payload, nowMs);
+  if (!validation.ok) {
+    return {
+      statusCode: 400,
+      body: { requestId, error: { code: 'VALIDATION_ERROR', message: validation.message } },
+    };
+  }
+
+  const { relayDeviceId, envelope: sealedEnvelope } = validation.value;
+  if (!input.authDeviceId) {
+    return { statusCode: 401, body: buildUnauthorizedResponse(requestId) };
+  }
+  if (relayDeviceId !== input.authDeviceId) {
+    return {
+      statusCode: 403,
+      body: {
+        requestId,
+        error: { code: 'FORBIDDEN', message: 'Envelopes can only be relayed by the authenticated device.' },
+      },
+    };
+  }
+
+  if (!verifyMeshEnvelope(sealedEnvelope, deps.verifySignature)) {
+    return {
+      statusCode: 401,
+      body: {
+        requestId,
+        error: { code: 'INVALID_SIGNATURE', message: 'Envelope signature does not match the origin public key.' },
+      },
+    };
+  }
+
+  if (!verifyMeshRelayChain(sealedEnvelope, deps.verifySignature)) {
+    return {
+      statusCode: 401,
+      body: {
+        requestId,
+        error: { code: 'INVALID_RELAY_CHAIN', message: 'A relay attestation does not verify.' },
+      },
+    };
+  }
+
+  const envelope = openMeshEnvelope(deps, sealedEnvelope);
+  if (!envelope) {
+    return {
+      statusCode: 400,
+      body: {
+        requestId,
+        error: { code: 'UNREADABLE_ENVELOPE', message: 'Envelope was not sealed for this server\'s gateway key.' },
+      },
+    };
+  }
+
+  const resolved = resolveMeshRelayAction(envelope, nowMs);
+  if (!resolved.ok) {
+    return {
+      statusCode: 400,
+      body: {
+        requestId,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: resolved.message,
+          ...(resolved.details ? { details: resolved.details } : {}),
+        },
+      },
+    };
+  }
+
+  let claimed = false;
+  try {
+    if (await deps.isKeyRevoked(envelope.originPublicKey)) {
+      return {
+        statusCode: 403,
+        body: {
+          requestId,
+          error: { code: 'ORIGIN_KEY_REVOKED', message: 'The origin signed with a revoked key.' },
+        },
+      };
+    }
+
+    // Binds first-seen mesh-only devices to their key, and stops a key from speaking for another device.
+    const registration = await deps.registerDevice({
+      deviceId: envelope.originDeviceId,
+      publicKey: envelope.originPublicKey,
+    });
+    if (registration.kind === 'key_mismatch') {
+      return {
+        statusCode: 403,
+        body: {
+          requestId,
+          error: {
+            code: 'ORIGIN_KEY_MISMATCH',
+            message: 'The origin device is registered with a different key.',
+          },
+        },
+      };
+    }
+
+    claimed = await deps.claimMessage({
+      messageId: envelope.messageId,
+      originDeviceId: envelope.originDeviceId,
+      relayDeviceId,
+      relayPath: sealedEnvelope.relays.map((relay) => relay.deviceId),
+      nowMs,
+    });
+    if (!claimed) {
+      return {
+        statusCode: 200,
+        body: { requestId, data: { messageId: envelope.messageId, outcome: 'DUPLICATE', alertId: null } },
+      };
+    }
+
+    const result = await applyMeshRelayAction(deps, envelope, resolved.action);
+    return { statusCode: result.outcome === 'CREATED' ? 201 : 200, body: { requestId, data: result } };
+  } catch (error) {
+    if (claimed) {
+      // Let the next gateway (or this one's retry) apply the envelope instead of dropping it as a duplicate.
+      await deps.releaseMessage(envelope.messageId).catch(() => undefined);
+    }
+    const reason = error instanceof Error ? error.message : String(error);
+    console.error(`[mesh-relay] Failed to apply envelope ${envelope.messageId}: ${reason}`);
+    return {
+      statusCode: 500,
+      body: { requestId, error: { code: 'INTERNAL_ERROR', message: 'Failed to apply relayed envelope.' } },
+    };
+  }
+}
+
+/** The certificate is only issued to the authenticated device, for the key it is registered with. */
+export async function buildMeshTrust(
+  deps: Pick<
+    CreateMeshRelayRouterDeps,
+    'nowMs' | 'findDevice' | 'listRevokedKeys' | 'certificateAuthorityPublicKey' | 'issueCertificate'
+  >,
+  authDeviceId: string | null
+): Promise<MeshTrustResponse> {
+  const [device, revokedKeys] = await Promise.all([
+    authDeviceId ? deps.findDevice(authDeviceId) : Promise.resolve(null),
+    deps.listRevokedKeys(),
+  ]);
+  return {
+    authorityPublicKey: deps.certificateAuthorityPublicKey,
+    certificate: device ? deps.issueCertificate({ deviceId: device.deviceId, publicKey: device.publicKey }) : null,
+    revokedKeys,
+    issuedAt: deps.nowMs(),
+  };
+}
+
+export function createMeshRelayRouter(deps: CreateMeshRelayRouterDeps): Router {
+  const router = Router();
+
+  const relayHandler: RequestHandler = async (request, response) => {
+    const result = await processMeshRelayRequest(deps, {
+      payload: request.body,
+      requestId: resolveRequestId(response),
+      authDeviceId: resolveAuthDeviceId(response),
+    });
+    response.status(result.statusCode).json(result.body);
+  };
+
+  const keysHandler: RequestHandler = (_request, response) => {
+    response.status(200).json({ requestId: resolveRequestId(response), data: deps.describeMeshKeys() });
+  };
+
+  const trustHandler: RequestHandler = async (_request, response) => {
+    const requestId = resolveRequestId(response);
+    try {
+      const data = await buildMeshTrust(deps, resolveAuthDeviceId(response));
+      response.status(200).json({ requestId, data });
+    } catch {
+      response.status(500).json({
+        requestId,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to load the mesh trust list.' },
+      });
+    }
+  };
+
+  router.post('/api/v1/mesh/relay', relayHandler);
+  router.get('/api/v1/mesh/keys', keysHandler);
+  router.get('/api/v1/mesh/trust', trustHandler);
+
+  return router;
+}
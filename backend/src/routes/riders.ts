@@ -2,6 +2,8 @@ import { randomUUID } from 'node:crypto';
 
 import { type RequestHandler, type Response, Router } from 'express';
 
+import { requireAuthDeviceId } from '../middleware/deviceAuth';
+
 import type { RiderPresenceRecord } from '../types/rider';
 
 interface CreateRidersRouterDeps {
@@ -100,6 +102,21 @@ export function createRidersRouter({ nowMs, upsertHeartbeat }: CreateRidersRoute
       return;
     }
 
+    const authDeviceId = requireAuthDeviceId(response);
+    if (!authDeviceId) {
+      return;
+    }
+    if (validation.value.deviceId !== authDeviceId) {
+      response.status(403).json({
+        requestId,
+        error: {
+          code: 'FORBIDDEN',
+          message: 'Heartbeats can only be sent for the authenticated device.',
+        },
+      });
+      return;
+    }
+
     try {
       await upsertHeartbeat(validation.value);
 
@@ -2,13 +2,27 @@ import { randomUUID } from 'node:crypto';
 
 import { type RequestHandler, type Response, Router } from 'express';
 
-import type { EndRideInput, RideRecord, StartRideInput } from '../types/ride';
+import type {
+  AppendRideTrackInput,
+  AppendRideTrackResult,
+  EndRideInput,
+  EndRideResult,
+  RideRecord,
+  GetRideTrackResult,
+  RideTrackPoint,
+  StartRideInput,
+} from '../types/ride';
+import { requireAuthDeviceId } from '../middleware/deviceAuth';
+
+const MAX_TRACK_POINTS_PER_CHUNK = 500;
 
 interface CreateRidesRouterDeps {
   nowMs: () => number;
   startRide: (input: StartRideInput) => Promise<RideRecord>;
-  endRide: (input: EndRideInput) => Promise<RideRecord | null>;
+  endRide: (input: EndRideInput) => Promise<EndRideResult>;
   listRidesForDevice: (deviceId: string) => Promise<RideRecord[]>;
+  appendRideTrack: (input: AppendRideTrackInput) => Promise<AppendRideTrackResult>;
+  getRideTrack: (rideId: string, actorDeviceId: string) => Promise<GetRideTrackResult>;
 }
 
 function resolveRequestId(response: Response): string {
@@ -62,7 +76,7 @@ function validateStartPayload(payload: unknown, nowMs: number): {
 
 function validateEndPayload(payload: unknown, nowMs: number): {
   ok: true;
-  value: Omit<EndRideInput, 'rideId'>;
+  value: Omit<EndRideInput, 'rideId' | 'actorDeviceId'>;
 } | {
   ok: false;
   message: string;
@@ -78,7 +92,7 @@ function validateEndPayload(payload: unknown, nowMs: number): {
     return { ok: false, message: 'endedAt cannot be more than 5 minutes in the future.' };
   }
 
-  const numericFields: Array<keyof Omit<EndRideInput, 'rideId' | 'endedAt'>> = [
+  const numericFields: Array<keyof Omit<EndRideInput, 'rideId' | 'endedAt' | 'hazardWarnings' | 'actorDeviceId'>> = [
     'distanceKm',
     'fatigueWarnings',
     'hazardsReported',
@@ -92,6 +106,10 @@ function validateEndPayload(payload: unknown, nowMs: number): {
     }
     normalized[field] = raw;
   }
+  // Optional so clients that predate proximity warnings can still end rides.
+  if (!isOptionalNonNegativeNumber(payload.hazardWarnings)) {
+    return { ok: false, message: 'hazardWarnings must be a non-negative number.' };
+  }
 
   return {
     ok: true,
@@ -99,13 +117,93 @@ function validateEndPayload(payload: unknown, nowMs: number): {
       endedAt: payload.endedAt,
       distanceKm: normalized.distanceKm,
       fatigueWarnings: normalized.fatigueWarnings,
+      hazardWarnings: payload.hazardWarnings ?? 0,
       hazardsReported: normalized.hazardsReported,
       sosTriggered: normalized.sosTriggered,
     },
   };
 }
 
-export function createRidesRouter({ nowMs, startRide, endRide, listRidesForDevice }: CreateRidesRouterDeps): Router {
+function isOptionalNonNegativeNumber(value: unknown): value is number | null | undefined {
+  return (
+    value === undefined ||
+    value === null ||
+    (typeof value === 'number' && Number.isFinite(value) && value >= 0)
+  );
+}
+
+export function validateRideTrackPayload(payload: unknown, nowMs: number): {
+  ok: true;
+  value: Omit<AppendRideTrackInput, 'rideId' | 'actorDeviceId'>;
+} | {
+  ok: false;
+  message: string;
+} {
+  if (!isPlainObject(payload)) {
+    return { ok: false, message: 'Request body must be an object.' };
+  }
+
+  if (typeof payload.seq !== 'number' || !Number.isInteger(payload.seq) || payload.seq < 0) {
+    return { ok: false, message: 'seq must be a non-negative integer.' };
+  }
+  if (!Array.isArray(payload.points) || payload.points.length === 0) {
+    return { ok: false, message: 'points must be a non-empty array.' };
+  }
+  if (payload.points.length > MAX_TRACK_POINTS_PER_CHUNK) {
+    return { ok: false, message: `points cannot exceed ${MAX_TRACK_POINTS_PER_CHUNK} items per chunk.` };
+  }
+
+  const points: RideTrackPoint[] = [];
+  for (const [index, raw] of payload.points.entries()) {
+    if (!isPlainObject(raw)) {
+      return { ok: false, message: `points[${index}] must be an object.` };
+    }
+    const { timestamp, latitude, longitude, speed, accuracy } = raw;
+    if (typeof timestamp !== 'number' || !Number.isInteger(timestamp) || timestamp <= 0) {
+      return { ok: false, message: `points[${index}].timestamp must be a valid Unix ms integer.` };
+    }
+    if (timestamp > nowMs + 5 * 60 * 1000) {
+      return { ok: false, message: `points[${index}].timestamp cannot be more than 5 minutes in the future.` };
+    }
+    if (typeof latitude !== 'number' || Number.isNaN(latitude) || latitude < -90 || latitude > 90) {
+      return { ok: false, message: `points[${index}].latitude must be between -90 and 90.` };
+    }
+    if (typeof longitude !== 'number' || Number.isNaN(longitude) || longitude < -180 || longitude > 180) {
+      return { ok: false, message: `points[${index}].longitude must be between -180 and 180.` };
+    }
+    if (!isOptionalNonNegativeNumber(speed)) {
+      return { ok: false, message: `points[${index}].speed must be a non-negative number or null.` };
+    }
+    if (!isOptionalNonNegativeNumber(accuracy)) {
+      return { ok: false, message: `points[${index}].accuracy must be a non-negative number or null.` };
+    }
+
+    points.push({
+      timestamp,
+      latitude,
+      longitude,
+      speed: speed ?? null,
+      accuracy: accuracy ?? null,
+    });
+  }
+
+  return {
+    ok: true,
+    value: {
+      seq: payload.seq,
+      points: points.sort((a, b) => a.timestamp - b.timestamp),
+    },
+  };
+}
+
+export function createRidesRouter({
+  nowMs,
+  startRide,
+  endRide,
+  listRidesForDevice,
+  appendRideTrack,
+  getRideTrack,
+}: CreateRidesRouterDeps): Router {
   const router = Router();
 
   const startHandler: RequestHandler = async (request, response) => {
@@ -122,6 +220,21 @@ export function createRidesRouter({ nowMs, startRide, endRide, listRidesForDevic
       return;
     }
 
+    const authDeviceId = requireAuthDeviceId(response);
+    if (!authDeviceId) {
+      return;
+    }
+    if (validation.value.deviceId !== authDeviceId) {
+      response.status(403).json({
+        requestId,
+        error: {
+          code: 'FORBIDDEN',
+          message: 'Rides can only be started for the authenticated device.',
+        },
+      });
+      return;
+    }
+
     try {
       const record = await startRide(validation.value);
       response.status(201).json({ requestId, data: record });
@@ -150,12 +263,18 @@ export function createRidesRouter({ nowMs, startRide, endRide, listRidesForDevic
       return;
     }
 
+    const authDeviceId = requireAuthDeviceId(response);
+    if (!authDeviceId) {
+      return;
+    }
+
     try {
-      const record = await endRide({
+      const result = await endRide({
         rideId: request.params.id,
         ...validation.value,
+        actorDeviceId: authDeviceId,
       });
-      if (!record) {
+      if (result.kind === 'not_found') {
         response.status(404).json({
           requestId,
           error: {
@@ -165,7 +284,27 @@ export function createRidesRouter({ nowMs, startRide, endRide, listRidesForDevic
         });
         return;
       }
-      response.status(200).json({ requestId, data: record });
+      if (result.kind === 'forbidden') {
+        response.status(403).json({
+          requestId,
+          error: {
+            code: 'FORBIDDEN',
+            message: 'Rides can only be ended by the device that started them.',
+          },
+        });
+        return;
+      }
+      if (result.kind === 'implausible_distance') {
+        response.status(400).json({
+          requestId,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: `distanceKm cannot exceed ${result.maxDistanceKm.toFixed(2)} km for this ride duration.`,
+          },
+        });
+        return;
+      }
+      response.status(200).json({ requestId, data: result.record });
     } catch {
       response.status(500).json({
         requestId,
@@ -192,6 +331,21 @@ export function createRidesRouter({ nowMs, startRide, endRide, listRidesForDevic
       return;
     }
 
+    const authDeviceId = requireAuthDeviceId(response);
+    if (!authDeviceId) {
+      return;
+    }
+    if (deviceId !== authDeviceId) {
+      response.status(403).json({
+        requestId,
+        error: {
+          code: 'FORBIDDEN',
+          message: 'Ride history can only be read by its own device.',
+        },
+      });
+      return;
+    }
+
     try {
       const rides = await listRidesForDevice(deviceId);
       response.status(200).json({ requestId, data: rides });
@@ -206,8 +360,118 @@ export function createRidesRouter({ nowMs, startRide, endRide, listRidesForDevic
     }
   };
 
+  const appendTrackHandler: RequestHandler = async (request, response) => {
+    const requestId = resolveRequestId(response);
+    const validation = validateRideTrackPayload(request.body, nowMs());
+    if (!validation.ok) {
+      response.status(400).json({
+        requestId,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: validation.message,
+        },
+      });
+      return;
+    }
+
+    const authDeviceId = requireAuthDeviceId(response);
+    if (!authDeviceId) {
+      return;
+    }
+
+    try {
+      const result = await appendRideTrack({
+        rideId: request.params.id,
+        ...validation.value,
+        actorDeviceId: authDeviceId,
+      });
+      if (result.kind === 'not_found') {
+        response.status(404).json({
+          requestId,
+          error: {
+            code: 'RIDE_NOT_FOUND',
+            message: 'Ride not found.',
+          },
+        });
+        return;
+      }
+      if (result.kind === 'forbidden') {
+        response.status(403).json({
+          requestId,
+          error: {
+            code: 'FORBIDDEN',
+            message: 'Ride tracks can only be written by the ride owner.',
+          },
+        });
+        return;
+      }
+      if (result.kind === 'ride_ended') {
+        response.status(409).json({
+          requestId,
+          error: {
+            code: 'RIDE_ENDED',
+            message: 'Ride has ended; track points after its end are not accepted.',
+          },
+        });
+        return;
+      }
+      response.status(result.kind === 'appended' ? 201 : 200).json({ requestId, data: result });
+    } catch {
+      response.status(500).json({
+        requestId,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to store ride track.',
+        },
+      });
+    }
+  };
+
+  const getTrackHandler: RequestHandler = async (request, response) => {
+    const requestId = resolveRequestId(response);
+    const authDeviceId = requireAuthDeviceId(response);
+    if (!authDeviceId) {
+      return;
+    }
+
+    try {
+      const result = await getRideTrack(request.params.id, authDeviceId);
+      if (result.kind === 'not_found') {
+        response.status(404).json({
+          requestId,
+          error: {
+            code: 'RIDE_NOT_FOUND',
+            message: 'Ride not found.',
+          },
+        });
+        return;
+      }
+      if (result.kind === 'forbidden') {
+        response.status(403).json({
+          requestId,
+          error: {
+            code: 'FORBIDDEN',
+            message: 'Ride tracks can only be read by the ride owner.',
+          },
+        });
+        return;
+      }
+      response.status(200).json({ requestId, data: result.track });
+    } catch {
+      response.status(500).json({
+        requestId,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to load ride track.',
+        },
+      });
+    }
+  };
+
   router.post('/api/v1/rides/start', startHandler);
   router.post('/api/v1/rides/:id/end', endHandler);
+  router.post('/api/v1/rides/:id/track', appendTrackHandler);
+  router.get('/api/v1/rides/:id/track', getTrackHandler);
   router.get('/api/v1/rides', listHandler);
 
   return router;
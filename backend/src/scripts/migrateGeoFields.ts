@@ -0,0 +1,24 @@
+import { connectToDatabase, disconnectFromDatabase } from '../config/db';
+import { loadEnv } from '../config/env';
+import { backfillHazardLocations } from '../models/hazard';
+import { backfillRiderLocations } from '../models/rider';
+
+// One-off backfill for rider and hazard documents stored before the GeoJSON `location` field existed.
+// Safe to re-run: only documents without `location` are touched, and the 2dsphere indexes are synced afterwards.
+async function migrate(): Promise<void> {
+  const env = loadEnv();
+  await connectToDatabase(env.mongodbUri);
+  try {
+    const riders = await backfillRiderLocations();
+    const hazards = await backfillHazardLocations();
+    console.log('[migrate:geo] backfilled GeoJSON locations', { riders, hazards });
+  } finally {
+    await disconnectFromDatabase();
+  }
+}
+
+migrate().catch((error) => {
+  const reason = error instanceof Error ? error.message : String(error);
+  console.error(`[migrate:geo] Migration failed: ${reason}`);
+  process.exit(1);
+});
@@ -0,0 +1,30 @@
+import { connectToDatabase, disconnectFromDatabase } from '../config/db';
+import { loadEnv } from '../config/env';
+import { revokeCompromisedDeviceKey } from '../models/device';
+
+// Operator tool for a lost or stolen phone: `npm run revoke:device-key -- <deviceId>`.
+// Phones drop mesh envelopes signed by the key once they refresh their trust list.
+async function revoke(): Promise<void> {
+  const deviceId = process.argv[2]?.trim();
+  if (!deviceId) {
+    throw new Error('Usage: revoke:device-key <deviceId>');
+  }
+
+  const env = loadEnv();
+  await connectToDatabase(env.mongodbUri);
+  try {
+    const record = await revokeCompromisedDeviceKey(deviceId);
+    if (!record) {
+      throw new Error(`Device ${deviceId} is not registered.`);
+    }
+    console.log('[revoke:device-key] revoked device key', { deviceId, publicKey: record.publicKey });
+  } finally {
+    await disconnectFromDatabase();
+  }
+}
+
+revoke().catch((error) => {
+  const reason = error instanceof Error ? error.message : String(error);
+  console.error(`[revoke:device-key] Revocation failed: ${reason}`);
+  process.exit(1);
+});
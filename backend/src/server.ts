@@ -3,17 +3,70 @@ import { createServer } from 'node:http';
 
 import { createApp } from './app';
 import { connectToDatabase, disconnectFromDatabase, readDbHealth } from './config/db';
-import { acceptAlertRecord, createAlertRecord, updateAlertStatusRecord } from './models/alert';
-import { createHazardRecord, listHazardRecords, removeHazardRecord } from './models/hazard';
-import { listActiveRiders, upsertRiderHeartbeat } from './models/rider';
+import {
+  acceptAlertRecord,
+  beginAlertDispatchStep,
+  completeAlertDispatchStep,
+  createAlertRecord,
+  escalateAlertDispatch,
+  findAlertRecordById,
+  findAlertRecordByClientId,
+  findOpenAlertForDevice,
+  listAlertRecords,
+  listAlertsDueForDispatch,
+  listNearbyActiveAlertRecords,
+  resolveAlertRecord,
+  updateAlertStatusRecord,
+} from './models/alert';
+import { listAlertEventRecords, recordAlertEvent } from './models/alertEvent';
+import { findDeviceRecord, registerDeviceRecord, rotateDeviceKeyRecord } from './models/device';
+import {
+  createContactRecord,
+  deleteContactRecord,
+  listContactRecordsForDevice,
+  updateContactRecord,
+} from './models/contact';
+import {
+  attachHazardPhoto,
+  castHazardVote,
+  createHazardRecord,
+  listHazardRecords,
+  mergeIntoNearbyHazard,
+  openHazardPhoto,
+  removeExpiredHazardRecords,
+  removeHazardRecord,
+} from './models/hazard';
+import { claimIdempotencyKey, completeIdempotencyKey, releaseIdempotencyKey } from './models/idempotencyKey';
+import { claimMeshRelayMessage, releaseMeshRelayMessage } from './models/meshRelayMessage';
+import { isDeviceKeyRevoked, listRevokedDeviceKeys } from './models/revokedDeviceKey';
+import { findActiveRidersNear, upsertRiderHeartbeat } from './models/rider';
 import { endRideRecord, listRideRecordsForDevice, startRideRecord } from './models/ride';
-import { findNearbyRidersForAlert } from './services/dispatchService';
+import { appendRideTrackChunk, getRideTrackRecord } from './models/rideTrack';
+import {
+  createConsoleContactNotifier,
+  createFileContactNotifier,
+  createWebhookContactNotifier,
+  notifyAlertContacts,
+  type ContactNotifier,
+} from './services/contactNotifier';
+import {
+  createDeviceCertificateAuthority,
+  createDeviceTokenService,
+  verifyDeviceSignature,
+} from './services/deviceAuthService';
+import { createEscalationScheduler } from './services/escalationService';
+import { createMeshKeyring } from './services/meshSealService';
+import { createHazardSweeper } from './services/hazardLifecycleService';
 import { SocketHub } from './socket/hub';
-import { loadEnv } from './config/env';
+import { loadEnv, type ContactNotifierConfig } from './config/env';
+import type { AlertRecord } from './types/alert';
+import type { ContactNotificationEvent } from './types/contact';
 
 const processStartedAtMs = Date.now();
 const RIDER_ACTIVE_WINDOW_MS = 60_000;
-const DISPATCH_RADIUS_METERS = 1_000;
+const ESCALATION_POLL_INTERVAL_MS = 5_000;
+const ESCALATION_STEP_LEASE_MS = 30_000;
+const HAZARD_SWEEP_INTERVAL_MS = 5 * 60_000;
 
 function processUptimeSec(): number {
   return Math.max(0, Number(((Date.now() - processStartedAtMs) / 1000).toFixed(3)));
@@ -29,9 +82,50 @@ function loadEnvOrExit(): ReturnType<typeof loadEnv> {
   }
 }
 
+function createContactNotifier(config: ContactNotifierConfig): ContactNotifier {
+  switch (config.kind) {
+    case 'file':
+      return createFileContactNotifier(config.filePath);
+    case 'webhook':
+      return createWebhookContactNotifier(config.url);
+    case 'console':
+      return createConsoleContactNotifier();
+  }
+}
+
 async function bootstrap(): Promise<void> {
   const env = loadEnvOrExit();
-  const socketHub = new SocketHub();
+  const deviceTokens = createDeviceTokenService({ secret: env.deviceAuthSecret, nowMs: () => Date.now() });
+  const socketHub = new SocketHub({
+    recordAlertEvent,
+    verifyDeviceToken: deviceTokens.verify,
+    findAlert: findAlertRecordById,
+  });
+  const contactNotifier = createContactNotifier(env.contactNotifier);
+
+  // Contact notifications are best-effort and must never delay or fail the alert request itself.
+  const notifyContacts = (alert: AlertRecord, event: ContactNotificationEvent) => {
+    void notifyAlertContacts({
+      alert,
+      event,
+      listContacts: listContactRecordsForDevice,
+      notifier: contactNotifier,
+    })
+      .then((results) => {
+        const failed = results.filter((result) => !result.ok);
+        console.log('[contacts] notified emergency contacts', {
+          alertId: alert.id,
+          event,
+          channel: contactNotifier.channel,
+          attempted: results.length,
+          failed: failed.length,
+        });
+      })
+      .catch((error) => {
+        const reason = error instanceof Error ? error.message : String(error);
+        console.error(`[contacts] Failed to notify contacts for alert ${alert.id}: ${reason}`);
+      });
+  };
 
   try {
     await connectToDatabase(env.mongodbUri);
@@ -45,54 +139,144 @@ async function bootstrap(): Promise<void> {
     process.exit(1);
   }
 
-  const app = createApp({
-    getDbHealth: readDbHealth,
-    createAlert: createAlertRecord,
-    updateAlertStatus: (alertId, status) => updateAlertStatusRecord({ alertId, status }),
-    acceptAlert: acceptAlertRecord,
-    upsertHeartbeat: upsertRiderHeartbeat,
-    onAlertCreated: async (alert) => {
-      const riders = await listActiveRiders(Date.now() - RIDER_ACTIVE_WINDOW_MS);
-      const nearbyMatches = findNearbyRidersForAlert({
-        alert,
-        riders,
-        radiusMeters: DISPATCH_RADIUS_METERS,
-      });
+  const escalationScheduler = createEscalationScheduler({
+    ladder: env.escalationLadder,
+    nowMs: () => Date.now(),
+    pollIntervalMs: ESCALATION_POLL_INTERVAL_MS,
+    leaseMs: ESCALATION_STEP_LEASE_MS,
+    riderActiveWindowMs: RIDER_ACTIVE_WINDOW_MS,
+    findNearbyRiders: findActiveRidersNear,
+    listDueAlerts: listAlertsDueForDispatch,
+    beginStep: beginAlertDispatchStep,
+    completeStep: completeAlertDispatchStep,
+    escalate: escalateAlertDispatch,
+    onRidersNotified: (alert, matches) => {
+      const latestStep = alert.dispatchSteps?.[alert.dispatchSteps.length - 1];
       console.log('[dispatch] nearby riders matched', {
         alertId: alert.id,
         victimDeviceId: alert.deviceId,
-        candidateRiders: riders.length,
-        matchedRiders: nearbyMatches.length,
-        matches: nearbyMatches.map((match) => ({
+        step: latestStep?.step ?? null,
+        radiusMeters: latestStep?.radiusMeters ?? null,
+        candidateRiders: latestStep?.candidateRiders ?? null,
+        matchedRiders: matches.length,
+        matches: matches.map((match) => ({
           deviceId: match.deviceId,
           distanceMeters: Math.round(match.distanceMeters),
         })),
       });
-      socketHub.emitNearbyAlert(alert, nearbyMatches);
+      socketHub.emitNearbyAlert(alert, matches);
+    },
+    onEscalated: (alert) => {
+      console.log('[escalation] alert escalated after dispatch ladder', {
+        alertId: alert.id,
+        steps: alert.dispatchSteps?.length ?? 0,
+      });
+      notifyContacts(alert, 'ALERT_ESCALATED');
+    },
+  });
+
+  const hazardSweeper = createHazardSweeper({
+    nowMs: () => Date.now(),
+    intervalMs: HAZARD_SWEEP_INTERVAL_MS,
+    removeExpired: removeExpiredHazardRecords,
+    onHazardsExpired: (hazardIds) => {
+      console.log('[hazards] expired hazards removed', { count: hazardIds.length });
+      for (const hazardId of hazardIds) {
+        socketHub.emitHazardRemoved(hazardId);
+      }
+    },
+  });
+
+  const app = createApp({
+    getDbHealth: readDbHealth,
+    createAlert: createAlertRecord,
+    updateAlertStatus: (alertId, status, actorDeviceId) =>
+      updateAlertStatusRecord({ alertId, status, actorDeviceId }),
+    acceptAlert: acceptAlertRecord,
+    resolveAlert: resolveAlertRecord,
+    upsertHeartbeat: upsertRiderHeartbeat,
+    findAlert: findAlertRecordById,
+    findOpenAlertForDevice,
+    findAlertByClientId: findAlertRecordByClientId,
+    listAlerts: listAlertRecords,
+    listNearbyAlerts: listNearbyActiveAlertRecords,
+    listAlertEvents: listAlertEventRecords,
+    onAlertCreated: async (alert) => {
+      try {
+        await escalationScheduler.runStep(alert);
+      } catch (error) {
+        // The alert is already due, so the next scheduler poll retries the first step.
+        const reason = error instanceof Error ? error.message : String(error);
+        console.error(`[dispatch] Initial dispatch failed for alert ${alert.id}: ${reason}`);
+      }
+      notifyContacts(alert, 'ALERT_CREATED');
     },
     onAlertAssigned: (alert) => {
       socketHub.emitAlertAssigned(alert);
     },
-    onAlertStatusUpdated: (input) => {
+    onAlertResolved: (alert) => {
+      socketHub.emitAlertResolved(alert);
+    },
+    onAlertStatusUpdated: async (input) => {
       if (input.status === 'CANCELLED') {
         socketHub.emitAlertCancelled({
           alertId: input.alertId,
           cancelledAt: input.updatedAt,
         });
       }
+      if (input.status === 'ESCALATED') {
+        const alert = await findAlertRecordById(input.alertId).catch(() => null);
+        if (alert) {
+          notifyContacts(alert, 'ALERT_ESCALATED');
+        }
+      }
     },
     listHazards: listHazardRecords,
     createHazard: createHazardRecord,
+    mergeIntoNearbyHazard,
+    hazardMergeRadiusMeters: env.hazardMergeRadiusMeters,
     removeHazard: removeHazardRecord,
+    voteHazard: castHazardVote,
+    attachHazardPhoto,
+    openHazardPhoto,
     onHazardCreated: (hazard) => {
       socketHub.emitHazardCreated(hazard);
     },
+    onHazardUpdated: (hazard) => {
+      socketHub.emitHazardUpdated(hazard);
+    },
     onHazardRemoved: (hazardId) => {
       socketHub.emitHazardRemoved(hazardId);
     },
     startRide: startRideRecord,
     endRide: endRideRecord,
     listRidesForDevice: listRideRecordsForDevice,
+    appendRideTrack: appendRideTrackChunk,
+    getRideTrack: getRideTrackRecord,
+    listContacts: listContactRecordsForDevice,
+    createContact: createContactRecord,
+    updateContact: updateContactRecord,
+    deleteContact: deleteContactRecord,
+    registerDevice: registerDeviceRecord,
+    findDevice: findDeviceRecord,
+    rotateDeviceKey: rotateDeviceKeyRecord,
+    isDeviceKeyRevoked,
+    listRevokedDeviceKeys,
+    deviceCertificateAuthority: createDeviceCertificateAuthority({
+      seed: env.deviceCertificateSeed,
+      nowMs: () => Date.now(),
+    }),
+    verifyDeviceSignature,
+    issueDeviceToken: deviceTokens.issue,
+    claimMeshRelayMessage,
+    releaseMeshRelayMessage,
+    meshKeyring: createMeshKeyring({ groupKey: env.meshGroupKey, gatewaySecretKey: env.meshGatewaySecretKey }),
+    verifyDeviceToken: deviceTokens.verify,
+    idempotencyStore: {
+      claim: claimIdempotencyKey,
+      complete: completeIdempotencyKey,
+      release: releaseIdempotencyKey,
+    },
     now: () => new Date(),
     uptimeSec: processUptimeSec,
     corsOrigins: env.corsOrigins,
@@ -101,16 +285,23 @@ async function bootstrap(): Promise<void> {
   const server = createServer(app);
   socketHub.init(server, env.corsOrigins);
 
+  escalationScheduler.start();
+  hazardSweeper.start();
+
   server.listen(env.port, () => {
     console.log(`[startup] Backend listening on http://localhost:${env.port}`);
   });
 
-  registerShutdown(server);
+  registerShutdown(server, () => {
+    escalationScheduler.stop();
+    hazardSweeper.stop();
+  });
 }
 
-function registerShutdown(server: Server): void {
+function registerShutdown(server: Server, onShutdown: () => void): void {
   const shutdown = (signal: NodeJS.Signals) => {
     console.log(`[shutdown] Received ${signal}, closing server...`);
+    onShutdown();
     server.close(async () => {
       try {
         await disconnectFromDatabase();
@@ -0,0 +1,110 @@
+import { appendFile } from 'node:fs/promises';
+
+import type { AlertRecord } from '../types/alert';
+import type {
+  ContactNotification,
+  ContactNotificationEvent,
+  ContactNotificationResult,
+  EmergencyContactRecord,
+} from '../types/contact';
+
+export interface ContactNotifier {
+  readonly channel: string;
+  send: (notification: ContactNotification) => Promise<ContactNotificationResult>;
+}
+
+export function createConsoleContactNotifier(log: (line: string) => void = console.log): ContactNotifier {
+  return {
+    channel: 'console',
+    async send(notification) {
+      log(`[contacts] ${notification.event} -> ${notification.contact.name} (${notification.contact.phone}): ${notification.message}`);
+      return { ok: true, channel: 'console' };
+    },
+  };
+}
+
+export function createFileContactNotifier(filePath: string): ContactNotifier {
+  return {
+    channel: 'file',
+    async send(notification) {
+      try {
+        await appendFile(filePath, `${JSON.stringify({ ...notification, sentAt: Date.now() })}\n`, 'utf8');
+        return { ok: true, channel: 'file' };
+      } catch (error) {
+        return { ok: false, channel: 'file', reason: error instanceof Error ? error.message : String(error) };
+      }
+    },
+  };
+}
+
+export function createWebhookContactNotifier(url: string): ContactNotifier {
+  return {
+    channel: 'webhook',
+    async send(notification) {
+      try {
+        const response = await fetch(url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            event: notification.event,
+            alertId: notification.alertId,
+            to: {
+              name: notification.contact.name,
+              phone: notification.contact.phone,
+              email: notification.contact.email,
+            },
+            message: notification.message,
+          }),
+        });
+        if (!response.ok) {
+          return { ok: false, channel: 'webhook', reason: `Webhook responded with ${response.status}.` };
+        }
+        return { ok: true, channel: 'webhook' };
+      } catch (error) {
+        return { ok: false, channel: 'webhook', reason: error instanceof Error ? error.message : String(error) };
+      }
+    },
+  };
+}
+
+export function buildContactNotificationMessage(alert: AlertRecord, event: ContactNotificationEvent): string {
+  const name = alert.victimName?.trim() || 'A Dextrix rider';
+  const locationLine = alert.location
+    ? `Location: https://maps.google.com/?q=${alert.location.latitude.toFixed(6)},${alert.location.longitude.toFixed(6)}`
+    : 'Location: unavailable';
+  const headline =
+    event === 'ALERT_ESCALATED'
+      ? `URGENT: ${name}'s SOS was not cancelled and has been escalated.`
+      : `SOS: ${name} may have crashed and needs help.`;
+  return `${headline}\n${locationLine}\nAlert ID: ${alert.id}`;
+}
+
+export async function notifyAlertContacts(params: {
+  alert: AlertRecord;
+  event: ContactNotificationEvent;
+  listContacts: (deviceId: string) => Promise<EmergencyContactRecord[]>;
+  notifier: ContactNotifier;
+}): Promise<ContactNotificationResult[]> {
+  const contacts = await params.listContacts(params.alert.deviceId);
+  const message = buildContactNotificationMessage(params.alert, params.event);
+  return Promise.all(
+    contacts.map(async (contact) => {
+      try {
+        return await params.notifier.send({
+          event: params.event,
+          alertId: params.alert.id,
+          contact,
+          message,
+        });
+      } catch (error) {
+        return {
+          ok: false as const,
+          channel: params.notifier.channel,
+          reason: error instanceof Error ? error.message : String(error),
+        };
+      }
+    })
+  );
+}
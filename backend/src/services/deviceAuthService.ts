@@ -0,0 +1,175 @@
+import { createHmac, createPrivateKey, createPublicKey, sign, timingSafeEqual, verify } from 'node:crypto';
+
+import type { DeviceCertificate } from '../types/device';
+
+// DER prefix that wraps a raw 32-byte Ed25519 public key as SubjectPublicKeyInfo.
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+// DER prefix that wraps a raw 32-byte Ed25519 seed as PKCS#8.
+const ED25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b657004220420', 'hex');
+export const ED25519_SEED_BYTES = 32;
+const ED25519_PUBLIC_KEY_BYTES = 32;
+const ED25519_SIGNATURE_BYTES = 64;
+
+export const DEVICE_TOKEN_TTL_MS = 15 * 60 * 1000;
+export const DEVICE_SIGNATURE_MAX_SKEW_MS = 5 * 60 * 1000;
+/** Devices rotate well within this, so a certificate outlives its key only briefly. */
+// Matches the ids the app generates (`device-<ms>-<base36>`); anything else cannot be a real device.
+const DEVICE_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+export const DEVICE_CERTIFICATE_TTL_MS = 45 * 24 * 60 * 60 * 1000;
+
+export type DeviceTokenVerification =
+  | { ok: true; deviceId: string; expiresAt: number }
+  | { ok: false; reason: 'MALFORMED' | 'BAD_SIGNATURE' | 'EXPIRED' };
+
+export interface DeviceTokenService {
+  issue: (deviceId: string) => { token: string; expiresAt: number };
+  verify: (token: string) => DeviceTokenVerification;
+}
+
+export function buildDeviceRegistrationMessage(input: {
+  deviceId: string;
+  publicKey: string;
+  timestamp: number;
+}): string {
+  return `dextrix-register:${input.deviceId}:${input.publicKey}:${input.timestamp}`;
+}
+
+export function buildDeviceTokenMessage(input: { deviceId: string; timestamp: number }): string {
+  return `dextrix-token:${input.deviceId}:${input.timestamp}`;
+}
+
+/** Signed by the registered key to prove ownership and by the new key to prove possession. */
+export function buildDeviceKeyRotationMessage(input: {
+  deviceId: string;
+  publicKey: string;
+  timestamp: number;
+}): string {
+  return `dextrix-rotate:${input.deviceId}:${input.publicKey}:${input.timestamp}`;
+}
+
+export function buildDeviceCertificateMessage(certificate: Omit<DeviceCertificate, 'signature'>): string {
+  const { deviceId, publicKey, issuedAt, expiresAt } = certificate;
+  return `dextrix-cert:${deviceId}:${publicKey}:${issuedAt}:${expiresAt}`;
+}
+
+export function isDeviceId(value: unknown): value is string {
+  return typeof value === 'string' && DEVICE_ID_PATTERN.test(value);
+}
+
+export function isEd25519PublicKey(publicKeyBase64: string): boolean {
+  return Buffer.from(publicKeyBase64, 'base64').length === ED25519_PUBLIC_KEY_BYTES;
+}
+
+export function verifyDeviceSignature(input: {
+  message: string;
+  signature: string;
+  publicKey: string;
+}): boolean {
+  try {
+    const rawKey = Buffer.from(input.publicKey, 'base64');
+    const signature = Buffer.from(input.signature, 'base64');
+    if (rawKey.length !== ED25519_PUBLIC_KEY_BYTES || signature.length !== ED25519_SIGNATURE_BYTES) {
+      return false;
+    }
+    const key = createPublicKey({
+      key: Buffer.concat([ED25519_SPKI_PREFIX, rawKey]),
+      format: 'der',
+      type: 'spki',
+    });
+    return verify(null, Buffer.from(input.message, 'utf8'), key, signature);
+  } catch {
+    return false;
+  }
+}
+
+export function createDeviceTokenService(deps: {
+  secret: string;
+  nowMs: () => number;
+  ttlMs?: number;
+}): DeviceTokenService {
+  const ttlMs = deps.ttlMs ?? DEVICE_TOKEN_TTL_MS;
+  const sign = (body: string) => createHmac('sha256', deps.secret).update(body).digest('base64url');
+
+  return {
+    issue(deviceId) {
+      const expiresAt = deps.nowMs() + ttlMs;
+      const body = Buffer.from(JSON.stringify({ deviceId, expiresAt }), 'utf8').toString('base64url');
+      return { token: `${body}.${sign(body)}`, expiresAt };
+    },
+    verify(token) {
+      const [body, mac, extra] = token.split('.');
+      if (!body || !mac || extra !== undefined) {
+        return { ok: false, reason: 'MALFORMED' };
+      }
+
+      const expected = Buffer.from(sign(body));
+      const actual = Buffer.from(mac);
+      if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+        return { ok: false, reason: 'BAD_SIGNATURE' };
+      }
+
+      let claims: unknown;
+      try {
+        claims = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+      } catch {
+        return { ok: false, reason: 'MALFORMED' };
+      }
+      const { deviceId, expiresAt } = (claims ?? {}) as { deviceId?: unknown; expiresAt?: unknown };
+      if (typeof deviceId !== 'string' || !deviceId || typeof expiresAt !== 'number') {
+        return { ok: false, reason: 'MALFORMED' };
+      }
+      if (expiresAt <= deps.nowMs()) {
+        return { ok: false, reason: 'EXPIRED' };
+      }
+      return { ok: true, deviceId, expiresAt };
+    },
+  };
+}
+
+export interface DeviceCertificateAuthority {
+  /** Base64 Ed25519 key phones use to check certificates offline. */
+  publicKey: string;
+  issue: (device: { deviceId: string; publicKey: string }) => DeviceCertificate;
+}
+
+/** Issues certificates binding a device id to its mesh signing key, so phones can verify mesh senders offline. */
+export function createDeviceCertificateAuthority(deps: {
+  seed: Buffer;
+  nowMs: () => number;
+  ttlMs?: number;
+}): DeviceCertificateAuthority {
+  if (deps.seed.length !== ED25519_SEED_BYTES) {
+    throw new Error(`Certificate authority seed must be ${ED25519_SEED_BYTES} bytes.`);
+  }
+
+  const ttlMs = deps.ttlMs ?? DEVICE_CERTIFICATE_TTL_MS;
+  const privateKey = createPrivateKey({
+    key: Buffer.concat([ED25519_PKCS8_PREFIX, deps.seed]),
+    format: 'der',
+    type: 'pkcs8',
+  });
+  const jwk = createPublicKey(privateKey).export({ format: 'jwk' }) as { x: string };
+
+  return {
+    publicKey: Buffer.from(jwk.x, 'base64url').toString('base64'),
+    issue(device) {
+      const issuedAt = deps.nowMs();
+      const unsigned = {
+        deviceId: device.deviceId,
+        publicKey: device.publicKey,
+        issuedAt,
+        expiresAt: issuedAt + ttlMs,
+      };
+      const signature = sign(null, Buffer.from(buildDeviceCertificateMessage(unsigned), 'utf8'), privateKey);
+      return { ...unsigned, signature: signature.toString('base64') };
+    },
+  };
+}
+
+export function readBearerToken(header: string | undefined): string | null {
+  if (!header) {
+    return null;
+  }
+  const match = /^Bearer\s+(\S+)$/i.exec(header.trim());
+  return match ? match[1] : null;
+}
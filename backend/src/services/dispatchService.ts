@@ -1,5 +1,4 @@
-import type { AlertRecord } from '../types/alert';
-import type { RiderPresenceRecord } from '../types/rider';
+import type { AlertRecord, NearbyAlertRecord } from '../types/alert';
 
 const EARTH_RADIUS_METERS = 6_371_000;
 
@@ -12,7 +11,7 @@ function toRadians(value: number): number {
   return (value * Math.PI) / 180;
 }
 
-function haversineMeters(
+export function haversineMeters(
   from: { latitude: number; longitude: number },
   to: { latitude: number; longitude: number }
 ): number {
@@ -27,25 +26,37 @@ function haversineMeters(
   return EARTH_RADIUS_METERS * c;
 }
 
-export function findNearbyRidersForAlert(params: {
-  alert: AlertRecord;
-  riders: RiderPresenceRecord[];
+export function findAlertsNearPoint(params: {
+  alerts: AlertRecord[];
+  latitude: number;
+  longitude: number;
   radiusMeters: number;
-}): NearbyRiderMatch[] {
-  const { alert, riders, radiusMeters } = params;
-  if (!alert.location) {
-    return [];
-  }
-
-  return riders
-    .filter((rider) => rider.deviceId !== alert.deviceId)
-    .map((rider) => ({
-      deviceId: rider.deviceId,
-      distanceMeters: haversineMeters(alert.location!, {
-        latitude: rider.latitude,
-        longitude: rider.longitude,
-      }),
+}): NearbyAlertRecord[] {
+  const { alerts, latitude, longitude, radiusMeters } = params;
+  return alerts
+    .filter((alert) => alert.location !== null)
+    .map((alert) => ({
+      ...alert,
+      distanceMeters: haversineMeters({ latitude, longitude }, alert.location!),
     }))
-    .filter((match) => match.distanceMeters <= radiusMeters)
+    .filter((alert) => alert.distanceMeters <= radiusMeters)
     .sort((a, b) => a.distanceMeters - b.distanceMeters);
 }
+
+export function boundingBoxForRadius(params: { latitude: number; longitude: number; radiusMeters: number }): {
+  minLatitude: number;
+  maxLatitude: number;
+  minLongitude: number;
+  maxLongitude: number;
+} {
+  const latDelta = (params.radiusMeters / EARTH_RADIUS_METERS) * (180 / Math.PI);
+  const cosLat = Math.cos(toRadians(params.latitude));
+  // Near the poles the longitude span degenerates, so fall back to the whole range.
+  const lonDelta = cosLat < 1e-6 ? 180 : Math.min(180, latDelta / cosLat);
+  return {
+    minLatitude: params.latitude - latDelta,
+    maxLatitude: params.latitude + latDelta,
+    minLongitude: params.longitude - lonDelta,
+    maxLongitude: params.longitude + lonDelta,
+  };
+}
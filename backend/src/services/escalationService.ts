@@ -0,0 +1,151 @@
+import type { AlertDispatchStep, AlertRecord } from '../types/alert';
+import type { NearbyRidersQuery } from '../types/rider';
+import type { NearbyRiderMatch } from './dispatchService';
+
+export interface EscalationLadderStep {
+  radiusMeters: number;
+  waitMs: number;
+}
+
+export const DEFAULT_ESCALATION_LADDER: EscalationLadderStep[] = [
+  { radiusMeters: 1_000, waitMs: 60_000 },
+  { radiusMeters: 3_000, waitMs: 60_000 },
+  { radiusMeters: 10_000, waitMs: 90_000 },
+];
+
+export interface EscalationSchedulerDeps {
+  ladder: EscalationLadderStep[];
+  nowMs: () => number;
+  pollIntervalMs: number;
+  leaseMs: number;
+  riderActiveWindowMs: number;
+  findNearbyRiders: (query: NearbyRidersQuery) => Promise<NearbyRiderMatch[]>;
+  listDueAlerts: (nowMs: number) => Promise<AlertRecord[]>;
+  beginStep: (input: { alertId: string; step: number; nowMs: number; leaseMs: number }) => Promise<AlertRecord | null>;
+  completeStep: (input: {
+    alertId: string;
+    record: AlertDispatchStep;
+    nextDispatchAt: number;
+  }) => Promise<AlertRecord | null>;
+  escalate: (input: { alertId: string; record: AlertDispatchStep }) => Promise<AlertRecord | null>;
+  onRidersNotified: (alert: AlertRecord, matches: NearbyRiderMatch[]) => void | Promise<void>;
+  onEscalated: (alert: AlertRecord) => void | Promise<void>;
+}
+
+export interface EscalationScheduler {
+  start: () => void;
+  stop: () => void;
+  runStep: (alert: AlertRecord) => Promise<AlertRecord | null>;
+  runDueSteps: () => Promise<number>;
+}
+
+export function createEscalationScheduler(deps: EscalationSchedulerDeps): EscalationScheduler {
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let polling = false;
+
+  const runStep = async (alert: AlertRecord): Promise<AlertRecord | null> => {
+    const step = alert.dispatchStep ?? 0;
+    const nowMs = deps.nowMs();
+    const claimed = await deps.beginStep({ alertId: alert.id, step, nowMs, leaseMs: deps.leaseMs });
+    if (!claimed) {
+      return null;
+    }
+
+    const ladderStep = deps.ladder[step];
+    if (!ladderStep) {
+      const escalated = await deps.escalate({
+        alertId: claimed.id,
+        record: {
+          step,
+          action: 'ESCALATE',
+          radiusMeters: null,
+          candidateRiders: 0,
+          matchedDeviceIds: [],
+          notifiedDeviceIds: [],
+          at: nowMs,
+        },
+      });
+      if (escalated) {
+        await deps.onEscalated(escalated);
+      }
+      return escalated;
+    }
+
+    const matches = claimed.location
+      ? await deps.findNearbyRiders({
+          latitude: claimed.location.latitude,
+          longitude: claimed.location.longitude,
+          radiusMeters: ladderStep.radiusMeters,
+          sinceMs: nowMs - deps.riderActiveWindowMs,
+          excludeDeviceId: claimed.deviceId,
+        })
+      : [];
+    const alreadyNotified = new Set((claimed.dispatchSteps ?? []).flatMap((entry) => entry.notifiedDeviceIds));
+    const freshMatches = matches.filter((match) => !alreadyNotified.has(match.deviceId));
+
+    const completed = await deps.completeStep({
+      alertId: claimed.id,
+      record: {
+        step,
+        action: 'DISPATCH',
+        radiusMeters: ladderStep.radiusMeters,
+        candidateRiders: matches.length,
+        matchedDeviceIds: matches.map((match) => match.deviceId),
+        notifiedDeviceIds: freshMatches.map((match) => match.deviceId),
+        at: nowMs,
+      },
+      nextDispatchAt: nowMs + ladderStep.waitMs,
+    });
+    if (completed && freshMatches.length > 0) {
+      await deps.onRidersNotified(completed, freshMatches);
+    }
+    return completed;
+  };
+
+  const runDueSteps = async (): Promise<number> => {
+    if (polling) {
+      return 0;
+    }
+
+    polling = true;
+    let processed = 0;
+    try {
+      const due = await deps.listDueAlerts(deps.nowMs());
+      for (const alert of due) {
+        try {
+          if (await runStep(alert)) {
+            processed += 1;
+          }
+        } catch (error) {
+          const reason = error instanceof Error ? error.message : String(error);
+          console.error(`[escalation] Failed to run dispatch step for alert ${alert.id}: ${reason}`);
+        }
+      }
+    } finally {
+      polling = false;
+    }
+    return processed;
+  };
+
+  return {
+    start() {
+      if (timer) {
+        return;
+      }
+      timer = setInterval(() => {
+        void runDueSteps().catch((error) => {
+          const reason = error instanceof Error ? error.message : String(error);
+          console.error(`[escalation] Poll failed: ${reason}`);
+        });
+      }, deps.pollIntervalMs);
+    },
+    stop() {
+      if (timer) {
+        clearInterval(timer);
+        timer = null;
+      }
+    },
+    runStep,
+    runDueSteps,
+  };
+}
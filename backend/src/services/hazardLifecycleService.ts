@@ -0,0 +1,87 @@
+import type { HazardType } from '../types/hazard';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/** How long a report stays live without a fresh confirmation. */
+export const HAZARD_TTL_MS: Record<HazardType, number> = {
+  WATERLOGGING: 6 * HOUR_MS,
+  ACCIDENT_ZONE: 12 * HOUR_MS,
+  POTHOLE: 30 * DAY_MS,
+  CONSTRUCTION: 21 * DAY_MS,
+  ANIMAL: 2 * HOUR_MS,
+  OIL_SPILL: 24 * HOUR_MS,
+  BROKEN_SIGNAL: 3 * DAY_MS,
+};
+
+export const HAZARD_DENY_REMOVAL_THRESHOLD = 3;
+
+export function hazardExpiresAt(type: HazardType, fromMs: number): number {
+  return fromMs + HAZARD_TTL_MS[type];
+}
+
+export function computeHazardConfidence(confirmations: number, denials: number): number {
+  const agreeing = confirmations + 1;
+  return Number((agreeing / (agreeing + denials)).toFixed(2));
+}
+
+/** Enough riders have said the hazard is gone, and they outnumber everyone who said it is still there. */
+export function shouldRemoveHazard(confirmations: number, denials: number): boolean {
+  return denials >= HAZARD_DENY_REMOVAL_THRESHOLD && denials > confirmations + 1;
+}
+
+export interface HazardSweeperDeps {
+  nowMs: () => number;
+  intervalMs: number;
+  removeExpired: (nowMs: number) => Promise<string[]>;
+  onHazardsExpired: (hazardIds: string[]) => void | Promise<void>;
+}
+
+export interface HazardSweeper {
+  start: () => void;
+  stop: () => void;
+  sweep: () => Promise<number>;
+}
+
+export function createHazardSweeper(deps: HazardSweeperDeps): HazardSweeper {
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let sweeping = false;
+
+  const sweep = async (): Promise<number> => {
+    if (sweeping) {
+      return 0;
+    }
+
+    sweeping = true;
+    try {
+      const removed = await deps.removeExpired(deps.nowMs());
+      if (removed.length > 0) {
+        await deps.onHazardsExpired(removed);
+      }
+      return removed.length;
+    } finally {
+      sweeping = false;
+    }
+  };
+
+  return {
+    start() {
+      if (timer) {
+        return;
+      }
+      timer = setInterval(() => {
+        void sweep().catch((error) => {
+          const reason = error instanceof Error ? error.message : String(error);
+          console.error(`[hazards] Expiry sweep failed: ${reason}`);
+        });
+      }, deps.intervalMs);
+    },
+    stop() {
+      if (timer) {
+        clearInterval(timer);
+        timer = null;
+      }
+    },
+    sweep,
+  };
+}
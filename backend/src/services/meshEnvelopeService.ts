@@ -0,0 +1,99 @@
+import type { MeshEnvelope, MeshEnvelopeV1, MeshEnvelopeV2 } from '../types/mesh';
+
+/** Gateways may hold an envelope in their outbox for a while before they reach the backend. */
+export const MESH_RELAY_MAX_AGE_MS = 15 * 60 * 1000;
+export const MESH_RELAY_MAX_FUTURE_SKEW_MS = 60 * 1000;
+
+/** Must match the client's mesh canonicalization byte for byte, or no relayed signature verifies. */
+export function canonicalizeMeshValue(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value);
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalizeMeshValue(item)).join(',')}]`;
+  }
+
+  const entries = Object.entries(value as Record<string, unknown>).sort(([a], [b]) => a.localeCompare(b));
+  return `{${entries
+    .map(([key, entryValue]) => `${JSON.stringify(key)}:${canonicalizeMeshValue(entryValue)}`)
+    .join(',')}}`;
+}
+
+/** The origin signs with `hop` at 0, so relays can advance it; the relay attestations cover the real value. */
+export function buildMeshSigningMessage(
+  envelope: Omit<MeshEnvelopeV1, 'signature' | 'relays'> | Omit<MeshEnvelopeV2, 'signature' | 'relays'>
+): string {
+  if (envelope.version === 2) {
+    return canonicalizeMeshValue({
+      version: envelope.version,
+      messageId: envelope.messageId,
+      originPublicKey: envelope.originPublicKey,
+      type: envelope.type,
+      createdAt: envelope.createdAt,
+      hop: 0,
+      maxHops: envelope.maxHops,
+      sealed: envelope.sealed,
+    });
+  }
+
+  return canonicalizeMeshValue({
+    version: envelope.version,
+    messageId: envelope.messageId,
+    originDeviceId: envelope.originDeviceId,
+    originPublicKey: envelope.originPublicKey,
+    type: envelope.type,
+    createdAt: envelope.createdAt,
+    hop: 0,
+    maxHops: envelope.maxHops,
+    payload: envelope.payload,
+  });
+}
+
+/** Chained: each relay signs the signature before it, the origin's for the first hop. */
+export function buildMeshRelaySigningMessage(input: {
+  messageId: string;
+  hop: number;
+  previousSignature: string;
+  deviceId: string;
+  publicKey: string;
+}): string {
+  const { messageId, hop, previousSignature, deviceId, publicKey } = input;
+  return `dextrix-relay:${messageId}:${hop}:${previousSignature}:${deviceId}:${publicKey}`;
+}
+
+export function verifyMeshEnvelope(
+  envelope: MeshEnvelope,
+  verifySignature: (input: { message: string; signature: string; publicKey: string }) => boolean
+): boolean {
+  return verifySignature({
+    message: buildMeshSigningMessage(envelope),
+    signature: envelope.signature,
+    publicKey: envelope.originPublicKey,
+  });
+}
+
+export function verifyMeshRelayChain(
+  envelope: MeshEnvelope,
+  verifySignature: (input: { message: string; signature: string; publicKey: string }) => boolean
+): boolean {
+  if (envelope.relays.length !== envelope.hop) {
+    return false;
+  }
+
+  let previousSignature = envelope.signature;
+  for (const [index, relay] of envelope.relays.entries()) {
+    const message = buildMeshRelaySigningMessage({
+      messageId: envelope.messageId,
+      hop: index + 1,
+      previousSignature,
+      deviceId: relay.deviceId,
+      publicKey: relay.publicKey,
+    });
+    if (!verifySignature({ message, signature: relay.signature, publicKey: relay.publicKey })) {
+      return false;
+    }
+    previousSignature = relay.signature;
+  }
+  return true;
+}
@@ -0,0 +1,78 @@
+import { createHash } from 'node:crypto';
+
+import nacl from 'tweetnacl';
+
+import type { MeshKeysResponse, MeshSealedContents, MeshSealedPayload } from '../types/mesh';
+
+export const MESH_KEY_BYTES = 32;
+
+export interface MeshKeyring {
+  describeKeys: () => MeshKeysResponse;
+  openSealedPayload: (sealed: MeshSealedPayload) => MeshSealedContents | null;
+}
+
+function deriveKeyId(key: Uint8Array): string {
+  return createHash('sha256').update(key).digest('hex').slice(0, 16);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Holds the responder group key and the gateway key pair. Key ids are derived from the keys, so rotating
+ * either one is just a config change; devices notice the new id on their next key refresh.
+ */
+export function createMeshKeyring(input: { groupKey: Buffer; gatewaySecretKey: Buffer }): MeshKeyring {
+  if (input.groupKey.length !== MESH_KEY_BYTES || input.gatewaySecretKey.length !== MESH_KEY_BYTES) {
+    throw new Error(`Mesh keys must be ${MESH_KEY_BYTES} bytes.`);
+  }
+
+  const groupKey = new Uint8Array(input.groupKey);
+  const gateway = nacl.box.keyPair.fromSecretKey(new Uint8Array(input.gatewaySecretKey));
+  const keys: MeshKeysResponse = {
+    groupKey: { keyId: deriveKeyId(groupKey), key: Buffer.from(groupKey).toString('base64') },
+    gatewayKey: { keyId: deriveKeyId(gateway.publicKey), publicKey: Buffer.from(gateway.publicKey).toString('base64') },
+  };
+
+  return {
+    describeKeys: () => keys,
+    openSealedPayload(sealed) {
+      const recipient = sealed.recipients.find(
+        (candidate) => candidate.kind === 'GATEWAY' && candidate.keyId === keys.gatewayKey?.keyId
+      );
+      if (!recipient || recipient.kind !== 'GATEWAY') {
+        return null;
+      }
+
+      try {
+        // tweetnacl throws on wrong-length keys and nonces; any such envelope is simply unreadable.
+        const nonce = Buffer.from(sealed.nonce, 'base64');
+        const contentKey = nacl.box.open(
+          Buffer.from(recipient.wrappedKey, 'base64'),
+          nonce,
+          Buffer.from(recipient.ephemeralPublicKey, 'base64'),
+          gateway.secretKey
+        );
+        const plaintext = contentKey
+          ? nacl.secretbox.open(Buffer.from(sealed.ciphertext, 'base64'), nonce, contentKey)
+          : null;
+        if (!plaintext) {
+          return null;
+        }
+
+        const contents: unknown = JSON.parse(Buffer.from(plaintext).toString('utf8'));
+        if (
+          !isPlainObject(contents) ||
+          typeof contents.originDeviceId !== 'string' ||
+          !isPlainObject(contents.payload)
+        ) {
+          return null;
+        }
+        return { originDeviceId: contents.originDeviceId, payload: contents.payload };
+      } catch {
+        return null;
+      }
+    },
+  };
+}
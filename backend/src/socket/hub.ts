@@ -2,17 +2,49 @@ import type { Server as HttpServer } from 'node:http';
 
 import { Server, type Socket } from 'socket.io';
 
-import type { AlertRecord } from '../types/alert';
+import type { DeviceTokenVerification } from '../services/deviceAuthService';
+import { haversineMeters } from '../services/dispatchService';
+import type { AlertRecord, AppendAlertEventInput } from '../types/alert';
 import type { HazardRecord } from '../types/hazard';
 
 const DEVICE_EVENT = 'register_device';
+const RESPONDER_LOCATION_EVENT = 'responder:location';
+const TRACKING_STOPPED_EVENT = 'responder:tracking_stopped';
 
 function deviceRoom(deviceId: string): string {
   return `device:${deviceId}`;
 }
 
+type AlertEventRecorder = (input: AppendAlertEventInput) => Promise<void>;
+
+export interface ResponderLocationUpdate {
+  alertId: string;
+  latitude: number;
+  longitude: number;
+  timestamp: number;
+  speedMps: number | null;
+  heading: number | null;
+}
+
+interface SocketHubOptions {
+  recordAlertEvent?: AlertEventRecorder;
+  /** Needed to relay responder locations; without it `responder:location` is ignored. */
+  findAlert?: (alertId: string) => Promise<AlertRecord | null>;
+  /** When provided, sockets must present a device token at handshake and may only join their own room. */
+  verifyDeviceToken?: (token: string) => DeviceTokenVerification;
+}
+
 export class SocketHub {
   private io: Server | null = null;
+  private readonly recordAlertEvent?: AlertEventRecorder;
+  private readonly verifyDeviceToken?: SocketHubOptions['verifyDeviceToken'];
+  private readonly findAlert?: SocketHubOptions['findAlert'];
+
+  constructor(options: SocketHubOptions = {}) {
+    this.recordAlertEvent = options.recordAlertEvent;
+    this.verifyDeviceToken = options.verifyDeviceToken;
+    this.findAlert = options.findAlert;
+  }
 
   init(server: HttpServer, corsOrigins: string[]): void {
     this.io = new Server(server, {
@@ -27,6 +59,20 @@ export class SocketHub {
       },
     });
 
+    const verifyDeviceToken = this.verifyDeviceToken;
+    if (verifyDeviceToken) {
+      this.io.use((socket, next) => {
+        const token = (socket.handshake.auth as { token?: unknown } | undefined)?.token;
+        const verification = typeof token === 'string' ? verifyDeviceToken(token) : null;
+        if (!verification?.ok) {
+          next(new Error('UNAUTHORIZED'));
+          return;
+        }
+        socket.data.deviceId = verification.deviceId;
+        next();
+      });
+    }
+
     this.io.on('connection', (socket: Socket) => {
       socket.on(DEVICE_EVENT, (payload: unknown) => {
         if (!payload || typeof payload !== 'object') {
@@ -38,8 +84,22 @@ export class SocketHub {
           return;
         }
 
+        const authenticatedDeviceId = (socket.data as { deviceId?: string }).deviceId;
+        if (authenticatedDeviceId && authenticatedDeviceId !== maybeDeviceId.trim()) {
+          console.warn('[socket] rejected register_device for another device', {
+            authenticatedDeviceId,
+            requestedDeviceId: maybeDeviceId.trim(),
+          });
+          return;
+        }
+
+        socket.data.deviceId = maybeDeviceId.trim();
         socket.join(deviceRoom(maybeDeviceId.trim()));
       });
+
+      socket.on(RESPONDER_LOCATION_EVENT, (payload: unknown) => {
+        void this.relayResponderLocation(socket, payload);
+      });
     });
   }
 
@@ -64,6 +124,23 @@ export class SocketHub {
         distanceMeters: rider.distanceMeters,
       });
     }
+
+    if (nearby.length > 0) {
+      void this.recordAlertEvent?.({
+        alertId: alert.id,
+        type: 'RIDERS_NOTIFIED',
+        actorDeviceId: null,
+        fromStatus: null,
+        toStatus: null,
+        metadata: {
+          event: 'alert:new_nearby',
+          riders: nearby.map((rider) => ({
+            deviceId: rider.deviceId,
+            distanceMeters: Math.round(rider.distanceMeters),
+          })),
+        },
+      });
+    }
   }
 
   emitAlertAssigned(alert: AlertRecord): void {
@@ -88,6 +165,17 @@ export class SocketHub {
     });
     this.io.to(deviceRoom(alert.deviceId)).emit('alert:assigned', payload);
     this.io.to(deviceRoom(alert.responderDeviceId)).emit('alert:assigned', payload);
+    void this.recordAlertEvent?.({
+      alertId: alert.id,
+      type: 'ASSIGNMENT_BROADCAST',
+      actorDeviceId: null,
+      fromStatus: null,
+      toStatus: null,
+      metadata: {
+        event: 'alert:assigned',
+        recipients: [alert.deviceId, alert.responderDeviceId],
+      },
+    });
   }
 
   emitAlertCancelled(input: { alertId: string; cancelledAt: number }): void {
@@ -103,6 +191,92 @@ export class SocketHub {
       alertId: input.alertId,
       cancelledAt: input.cancelledAt,
     });
+    void this.recordAlertEvent?.({
+      alertId: input.alertId,
+      type: 'CANCELLATION_BROADCAST',
+      actorDeviceId: null,
+      fromStatus: null,
+      toStatus: null,
+      metadata: {
+        event: 'alert:cancelled',
+        cancelledAt: input.cancelledAt,
+      },
+    });
+  }
+
+  emitAlertResolved(alert: AlertRecord): void {
+    if (!this.io || !alert.resolution) {
+      return;
+    }
+
+    const payload = {
+      alertId: alert.id,
+      victimDeviceId: alert.deviceId,
+      responderDeviceId: alert.responderDeviceId ?? null,
+      outcome: alert.resolution.outcome,
+      resolvedByDeviceId: alert.resolution.resolvedByDeviceId,
+      resolvedAt: alert.resolution.resolvedAt,
+    };
+    const recipients = alert.responderDeviceId ? [alert.deviceId, alert.responderDeviceId] : [alert.deviceId];
+
+    console.log('[socket] emit alert:resolved', {
+      alertId: alert.id,
+      outcome: payload.outcome,
+      recipients,
+    });
+    for (const deviceId of recipients) {
+      this.io.to(deviceRoom(deviceId)).emit('alert:resolved', payload);
+    }
+    void this.recordAlertEvent?.({
+      alertId: alert.id,
+      type: 'RESOLUTION_BROADCAST',
+      actorDeviceId: null,
+      fromStatus: null,
+      toStatus: null,
+      metadata: {
+        event: 'alert:resolved',
+        recipients,
+      },
+    });
+  }
+
+  private async relayResponderLocation(socket: Socket, payload: unknown): Promise<void> {
+    const update = parseResponderLocationUpdate(payload);
+    const responderDeviceId = (socket.data as { deviceId?: string }).deviceId;
+    if (!this.io || !this.findAlert || !update || !responderDeviceId) {
+      return;
+    }
+
+    let alert: AlertRecord | null;
+    try {
+      alert = await this.findAlert(update.alertId);
+    } catch (error) {
+      console.error('[socket] responder location lookup failed', {
+        alertId: update.alertId,
+        reason: error instanceof Error ? error.message : String(error),
+      });
+      return;
+    }
+
+    if (!alert || alert.responderDeviceId !== responderDeviceId) {
+      return;
+    }
+    // Tell the responder to stop streaming once the alert is over, so the victim's room goes quiet.
+    if (alert.status !== 'RESPONDER_ASSIGNED') {
+      socket.emit(TRACKING_STOPPED_EVENT, { alertId: alert.id, status: alert.status });
+      return;
+    }
+
+    this.io.to(deviceRoom(alert.deviceId)).emit(RESPONDER_LOCATION_EVENT, {
+      alertId: alert.id,
+      responderDeviceId,
+      latitude: update.latitude,
+      longitude: update.longitude,
+      timestamp: update.timestamp,
+      speedMps: update.speedMps,
+      heading: update.heading,
+      distanceMeters: alert.location ? haversineMeters(update, alert.location) : null,
+    });
   }
 
   emitHazardCreated(hazard: HazardRecord): void {
@@ -113,6 +287,14 @@ export class SocketHub {
     this.io.emit('hazard:created', hazard);
   }
 
+  emitHazardUpdated(hazard: HazardRecord): void {
+    if (!this.io) {
+      return;
+    }
+
+    this.io.emit('hazard:updated', hazard);
+  }
+
   emitHazardRemoved(hazardId: string): void {
     if (!this.io) {
       return;
@@ -121,3 +303,33 @@ export class SocketHub {
     this.io.emit('hazard:removed', { id: hazardId });
   }
 }
+
+export function parseResponderLocationUpdate(payload: unknown): ResponderLocationUpdate | null {
+  if (!payload || typeof payload !== 'object') {
+    return null;
+  }
+
+  const candidate = payload as Record<string, unknown>;
+  const { alertId, latitude, longitude, timestamp } = candidate;
+  if (
+    typeof alertId !== 'string' ||
+    !alertId.trim() ||
+    typeof latitude !== 'number' ||
+    latitude < -90 ||
+    latitude > 90 ||
+    typeof longitude !== 'number' ||
+    longitude < -180 ||
+    longitude > 180 ||
+    typeof timestamp !== 'number' ||
+    !Number.isFinite(timestamp)
+  ) {
+    return null;
+  }
+
+  const speedMps = typeof candidate.speedMps === 'number' && candidate.speedMps >= 0 ? candidate.speedMps : null;
+  const heading =
+    typeof candidate.heading === 'number' && candidate.heading >= 0 && candidate.heading < 360
+      ? candidate.heading
+      : null;
+  return { alertId: alertId.trim(), latitude, longitude, timestamp, speedMps, heading };
+}
@@ -10,6 +10,14 @@ export const ALERT_STATUSES = [
 
 export type AlertStatus = (typeof ALERT_STATUSES)[number];
 
+/** Alerts a nearby rider may still accept; `nearby` lists only these, and only within the max age. */
+export const CLAIMABLE_ALERT_STATUSES: readonly AlertStatus[] = ['TRIGGERED', 'DISPATCHING', 'DISPATCHED'];
+export const CLAIMABLE_ALERT_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+export const ALERT_OUTCOMES = ['FALSE_ALARM', 'MINOR', 'HOSPITAL_TRANSFER'] as const;
+
+export type AlertOutcome = (typeof ALERT_OUTCOMES)[number];
+
 export interface AlertBreadcrumbPoint {
   latitude: number;
   longitude: number;
@@ -34,6 +42,7 @@ export interface CreateAlertPersistenceInput {
   status: AlertStatus;
   triggeredAt: number;
   location: AlertLocation | null;
+  clientAlertId?: string | null;
 }
 
 export interface AcceptAlertPersistenceInput {
@@ -43,6 +52,24 @@ export interface AcceptAlertPersistenceInput {
   assignedAt: number;
 }
 
+export interface AlertDispatchStep {
+  step: number;
+  action: 'DISPATCH' | 'ESCALATE';
+  radiusMeters: number | null;
+  candidateRiders: number;
+  matchedDeviceIds: string[];
+  notifiedDeviceIds: string[];
+  at: number;
+}
+
+export interface AlertResolution {
+  outcome: AlertOutcome;
+  notes: string | null;
+  arrivedAt: number | null;
+  resolvedAt: number;
+  resolvedByDeviceId: string;
+}
+
 export interface AlertRecord {
   id: string;
   deviceId: string;
@@ -50,9 +77,15 @@ export interface AlertRecord {
   status: AlertStatus;
   triggeredAt: number;
   location: AlertLocation | null;
+  /** The victim app's local id for an SOS that reached the backend over the mesh; its later cancels use it. */
+  clientAlertId?: string | null;
   responderDeviceId?: string | null;
   responderName?: string | null;
   assignedAt?: number | null;
+  dispatchStep?: number;
+  nextDispatchAt?: number | null;
+  dispatchSteps?: AlertDispatchStep[];
+  resolution?: AlertResolution | null;
   createdAt: number;
   updatedAt: number;
 }
@@ -110,3 +143,84 @@ export interface AcceptAlertRequest {
 }
 
 export type AcceptAlertFailureCode = 'ALERT_NOT_FOUND' | 'ALERT_ALREADY_ASSIGNED' | 'ALERT_NOT_CLAIMABLE';
+
+export interface ResolveAlertRequest {
+  deviceId: string;
+  outcome: AlertOutcome;
+  notes: string | null;
+  arrivedAt: number | null;
+}
+
+export interface ResolveAlertPersistenceInput extends ResolveAlertRequest {
+  alertId: string;
+  resolvedAt: number;
+}
+
+export type ResolveAlertResult =
+  | { kind: 'resolved'; record: AlertRecord }
+  | { kind: 'not_found' }
+  | { kind: 'forbidden' }
+  | { kind: 'blocked'; currentStatus: AlertStatus };
+
+export const ALERT_EVENT_TYPES = [
+  'ALERT_CREATED',
+  'DISPATCH_STEP',
+  'RIDERS_NOTIFIED',
+  'RESPONDER_ASSIGNED',
+  'ASSIGNMENT_BROADCAST',
+  'STATUS_UPDATED',
+  'CANCELLATION_BROADCAST',
+  'ESCALATED',
+  'ALERT_RESOLVED',
+  'RESOLUTION_BROADCAST',
+] as const;
+
+export type AlertEventType = (typeof ALERT_EVENT_TYPES)[number];
+
+export interface AppendAlertEventInput {
+  alertId: string;
+  type: AlertEventType;
+  actorDeviceId: string | null;
+  fromStatus: AlertStatus | null;
+  toStatus: AlertStatus | null;
+  metadata?: Record<string, unknown>;
+}
+
+export interface AlertEventRecord {
+  id: string;
+  alertId: string;
+  type: AlertEventType;
+  actorDeviceId: string | null;
+  fromStatus: AlertStatus | null;
+  toStatus: AlertStatus | null;
+  metadata: Record<string, unknown>;
+  createdAt: number;
+}
+
+export interface AlertEventPage {
+  events: AlertEventRecord[];
+  nextCursor: string | null;
+}
+
+export interface ListAlertsQuery {
+  deviceId: string | null;
+  status: AlertStatus | null;
+  since: number | null;
+  limit: number;
+  cursor: string | null;
+}
+
+export interface AlertPage {
+  alerts: AlertRecord[];
+  nextCursor: string | null;
+}
+
+export interface NearbyAlertsQuery {
+  latitude: number;
+  longitude: number;
+  radiusMeters: number;
+}
+
+export interface NearbyAlertRecord extends AlertRecord {
+  distanceMeters: number;
+}
@@ -0,0 +1,47 @@
+export interface EmergencyContactRecord {
+  id: string;
+  deviceId: string;
+  name: string;
+  phone: string;
+  email: string | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ContactInput {
+  name: string;
+  phone: string;
+  email: string | null;
+}
+
+export interface CreateContactInput extends ContactInput {
+  deviceId: string;
+}
+
+export interface UpdateContactInput extends ContactInput {
+  deviceId: string;
+  contactId: string;
+}
+
+export type CreateContactResult =
+  | { kind: 'created'; record: EmergencyContactRecord }
+  | { kind: 'limit_reached'; maxContacts: number }
+  | { kind: 'duplicate_phone' };
+
+export type UpdateContactResult =
+  | { kind: 'updated'; record: EmergencyContactRecord }
+  | { kind: 'not_found' }
+  | { kind: 'duplicate_phone' };
+
+export type ContactNotificationEvent = 'ALERT_CREATED' | 'ALERT_ESCALATED';
+
+export interface ContactNotification {
+  event: ContactNotificationEvent;
+  alertId: string;
+  contact: EmergencyContactRecord;
+  message: string;
+}
+
+export type ContactNotificationResult =
+  | { ok: true; channel: string }
+  | { ok: false; channel: string; reason: string };
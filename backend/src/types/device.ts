@@ -0,0 +1,53 @@
+export interface DeviceRecord {
+  id: string;
+  deviceId: string;
+  publicKey: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface RegisterDeviceInput {
+  deviceId: string;
+  publicKey: string;
+}
+
+export type RegisterDeviceResult =
+  | { kind: 'registered'; record: DeviceRecord }
+  | { kind: 'existing'; record: DeviceRecord }
+  | { kind: 'key_mismatch' };
+
+export interface DeviceTokenResponse {
+  deviceId: string;
+  token: string;
+  expiresAt: number;
+}
+
+/** Backend-signed binding of a device id to its current mesh signing key. */
+export interface DeviceCertificate {
+  deviceId: string;
+  publicKey: string;
+  issuedAt: number;
+  expiresAt: number;
+  signature: string;
+}
+
+export interface RotateDeviceKeyInput {
+  deviceId: string;
+  currentPublicKey: string;
+  newPublicKey: string;
+}
+
+/** `stale`: the device's key changed since the rotation request was signed. */
+export type RotateDeviceKeyResult =
+  | { kind: 'rotated'; record: DeviceRecord }
+  | { kind: 'not_found' }
+  | { kind: 'stale' };
+
+export type DeviceKeyRevocationReason = 'ROTATED' | 'COMPROMISED';
+
+export interface RevokeDeviceKeyInput {
+  deviceId: string;
+  publicKey: string;
+  reason: DeviceKeyRevocationReason;
+  revokedAt: number;
+}
@@ -1,12 +1,48 @@
-export const HAZARD_TYPES = ['POTHOLE', 'CONSTRUCTION', 'WATERLOGGING', 'ACCIDENT_ZONE'] as const;
+export const HAZARD_TYPES = [
+  'POTHOLE',
+  'CONSTRUCTION',
+  'WATERLOGGING',
+  'ACCIDENT_ZONE',
+  'ANIMAL',
+  'OIL_SPILL',
+  'BROKEN_SIGNAL',
+] as const;
 
 export type HazardType = (typeof HAZARD_TYPES)[number];
 
+export const HAZARD_VOTES = ['CONFIRM', 'DENY'] as const;
+
+export type HazardVote = (typeof HAZARD_VOTES)[number];
+
+export const HAZARD_SEVERITY_MIN = 1;
+export const HAZARD_SEVERITY_MAX = 5;
+export const HAZARD_DESCRIPTION_MAX_LENGTH = 280;
+export const HAZARD_PHOTO_CONTENT_TYPES = ['image/jpeg', 'image/png', 'image/webp'] as const;
+
+export type HazardPhotoContentType = (typeof HAZARD_PHOTO_CONTENT_TYPES)[number];
+
 export interface HazardRecord {
   id: string;
   type: HazardType;
   latitude: number;
   longitude: number;
+  /** 1 (minor) to 5 (dangerous); null when the reporter did not rate it. */
+  severity: number | null;
+  description: string | null;
+  /** Reporter's direction of travel in degrees, so clients can tell which carriageway is affected. */
+  heading: number | null;
+  /** API path of the attached photo, or null when none was uploaded. */
+  photoUrl: string | null;
+  /** Null for hazards reported before reporters were recorded. */
+  reporterDeviceId: string | null;
+  /** How many reports were merged into this hazard, including the first. */
+  reportCount: number;
+  confirmations: number;
+  denials: number;
+  /** 0..1; the original report counts as one confirmation. */
+  confidence: number;
+  lastConfirmedAt: number | null;
+  expiresAt: number;
   createdAt: number;
   updatedAt: number;
 }
@@ -15,5 +51,46 @@ export interface CreateHazardInput {
   type: HazardType;
   latitude: number;
   longitude: number;
+  reporterDeviceId: string;
+  severity: number | null;
+  description: string | null;
+  heading: number | null;
 }
 
+export interface AttachHazardPhotoInput {
+  hazardId: string;
+  deviceId: string;
+  contentType: HazardPhotoContentType;
+  data: Buffer;
+  nowMs: number;
+}
+
+export type AttachHazardPhotoResult =
+  | { kind: 'attached'; record: HazardRecord }
+  | { kind: 'not_found' }
+  | { kind: 'forbidden' };
+
+export interface HazardPhotoStream {
+  contentType: string;
+  length: number;
+  stream: NodeJS.ReadableStream;
+}
+
+export interface HazardVoteInput {
+  hazardId: string;
+  deviceId: string;
+  vote: HazardVote;
+  nowMs: number;
+}
+
+export type HazardVoteResult =
+  | { kind: 'updated'; record: HazardRecord }
+  | { kind: 'removed'; hazardId: string }
+  | { kind: 'not_found' }
+  | { kind: 'own_hazard' };
+
+export type RemoveHazardResult = { kind: 'removed' } | { kind: 'not_found' } | { kind: 'forbidden' };
+
+export type HazardAreaQuery =
+  | { kind: 'radius'; latitude: number; longitude: number; radiusMeters: number }
+  | { kind: 'bbox'; minLongitude: number; minLatitude: number; maxLongitude: number; maxLatitude: number };
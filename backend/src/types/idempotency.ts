@@ -0,0 +1,30 @@
+export interface IdempotentResponse {
+  statusCode: number;
+  body: unknown;
+}
+
+export interface IdempotencyRecord {
+  /** Authenticated device plus the client's key, so devices cannot replay each other's responses. */
+  scope: string;
+  /** Hash of method, URL and body; a reused key with a different request is rejected. */
+  fingerprint: string;
+  /** Null while the first request is still being handled. */
+  response: IdempotentResponse | null;
+  createdAt: number;
+}
+
+export interface ClaimIdempotencyKeyInput {
+  scope: string;
+  fingerprint: string;
+  nowMs: number;
+}
+
+export type ClaimIdempotencyKeyResult =
+  | { kind: 'claimed' }
+  | { kind: 'existing'; record: IdempotencyRecord };
+
+export interface IdempotencyStore {
+  claim: (input: ClaimIdempotencyKeyInput) => Promise<ClaimIdempotencyKeyResult>;
+  complete: (scope: string, response: IdempotentResponse) => Promise<void>;
+  release: (scope: string) => Promise<void>;
+}
@@ -0,0 +1,112 @@
+import type { DeviceCertificate } from './device';
+
+export const MESH_ENVELOPE_TYPES = ['SOS_TRIGGERED', 'SOS_CANCELLED', 'SOS_ASSIGNED'] as const;
+
+export type MeshEnvelopeType = (typeof MESH_ENVELOPE_TYPES)[number];
+
+/** Appended by each phone that rebroadcast the envelope; signs its hop number and the previous signature. */
+export interface MeshRelayAttestation {
+  deviceId: string;
+  publicKey: string;
+  signature: string;
+}
+
+/** Signed Bluetooth mesh message, as the origin device broadcast it plus the relays it passed through. */
+export interface MeshEnvelopeV1 {
+  version: 1;
+  messageId: string;
+  originDeviceId: string;
+  /** Base64 Ed25519 key the origin signed with; also the key it registers with the backend. */
+  originPublicKey: string;
+  type: MeshEnvelopeType;
+  createdAt: number;
+  hop: number;
+  maxHops: number;
+  payload: Record<string, unknown>;
+  /** Base64 signature over the canonical JSON of every other field, with `hop` at 0 and without `relays`. */
+  signature: string;
+  /** One per hop, in relay order. */
+  relays: MeshRelayAttestation[];
+}
+
+export type MeshSealRecipient =
+  | { kind: 'GROUP'; keyId: string; wrappedKey: string }
+  | { kind: 'GATEWAY'; keyId: string; ephemeralPublicKey: string; wrappedKey: string };
+
+/**
+ * Origin device id and payload, encrypted under a one-off content key. `recipients` wraps that key
+ * for the responder group and/or the backend's gateway key; all of them share `nonce`.
+ */
+export interface MeshSealedPayload {
+  nonce: string;
+  recipients: MeshSealRecipient[];
+  ciphertext: string;
+}
+
+/** v2 keeps only routing fields in clear; the personal part travels in `sealed`. */
+export interface MeshEnvelopeV2 {
+  version: 2;
+  messageId: string;
+  originPublicKey: string;
+  type: MeshEnvelopeType;
+  createdAt: number;
+  hop: number;
+  maxHops: number;
+  sealed: MeshSealedPayload;
+  signature: string;
+  relays: MeshRelayAttestation[];
+}
+
+export type MeshEnvelope = MeshEnvelopeV1 | MeshEnvelopeV2;
+
+/** What the backend acts on once an envelope is verified and, for v2, opened. */
+export type OpenedMeshEnvelope = Pick<
+  MeshEnvelopeV1,
+  'messageId' | 'originDeviceId' | 'originPublicKey' | 'type' | 'createdAt' | 'payload'
+>;
+
+export interface MeshSealedContents {
+  originDeviceId: string;
+  payload: Record<string, unknown>;
+}
+
+/** Keys handed to registered devices so they can seal envelopes and read the group's. */
+export interface MeshKeysResponse {
+  groupKey: { keyId: string; key: string } | null;
+  gatewayKey: { keyId: string; publicKey: string } | null;
+}
+
+/** Everything a phone needs to check mesh senders offline, plus its own certificate to attach to envelopes. */
+export interface MeshTrustResponse {
+  authorityPublicKey: string;
+  certificate: DeviceCertificate | null;
+  /** Keys that were rotated away or reported compromised, while their certificates could still be valid. */
+  revokedKeys: string[];
+  issuedAt: number;
+}
+
+export interface MeshRelayRequest {
+  relayDeviceId: string;
+  envelope: MeshEnvelope;
+}
+
+/**
+ * CREATED/UPDATED: the envelope changed an alert. DUPLICATE: another gateway already relayed it,
+ * or the origin already has an open alert. IGNORED: valid, but there was nothing left to apply it to.
+ */
+export type MeshRelayOutcome = 'CREATED' | 'UPDATED' | 'DUPLICATE' | 'IGNORED';
+
+export interface MeshRelayResult {
+  messageId: string;
+  outcome: MeshRelayOutcome;
+  alertId: string | null;
+}
+
+export interface ClaimMeshRelayMessageInput {
+  messageId: string;
+  originDeviceId: string;
+  relayDeviceId: string;
+  /** Device ids of the phones the envelope was relayed through before it reached the gateway. */
+  relayPath: string[];
+  nowMs: number;
+}
@@ -12,6 +12,7 @@ export interface RideRecord {
   durationMs: number | null;
   distanceKm: number;
   fatigueWarnings: number;
+  hazardWarnings: number;
   hazardsReported: number;
   sosTriggered: number;
   createdAt: number;
@@ -29,6 +30,47 @@ export interface EndRideInput {
   endedAt: number;
   distanceKm: number;
   fatigueWarnings: number;
+  hazardWarnings: number;
   hazardsReported: number;
   sosTriggered: number;
+  actorDeviceId: string;
 }
+
+export type EndRideResult =
+  | { kind: 'ended'; record: RideRecord }
+  | { kind: 'not_found' }
+  | { kind: 'forbidden' }
+  | { kind: 'implausible_distance'; maxDistanceKm: number };
+
+export interface RideTrackPoint {
+  timestamp: number;
+  latitude: number;
+  longitude: number;
+  speed: number | null;
+  accuracy: number | null;
+}
+
+export interface AppendRideTrackInput {
+  rideId: string;
+  seq: number;
+  points: RideTrackPoint[];
+  actorDeviceId: string;
+}
+
+export type AppendRideTrackResult =
+  | { kind: 'appended'; rideId: string; seq: number; pointCount: number }
+  | { kind: 'duplicate'; rideId: string; seq: number }
+  | { kind: 'not_found' }
+  | { kind: 'forbidden' }
+  | { kind: 'ride_ended'; endedAt: number };
+
+export interface RideTrackRecord {
+  rideId: string;
+  chunkCount: number;
+  points: RideTrackPoint[];
+}
+
+export type GetRideTrackResult =
+  | { kind: 'found'; track: RideTrackRecord }
+  | { kind: 'not_found' }
+  | { kind: 'forbidden' };
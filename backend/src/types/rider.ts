@@ -27,3 +27,11 @@ export interface RiderHeartbeatResponse {
     receivedAt: number;
   };
 }
+
+export interface NearbyRidersQuery {
+  latitude: number;
+  longitude: number;
+  radiusMeters: number;
+  sinceMs: number;
+  excludeDeviceId: string | null;
+}
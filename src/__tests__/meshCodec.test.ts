@@ -0,0 +1,136 @@
+import nacl from 'tweetnacl';
+import { describe, expect, it } from 'vitest';
+
+import { bytesToBase64 } from '../services/mesh/meshBytes';
+import { decodeEnvelope, encodeEnvelope } from '../services/mesh/meshCodec';
+import type { MeshEnvelopeV1, MeshEnvelopeV2 } from '../services/mesh/meshEnvelope';
+import { openSealedContents, sealContents, type MeshGroupKey } from '../services/mesh/meshSeal';
+
+const FIXED_NOW_MS = 1_739_555_556_000;
+
+function createPayload(): Record<string, unknown> {
+  return {
+    alertId: 'local-alert-1',
+    victimDeviceId: 'victim-1',
+    victimName: 'Asha',
+    triggeredAt: FIXED_NOW_MS,
+    location: {
+      latitude: 12.9716,
+      longitude: 77.5946,
+      timestamp: FIXED_NOW_MS - 1_000,
+      breadcrumbTrail: [
+        { latitude: 12.9712, longitude: 77.5941, timestamp: FIXED_NOW_MS - 20_000 },
+        { latitude: -0.5, longitude: 0, timestamp: FIXED_NOW_MS - 10_000 },
+      ],
+    },
+    distanceMeters: 0,
+    unlistedField: [true, false, null, -42, 2 ** 60],
+  };
+}
+
+function createRoutingFields() {
+  return {
+    messageId: 'mesh-1739555556000-abc123',
+    originPublicKey: bytesToBase64(nacl.sign.keyPair().publicKey),
+    type: 'SOS_TRIGGERED' as const,
+    createdAt: FIXED_NOW_MS,
+    hop: 1,
+    maxHops: 3,
+    signature: bytesToBase64(nacl.randomBytes(64)),
+    relays: [
+      {
+        deviceId: 'relay-1',
+        publicKey: bytesToBase64(nacl.sign.keyPair().publicKey),
+        signature: bytesToBase64(nacl.randomBytes(64)),
+      },
+    ],
+  };
+}
+
+function createGroupKey(): MeshGroupKey {
+  return { keyId: 'group-1', key: bytesToBase64(nacl.randomBytes(nacl.secretbox.keyLength)) };
+}
+
+describe('mesh codec', () => {
+  it('round-trips a v1 envelope to the exact values that were signed', () => {
+    const envelope: MeshEnvelopeV1 = {
+      version: 1,
+      originDeviceId: 'victim-1',
+      payload: createPayload(),
+      ...createRoutingFields(),
+    };
+
+    const encoded = encodeEnvelope(envelope);
+
+    expect(encoded).not.toBeNull();
+    expect(decodeEnvelope(encoded as Uint8Array)).toEqual(envelope);
+  });
+
+  it('round-trips a v2 envelope sealed for the responder group and the gateway', () => {
+    const groupKey = createGroupKey();
+    const gateway = nacl.box.keyPair();
+    const sealed = sealContents(
+      { originDeviceId: 'victim-1', payload: createPayload() },
+      { groupKey, gatewayKey: { keyId: 'gateway-1', publicKey: bytesToBase64(gateway.publicKey) } }
+    );
+    const envelope: MeshEnvelopeV2 = { version: 2, sealed: sealed!, ...createRoutingFields() };
+
+    const decoded = decodeEnvelope(encodeEnvelope(envelope) as Uint8Array);
+
+    expect(decoded).toEqual(envelope);
+    expect(openSealedContents((decoded as MeshEnvelopeV2).sealed, groupKey)).toEqual({
+      originDeviceId: 'victim-1',
+      payload: createPayload(),
+    });
+  });
+
+  it('keeps personal fields out of the v2 bytes on air', () => {
+    const sealed = sealContents(
+      { originDeviceId: 'victim-1', payload: createPayload() },
+      { groupKey: createGroupKey(), gatewayKey: null }
+    );
+    const encoded = encodeEnvelope({ version: 2, sealed: sealed!, ...createRoutingFields() });
+    const onAir = new TextDecoder().decode(encoded as Uint8Array);
+
+    expect(onAir).toContain('mesh-1739555556000-abc123');
+    expect(onAir).not.toContain('victim-1');
+    expect(onAir).not.toContain('Asha');
+  });
+
+  it('cannot be opened with a different group key', () => {
+    const sealed = sealContents(
+      { originDeviceId: 'victim-1', payload: createPayload() },
+      { groupKey: createGroupKey(), gatewayKey: null }
+    );
+
+    expect(openSealedContents(sealed!, { ...createGroupKey(), keyId: 'group-1' })).toBeNull();
+  });
+
+  it('only encodes envelopes that carry one relay attestation per hop', () => {
+    const envelope: MeshEnvelopeV1 = {
+      version: 1,
+      originDeviceId: 'victim-1',
+      payload: createPayload(),
+      ...createRoutingFields(),
+    };
+
+    expect(encodeEnvelope({ ...envelope, hop: 2 })).toBeNull();
+    expect(encodeEnvelope({ ...envelope, relays: [] })).toBeNull();
+    expect(decodeEnvelope(encodeEnvelope({ ...envelope, hop: 0, relays: [] }) as Uint8Array)).toMatchObject({
+      hop: 0,
+      relays: [],
+    });
+  });
+
+  it('rejects truncated and unknown-version frames', () => {
+    const encoded = encodeEnvelope({
+      version: 1,
+      originDeviceId: 'victim-1',
+      payload: createPayload(),
+      ...createRoutingFields(),
+    }) as Uint8Array;
+
+    expect(decodeEnvelope(encoded.slice(0, encoded.length - 1))).toBeNull();
+    expect(decodeEnvelope(Uint8Array.from([3, ...encoded.slice(1)]))).toBeNull();
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+
+import { fragmentFrame, MeshReassembler, readFragmentHeader } from '../services/mesh/meshFraming';
+
+const FIXED_NOW_MS = 1_739_555_556_000;
+
+function createFrame(length: number, seed = 1): Uint8Array {
+  return Uint8Array.from({ length }, (_, index) => (index * 31 + seed) % 256);
+}
+
+function pushAll(reassembler: MeshReassembler, fragments: Uint8Array[], nowMs = FIXED_NOW_MS): (Uint8Array | null)[] {
+  return fragments.map((fragment) => reassembler.push(fragment, nowMs));
+}
+
+describe('mesh framing', () => {
+  it('splits a frame into advertisement-sized fragments and reassembles it', () => {
+    const frame = createFrame(100);
+    const fragments = fragmentFrame(frame);
+
+    expect(fragments.length).toBeGreaterThan(1);
+    expect(fragments.every((fragment) => fragment.length <= 20)).toBe(true);
+    expect(fragments.map((fragment) => readFragmentHeader(fragment)?.index)).toEqual(fragments.map((_, index) => index));
+
+    const results = pushAll(new MeshReassembler(), fragments);
+    expect(results.slice(0, -1).every((result) => result === null)).toBe(true);
+    expect(results[results.length - 1]).toEqual(frame);
+  });
+
+  it('reassembles fragments that arrive out of order and more than once', () => {
+    const frame = createFrame(60);
+    const fragments = fragmentFrame(frame);
+    const reassembler = new MeshReassembler();
+    const [first, ...rest] = fragments;
+
+    expect(pushAll(reassembler, [first, first, ...rest.slice(1)]).every((result) => result === null)).toBe(true);
+    expect(reassembler.push(rest[0], FIXED_NOW_MS)).toEqual(frame);
+
+    // A relay rebroadcasting the same envelope must not start a second buffer for it.
+    expect(pushAll(reassembler, fragments).every((result) => result === null)).toBe(true);
+    expect(reassembler.pendingFrames).toBe(0);
+  });
+
+  it('drops partial frames once the reassembly timeout passes', () => {
+    const fragments = fragmentFrame(createFrame(60));
+    const reassembler = new MeshReassembler({ timeoutMs: 1_000 });
+
+    pushAll(reassembler, fragments.slice(0, -1));
+    expect(reassembler.pendingFrames).toBe(1);
+
+    reassembler.prune(FIXED_NOW_MS + 1_001);
+    expect(reassembler.pendingFrames).toBe(0);
+    expect(reassembler.push(fragments[fragments.length - 1], FIXED_NOW_MS + 1_001)).toBeNull();
+  });
+
+  it('evicts the oldest partial frame when too many are pending', () => {
+    const reassembler = new MeshReassembler({ maxPendingFrames: 2 });
+    const frames = [1, 2, 3].map((seed) => fragmentFrame(createFrame(60, seed)));
+
+    frames.forEach((fragments, index) => {
+      reassembler.push(fragments[0], FIXED_NOW_MS + index);
+    });
+    expect(reassembler.pendingFrames).toBe(2);
+
+    const [oldest, , newest] = frames;
+    expect(pushAll(reassembler, oldest.slice(1), FIXED_NOW_MS + 10).every((result) => result === null)).toBe(true);
+    expect(pushAll(reassembler, newest.slice(1), FIXED_NOW_MS + 10).pop()).toEqual(createFrame(60, 3));
+  });
+
+  it('rejects a frame whose reassembled bytes do not match its id', () => {
+    const fragments = fragmentFrame(createFrame(60));
+    const corrupted = fragments[1].slice();
+    corrupted[corrupted.length - 1] ^= 0xff;
+
+    const results = pushAll(new MeshReassembler(), [fragments[0], corrupted, ...fragments.slice(2)]);
+    expect(results.every((result) => result === null)).toBe(true);
+  });
+
+  it('refuses frames that need more fragments than the header can count', () => {
+    const chunkBytes = 20 - 7;
+
+    expect(fragmentFrame(createFrame(255 * chunkBytes))).toHaveLength(255);
+    expect(fragmentFrame(createFrame(255 * chunkBytes + 1))).toEqual([]);
+    expect(fragmentFrame(createFrame(60), 7)).toEqual([]);
+  });
+});
@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { MeshRelayPolicy } from '../services/mesh/meshRelayPolicy';
+
+const FIXED_NOW_MS = 1_739_555_556_000;
+
+describe('mesh relay policy', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(FIXED_NOW_MS);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('lets a certified origin inject a burst and then only as fast as its bucket refills', () => {
+    const policy = new MeshRelayPolicy({ originBurst: 2, originRefillMs: 10_000 });
+
+    const admitted = [0, 1, 2].map(() => policy.admitOrigin('flooder', FIXED_NOW_MS));
+    const otherOrigin = policy.admitOrigin('victim', FIXED_NOW_MS);
+    const afterRefill = policy.admitOrigin('flooder', FIXED_NOW_MS + 10_000);
+
+    expect(admitted).toEqual([true, true, false]);
+    expect(otherOrigin).toBe(true);
+    expect(afterRefill).toBe(true);
+    expect(policy.getDiagnostics()).toMatchObject({ admitted: 4, droppedOriginLimit: 1 });
+  });
+
+  it('makes every uncertified sender share one bucket, so fresh keys do not reset the limit', () => {
+    const policy = new MeshRelayPolicy({ originBurst: 2, unverifiedBurst: 3, unverifiedRefillMs: 10_000 });
+
+    // Each envelope from a freshly minted key is still uncertified, so all of them draw on the same tokens.
+    const fromFreshKeys = [0, 1, 2, 3, 4].map(() => policy.admitOrigin(null, FIXED_NOW_MS));
+    const certified = policy.admitOrigin('victim', FIXED_NOW_MS);
+
+    expect(fromFreshKeys).toEqual([true, true, true, false, false]);
+    expect(certified).toBe(true);
+    expect(policy.getDiagnostics()).toMatchObject({ admitted: 4, droppedOriginLimit: 2 });
+  });
+
+  it('relays after a random delay unless enough neighbours were overheard relaying first', async () => {
+    const policy = new MeshRelayPolicy({ minDelayMs: 100, maxDelayMs: 200, suppressAfterHeard: 3 }, () => 0.5);
+    const relay = vi.fn();
+
+    policy.noteHeard('quiet', 'origin');
+    policy.scheduleRelay('quiet', 0, relay);
+    policy.noteHeard('crowded', 'origin');
+    policy.scheduleRelay('crowded', 0, relay);
+    policy.noteHeard('crowded', 'neighbour-1');
+    policy.noteHeard('crowded', 'neighbour-1');
+    policy.noteHeard('crowded', 'neighbour-2');
+
+    expect(policy.getDiagnostics().pending).toBe(2);
+    await vi.advanceTimersByTimeAsync(200);
+
+    expect(relay).toHaveBeenCalledTimes(1);
+    expect(policy.getDiagnostics()).toMatchObject({ scheduled: 2, relayed: 1, suppressed: 1, pending: 0 });
+  });
+
+  it('always relays the first hop but only a share of later ones', () => {
+    const policy = new MeshRelayPolicy({ relayProbability: 0.7, guaranteedHops: 1 }, () => 0.9);
+
+    policy.scheduleRelay('from-origin', 0, vi.fn());
+    policy.scheduleRelay('from-relay', 1, vi.fn());
+
+    expect(policy.getDiagnostics()).toMatchObject({ scheduled: 1, skippedByChance: 1 });
+    policy.cancelAll();
+  });
+
+  it('caps relays per minute across all origins', async () => {
+    const policy = new MeshRelayPolicy({ relayBudgetPerMinute: 2, minDelayMs: 0, maxDelayMs: 1 }, () => 0);
+    const relay = vi.fn();
+
+    for (const messageId of ['a', 'b', 'c']) {
+      policy.scheduleRelay(messageId, 0, relay);
+    }
+    await vi.advanceTimersByTimeAsync(30_000);
+    policy.scheduleRelay('d', 0, relay);
+    await vi.advanceTimersByTimeAsync(1);
+
+    expect(relay).toHaveBeenCalledTimes(3);
+    expect(policy.getDiagnostics()).toMatchObject({ relayed: 3, droppedBudget: 1 });
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+
+import { fragmentFrame } from '../services/mesh/meshFraming';
+import {
+  decodeInventory,
+  decodeSyncRequest,
+  decodeSyncResponse,
+  digestMessageId,
+  encodeInventory,
+  encodeSyncRequest,
+  encodeSyncResponse,
+  MAX_INVENTORY_DIGESTS,
+  MESH_SYNC_FRAGMENT_BYTES,
+} from '../services/mesh/meshSync';
+
+describe('mesh sync wire format', () => {
+  it('round-trips an inventory and caps it at the digest limit', () => {
+    const digests = ['mesh-1', 'mesh-2', 'mesh-3'].map(digestMessageId);
+    expect(decodeInventory(encodeInventory(digests))).toEqual(digests);
+
+    const oversized = Array.from({ length: MAX_INVENTORY_DIGESTS + 5 }, (_, index) => index + 0xfffff000);
+    expect(decodeInventory(encodeInventory(oversized))).toEqual(oversized.slice(0, MAX_INVENTORY_DIGESTS));
+    expect(decodeInventory(encodeInventory([]))).toEqual([]);
+  });
+
+  it('rejects empty and truncated inventories', () => {
+    const encoded = encodeInventory([digestMessageId('mesh-1'), digestMessageId('mesh-2')]);
+
+    expect(decodeInventory(new Uint8Array(0))).toBeNull();
+    expect(decodeInventory(encoded.subarray(0, encoded.length - 1))).toBeNull();
+  });
+
+  it('round-trips a fragment request', () => {
+    const request = { digest: digestMessageId('mesh-1'), fragmentIndex: 3 };
+
+    expect(decodeSyncRequest(encodeSyncRequest(request))).toEqual(request);
+    expect(decodeSyncRequest(new Uint8Array(3))).toBeNull();
+  });
+
+  it('round-trips a response carrying a fragment, or none once the envelope is gone', () => {
+    const digest = digestMessageId('mesh-1');
+    const frame = Uint8Array.from({ length: 600 }, (_, index) => index % 256);
+    const [fragment] = fragmentFrame(frame, MESH_SYNC_FRAGMENT_BYTES);
+
+    const encoded = encodeSyncResponse({ digest, fragment });
+    expect(encoded.length).toBeLessThanOrEqual(512);
+    expect(decodeSyncResponse(encoded)).toEqual({ digest, fragment });
+    expect(decodeSyncResponse(encodeSyncResponse({ digest, fragment: new Uint8Array(0) }))).toEqual({
+      digest,
+      fragment: new Uint8Array(0),
+    });
+    expect(decodeSyncResponse(new Uint8Array(2))).toBeNull();
+  });
+
+  it('decodes from a view into a larger buffer', () => {
+    const request = { digest: digestMessageId('mesh-2'), fragmentIndex: 1 };
+    const padded = new Uint8Array(16);
+    padded.set(encodeSyncRequest(request), 8);
+
+    expect(decodeSyncRequest(padded.subarray(8, 13))).toEqual(request);
+  });
+});
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+
+import { isRetryableResponse } from '../services/outboxPolicy';
+
+describe('outbox retry policy', () => {
+  it('keeps an entry queued when the device is not authenticated yet', () => {
+    expect(isRetryableResponse(401, { error: { code: 'UNAUTHORIZED' } })).toBe(true);
+  });
+
+  it('retries server errors, timeouts, rate limits and in-flight duplicates', () => {
+    expect(isRetryableResponse(503, null)).toBe(true);
+    expect(isRetryableResponse(408, null)).toBe(true);
+    expect(isRetryableResponse(429, null)).toBe(true);
+    expect(isRetryableResponse(409, { error: { code: 'IDEMPOTENCY_IN_PROGRESS' } })).toBe(true);
+  });
+
+  it('drops entries the backend refused for good', () => {
+    expect(isRetryableResponse(400, { error: { code: 'VALIDATION_ERROR' } })).toBe(false);
+    expect(isRetryableResponse(403, { error: { code: 'FORBIDDEN' } })).toBe(false);
+    expect(isRetryableResponse(409, { error: { code: 'IDEMPOTENCY_KEY_REUSED' } })).toBe(false);
+  });
+});
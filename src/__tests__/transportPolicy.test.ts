@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+
+import type { AlertTransport, AlertTransportDescriptor } from '../services/transport/alertTransport';
+import { resolveNetworkStatus, resolvePublishPlan } from '../services/transport/transportPolicy';
+
+function createTransport(id: string, descriptor: AlertTransportDescriptor, canPublish = true): AlertTransport {
+  const publishResult = Promise.resolve({ ok: true, alertId: '' });
+  return {
+    id,
+    descriptor,
+    start: () => Promise.resolve(),
+    stop: () => undefined,
+    getAvailability: () => ({ canPublish, canReceive: canPublish }),
+    publishSosTriggered: () => publishResult,
+    publishSosCancelled: () => publishResult,
+    publishSosAssigned: () => publishResult,
+    on: () => () => undefined,
+  };
+}
+
+const bluetooth = createTransport('bluetooth', { priority: 10, cost: 1, capabilities: ['PEER_TO_PEER'] });
+const internet = createTransport('internet', { priority: 20, cost: 1, capabilities: ['REACHES_BACKEND'] });
+const sms = createTransport('sms', { priority: 30, cost: 10, capabilities: ['REACHES_BACKEND'] });
+
+describe('transport policy', () => {
+  it('publishes on the highest priority transport and mirrors on the cheap ones in AUTO', () => {
+    const plan = resolvePublishPlan([sms, internet, bluetooth], 'AUTO');
+
+    expect(plan.primary?.id).toBe('bluetooth');
+    expect(plan.mirrors.map((transport) => transport.id)).toEqual(['internet']);
+    expect(resolveNetworkStatus([sms, internet, bluetooth], 'AUTO')).toBe('HYBRID');
+  });
+
+  it('restricts forced modes to transports with the required capability and no mirrors', () => {
+    const offlineInternet = createTransport('internet', internet.descriptor, false);
+
+    const forcedInternet = resolvePublishPlan([bluetooth, offlineInternet, sms], 'FORCE_INTERNET');
+    const forcedMesh = resolvePublishPlan([bluetooth, internet], 'FORCE_MESH');
+
+    expect(forcedInternet.primary?.id).toBe('sms');
+    expect(forcedInternet.mirrors).toEqual([]);
+    expect(forcedMesh.primary?.id).toBe('bluetooth');
+    expect(forcedMesh.mirrors).toEqual([]);
+    expect(resolveNetworkStatus([bluetooth, internet], 'FORCE_MESH')).toBe('MESH_ONLY');
+  });
+
+  it('reports offline when no eligible transport can publish', () => {
+    const offlineBluetooth = createTransport('bluetooth', bluetooth.descriptor, false);
+
+    expect(resolvePublishPlan([offlineBluetooth, internet], 'FORCE_MESH').primary).toBeNull();
+    expect(resolveNetworkStatus([offlineBluetooth, internet], 'FORCE_MESH')).toBe('OFFLINE');
+    expect(resolveNetworkStatus([offlineBluetooth, internet], 'AUTO')).toBe('INTERNET');
+  });
+});
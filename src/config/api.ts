@@ -6,19 +6,68 @@ export const RIDER_HEARTBEAT_API_URL = `${BASE_URL}/api/v1/riders/heartbeat`;
 export const HAZARDS_API_URL = `${BASE_URL}/api/v1/hazards`;
 export const RIDES_API_URL = `${BASE_URL}/api/v1/rides`;
 export const RIDES_START_API_URL = `${RIDES_API_URL}/start`;
+export const MESH_RELAY_API_URL = `${BASE_URL}/api/v1/mesh/relay`;
+export const MESH_KEYS_API_URL = `${BASE_URL}/api/v1/mesh/keys`;
+export const MESH_TRUST_API_URL = `${BASE_URL}/api/v1/mesh/trust`;
 
 export function alertAcceptApiUrl(alertId: string): string {
   return `${ALERTS_API_URL}/${alertId}/accept`;
 }
 
+export function alertResolveApiUrl(alertId: string): string {
+  return `${ALERTS_API_URL}/${alertId}/resolve`;
+}
+
 export function buildAlertStatusApiUrl(alertId: string): string {
   return `${ALERTS_API_URL}/${alertId}/status`;
 }
 
+export function hazardPhotoApiUrl(hazardId: string): string {
+  return `${HAZARDS_API_URL}/${hazardId}/photo`;
+}
+
+/** Hazard photo URLs come back relative to the API host. */
+export function resolveApiUrl(path: string): string {
+  return path.startsWith('/') ? `${BASE_URL}${path}` : path;
+}
+
 export function rideEndApiUrl(rideId: string): string {
   return `${RIDES_API_URL}/${rideId}/end`;
 }
 
+export function rideTrackApiUrl(rideId: string): string {
+  return `${RIDES_API_URL}/${rideId}/track`;
+}
+
+export function riderContactsApiUrl(deviceId: string): string {
+  return `${BASE_URL}/api/v1/riders/${encodeURIComponent(deviceId)}/contacts`;
+}
+
+export function riderContactApiUrl(deviceId: string, contactId: string): string {
+  return `${riderContactsApiUrl(deviceId)}/${encodeURIComponent(contactId)}`;
+}
+
 export function ridesByDeviceApiUrl(deviceId: string): string {
   return `${RIDES_API_URL}?deviceId=${encodeURIComponent(deviceId)}`;
 }
+
+export function alertEventsApiUrl(alertId: string, cursor?: string | null): string {
+  const base = `${ALERTS_API_URL}/${alertId}/events`;
+  return cursor ? `${base}?cursor=${encodeURIComponent(cursor)}` : base;
+}
+
+export function alertApiUrl(alertId: string): string {
+  return `${ALERTS_API_URL}/${alertId}`;
+}
+
+export function nearbyAlertsApiUrl(latitude: number, longitude: number, radiusMeters: number): string {
+  return `${ALERTS_API_URL}/nearby?lat=${latitude}&lon=${longitude}&radius=${Math.round(radiusMeters)}`;
+}
+
+export function nearbyHazardsApiUrl(latitude: number, longitude: number, radiusMeters: number): string {
+  return `${HAZARDS_API_URL}?lat=${latitude}&lon=${longitude}&radius=${Math.round(radiusMeters)}`;
+}
+
+export const DEVICES_REGISTER_API_URL = `${BASE_URL}/api/v1/devices/register`;
+export const DEVICES_TOKEN_API_URL = `${BASE_URL}/api/v1/devices/token`;
+export const DEVICES_ROTATE_KEY_API_URL = `${BASE_URL}/api/v1/devices/rotate-key`;
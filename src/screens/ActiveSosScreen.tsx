@@ -1,17 +1,32 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useRouter } from 'expo-router';
-import { Animated, Linking, Pressable, StyleSheet, Text, View } from 'react-native';
+import { Animated, Linking, Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
 
 import { StatusBadge } from '@/src/components/ui';
 import {
+  alertTimelineService,
   emergencyContactsService,
   emergencyControllerService,
   networkMeshService,
   profileService,
+  responderTrackingService,
+  smsNotificationService,
+  type AlertOutcome,
+  type AlertTimelineEvent,
   type EmergencyControllerState,
   type NetworkMeshStatus,
+  type ResponderApproach,
+  type SmsDelivery,
 } from '@/src/services';
 
+const TIMELINE_REFRESH_MS = 10_000;
+const TIMELINE_VISIBLE_EVENTS = 6;
+const RESOLVE_OPTIONS: { outcome: AlertOutcome; label: string }[] = [
+  { outcome: 'FALSE_ALARM', label: 'False alarm' },
+  { outcome: 'MINOR', label: 'Minor, I am OK' },
+  { outcome: 'HOSPITAL_TRANSFER', label: 'Going to hospital' },
+];
+
 export function ActiveSosScreen() {
   const router = useRouter();
   const [state, setState] = useState<EmergencyControllerState>(emergencyControllerService.getState());
@@ -19,8 +34,14 @@ export function ActiveSosScreen() {
   const [networkStatus, setNetworkStatus] = useState<NetworkMeshStatus>('INTERNET');
   const [contactPhone, setContactPhone] = useState<string | null>(null);
   const [callStateText, setCallStateText] = useState<string>('Ready');
+  const [smsDeliveries, setSmsDeliveries] = useState<SmsDelivery[]>(latestAlertDeliveries());
   const pulse = useRef(new Animated.Value(1)).current;
+  const [timeline, setTimeline] = useState<AlertTimelineEvent[]>([]);
+  const [responderName, setResponderName] = useState<string | null>(null);
+  const [resolving, setResolving] = useState(false);
+  const [approach, setApproach] = useState<ResponderApproach | null>(responderTrackingService.getLastApproach());
   const lastAlert = emergencyControllerService.getLastAlertEvent();
+  const alertId = lastAlert?.alertId ?? null;
   const closeScreen = useCallback(() => {
     if (router.canGoBack()) {
       router.back();
@@ -49,9 +70,22 @@ export function ActiveSosScreen() {
     const offCancelled = emergencyControllerService.on('CANCELLED', () => {
       setState('NORMAL');
     });
+    const offAssigned = emergencyControllerService.on('RESPONDER_ASSIGNED', (event) => {
+      setState(emergencyControllerService.getState());
+      setResponderName(event.responderName);
+    });
+    const offResolved = emergencyControllerService.on('RESOLVED', () => {
+      setState('NORMAL');
+    });
+    const offApproach = responderTrackingService.on('RESPONDER_LOCATION', (next) => {
+      setApproach(next);
+    });
     const offNetwork = networkMeshService.on('STATUS_CHANGED', ({ status }) => {
       setNetworkStatus(status);
     });
+    const offSms = smsNotificationService.on('DELIVERY_UPDATED', () => {
+      setSmsDeliveries(latestAlertDeliveries());
+    });
 
     const timer = setInterval(() => setNow(Date.now()), 1000);
 
@@ -67,12 +101,37 @@ export function ActiveSosScreen() {
       active = false;
       offAlert();
       offCancelled();
+      offAssigned();
+      offResolved();
+      offApproach();
       offNetwork();
+      offSms();
       clearInterval(timer);
       loop.stop();
     };
   }, [closeScreen, pulse, router]);
 
+  useEffect(() => {
+    if (!alertId) {
+      setTimeline([]);
+      return;
+    }
+
+    let active = true;
+    const refresh = async () => {
+      const events = await alertTimelineService.fetchTimeline(alertId);
+      if (active && events) {
+        setTimeline(events);
+      }
+    };
+    void refresh();
+    const timer = setInterval(() => void refresh(), TIMELINE_REFRESH_MS);
+    return () => {
+      active = false;
+      clearInterval(timer);
+    };
+  }, [alertId, state]);
+
   useEffect(() => {
     if (
       state !== 'SOS_DISPATCHED' &&
@@ -119,6 +178,15 @@ export function ActiveSosScreen() {
     }
   };
 
+  const onResolve = async (outcome: AlertOutcome) => {
+    setResolving(true);
+    const result = await emergencyControllerService.resolve({ outcome });
+    setResolving(false);
+    if (!result.ok) {
+      setCallStateText(result.reason ?? 'Unable to close the alert');
+    }
+  };
+
   return (
     <View style={styles.container}>
       <Text style={styles.title}>Emergency Mode Activated</Text>
@@ -129,6 +197,41 @@ export function ActiveSosScreen() {
         <Text style={styles.meta}>Escalation in: {formatTimer(escalationSeconds)}</Text>
         <Text style={styles.meta}>Call Contact: {contactPhone ?? 'Not configured'}</Text>
       </View>
+      {state === 'RESPONDER_ASSIGNED' ? (
+        <View style={styles.statusCard}>
+          <Text style={styles.timelineTitle}>{responderName ?? 'A rider'} is on the way</Text>
+          <Text style={styles.meta}>
+            Distance: {approach ? formatDistance(approach.distanceMeters) : 'Waiting for location'}
+          </Text>
+          <Text style={styles.meta}>ETA: {approach ? formatEta(approach.etaSeconds) : '--'}</Text>
+          {approach ? <Text style={styles.callState}>Updated {formatClock(approach.timestamp)}</Text> : null}
+        </View>
+      ) : null}
+      {smsDeliveries.length > 0 ? (
+        <View style={styles.statusCard}>
+          {smsDeliveries.map((delivery) => (
+            <Text key={delivery.id} style={styles.meta}>
+              SMS to {delivery.contactName}: {formatSmsStatus(delivery)}
+            </Text>
+          ))}
+        </View>
+      ) : null}
+      {timeline.length > 0 ? (
+        <View style={styles.statusCard}>
+          <Text style={styles.timelineTitle}>Alert timeline</Text>
+          <ScrollView style={styles.timelineList}>
+            {timeline
+              .slice(-TIMELINE_VISIBLE_EVENTS)
+              .reverse()
+              .map((event) => (
+                <View key={event.id} style={styles.timelineRow}>
+                  <Text style={styles.timelineTime}>{formatClock(event.createdAt)}</Text>
+                  <Text style={styles.timelineText}>{describeTimelineEvent(event)}</Text>
+                </View>
+              ))}
+          </ScrollView>
+        </View>
+      ) : null}
       <Text style={styles.callState}>{callStateText}</Text>
 
       <Animated.View style={{ transform: [{ scale: pulse }] }}>
@@ -136,13 +239,127 @@ export function ActiveSosScreen() {
           <Text style={styles.primaryButtonText}>Call Emergency Contact</Text>
         </Pressable>
       </Animated.View>
-      <Pressable style={styles.secondaryButton} onPress={() => emergencyControllerService.cancel()}>
-        <Text style={styles.secondaryButtonText}>Cancel SOS</Text>
-      </Pressable>
+      {state === 'RESPONDER_ASSIGNED' || state === 'ALERT_ESCALATED' ? (
+        <View style={styles.resolveRow}>
+          {RESOLVE_OPTIONS.map((option) => (
+            <Pressable
+              key={option.outcome}
+              style={[styles.resolveButton, resolving && styles.resolveButtonDisabled]}
+              disabled={resolving}
+              onPress={() => void onResolve(option.outcome)}>
+              <Text style={styles.resolveButtonText}>{option.label}</Text>
+            </Pressable>
+          ))}
+        </View>
+      ) : (
+        <Pressable style={styles.secondaryButton} onPress={() => emergencyControllerService.cancel()}>
+          <Text style={styles.secondaryButtonText}>Cancel SOS</Text>
+        </Pressable>
+      )}
     </View>
   );
 }
 
+function latestAlertDeliveries(): SmsDelivery[] {
+  const deliveries = smsNotificationService.getDeliveries();
+  const latestAlertId = deliveries[0]?.alertId;
+  if (!latestAlertId) {
+    return [];
+  }
+
+  // Show the escalation message status when present, otherwise the initial dispatch one.
+  const forAlert = deliveries.filter((delivery) => delivery.alertId === latestAlertId);
+  const latestTrigger = forAlert[0]?.trigger;
+  return forAlert.filter((delivery) => delivery.trigger === latestTrigger);
+}
+
+function formatSmsStatus(delivery: SmsDelivery): string {
+  switch (delivery.status) {
+    case 'PENDING':
+      return delivery.attempts > 0 ? `Retrying (attempt ${delivery.attempts + 1})` : 'Queued';
+    case 'SENDING':
+      return 'Sending';
+    case 'SENT':
+      return 'Sent';
+    case 'SUBMITTED':
+      return 'Handed to SMS app';
+    case 'FAILED':
+      return delivery.lastError ?? 'Failed';
+    case 'CANCELLED':
+      return 'Cancelled';
+  }
+}
+
+function describeTimelineEvent(event: AlertTimelineEvent): string {
+  switch (event.type) {
+    case 'ALERT_CREATED':
+      return 'SOS received by the server';
+    case 'DISPATCH_STEP': {
+      const radiusMeters = event.metadata.radiusMeters;
+      const notified = event.metadata.notifiedDeviceIds;
+      const notifiedCount = Array.isArray(notified) ? notified.length : 0;
+      const radius = typeof radiusMeters === 'number' ? `${(radiusMeters / 1000).toFixed(0)} km` : 'nearby';
+      return `Searched ${radius} radius, ${notifiedCount} new rider${notifiedCount === 1 ? '' : 's'} alerted`;
+    }
+    case 'RIDERS_NOTIFIED': {
+      const riders = event.metadata.riders;
+      const count = Array.isArray(riders) ? riders.length : 0;
+      return `Alert delivered to ${count} nearby rider${count === 1 ? '' : 's'}`;
+    }
+    case 'RESPONDER_ASSIGNED': {
+      const name = event.metadata.responderName;
+      return `${typeof name === 'string' && name ? name : 'A rider'} accepted and is responding`;
+    }
+    case 'ASSIGNMENT_BROADCAST':
+      return 'Responder assignment shared';
+    case 'STATUS_UPDATED':
+      return `Status changed to ${event.toStatus ?? 'unknown'}`;
+    case 'CANCELLATION_BROADCAST':
+      return 'Cancellation sent to nearby riders';
+    case 'ESCALATED':
+      return 'No rider accepted in time, alert escalated';
+    case 'ALERT_RESOLVED':
+      return `Alert closed: ${describeOutcome(event.metadata.outcome)}`;
+    case 'RESOLUTION_BROADCAST':
+      return 'Resolution shared with the responder';
+  }
+}
+
+function describeOutcome(outcome: unknown): string {
+  switch (outcome) {
+    case 'FALSE_ALARM':
+      return 'false alarm';
+    case 'MINOR':
+      return 'minor incident';
+    case 'HOSPITAL_TRANSFER':
+      return 'hospital transfer';
+    default:
+      return 'resolved';
+  }
+}
+
+function formatClock(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}:${String(
+    date.getSeconds()
+  ).padStart(2, '0')}`;
+}
+
+function formatDistance(distanceMeters: number | null): string {
+  if (distanceMeters === null) {
+    return 'Unknown';
+  }
+  return distanceMeters < 1000 ? `${Math.round(distanceMeters)} m` : `${(distanceMeters / 1000).toFixed(1)} km`;
+}
+
+function formatEta(etaSeconds: number | null): string {
+  if (etaSeconds === null) {
+    return '--';
+  }
+  // Under a minute away the responder is effectively arriving; a countdown of seconds would be noise.
+  return etaSeconds < 60 ? 'Arriving' : `~${Math.round(etaSeconds / 60)} min`;
+}
+
 function formatTimer(seconds: number): string {
   const mins = Math.floor(seconds / 60);
   const rem = seconds % 60;
@@ -175,6 +392,30 @@ const styles = StyleSheet.create({
     fontSize: 15,
     lineHeight: 22,
   },
+  timelineTitle: {
+    color: '#FFFFFF',
+    fontSize: 15,
+    fontWeight: '800',
+  },
+  timelineList: {
+    maxHeight: 160,
+  },
+  timelineRow: {
+    flexDirection: 'row',
+    gap: 10,
+    paddingVertical: 3,
+  },
+  timelineTime: {
+    color: '#9CA3AF',
+    fontSize: 13,
+    fontVariant: ['tabular-nums'],
+  },
+  timelineText: {
+    flex: 1,
+    color: '#D1D5DB',
+    fontSize: 13,
+    lineHeight: 18,
+  },
   callState: {
     color: '#9CA3AF',
     fontSize: 13,
@@ -192,6 +433,28 @@ const styles = StyleSheet.create({
     fontSize: 15,
     fontWeight: '800',
   },
+  resolveRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  resolveButton: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#22C55E',
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 6,
+    alignItems: 'center',
+  },
+  resolveButtonDisabled: {
+    opacity: 0.5,
+  },
+  resolveButtonText: {
+    color: '#86EFAC',
+    fontSize: 13,
+    fontWeight: '800',
+    textAlign: 'center',
+  },
   secondaryButton: {
     borderWidth: 1,
     borderColor: '#EF4444',
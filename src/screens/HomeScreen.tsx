@@ -6,6 +6,8 @@ import { StatusBadge } from '@/src/components/ui';
 import {
     crashDetectionService,
     emergencyControllerService,
+    fatigueService,
+    hazardProximityService,
     hazardService,
     locationService,
     networkMeshService,
@@ -13,7 +15,12 @@ import {
     responderService,
     rideSessionService,
     settingsService,
+    type FatigueLevel,
+    type FatigueWarningEvent,
     type HazardRecord,
+    type HazardType,
+    type HazardVote,
+    type HazardWarningEvent,
     type NetworkMeshStatus,
     type ResponderAlert,
     type RideSession
@@ -72,6 +79,15 @@ export function HomeScreen() {
   const [responderFeedback, setResponderFeedback] = useState<string | null>(null);
   const [isAcceptingAlert, setIsAcceptingAlert] = useState(false);
   const [assignedResponderName, setAssignedResponderName] = useState<string | null>(null);
+  const [fatigueLevel, setFatigueLevel] = useState<FatigueLevel>(
+    fatigueService.getLatestAssessment()?.level ?? 'LOW'
+  );
+  const [fatigueWarning, setFatigueWarning] = useState<FatigueWarningEvent | null>(
+    fatigueService.getLatestWarning()
+  );
+  const [hazardWarning, setHazardWarning] = useState<HazardWarningEvent | null>(
+    hazardProximityService.getLatestWarning()
+  );
 
   const crashModalOpen = useRef(false);
   const contentFade = useRef(new Animated.Value(0)).current;
@@ -180,12 +196,25 @@ export function HomeScreen() {
     const offRideEnded = rideSessionService.on('RIDE_ENDED', ({ session }) => {
       setRideSession(session);
       setElapsedMs(0);
+      setFatigueLevel('LOW');
+      setFatigueWarning(null);
+      setHazardWarning(null);
+    });
+    const offFatigueAssessed = fatigueService.on('FATIGUE_ASSESSED', ({ assessment }) => {
+      setFatigueLevel(assessment.level);
+    });
+    const offFatigueWarning = fatigueService.on('FATIGUE_WARNING', (event) => {
+      setFatigueLevel(event.level);
+      setFatigueWarning(event);
+    });
+    const offHazardWarning = hazardProximityService.on('HAZARD_WARNING', (event) => {
+      setHazardWarning(event);
     });
     const offRideEndedWithSummary = rideSessionService.on('RIDE_ENDED', ({ summary }) => {
       router.push({ pathname: '/ride-summary', params: { summaryId: summary.id } });
     });
     const offHazardAdded = hazardService.on('HAZARD_ADDED', ({ hazard }) => {
-      setHazards((prev) => [hazard, ...prev]);
+      setHazards((prev) => [hazard, ...prev.filter((item) => item.id !== hazard.id)]);
       logHeatmapDebug('hazard added event', {
         id: hazard.id,
         type: hazard.type,
@@ -193,6 +222,9 @@ export function HomeScreen() {
         longitude: hazard.longitude,
       });
     });
+    const offHazardUpdated = hazardService.on('HAZARD_UPDATED', ({ hazard }) => {
+      setHazards((prev) => prev.map((item) => (item.id === hazard.id ? hazard : item)));
+    });
     const offHazardRemoved = hazardService.on('HAZARD_REMOVED', ({ id }) => {
       setHazards((prev) => prev.filter((item) => item.id !== id));
       logHeatmapDebug('hazard removed event', { id });
@@ -235,7 +267,11 @@ export function HomeScreen() {
       offRideStarted();
       offRideEnded();
       offRideEndedWithSummary();
+      offFatigueAssessed();
+      offFatigueWarning();
+      offHazardWarning();
       offHazardAdded();
+      offHazardUpdated();
       offHazardRemoved();
       offResponder();
       clearInterval(positionTimer);
@@ -294,16 +330,15 @@ export function HomeScreen() {
   const HeatmapComponent = mapModules.Heatmap;
   const CircleComponent = mapModules.Circle;
 
-  const fatigueLevel = useMemo(() => {
-    const mins = Math.floor(elapsedMs / 60000);
-    if (mins >= 120) {
+  const fatigueLevelLabel = useMemo(() => {
+    if (fatigueLevel === 'HIGH') {
       return 'High';
     }
-    if (mins >= 60) {
+    if (fatigueLevel === 'MODERATE') {
       return 'Moderate';
     }
     return 'Low';
-  }, [elapsedMs]);
+  }, [fatigueLevel]);
 
   const networkVariant = useMemo(() => {
     if (networkStatus === 'INTERNET') {
@@ -435,6 +470,18 @@ export function HomeScreen() {
     }
   };
 
+  const onHazardVote = (warning: HazardWarningEvent, vote: HazardVote) => {
+    hazardProximityService.dismissWarning();
+    setHazardWarning(null);
+    const request =
+      vote === 'CONFIRM'
+        ? hazardService.confirmHazard(warning.hazard.id)
+        : hazardService.denyHazard(warning.hazard.id);
+    request.catch(() => {
+      // Votes are best-effort; the rider's own report or a network error just skips this one.
+    });
+  };
+
   const onAcceptNearbyAlert = async (alertId: string) => {
     setResponderFeedback(null);
     setIsAcceptingAlert(true);
@@ -491,6 +538,47 @@ export function HomeScreen() {
         </View>
       ) : null}
 
+      {fatigueWarning && rideSession.state === 'ACTIVE' ? (
+        <View style={styles.fatigueCard}>
+          <Text style={styles.fatigueTitle}>
+            {fatigueWarning.level === 'HIGH' ? 'Fatigue Warning: Take a Break Now' : 'Fatigue Warning'}
+          </Text>
+          <Text style={styles.fatigueMeta}>{fatigueWarning.suggestion}</Text>
+          <Pressable
+            style={styles.fatigueDismiss}
+            onPress={() => {
+              fatigueService.dismissWarning();
+              setFatigueWarning(null);
+            }}>
+            <Text style={styles.fatigueDismissText}>Dismiss</Text>
+          </Pressable>
+        </View>
+      ) : null}
+
+      {hazardWarning && rideSession.state === 'ACTIVE' ? (
+        <View style={styles.fatigueCard}>
+          <Text style={styles.fatigueTitle}>
+            {describeHazardType(hazardWarning.hazard.type)} ahead · {hazardWarning.distanceMeters} m
+          </Text>
+          {hazardWarning.hazard.description ? (
+            <Text style={styles.fatigueMeta}>{hazardWarning.hazard.description}</Text>
+          ) : null}
+          <Text style={styles.fatigueMeta}>Is it still there?</Text>
+          <View style={styles.hazardVoteRow}>
+            <Pressable
+              style={[styles.fatigueDismiss, styles.hazardVoteButton]}
+              onPress={() => onHazardVote(hazardWarning, 'CONFIRM')}>
+              <Text style={styles.fatigueDismissText}>Still there</Text>
+            </Pressable>
+            <Pressable
+              style={[styles.fatigueDismiss, styles.hazardVoteButton]}
+              onPress={() => onHazardVote(hazardWarning, 'DENY')}>
+              <Text style={styles.fatigueDismissText}>Gone</Text>
+            </Pressable>
+          </View>
+        </View>
+      ) : null}
+
       {controllerState === 'SOS_DISPATCHED' ||
       controllerState === 'ESCALATION_COUNTDOWN' ||
       controllerState === 'ALERT_ESCALATED' ||
@@ -578,7 +666,7 @@ export function HomeScreen() {
       <View style={styles.statusCard}>
         <Text style={styles.statusTitle}>Ride Status</Text>
         <Text style={styles.statusText}>Ride Time: {formatDuration(elapsedMs)}</Text>
-        <Text style={styles.statusText}>Fatigue Level: {fatigueLevel}</Text>
+        <Text style={styles.statusText}>Fatigue Level: {fatigueLevelLabel}</Text>
         <Text style={styles.statusText}>Mesh Status: {networkStatus}</Text>
       </View>
 
@@ -628,6 +716,25 @@ function distanceMeters(lat1: number, lon1: number, lat2: number, lon2: number):
   return earthRadius * c;
 }
 
+function describeHazardType(type: HazardType): string {
+  switch (type) {
+    case 'POTHOLE':
+      return 'Pothole';
+    case 'CONSTRUCTION':
+      return 'Construction';
+    case 'WATERLOGGING':
+      return 'Waterlogging';
+    case 'ACCIDENT_ZONE':
+      return 'Accident zone';
+    case 'ANIMAL':
+      return 'Animal on the road';
+    case 'OIL_SPILL':
+      return 'Oil spill';
+    case 'BROKEN_SIGNAL':
+      return 'Broken signal';
+  }
+}
+
 function shortDeviceId(value: string): string {
   if (value.length <= 12) {
     return value;
@@ -712,6 +819,44 @@ const styles = StyleSheet.create({
   nearbyAlertDisabled: {
     opacity: 0.7,
   },
+  fatigueCard: {
+    backgroundColor: '#1F2937',
+    borderColor: '#F59E0B',
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    gap: 6,
+  },
+  fatigueTitle: {
+    color: '#FDE68A',
+    fontSize: 15,
+    fontWeight: '800',
+  },
+  fatigueMeta: {
+    color: '#E5E7EB',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  fatigueDismiss: {
+    marginTop: 4,
+    borderWidth: 1,
+    borderColor: '#6B7280',
+    borderRadius: 8,
+    paddingVertical: 8,
+    alignItems: 'center',
+  },
+  hazardVoteRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  hazardVoteButton: {
+    flex: 1,
+  },
+  fatigueDismissText: {
+    color: '#D1D5DB',
+    fontSize: 13,
+    fontWeight: '700',
+  },
   activeSosCard: {
     backgroundColor: '#7F1D1D',
     borderColor: '#FCA5A5',
@@ -1,11 +1,25 @@
 import { useEffect, useState } from 'react';
-import { Pressable, StyleSheet, Text, View } from 'react-native';
+import { Pressable, StyleSheet, Text, TextInput, View } from 'react-native';
 
-import { responderService, type ResponderAlert } from '@/src/services';
+import {
+  responderService,
+  type AlertOutcome,
+  type ResponderAlert,
+  type ResponderAssignment,
+} from '@/src/services';
+
+const OUTCOME_OPTIONS: { outcome: AlertOutcome; label: string }[] = [
+  { outcome: 'FALSE_ALARM', label: 'False alarm' },
+  { outcome: 'MINOR', label: 'Minor' },
+  { outcome: 'HOSPITAL_TRANSFER', label: 'Hospital' },
+];
 
 export function ResponderInboxScreen() {
   const [alerts, setAlerts] = useState<ResponderAlert[]>(responderService.getAlerts());
   const [feedback, setFeedback] = useState<string | null>(null);
+  const [assignment, setAssignment] = useState<ResponderAssignment | null>(responderService.getAssignment());
+  const [notes, setNotes] = useState('');
+  const [resolving, setResolving] = useState(false);
 
   useEffect(() => {
     let active = true;
@@ -21,10 +35,17 @@ export function ResponderInboxScreen() {
     const off = responderService.on('ALERTS_UPDATED', ({ alerts: nextAlerts }) => {
       setAlerts(nextAlerts);
     });
+    const offAssignment = responderService.on('ASSIGNMENT_UPDATED', ({ assignment: next }) => {
+      setAssignment(next);
+      if (!next) {
+        setNotes('');
+      }
+    });
 
     return () => {
       active = false;
       off();
+      offAssignment();
     };
   }, []);
 
@@ -38,11 +59,56 @@ export function ResponderInboxScreen() {
     }
   };
 
+  const onResolve = async (outcome: AlertOutcome) => {
+    setFeedback(null);
+    setResolving(true);
+    const result = await responderService.resolveAssignment({ outcome, notes });
+    setResolving(false);
+    setFeedback(result.ok ? 'Alert closed' : (result.reason ?? 'Unable to close alert'));
+  };
+
   return (
     <View style={styles.container}>
       <Text style={styles.title}>Responder Inbox</Text>
       <Text style={styles.subtitle}>Nearby alerts within 1km appear here.</Text>
       {feedback ? <Text style={styles.feedback}>{feedback}</Text> : null}
+      {assignment ? (
+        <View style={[styles.card, styles.assignmentCard]}>
+          <Text style={styles.cardTitle}>
+            Responding to {assignment.victimName ?? `alert ${assignment.alertId.slice(-6)}`}
+          </Text>
+          <Text style={styles.cardText}>
+            {assignment.arrivedAt
+              ? `On scene since ${new Date(assignment.arrivedAt).toLocaleTimeString()}`
+              : 'Your location is shared with the rider until the alert is closed.'}
+          </Text>
+          {assignment.arrivedAt === null ? (
+            <Pressable style={styles.acceptButton} onPress={() => responderService.markArrived()}>
+              <Text style={styles.acceptButtonText}>I have arrived</Text>
+            </Pressable>
+          ) : null}
+          <TextInput
+            style={styles.notesInput}
+            value={notes}
+            onChangeText={setNotes}
+            placeholder="Notes for the incident report"
+            placeholderTextColor="#6B7280"
+            multiline
+            maxLength={1000}
+          />
+          <View style={styles.outcomeRow}>
+            {OUTCOME_OPTIONS.map((option) => (
+              <Pressable
+                key={option.outcome}
+                style={[styles.outcomeButton, resolving && styles.outcomeButtonDisabled]}
+                disabled={resolving}
+                onPress={() => void onResolve(option.outcome)}>
+                <Text style={styles.outcomeButtonText}>{option.label}</Text>
+              </Pressable>
+            ))}
+          </View>
+        </View>
+      ) : null}
       {alerts.length === 0 ? (
         <Text style={styles.emptyText}>No nearby open alerts.</Text>
       ) : (
@@ -115,6 +181,39 @@ const styles = StyleSheet.create({
     color: '#D1D5DB',
     fontSize: 13,
   },
+  assignmentCard: {
+    borderColor: '#16A34A',
+  },
+  notesInput: {
+    minHeight: 60,
+    borderWidth: 1,
+    borderColor: '#374151',
+    borderRadius: 8,
+    padding: 8,
+    color: '#F9FAFB',
+    fontSize: 13,
+    textAlignVertical: 'top',
+  },
+  outcomeRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  outcomeButton: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#60A5FA',
+    borderRadius: 8,
+    paddingVertical: 8,
+    alignItems: 'center',
+  },
+  outcomeButtonDisabled: {
+    opacity: 0.5,
+  },
+  outcomeButtonText: {
+    color: '#BFDBFE',
+    fontSize: 13,
+    fontWeight: '700',
+  },
   acceptButton: {
     marginTop: 6,
     backgroundColor: '#16A34A',
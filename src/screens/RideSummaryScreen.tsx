@@ -1,14 +1,43 @@
-import { useEffect, useMemo, useState } from 'react';
+import { useEffect, useMemo, useState, type ComponentType } from 'react';
 import { useLocalSearchParams, useRouter } from 'expo-router';
 import { Pressable, StyleSheet, Text, View } from 'react-native';
 
 import { AppScreen, SectionCard } from '@/src/components/ui';
-import { rideSessionService, type RideSummary } from '@/src/services';
+import { rideSessionService, type RideSummary, type RideTrackPoint } from '@/src/services';
+
+type MapModules = {
+  available: boolean;
+  MapView?: ComponentType<any>;
+  Marker?: ComponentType<any>;
+  Polyline?: ComponentType<any>;
+  ProviderGoogle?: unknown;
+};
+
+const REPLAY_STEP_MS = 100;
+
+function loadMapModules(): MapModules {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    const maps = require('react-native-maps');
+    return {
+      available: true,
+      MapView: maps.default,
+      Marker: maps.Marker,
+      Polyline: maps.Polyline,
+      ProviderGoogle: maps.PROVIDER_GOOGLE,
+    };
+  } catch {
+    return { available: false };
+  }
+}
 
 export function RideSummaryScreen() {
   const router = useRouter();
   const params = useLocalSearchParams<{ summaryId?: string }>();
+  const mapModules = useMemo(loadMapModules, []);
   const [summary, setSummary] = useState<RideSummary | null>(null);
+  const [trackPoints, setTrackPoints] = useState<RideTrackPoint[]>([]);
+  const [replayIndex, setReplayIndex] = useState<number | null>(null);
 
   useEffect(() => {
     let active = true;
@@ -34,6 +63,52 @@ export function RideSummaryScreen() {
     return formatDuration(summary.durationMs);
   }, [summary]);
 
+  useEffect(() => {
+    setTrackPoints([]);
+    setReplayIndex(null);
+    if (!summary) {
+      return;
+    }
+
+    let active = true;
+    void rideSessionService.fetchTrack(summary.id).then((track) => {
+      if (active && track) {
+        setTrackPoints(track.points);
+      }
+    });
+    return () => {
+      active = false;
+    };
+  }, [summary]);
+
+  useEffect(() => {
+    if (replayIndex === null) {
+      return;
+    }
+    if (replayIndex >= trackPoints.length - 1) {
+      setReplayIndex(null);
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      setReplayIndex(replayIndex + 1);
+    }, REPLAY_STEP_MS);
+    return () => {
+      clearTimeout(timer);
+    };
+  }, [replayIndex, trackPoints.length]);
+
+  const trackCoordinates = useMemo(
+    () => trackPoints.map((point) => ({ latitude: point.latitude, longitude: point.longitude })),
+    [trackPoints]
+  );
+  const trackRegion = useMemo(() => toTrackRegion(trackCoordinates), [trackCoordinates]);
+  const replayPosition = replayIndex === null ? null : trackCoordinates[replayIndex] ?? null;
+
+  const MapViewComponent = mapModules.MapView;
+  const MarkerComponent = mapModules.Marker;
+  const PolylineComponent = mapModules.Polyline;
+
   return (
     <AppScreen>
       <View style={styles.container}>
@@ -42,10 +117,33 @@ export function RideSummaryScreen() {
           <Text style={styles.metric}>Duration: {durationLabel}</Text>
           <Text style={styles.metric}>Distance: {summary?.distanceKm ?? 0} km</Text>
           <Text style={styles.metric}>Fatigue Warnings: {summary?.fatigueWarnings ?? 0}</Text>
+          <Text style={styles.metric}>Hazard Warnings: {summary?.hazardWarnings ?? 0}</Text>
           <Text style={styles.metric}>Hazards Reported: {summary?.hazardsReported ?? 0}</Text>
           <Text style={styles.metric}>SOS Triggered: {summary?.sosTriggered ?? 0}</Text>
         </SectionCard>
 
+        {trackCoordinates.length > 1 && trackRegion ? (
+          <View style={styles.mapCard}>
+            {mapModules.available && MapViewComponent && PolylineComponent ? (
+              <MapViewComponent style={styles.map} initialRegion={trackRegion} provider={mapModules.ProviderGoogle}>
+                <PolylineComponent coordinates={trackCoordinates} strokeColor="#22D3EE" strokeWidth={3} />
+                {replayPosition && MarkerComponent ? (
+                  <MarkerComponent coordinate={replayPosition} pinColor="#2563EB" />
+                ) : null}
+              </MapViewComponent>
+            ) : (
+              <Text style={styles.metric}>Map unavailable. {trackCoordinates.length} track points recorded.</Text>
+            )}
+          </View>
+        ) : null}
+        {trackCoordinates.length > 1 ? (
+          <Pressable
+            style={styles.secondaryButton}
+            onPress={() => setReplayIndex(replayIndex === null ? 0 : null)}>
+            <Text style={styles.secondaryText}>{replayIndex === null ? 'Replay Ride' : 'Stop Replay'}</Text>
+          </Pressable>
+        ) : null}
+
         <Pressable style={styles.primaryButton} onPress={() => router.replace('/(tabs)/ride-history')}>
           <Text style={styles.primaryText}>Save Ride</Text>
         </Pressable>
@@ -65,6 +163,25 @@ function formatDuration(ms: number): string {
   return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
 }
 
+function toTrackRegion(coordinates: { latitude: number; longitude: number }[]) {
+  if (coordinates.length === 0) {
+    return null;
+  }
+
+  const latitudes = coordinates.map((point) => point.latitude);
+  const longitudes = coordinates.map((point) => point.longitude);
+  const minLatitude = Math.min(...latitudes);
+  const maxLatitude = Math.max(...latitudes);
+  const minLongitude = Math.min(...longitudes);
+  const maxLongitude = Math.max(...longitudes);
+  return {
+    latitude: (minLatitude + maxLatitude) / 2,
+    longitude: (minLongitude + maxLongitude) / 2,
+    latitudeDelta: Math.max(0.01, (maxLatitude - minLatitude) * 1.4),
+    longitudeDelta: Math.max(0.01, (maxLongitude - minLongitude) * 1.4),
+  };
+}
+
 const styles = StyleSheet.create({
   container: {
     flex: 1,
@@ -83,6 +200,20 @@ const styles = StyleSheet.create({
     fontSize: 15,
     fontWeight: '700',
   },
+  mapCard: {
+    height: 240,
+    borderRadius: 12,
+    overflow: 'hidden',
+    borderWidth: 1,
+    borderColor: '#1F2937',
+    backgroundColor: '#0B1220',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  map: {
+    width: '100%',
+    height: '100%',
+  },
   primaryButton: {
     marginTop: 8,
     backgroundColor: '#2563EB',
@@ -0,0 +1,73 @@
+import { alertResolveApiUrl } from '@/src/config/api';
+
+import { deviceAuthService } from './deviceAuthService';
+import { deviceIdentityService } from './deviceIdentityService';
+import { socketService, type AlertOutcome, type AlertResolvedEvent } from './socketService';
+
+type AlertResolutionReport = {
+  outcome: AlertOutcome;
+  notes?: string | null;
+  arrivedAt?: number | null;
+};
+
+class AlertResolutionService {
+  async resolve(alertId: string, report: AlertResolutionReport): Promise<{ ok: boolean; reason?: string }> {
+    try {
+      const deviceId = await deviceIdentityService.getDeviceId();
+      const response = await deviceAuthService.authorizedFetch(alertResolveApiUrl(alertId), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          deviceId,
+          outcome: report.outcome,
+          notes: report.notes?.trim() ? report.notes.trim() : null,
+          arrivedAt: report.arrivedAt ?? null,
+        }),
+      });
+
+      if (response.ok) {
+        if (__DEV__) {
+          console.log('[alert-resolution] resolved', { alertId, outcome: report.outcome });
+        }
+        return { ok: true };
+      }
+      if (response.status === 403) {
+        return { ok: false, reason: 'Only the victim or the assigned responder can close this alert.' };
+      }
+      if (response.status === 409) {
+        const currentStatus = readCurrentStatus(await response.json().catch(() => null));
+        return { ok: false, reason: describeBlockedResolve(currentStatus) };
+      }
+      return { ok: false, reason: `Resolve failed with status ${response.status}` };
+    } catch {
+      return { ok: false, reason: 'Network error while resolving alert.' };
+    }
+  }
+
+  onResolved(listener: (event: AlertResolvedEvent) => void): () => void {
+    return socketService.on('alert:resolved', listener);
+  }
+}
+
+function readCurrentStatus(payload: unknown): string | null {
+  if (!payload || typeof payload !== 'object') {
+    return null;
+  }
+  const error = (payload as { error?: { currentStatus?: unknown } }).error;
+  return typeof error?.currentStatus === 'string' ? error.currentStatus : null;
+}
+
+function describeBlockedResolve(currentStatus: string | null): string {
+  if (currentStatus === 'RESOLVED' || currentStatus === 'CANCELLED') {
+    return `Alert is already closed (${currentStatus.toLowerCase()}).`;
+  }
+  if (currentStatus) {
+    return `Alert cannot be resolved while it is ${currentStatus.toLowerCase().replace(/_/g, ' ')}.`;
+  }
+  return 'Alert cannot be resolved in its current state.';
+}
+
+export const alertResolutionService = new AlertResolutionService();
+export type { AlertResolutionReport };
@@ -0,0 +1,108 @@
+import { alertEventsApiUrl } from '@/src/config/api';
+
+import { deviceAuthService } from './deviceAuthService';
+
+type AlertTimelineEventType =
+  | 'ALERT_CREATED'
+  | 'DISPATCH_STEP'
+  | 'RIDERS_NOTIFIED'
+  | 'RESPONDER_ASSIGNED'
+  | 'ASSIGNMENT_BROADCAST'
+  | 'STATUS_UPDATED'
+  | 'CANCELLATION_BROADCAST'
+  | 'ESCALATED'
+  | 'ALERT_RESOLVED'
+  | 'RESOLUTION_BROADCAST';
+
+type AlertTimelineEvent = {
+  id: string;
+  alertId: string;
+  type: AlertTimelineEventType;
+  actorDeviceId: string | null;
+  fromStatus: string | null;
+  toStatus: string | null;
+  metadata: Record<string, unknown>;
+  createdAt: number;
+};
+
+type AlertEventPage = {
+  events: AlertTimelineEvent[];
+  nextCursor: string | null;
+};
+
+const ALERT_TIMELINE_EVENT_TYPES: AlertTimelineEventType[] = [
+  'ALERT_CREATED',
+  'DISPATCH_STEP',
+  'RIDERS_NOTIFIED',
+  'RESPONDER_ASSIGNED',
+  'ASSIGNMENT_BROADCAST',
+  'STATUS_UPDATED',
+  'CANCELLATION_BROADCAST',
+  'ESCALATED',
+  'ALERT_RESOLVED',
+  'RESOLUTION_BROADCAST',
+];
+const MAX_TIMELINE_PAGES = 5;
+
+class AlertTimelineService {
+  async fetchTimeline(alertId: string): Promise<AlertTimelineEvent[] | null> {
+    const events: AlertTimelineEvent[] = [];
+    let cursor: string | null = null;
+
+    try {
+      for (let page = 0; page < MAX_TIMELINE_PAGES; page += 1) {
+        const response = await deviceAuthService.authorizedFetch(alertEventsApiUrl(alertId, cursor));
+        if (!response.ok) {
+          return null;
+        }
+        const payload: unknown = await response.json();
+        if (!isAlertEventPageEnvelope(payload)) {
+          return null;
+        }
+        events.push(...payload.data.events);
+        cursor = payload.data.nextCursor;
+        if (!cursor) {
+          break;
+        }
+      }
+      return events;
+    } catch {
+      return null;
+    }
+  }
+}
+
+function isAlertTimelineEvent(value: unknown): value is AlertTimelineEvent {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const candidate = value as Partial<AlertTimelineEvent>;
+  return (
+    typeof candidate.id === 'string' &&
+    typeof candidate.alertId === 'string' &&
+    typeof candidate.type === 'string' &&
+    ALERT_TIMELINE_EVENT_TYPES.includes(candidate.type) &&
+    (candidate.actorDeviceId === null || typeof candidate.actorDeviceId === 'string') &&
+    (candidate.fromStatus === null || typeof candidate.fromStatus === 'string') &&
+    (candidate.toStatus === null || typeof candidate.toStatus === 'string') &&
+    !!candidate.metadata &&
+    typeof candidate.metadata === 'object' &&
+    typeof candidate.createdAt === 'number'
+  );
+}
+
+function isAlertEventPageEnvelope(value: unknown): value is { data: AlertEventPage } {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const data = (value as { data?: Partial<AlertEventPage> }).data;
+  return (
+    !!data &&
+    Array.isArray(data.events) &&
+    data.events.every(isAlertTimelineEvent) &&
+    (data.nextCursor === null || typeof data.nextCursor === 'string')
+  );
+}
+
+export const alertTimelineService = new AlertTimelineService();
+export type { AlertTimelineEvent, AlertTimelineEventType };
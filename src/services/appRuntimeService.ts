@@ -1,5 +1,9 @@
+import { fatigueService } from './fatigueService';
+import { hazardProximityService } from './hazardProximityService';
+import { outboxService } from './outboxService';
 import { responderService } from './responderService';
 import { riderHeartbeatService } from './riderHeartbeatService';
+import { smsNotificationService } from './smsNotificationService';
 import { transportRouterService } from './transport/transportRouterService';
 
 class AppRuntimeService {
@@ -11,8 +15,13 @@ class AppRuntimeService {
     }
 
     await transportRouterService.start();
+    // After the transports, so the socket exists for the outbox's reconnect trigger.
+    await outboxService.start();
     await responderService.start();
     await riderHeartbeatService.start();
+    await fatigueService.start();
+    await hazardProximityService.start();
+    await smsNotificationService.start();
     this.running = true;
   }
 
@@ -21,8 +30,12 @@ class AppRuntimeService {
       return;
     }
 
+    smsNotificationService.stop();
+    hazardProximityService.stop();
+    fatigueService.stop();
     riderHeartbeatService.stop();
     responderService.stop();
+    outboxService.stop();
     transportRouterService.stop();
     this.running = false;
   }
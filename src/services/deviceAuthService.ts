@@ -0,0 +1,273 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { DEVICES_REGISTER_API_URL, DEVICES_ROTATE_KEY_API_URL, DEVICES_TOKEN_API_URL } from '@/src/config/api';
+
+import { deviceIdentityService } from './deviceIdentityService';
+import { meshCryptoService, type MeshKeyPair } from './mesh/meshCrypto';
+
+const DEVICE_AUTH_STORAGE_KEY = '@dextrix/device-auth/v1';
+// Refresh a little early so a request never leaves with a token that expires in flight.
+const TOKEN_REFRESH_MARGIN_MS = 60_000;
+// Well inside the backend's certificate lifetime, so a rotated phone is never left holding only expired certificates.
+const KEY_ROTATION_INTERVAL_MS = 30 * 24 * 60 * 60 * 1000;
+
+type DeviceAuthState = {
+  deviceId: string;
+  registeredPublicKey: string | null;
+  token: string | null;
+  expiresAt: number;
+};
+
+type TokenResponse = {
+  token: string;
+  expiresAt: number;
+};
+
+class DeviceAuthService {
+  private state: DeviceAuthState | null = null;
+  private tokenInFlight: Promise<string | null> | null = null;
+
+  async getToken(): Promise<string | null> {
+    const state = await this.loadState();
+    if (state.token && state.expiresAt - TOKEN_REFRESH_MARGIN_MS > Date.now()) {
+      return state.token;
+    }
+
+    if (!this.tokenInFlight) {
+      this.tokenInFlight = this.obtainToken().finally(() => {
+        this.tokenInFlight = null;
+      });
+    }
+    return this.tokenInFlight;
+  }
+
+  async invalidateToken(): Promise<void> {
+    const state = await this.loadState();
+    await this.saveState({ ...state, token: null, expiresAt: 0 });
+  }
+
+  /** `fetch` with the device token attached; a rejected token is refreshed and the request retried once. */
+  async authorizedFetch(input: string, init: RequestInit = {}): Promise<Response> {
+    const send = async () => {
+      const token = await this.getToken();
+      const headers = new Headers(init.headers);
+      if (token) {
+        headers.set('Authorization', `Bearer ${token}`);
+      }
+      return fetch(input, { ...init, headers });
+    };
+
+    const response = await send();
+    if (response.status !== 401) {
+      return response;
+    }
+    await this.invalidateToken();
+    return send();
+  }
+
+  /**
+   * Replaces the mesh signing key once it is old enough. The new key is stored as pending before it is
+   * offered and only adopted once the backend is known to hold it, so neither a refusal nor a lost answer
+   * leaves the device signing with a key the backend has already revoked.
+   */
+  async rotateKeyIfDue(): Promise<boolean> {
+    const state = await this.loadState();
+    try {
+      if (await this.adoptPendingKeyPair(state.deviceId)) {
+        return true;
+      }
+    } catch {
+      return false;
+    }
+
+    const current = await meshCryptoService.getOrCreateKeyPair();
+    if (state.registeredPublicKey !== current.publicKey || Date.now() - current.createdAt < KEY_ROTATION_INTERVAL_MS) {
+      return false;
+    }
+
+    // Retries offer the same pending pair, so a rotation that did go through is simply found to be stale.
+    let next = await meshCryptoService.getPendingKeyPair();
+    if (!next) {
+      next = meshCryptoService.generateKeyPair();
+      await meshCryptoService.setPendingKeyPair(next);
+    }
+    const timestamp = Date.now();
+    const message = `dextrix-rotate:${state.deviceId}:${next.publicKey}:${timestamp}`;
+    try {
+      const response = await fetch(DEVICES_ROTATE_KEY_API_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          deviceId: state.deviceId,
+          publicKey: next.publicKey,
+          timestamp,
+          signature: meshCryptoService.signWith(current, message),
+          newKeySignature: meshCryptoService.signWith(next, message),
+        }),
+      });
+      // The backend no longer holds the current key (a refused signature, or `stale` when it changed in flight),
+      // most likely because an earlier offer of this same pair landed and its answer was lost.
+      if (response.status === 401 || response.status === 409) {
+        return (await this.adoptPendingKeyPair(state.deviceId)) !== null;
+      }
+      if (response.status === 403) {
+        // The pending key itself was revoked; the next rotation offers a fresh one.
+        await meshCryptoService.setPendingKeyPair(null);
+        return false;
+      }
+      const payload: unknown = response.ok ? await response.json() : null;
+      if (!isTokenEnvelope(payload)) {
+        return false;
+      }
+
+      await this.adoptKeyPair(state.deviceId, next, payload.data);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /** Adopts the pending pair if the backend issues it a token; null when there is none or it is not registered. */
+  private async adoptPendingKeyPair(deviceId: string): Promise<string | null> {
+    const pending = await meshCryptoService.getPendingKeyPair();
+    if (!pending) {
+      return null;
+    }
+    const issued = await this.requestToken(deviceId, pending);
+    if (!issued) {
+      return null;
+    }
+    await this.adoptKeyPair(deviceId, pending, issued);
+    return issued.token;
+  }
+
+  private async adoptKeyPair(deviceId: string, keyPair: MeshKeyPair, issued: TokenResponse): Promise<void> {
+    await meshCryptoService.replaceKeyPair(keyPair);
+    await meshCryptoService.setPendingKeyPair(null);
+    await this.saveState({
+      deviceId,
+      registeredPublicKey: keyPair.publicKey,
+      token: issued.token,
+      expiresAt: issued.expiresAt,
+    });
+  }
+
+  private async obtainToken(): Promise<string | null> {
+    const state = await this.loadState();
+    const keys = await meshCryptoService.getOrCreateKeyPair();
+
+    try {
+      // A rotation whose answer was lost leaves the backend holding the pending key and the current one revoked.
+      const adopted = await this.adoptPendingKeyPair(state.deviceId);
+      if (adopted) {
+        return adopted;
+      }
+
+      let issued: TokenResponse | null = null;
+      if (state.registeredPublicKey === keys.publicKey) {
+        issued = await this.requestToken(state.deviceId, keys);
+      }
+      // Unregistered, or the server no longer knows this device: register the key, which also issues a token.
+      issued ??= await this.register(state.deviceId, keys.publicKey);
+      if (!issued) {
+        return null;
+      }
+
+      await this.saveState({
+        deviceId: state.deviceId,
+        registeredPublicKey: keys.publicKey,
+        token: issued.token,
+        expiresAt: issued.expiresAt,
+      });
+      return issued.token;
+    } catch {
+      return null;
+    }
+  }
+
+  private async register(deviceId: string, publicKey: string): Promise<TokenResponse | null> {
+    const timestamp = Date.now();
+    const signature = await meshCryptoService.sign(`dextrix-register:${deviceId}:${publicKey}:${timestamp}`);
+    const response = await fetch(DEVICES_REGISTER_API_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ deviceId, publicKey, timestamp, signature }),
+    });
+    if (!response.ok) {
+      if (__DEV__) {
+        console.log('[device-auth] registration rejected', { status: response.status });
+      }
+      return null;
+    }
+    const payload: unknown = await response.json();
+    return isTokenEnvelope(payload) ? payload.data : null;
+  }
+
+  private async requestToken(deviceId: string, keyPair: MeshKeyPair): Promise<TokenResponse | null> {
+    const timestamp = Date.now();
+    const signature = meshCryptoService.signWith(keyPair, `dextrix-token:${deviceId}:${timestamp}`);
+    const response = await fetch(DEVICES_TOKEN_API_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ deviceId, timestamp, signature }),
+    });
+    if (!response.ok) {
+      return null;
+    }
+    const payload: unknown = await response.json();
+    return isTokenEnvelope(payload) ? payload.data : null;
+  }
+
+  private async loadState(): Promise<DeviceAuthState> {
+    if (this.state) {
+      return this.state;
+    }
+
+    const deviceId = await deviceIdentityService.getDeviceId();
+    let restored: DeviceAuthState | null = null;
+    try {
+      const raw = await AsyncStorage.getItem(DEVICE_AUTH_STORAGE_KEY);
+      const parsed: unknown = raw ? JSON.parse(raw) : null;
+      if (isDeviceAuthState(parsed) && parsed.deviceId === deviceId) {
+        restored = parsed;
+      }
+    } catch {
+      // Malformed auth state only costs a fresh registration.
+    }
+
+    this.state = restored ?? { deviceId, registeredPublicKey: null, token: null, expiresAt: 0 };
+    return this.state;
+  }
+
+  private async saveState(next: DeviceAuthState): Promise<void> {
+    this.state = next;
+    try {
+      await AsyncStorage.setItem(DEVICE_AUTH_STORAGE_KEY, JSON.stringify(next));
+    } catch {
+      // The in-memory token still works for this session.
+    }
+  }
+}
+
+function isDeviceAuthState(value: unknown): value is DeviceAuthState {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const candidate = value as Partial<DeviceAuthState>;
+  return (
+    typeof candidate.deviceId === 'string' &&
+    (candidate.registeredPublicKey === null || typeof candidate.registeredPublicKey === 'string') &&
+    (candidate.token === null || typeof candidate.token === 'string') &&
+    typeof candidate.expiresAt === 'number'
+  );
+}
+
+function isTokenEnvelope(value: unknown): value is { data: TokenResponse } {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const data = (value as { data?: Partial<TokenResponse> }).data;
+  return !!data && typeof data.token === 'string' && typeof data.expiresAt === 'number';
+}
+
+export const deviceAuthService = new DeviceAuthService();
@@ -1,5 +1,10 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
+import { riderContactApiUrl, riderContactsApiUrl } from '@/src/config/api';
+
+import { deviceAuthService } from './deviceAuthService';
+import { deviceIdentityService } from './deviceIdentityService';
+
 const CONTACTS_STORAGE_KEY = '@dextrix/emergency-contacts/v1';
 const MAX_CONTACTS = 3;
 const REQUIRED_PHONE_DIGITS = 10;
@@ -68,6 +73,65 @@ class EmergencyContactsService {
   async saveContacts(contacts: EmergencyContact[]): Promise<void> {
     const serialized = JSON.stringify(this.sortContacts(contacts));
     await AsyncStorage.setItem(CONTACTS_STORAGE_KEY, serialized);
+    void this.syncContactsToBackend(contacts);
+  }
+
+  async syncContactsToBackend(contacts: EmergencyContact[]): Promise<boolean> {
+    try {
+      const deviceId = await deviceIdentityService.getDeviceId();
+      const response = await deviceAuthService.authorizedFetch(riderContactsApiUrl(deviceId));
+      if (!response.ok) {
+        return false;
+      }
+      const payload: unknown = await response.json();
+      if (!isRemoteContactListEnvelope(payload)) {
+        return false;
+      }
+
+      const localByPhone = new Map(contacts.map((contact) => [contact.phone, contact]));
+      const remoteByPhone = new Map(payload.data.map((contact) => [contact.phone, contact]));
+
+      // Deletes go first so the server-side contact limit never blocks a replacement.
+      const deletes = payload.data
+        .filter((remote) => !localByPhone.has(remote.phone))
+        .map((remote) =>
+          deviceAuthService.authorizedFetch(riderContactApiUrl(deviceId, remote.id), { method: 'DELETE' })
+        );
+      const deleteResults = await Promise.all(deletes);
+
+      const requests: Promise<Response>[] = [];
+
+      for (const local of contacts) {
+        const remote = remoteByPhone.get(local.phone);
+        if (!remote) {
+          requests.push(
+            deviceAuthService.authorizedFetch(riderContactsApiUrl(deviceId), {
+              method: 'POST',
+              headers: {
+                'Content-Type': 'application/json',
+              },
+              body: JSON.stringify({ name: local.name, phone: local.phone }),
+            })
+          );
+        } else if (remote.name !== local.name) {
+          requests.push(
+            deviceAuthService.authorizedFetch(riderContactApiUrl(deviceId, remote.id), {
+              method: 'PUT',
+              headers: {
+                'Content-Type': 'application/json',
+              },
+              body: JSON.stringify({ name: local.name, phone: local.phone, email: remote.email }),
+            })
+          );
+        }
+      }
+
+      const results = await Promise.all(requests);
+      return [...deleteResults, ...results].every((result) => result.ok);
+    } catch {
+      // Local contacts stay authoritative; the next save retries the sync.
+      return false;
+    }
   }
 
   addContact(input: AddContactInput, existing: EmergencyContact[]): AddContactResult {
@@ -175,6 +239,35 @@ function isEmergencyContact(value: unknown): value is EmergencyContact {
   );
 }
 
+type RemoteContact = {
+  id: string;
+  name: string;
+  phone: string;
+  email: string | null;
+};
+
+function isRemoteContactListEnvelope(value: unknown): value is { data: RemoteContact[] } {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const data = (value as { data?: unknown }).data;
+  return (
+    Array.isArray(data) &&
+    data.every((item) => {
+      if (!item || typeof item !== 'object') {
+        return false;
+      }
+      const candidate = item as Partial<RemoteContact>;
+      return (
+        typeof candidate.id === 'string' &&
+        typeof candidate.name === 'string' &&
+        typeof candidate.phone === 'string' &&
+        (candidate.email === null || typeof candidate.email === 'string')
+      );
+    })
+  );
+}
+
 export const emergencyContactsService = new EmergencyContactsService();
 export type {
   AddContactError,
@@ -1,8 +1,10 @@
 import { alarmAudioService } from './alarmAudioService';
+import { alertResolutionService, type AlertResolutionReport } from './alertResolutionService';
 import { crashDetectionService, type CrashDetectedEvent } from './crashDetectionService';
 import { deviceIdentityService } from './deviceIdentityService';
 import { locationService, type LocationPoint } from './locationService';
 import { profileService } from './profileService';
+import { responderTrackingService } from './responderTrackingService';
 import { settingsService, type UserSettings } from './settingsService';
 import { transportRouterService } from './transport/transportRouterService';
 import type { AlertAssignedEvent } from './transport/alertTransport';
@@ -55,6 +57,7 @@ type EscalationCountdownTickEvent = {
 
 type AlertTriggeredEvent = {
   type: 'ALERT_TRIGGERED';
+  alertId: string | null;
   triggeredAt: number;
   alarmSoundEnabled: boolean;
   location: EmergencyControllerLocationPayload | null;
@@ -62,6 +65,7 @@ type AlertTriggeredEvent = {
 
 type CancelledEvent = {
   type: 'CANCELLED';
+  alertId: string | null;
   cancelledAt: number;
 };
 
@@ -73,6 +77,13 @@ type ResponderAssignedEvent = {
   assignedAt: number;
 };
 
+type ResolvedEvent = {
+  type: 'RESOLVED';
+  alertId: string;
+  outcome: AlertResolutionReport['outcome'];
+  resolvedAt: number;
+};
+
 type EmergencyControllerEventMap = {
   WARNING_STARTED: WarningStartedEvent;
   WARNING_TICK: WarningTickEvent;
@@ -82,6 +93,7 @@ type EmergencyControllerEventMap = {
   ALERT_TRIGGERED: AlertTriggeredEvent;
   CANCELLED: CancelledEvent;
   RESPONDER_ASSIGNED: ResponderAssignedEvent;
+  RESOLVED: ResolvedEvent;
 };
 
 type EmergencyControllerListener<TEvent extends keyof EmergencyControllerEventMap> = (
@@ -109,11 +121,14 @@ class EmergencyControllerService {
   private crashUnsubscribe: (() => void) | null = null;
   private settingsUnsubscribe: (() => void) | null = null;
   private socketAssignedUnsubscribe: (() => void) | null = null;
+  private socketResolvedUnsubscribe: (() => void) | null = null;
   private running = false;
   private crashDetectionRunning = false;
   private reentryLockedUntilMs = 0;
   private lastAlertEvent: AlertTriggeredEvent | null = null;
   private activeAlertId: string | null = null;
+  // Alert that is assigned or escalated and can still be closed with an outcome report.
+  private resolvableAlertId: string | null = null;
   private activeIncidentTriggeredAt: number | null = null;
   private createAlertInFlight: Promise<void> | null = null;
   private statusUpdateInFlight: 'CANCELLED' | 'ESCALATED' | null = null;
@@ -128,6 +143,7 @@ class EmergencyControllerService {
     ALERT_TRIGGERED: new Set(),
     CANCELLED: new Set(),
     RESPONDER_ASSIGNED: new Set(),
+    RESOLVED: new Set(),
   };
 
   async start(): Promise<void> {
@@ -142,6 +158,9 @@ class EmergencyControllerService {
     this.socketAssignedUnsubscribe = transportRouterService.on('assigned', (event) => {
       this.handleAlertAssigned(event);
     });
+    this.socketResolvedUnsubscribe = alertResolutionService.onResolved((event) => {
+      this.handleAlertResolved(event.alertId, event.outcome, event.resolvedAt);
+    });
 
     await crashDetectionService.start();
     this.crashDetectionRunning = true;
@@ -176,6 +195,9 @@ class EmergencyControllerService {
     this.settingsUnsubscribe = null;
     this.socketAssignedUnsubscribe?.();
     this.socketAssignedUnsubscribe = null;
+    this.socketResolvedUnsubscribe?.();
+    this.socketResolvedUnsubscribe = null;
+    responderTrackingService.unfollow();
     this.running = false;
     this.state = 'NORMAL';
     this.warningRemainingSeconds = 0;
@@ -184,6 +206,7 @@ class EmergencyControllerService {
     this.escalationStartedAtMs = null;
     this.reentryLockedUntilMs = 0;
     this.activeAlertId = null;
+    this.resolvableAlertId = null;
     this.victimName = null;
     this.activeIncidentTriggeredAt = null;
     this.createAlertInFlight = null;
@@ -268,12 +291,30 @@ class EmergencyControllerService {
 
     this.emit('CANCELLED', {
       type: 'CANCELLED',
+      alertId: alertIdToCancel,
       cancelledAt: Date.now(),
     });
     this.scheduleDetectionResume(DETECTION_RESUME_DELAY_MS);
     this.state = 'NORMAL';
   }
 
+  canResolve(): boolean {
+    return this.resolvableAlertId !== null;
+  }
+
+  async resolve(report: AlertResolutionReport): Promise<{ ok: boolean; reason?: string }> {
+    const alertId = this.resolvableAlertId;
+    if (!alertId) {
+      return { ok: false, reason: 'There is no open alert to resolve.' };
+    }
+
+    const result = await alertResolutionService.resolve(alertId, report);
+    if (result.ok) {
+      this.handleAlertResolved(alertId, report.outcome, Date.now());
+    }
+    return result;
+  }
+
   getHealth(): ServiceHealth {
     const isActive = this.running || this.state !== 'NORMAL';
     return {
@@ -299,6 +340,7 @@ class EmergencyControllerService {
 
     this.activeIncidentTriggeredAt = nowMs;
     this.pauseDetectionForAlertFlow();
+    responderTrackingService.unfollow();
     this.startWarningCountdown(WARNING_COUNTDOWN_SECONDS, nowMs);
   }
 
@@ -326,6 +368,7 @@ class EmergencyControllerService {
 
     this.clearTimers();
     this.pauseDetectionForAlertFlow();
+    responderTrackingService.unfollow();
     const triggeredAt = Date.now();
     this.activeIncidentTriggeredAt = triggeredAt;
     await this.dispatchSosAndStartEscalation(triggeredAt, this.buildImmediateLocationPayload());
@@ -437,14 +480,16 @@ class EmergencyControllerService {
     const settings = settingsService.getSettings();
     this.state = 'ALERT_ESCALATED';
     await this.ensureAlertCreated(triggeredAt, immediateLocation);
+    const alertIdToEscalate = this.activeAlertId;
     const eventPayload: AlertTriggeredEvent = {
       type: 'ALERT_TRIGGERED',
+      alertId: alertIdToEscalate,
       triggeredAt: now,
       alarmSoundEnabled: settings.alarmSoundEnabled,
       location: immediateLocation,
     };
     this.lastAlertEvent = eventPayload;
-    const alertIdToEscalate = this.activeAlertId;
+    this.resolvableAlertId = alertIdToEscalate;
     this.activeAlertId = null;
     this.activeIncidentTriggeredAt = null;
     if (alertIdToEscalate) {
@@ -551,10 +596,12 @@ class EmergencyControllerService {
 
     this.clearTimers();
     this.state = 'RESPONDER_ASSIGNED';
+    this.resolvableAlertId = event.alertId;
     this.activeAlertId = null;
     this.activeIncidentTriggeredAt = null;
     alarmAudioService.stop();
     this.scheduleDetectionResume(DETECTION_RESUME_DELAY_MS);
+    responderTrackingService.follow(event.alertId);
 
     this.emit('RESPONDER_ASSIGNED', {
       type: 'RESPONDER_ASSIGNED',
@@ -565,6 +612,27 @@ class EmergencyControllerService {
     });
   }
 
+  private handleAlertResolved(
+    alertId: string,
+    outcome: AlertResolutionReport['outcome'],
+    resolvedAt: number
+  ): void {
+    // Both the local resolve call and the server broadcast land here; only the first one acts.
+    if (alertId !== this.resolvableAlertId) {
+      return;
+    }
+
+    this.resolvableAlertId = null;
+    responderTrackingService.unfollow();
+    this.state = 'NORMAL';
+    this.emit('RESOLVED', {
+      type: 'RESOLVED',
+      alertId,
+      outcome,
+      resolvedAt,
+    });
+  }
+
   private handleSettingsChanged(settings: UserSettings): void {
     const shouldAlarmBeActive = this.state === 'WARNING_COUNTDOWN';
     if (!settings.alarmSoundEnabled) {
@@ -683,4 +751,9 @@ function createAlertId(): string {
 }
 
 export const emergencyControllerService = new EmergencyControllerService();
-export type { EmergencyControllerLocationPayload, EmergencyControllerState, ResponderAssignedEvent };
+export type {
+  EmergencyControllerLocationPayload,
+  EmergencyControllerState,
+  ResolvedEvent,
+  ResponderAssignedEvent,
+};
@@ -0,0 +1,320 @@
+import type { LocationFix } from './locationService';
+import { rideSessionService } from './rideSessionService';
+import type { ServiceHealth } from './types';
+
+type FatigueLevel = 'LOW' | 'MODERATE' | 'HIGH';
+
+type FatigueReason = 'LONG_CONTINUOUS_RIDE' | 'ERRATIC_SPEED' | 'FREQUENT_MICRO_STOPS' | 'CIRCADIAN_LOW';
+
+type FatigueAssessment = {
+  level: FatigueLevel;
+  reasons: FatigueReason[];
+  continuousRideMs: number;
+  speedVariation: number | null;
+  microStopsInWindow: number;
+  evaluatedAt: number;
+};
+
+type FatigueWarningEvent = {
+  type: 'FATIGUE_WARNING';
+  timestamp: number;
+  level: Exclude<FatigueLevel, 'LOW'>;
+  reasons: FatigueReason[];
+  continuousRideMs: number;
+  suggestion: string;
+  warningCount: number;
+};
+
+type FatigueEventMap = {
+  FATIGUE_WARNING: FatigueWarningEvent;
+  FATIGUE_ASSESSED: { type: 'FATIGUE_ASSESSED'; assessment: FatigueAssessment };
+};
+
+type FatigueListener<TEvent extends keyof FatigueEventMap> = (payload: FatigueEventMap[TEvent]) => void;
+
+type SpeedSample = {
+  timestamp: number;
+  speed: number;
+};
+
+const EVALUATION_INTERVAL_MS = 30_000;
+const SPEED_WINDOW_MS = 10 * 60 * 1000;
+const MICRO_STOP_WINDOW_MS = 30 * 60 * 1000;
+const STOPPED_SPEED_MPS = 1;
+const MOVING_SPEED_MPS = 3;
+const MICRO_STOP_MIN_MS = 15_000;
+const BREAK_MIN_MS = 10 * 60 * 1000;
+const LONG_RIDE_MS = 90 * 60 * 1000;
+const VERY_LONG_RIDE_MS = 150 * 60 * 1000;
+const ERRATIC_SPEED_VARIATION = 0.35;
+const MIN_SPEED_SAMPLES = 20;
+const MICRO_STOP_THRESHOLD = 3;
+const WARNING_COOLDOWN_MS = 20 * 60 * 1000;
+
+class FatigueService {
+  private running = false;
+  private evaluationTimer: ReturnType<typeof setInterval> | null = null;
+  private unsubscribers: (() => void)[] = [];
+  private sessionId: string | null = null;
+  private continuousSince: number | null = null;
+  private stoppedSince: number | null = null;
+  private speedSamples: SpeedSample[] = [];
+  private microStops: number[] = [];
+  private lastWarningAt: number | null = null;
+  private latestAssessment: FatigueAssessment | null = null;
+  private latestWarning: FatigueWarningEvent | null = null;
+  private listeners: {
+    [K in keyof FatigueEventMap]: Set<FatigueListener<K>>;
+  } = {
+    FATIGUE_WARNING: new Set(),
+    FATIGUE_ASSESSED: new Set(),
+  };
+
+  async start(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    await rideSessionService.load();
+    this.unsubscribers = [
+      rideSessionService.on('RIDE_STARTED', ({ session }) => {
+        this.beginSession(session.id, session.startedAt ?? Date.now());
+      }),
+      rideSessionService.on('RIDE_ENDED', () => {
+        this.resetSession();
+      }),
+      rideSessionService.on('RIDE_LOCATION', ({ sessionId, fix }) => {
+        if (sessionId === this.sessionId) {
+          this.handleFix(fix);
+        }
+      }),
+    ];
+
+    const session = rideSessionService.getCurrentSession();
+    if (session.state === 'ACTIVE') {
+      this.beginSession(session.id, session.startedAt ?? Date.now());
+    }
+
+    this.evaluationTimer = setInterval(() => {
+      this.evaluate(Date.now());
+    }, EVALUATION_INTERVAL_MS);
+  }
+
+  stop(): void {
+    this.running = false;
+    for (const off of this.unsubscribers) {
+      off();
+    }
+    this.unsubscribers = [];
+    if (this.evaluationTimer) {
+      clearInterval(this.evaluationTimer);
+      this.evaluationTimer = null;
+    }
+  }
+
+  getLatestAssessment(): FatigueAssessment | null {
+    return this.latestAssessment ? { ...this.latestAssessment } : null;
+  }
+
+  getLatestWarning(): FatigueWarningEvent | null {
+    return this.latestWarning ? { ...this.latestWarning } : null;
+  }
+
+  dismissWarning(): void {
+    this.latestWarning = null;
+  }
+
+  on<TEvent extends keyof FatigueEventMap>(event: TEvent, listener: FatigueListener<TEvent>): () => void {
+    this.listeners[event].add(listener);
+    return () => {
+      this.listeners[event].delete(listener);
+    };
+  }
+
+  getHealth(): ServiceHealth {
+    return {
+      name: 'Fatigue Service',
+      state: this.running && this.sessionId ? 'active' : 'idle',
+      detail: this.sessionId
+        ? `Monitoring ride. Level: ${this.latestAssessment?.level ?? 'LOW'}`
+        : 'No active ride to monitor.',
+    };
+  }
+
+  private beginSession(sessionId: string, startedAt: number): void {
+    if (this.sessionId === sessionId) {
+      return;
+    }
+
+    this.sessionId = sessionId;
+    this.continuousSince = startedAt;
+    this.stoppedSince = null;
+    this.speedSamples = [];
+    this.microStops = [];
+    this.lastWarningAt = null;
+    this.latestAssessment = null;
+    this.latestWarning = null;
+  }
+
+  private resetSession(): void {
+    this.sessionId = null;
+    this.continuousSince = null;
+    this.stoppedSince = null;
+    this.speedSamples = [];
+    this.microStops = [];
+    this.lastWarningAt = null;
+    this.latestAssessment = null;
+    this.latestWarning = null;
+  }
+
+  private handleFix(fix: LocationFix): void {
+    if (fix.speed === null) {
+      return;
+    }
+
+    const nowMs = fix.timestamp;
+    if (fix.speed < STOPPED_SPEED_MPS) {
+      this.stoppedSince ??= nowMs;
+      return;
+    }
+
+    if (this.stoppedSince !== null) {
+      const stoppedMs = nowMs - this.stoppedSince;
+      if (stoppedMs >= BREAK_MIN_MS) {
+        this.continuousSince = nowMs;
+        this.microStops = [];
+        this.speedSamples = [];
+        this.latestWarning = null;
+      } else if (stoppedMs >= MICRO_STOP_MIN_MS) {
+        this.microStops.push(nowMs);
+      }
+      this.stoppedSince = null;
+    }
+
+    if (fix.speed >= MOVING_SPEED_MPS) {
+      this.speedSamples.push({ timestamp: nowMs, speed: fix.speed });
+    }
+  }
+
+  private evaluate(nowMs: number): void {
+    if (!this.sessionId || this.continuousSince === null) {
+      return;
+    }
+
+    // A long stop still in progress counts as a break even before the rider moves off again.
+    if (this.stoppedSince !== null && nowMs - this.stoppedSince >= BREAK_MIN_MS) {
+      return;
+    }
+
+    this.speedSamples = this.speedSamples.filter((sample) => nowMs - sample.timestamp <= SPEED_WINDOW_MS);
+    this.microStops = this.microStops.filter((timestamp) => nowMs - timestamp <= MICRO_STOP_WINDOW_MS);
+
+    const continuousRideMs = Math.max(0, nowMs - this.continuousSince);
+    const speedVariation = computeSpeedVariation(this.speedSamples);
+    const reasons: FatigueReason[] = [];
+    if (continuousRideMs >= LONG_RIDE_MS) {
+      reasons.push('LONG_CONTINUOUS_RIDE');
+    }
+    if (speedVariation !== null && speedVariation >= ERRATIC_SPEED_VARIATION) {
+      reasons.push('ERRATIC_SPEED');
+    }
+    if (this.microStops.length >= MICRO_STOP_THRESHOLD) {
+      reasons.push('FREQUENT_MICRO_STOPS');
+    }
+    if (isCircadianLow(new Date(nowMs))) {
+      reasons.push('CIRCADIAN_LOW');
+    }
+
+    const assessment: FatigueAssessment = {
+      level: toFatigueLevel(reasons, continuousRideMs),
+      reasons,
+      continuousRideMs,
+      speedVariation,
+      microStopsInWindow: this.microStops.length,
+      evaluatedAt: nowMs,
+    };
+    this.latestAssessment = assessment;
+    this.emit('FATIGUE_ASSESSED', { type: 'FATIGUE_ASSESSED', assessment: { ...assessment } });
+
+    if (assessment.level === 'LOW') {
+      return;
+    }
+    if (this.lastWarningAt !== null && nowMs - this.lastWarningAt < WARNING_COOLDOWN_MS) {
+      return;
+    }
+
+    this.lastWarningAt = nowMs;
+    void this.raiseWarning(assessment);
+  }
+
+  private async raiseWarning(assessment: FatigueAssessment): Promise<void> {
+    const sessionId = this.sessionId;
+    const warningCount = await rideSessionService.recordFatigueWarning();
+    if (!sessionId || sessionId !== this.sessionId || assessment.level === 'LOW') {
+      return;
+    }
+
+    const warning: FatigueWarningEvent = {
+      type: 'FATIGUE_WARNING',
+      timestamp: assessment.evaluatedAt,
+      level: assessment.level,
+      reasons: [...assessment.reasons],
+      continuousRideMs: assessment.continuousRideMs,
+      suggestion: buildBreakSuggestion(assessment.level, assessment.continuousRideMs),
+      warningCount,
+    };
+    this.latestWarning = warning;
+    this.emit('FATIGUE_WARNING', { ...warning });
+  }
+
+  private emit<TEvent extends keyof FatigueEventMap>(event: TEvent, payload: FatigueEventMap[TEvent]): void {
+    for (const listener of this.listeners[event]) {
+      listener(payload);
+    }
+  }
+}
+
+function computeSpeedVariation(samples: SpeedSample[]): number | null {
+  if (samples.length < MIN_SPEED_SAMPLES) {
+    return null;
+  }
+
+  const mean = samples.reduce((sum, sample) => sum + sample.speed, 0) / samples.length;
+  if (mean <= 0) {
+    return null;
+  }
+  const variance = samples.reduce((sum, sample) => sum + (sample.speed - mean) ** 2, 0) / samples.length;
+  return Math.sqrt(variance) / mean;
+}
+
+function isCircadianLow(date: Date): boolean {
+  const hour = date.getHours();
+  return hour < 6 || (hour >= 14 && hour < 16);
+}
+
+function toFatigueLevel(reasons: FatigueReason[], continuousRideMs: number): FatigueLevel {
+  // Time of day only amplifies other signals; it never raises a warning on its own.
+  const signals = reasons.filter((reason) => reason !== 'CIRCADIAN_LOW').length;
+  if (signals === 0) {
+    return 'LOW';
+  }
+  if (continuousRideMs >= VERY_LONG_RIDE_MS || reasons.length >= 3) {
+    return 'HIGH';
+  }
+  if (reasons.length >= 2 || reasons.includes('LONG_CONTINUOUS_RIDE')) {
+    return 'MODERATE';
+  }
+  return 'LOW';
+}
+
+function buildBreakSuggestion(level: Exclude<FatigueLevel, 'LOW'>, continuousRideMs: number): string {
+  const minutes = Math.floor(continuousRideMs / 60000);
+  if (level === 'HIGH') {
+    return `You have been riding for ${minutes} min with strong fatigue signs. Pull over safely and rest for at least 20 minutes.`;
+  }
+  return `You have been riding for ${minutes} min. Plan a 10-15 minute break at the next safe stop.`;
+}
+
+export const fatigueService = new FatigueService();
+export type { FatigueAssessment, FatigueLevel, FatigueReason, FatigueWarningEvent };
@@ -0,0 +1,306 @@
+import * as Haptics from 'expo-haptics';
+import * as Speech from 'expo-speech';
+
+import { haversineMeters, toRadians } from '@/src/utils/geo';
+
+import { alarmAudioService } from './alarmAudioService';
+import { hazardService, type HazardRecord, type HazardType } from './hazardService';
+import type { LocationFix, LocationPoint } from './locationService';
+import { rideSessionService } from './rideSessionService';
+import type { ServiceHealth } from './types';
+
+type HazardWarningEvent = {
+  type: 'HAZARD_WARNING';
+  timestamp: number;
+  hazard: HazardRecord;
+  distanceMeters: number;
+  warningCount: number;
+};
+
+type HazardProximityEventMap = {
+  HAZARD_WARNING: HazardWarningEvent;
+};
+
+type HazardProximityListener<TEvent extends keyof HazardProximityEventMap> = (
+  payload: HazardProximityEventMap[TEvent]
+) => void;
+
+const MAX_FIX_ACCURACY_METERS = 50;
+const MIN_MOVING_SPEED_MPS = 3;
+// Look this many seconds ahead along the current heading, bounded to a sensible distance window.
+const WARNING_LEAD_SECONDS = 8;
+const MIN_WARNING_DISTANCE_METERS = 60;
+const MAX_WARNING_DISTANCE_METERS = 300;
+// Half-width of the projected path; hazards further to either side are on another lane or road.
+const PATH_HALF_WIDTH_METERS = 20;
+// A hazard re-arms once the rider is this far from it, so each pass warns exactly once.
+const REARM_DISTANCE_METERS = 400;
+const MIN_HEADING_SEGMENT_METERS = 10;
+
+const HAZARD_LABELS: Record<HazardType, string> = {
+  POTHOLE: 'Pothole',
+  CONSTRUCTION: 'Construction',
+  WATERLOGGING: 'Waterlogging',
+  ACCIDENT_ZONE: 'Accident zone',
+  ANIMAL: 'Animal on the road',
+  OIL_SPILL: 'Oil spill',
+  BROKEN_SIGNAL: 'Broken traffic signal',
+};
+
+class HazardProximityService {
+  private running = false;
+  private unsubscribers: (() => void)[] = [];
+  private sessionId: string | null = null;
+  private hazards: HazardRecord[] = [];
+  private warnedHazardIds = new Set<string>();
+  private lastPoint: LocationPoint | null = null;
+  private latestWarning: HazardWarningEvent | null = null;
+  private listeners: {
+    [K in keyof HazardProximityEventMap]: Set<HazardProximityListener<K>>;
+  } = {
+    HAZARD_WARNING: new Set(),
+  };
+
+  async start(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    await rideSessionService.load();
+    this.unsubscribers = [
+      rideSessionService.on('RIDE_STARTED', ({ session }) => {
+        this.beginSession(session.id);
+      }),
+      rideSessionService.on('RIDE_ENDED', () => {
+        this.resetSession();
+      }),
+      rideSessionService.on('RIDE_LOCATION', ({ sessionId, fix }) => {
+        if (sessionId === this.sessionId) {
+          this.handleFix(fix);
+        }
+      }),
+      hazardService.on('HAZARD_ADDED', ({ hazard }) => {
+        this.hazards = [hazard, ...this.hazards.filter((item) => item.id !== hazard.id)];
+      }),
+      hazardService.on('HAZARD_UPDATED', ({ hazard }) => {
+        this.hazards = this.hazards.map((item) => (item.id === hazard.id ? hazard : item));
+      }),
+      hazardService.on('HAZARD_REMOVED', ({ id }) => {
+        this.hazards = this.hazards.filter((item) => item.id !== id);
+        this.warnedHazardIds.delete(id);
+      }),
+    ];
+
+    const session = rideSessionService.getCurrentSession();
+    if (session.state === 'ACTIVE') {
+      this.beginSession(session.id);
+    }
+  }
+
+  stop(): void {
+    this.running = false;
+    for (const off of this.unsubscribers) {
+      off();
+    }
+    this.unsubscribers = [];
+    this.resetSession();
+  }
+
+  getLatestWarning(): HazardWarningEvent | null {
+    return this.latestWarning ? { ...this.latestWarning } : null;
+  }
+
+  dismissWarning(): void {
+    this.latestWarning = null;
+  }
+
+  on<TEvent extends keyof HazardProximityEventMap>(
+    event: TEvent,
+    listener: HazardProximityListener<TEvent>
+  ): () => void {
+    this.listeners[event].add(listener);
+    return () => {
+      this.listeners[event].delete(listener);
+    };
+  }
+
+  getHealth(): ServiceHealth {
+    return {
+      name: 'Hazard Proximity Service',
+      state: this.running && this.sessionId ? 'active' : 'idle',
+      detail: this.sessionId
+        ? `Watching ${this.hazards.length} hazards along the ride.`
+        : 'No active ride to watch.',
+    };
+  }
+
+  private beginSession(sessionId: string): void {
+    if (this.sessionId === sessionId) {
+      return;
+    }
+
+    this.sessionId = sessionId;
+    this.warnedHazardIds = new Set();
+    this.lastPoint = null;
+    this.latestWarning = null;
+    void hazardService
+      .listHazards()
+      .then((hazards) => {
+        if (this.sessionId === sessionId) {
+          this.hazards = hazards;
+        }
+      })
+      .catch(() => {
+        // Realtime hazard events still populate the list when the initial load fails.
+      });
+  }
+
+  private resetSession(): void {
+    this.sessionId = null;
+    this.hazards = [];
+    this.warnedHazardIds = new Set();
+    this.lastPoint = null;
+    this.latestWarning = null;
+  }
+
+  private handleFix(fix: LocationFix): void {
+    if (fix.accuracy !== null && fix.accuracy > MAX_FIX_ACCURACY_METERS) {
+      return;
+    }
+
+    const heading = this.resolveHeading(fix);
+    this.rearmPassedHazards(fix);
+
+    const speed = fix.speed ?? 0;
+    if (heading === null || speed < MIN_MOVING_SPEED_MPS) {
+      return;
+    }
+
+    const warningDistance = Math.min(
+      MAX_WARNING_DISTANCE_METERS,
+      Math.max(MIN_WARNING_DISTANCE_METERS, speed * WARNING_LEAD_SECONDS)
+    );
+    let nearest: { hazard: HazardRecord; distanceMeters: number } | null = null;
+    for (const hazard of this.hazards) {
+      if (this.warnedHazardIds.has(hazard.id) || hazard.expiresAt <= fix.timestamp) {
+        continue;
+      }
+      const ahead = projectOntoPath(fix, heading, hazard);
+      if (
+        ahead.alongMeters <= 0 ||
+        ahead.alongMeters > warningDistance ||
+        Math.abs(ahead.crossMeters) > PATH_HALF_WIDTH_METERS
+      ) {
+        continue;
+      }
+      if (!nearest || ahead.alongMeters < nearest.distanceMeters) {
+        nearest = { hazard, distanceMeters: ahead.alongMeters };
+      }
+    }
+
+    if (nearest) {
+      this.warnedHazardIds.add(nearest.hazard.id);
+      void this.raiseWarning(nearest.hazard, nearest.distanceMeters, fix.timestamp);
+    }
+  }
+
+  // Prefer the GPS course while moving; fall back to the bearing between the last two fixes.
+  private resolveHeading(fix: LocationFix): number | null {
+    const previous = this.lastPoint;
+    if (!previous || haversineMeters(previous, fix) >= MIN_HEADING_SEGMENT_METERS) {
+      this.lastPoint = { latitude: fix.latitude, longitude: fix.longitude, timestamp: fix.timestamp };
+    }
+
+    if (fix.heading !== null && fix.heading >= 0 && (fix.speed ?? 0) >= MIN_MOVING_SPEED_MPS) {
+      return fix.heading;
+    }
+    if (previous && haversineMeters(previous, fix) >= MIN_HEADING_SEGMENT_METERS) {
+      return bearingDegrees(previous, fix);
+    }
+    return null;
+  }
+
+  private rearmPassedHazards(point: LocationPoint): void {
+    for (const hazardId of this.warnedHazardIds) {
+      const hazard = this.hazards.find((item) => item.id === hazardId);
+      if (!hazard || haversineMeters(point, hazard) > REARM_DISTANCE_METERS) {
+        this.warnedHazardIds.delete(hazardId);
+      }
+    }
+  }
+
+  private async raiseWarning(hazard: HazardRecord, distanceMeters: number, timestamp: number): Promise<void> {
+    const sessionId = this.sessionId;
+    alertRider(hazard, distanceMeters);
+    const warningCount = await rideSessionService.recordHazardWarning();
+    if (!sessionId || sessionId !== this.sessionId) {
+      return;
+    }
+
+    const warning: HazardWarningEvent = {
+      type: 'HAZARD_WARNING',
+      timestamp,
+      hazard,
+      distanceMeters: Math.round(distanceMeters),
+      warningCount,
+    };
+    this.latestWarning = warning;
+    this.emit('HAZARD_WARNING', { ...warning });
+  }
+
+  private emit<TEvent extends keyof HazardProximityEventMap>(
+    event: TEvent,
+    payload: HazardProximityEventMap[TEvent]
+  ): void {
+    for (const listener of this.listeners[event]) {
+      listener(payload);
+    }
+  }
+}
+
+function alertRider(hazard: HazardRecord, distanceMeters: number): void {
+  void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning).catch(() => {
+    // Haptics are unavailable on some devices; the spoken warning still plays.
+  });
+
+  // Never talk over the crash alarm.
+  if (alarmAudioService.isPlaying()) {
+    return;
+  }
+  try {
+    const rounded = Math.max(10, Math.round(distanceMeters / 10) * 10);
+    Speech.speak(`${HAZARD_LABELS[hazard.type]} ahead in ${rounded} meters.`, { rate: 1.0, pitch: 1.0 });
+  } catch {
+    // Keep the ride flow resilient when text to speech fails.
+  }
+}
+
+function bearingDegrees(
+  from: { latitude: number; longitude: number },
+  to: { latitude: number; longitude: number }
+): number {
+  const fromLat = toRadians(from.latitude);
+  const toLat = toRadians(to.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const y = Math.sin(dLon) * Math.cos(toLat);
+  const x = Math.cos(fromLat) * Math.sin(toLat) - Math.sin(fromLat) * Math.cos(toLat) * Math.cos(dLon);
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+}
+
+// Splits the rider-to-hazard distance into along-track (ahead) and cross-track (sideways) parts.
+function projectOntoPath(
+  origin: { latitude: number; longitude: number },
+  headingDegrees: number,
+  target: { latitude: number; longitude: number }
+): { alongMeters: number; crossMeters: number } {
+  const distanceMeters = haversineMeters(origin, target);
+  const offset = toRadians(bearingDegrees(origin, target) - headingDegrees);
+  return {
+    alongMeters: distanceMeters * Math.cos(offset),
+    crossMeters: distanceMeters * Math.sin(offset),
+  };
+}
+
+export const hazardProximityService = new HazardProximityService();
+export type { HazardWarningEvent };
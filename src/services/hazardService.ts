@@ -1,45 +1,107 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
-import { HAZARDS_API_URL } from '@/src/config/api';
+import { HAZARDS_API_URL, hazardPhotoApiUrl, nearbyHazardsApiUrl, resolveApiUrl } from '@/src/config/api';
 
+import { deviceAuthService } from './deviceAuthService';
+import { deviceIdentityService } from './deviceIdentityService';
+import { locationService } from './locationService';
+import { outboxService } from './outboxService';
 import { socketService } from './socketService';
 
-type HazardType = 'POTHOLE' | 'CONSTRUCTION' | 'WATERLOGGING' | 'ACCIDENT_ZONE';
+type HazardType =
+  | 'POTHOLE'
+  | 'CONSTRUCTION'
+  | 'WATERLOGGING'
+  | 'ACCIDENT_ZONE'
+  | 'ANIMAL'
+  | 'OIL_SPILL'
+  | 'BROKEN_SIGNAL';
+
+const HAZARD_TYPES: readonly HazardType[] = [
+  'POTHOLE',
+  'CONSTRUCTION',
+  'WATERLOGGING',
+  'ACCIDENT_ZONE',
+  'ANIMAL',
+  'OIL_SPILL',
+  'BROKEN_SIGNAL',
+];
 
 type HazardRecord = {
   id: string;
   type: HazardType;
   latitude: number;
   longitude: number;
+  /** 1 (minor) to 5 (dangerous); null when the reporter did not rate it. */
+  severity: number | null;
+  description: string | null;
+  /** Reporter's direction of travel in degrees, so riders can tell which side of the road it affects. */
+  heading: number | null;
+  /** Absolute URL of the attached photo, or null when the reporter did not add one. */
+  photoUrl: string | null;
+  reporterDeviceId: string | null;
+  reportCount: number;
+  confirmations: number;
+  denials: number;
+  confidence: number;
+  lastConfirmedAt: number | null;
+  expiresAt: number;
   createdAt: number;
   updatedAt: number;
 };
 
+type HazardVote = 'CONFIRM' | 'DENY';
+
 type AddHazardInput = {
   type: HazardType;
   latitude: number;
   longitude: number;
+  severity?: number | null;
+  description?: string | null;
+  heading?: number | null;
+};
+
+type HazardPhotoInput = {
+  uri: string;
+  mimeType: string;
+  fileName?: string | null;
 };
 
+type AddHazardResult =
+  | {
+      status: 'SENT';
+      hazard: HazardRecord;
+      /** True when the backend folded this report into an existing nearby hazard of the same type. */
+      merged: boolean;
+    }
+  /** The backend was unreachable; the report is delivered from the outbox once connectivity returns. */
+  | { status: 'QUEUED' };
+
 type HazardEventMap = {
   HAZARD_ADDED: { type: 'HAZARD_ADDED'; hazard: HazardRecord };
+  HAZARD_UPDATED: { type: 'HAZARD_UPDATED'; hazard: HazardRecord };
   HAZARD_REMOVED: { type: 'HAZARD_REMOVED'; id: string };
 };
 
 type HazardListener<TEvent extends keyof HazardEventMap> = (payload: HazardEventMap[TEvent]) => void;
 
 const HAZARDS_STORAGE_KEY = '@dextrix/hazards/v1';
+// Covers the map and the road ahead for ride warnings.
+const HAZARD_QUERY_RADIUS_METERS = 20_000;
 
 class HazardService {
   private hazards: HazardRecord[] = [];
   private loaded = false;
   private started = false;
   private offHazardCreated: (() => void) | null = null;
+  private offHazardUpdated: (() => void) | null = null;
   private offHazardRemoved: (() => void) | null = null;
+  private offHazardDelivered: (() => void) | null = null;
   private listeners: {
     [K in keyof HazardEventMap]: Set<HazardListener<K>>;
   } = {
     HAZARD_ADDED: new Set(),
+    HAZARD_UPDATED: new Set(),
     HAZARD_REMOVED: new Set(),
   };
 
@@ -71,35 +133,79 @@ class HazardService {
   async listHazards(): Promise<HazardRecord[]> {
     await this.load();
     await this.refreshFromBackend();
-    return [...this.hazards].sort((a, b) => b.createdAt - a.createdAt);
+    // The backend sweeps expired hazards periodically; hide them locally in the meantime.
+    const nowMs = Date.now();
+    return this.hazards.filter((hazard) => hazard.expiresAt > nowMs).sort((a, b) => b.createdAt - a.createdAt);
   }
 
-  async addHazard(input: AddHazardInput): Promise<HazardRecord> {
+  async addHazard(input: AddHazardInput): Promise<AddHazardResult> {
     await this.load();
-    const response = await fetch(HAZARDS_API_URL, {
+    const deviceId = await deviceIdentityService.getDeviceId();
+    const result = await outboxService.send({
+      kind: 'HAZARD_CREATE',
+      resource: 'hazards',
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(input),
+      url: HAZARDS_API_URL,
+      body: { ...input, deviceId },
     });
 
+    if (result.kind === 'queued') {
+      return { status: 'QUEUED' };
+    }
+    if (result.kind === 'rejected') {
+      throw new Error(`Failed to create hazard (status ${result.status})`);
+    }
+    if (!isSingleHazardEnvelope(result.body)) {
+      throw new Error('Invalid hazard create response');
+    }
+    // The outbox DELIVERED handler has already applied the hazard locally.
+    return {
+      status: 'SENT',
+      hazard: withAbsolutePhotoUrl(result.body.data),
+      merged: (result.body as { outcome?: unknown }).outcome === 'MERGED',
+    };
+  }
+
+  /** Only the reporter can attach a photo; a new upload replaces the previous one. */
+  async uploadHazardPhoto(id: string, photo: HazardPhotoInput): Promise<HazardRecord> {
+    await this.load();
+    const deviceId = await deviceIdentityService.getDeviceId();
+    const form = new FormData();
+    form.append('deviceId', deviceId);
+    // React Native's FormData streams files from a { uri, name, type } descriptor.
+    form.append('photo', {
+      uri: photo.uri,
+      name: photo.fileName ?? `hazard-${id}.${photo.mimeType.split('/')[1] ?? 'jpg'}`,
+      type: photo.mimeType,
+    } as unknown as Blob);
+    const response = await deviceAuthService.authorizedFetch(hazardPhotoApiUrl(id), {
+      method: 'POST',
+      body: form,
+    });
     if (!response.ok) {
-      throw new Error(`Failed to create hazard (status ${response.status})`);
+      throw new Error(`Failed to upload hazard photo (status ${response.status})`);
     }
 
     const payload: unknown = await response.json();
-    const created = isSingleHazardEnvelope(payload) ? payload.data : null;
-    if (!created) {
-      throw new Error('Invalid hazard create response');
+    if (!isSingleHazardEnvelope(payload)) {
+      throw new Error('Invalid hazard photo response');
     }
-    this.applyHazardCreated(created, { emit: true });
-    return created;
+    const hazard = withAbsolutePhotoUrl(payload.data);
+    this.applyHazardCreated(hazard, { emit: true });
+    return hazard;
   }
 
+  /** Only the reporter can remove a hazard; everyone else should deny it instead. */
   async removeHazard(id: string): Promise<void> {
     await this.load();
-    const response = await fetch(`${HAZARDS_API_URL}/${id}`, { method: 'DELETE' });
+    const deviceId = await deviceIdentityService.getDeviceId();
+    const response = await deviceAuthService.authorizedFetch(`${HAZARDS_API_URL}/${id}`, {
+      method: 'DELETE',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ deviceId }),
+    });
     if (!response.ok && response.status !== 404) {
       throw new Error(`Failed to remove hazard (status ${response.status})`);
     }
@@ -107,6 +213,14 @@ class HazardService {
     this.applyHazardRemoved(id, { emit: true });
   }
 
+  async confirmHazard(id: string): Promise<void> {
+    await this.vote(id, 'CONFIRM');
+  }
+
+  async denyHazard(id: string): Promise<void> {
+    await this.vote(id, 'DENY');
+  }
+
   on<TEvent extends keyof HazardEventMap>(event: TEvent, listener: HazardListener<TEvent>): () => void {
     this.listeners[event].add(listener);
     return () => {
@@ -114,6 +228,34 @@ class HazardService {
     };
   }
 
+  private async vote(id: string, vote: HazardVote): Promise<void> {
+    await this.load();
+    const deviceId = await deviceIdentityService.getDeviceId();
+    const action = vote === 'CONFIRM' ? 'confirm' : 'deny';
+    const response = await deviceAuthService.authorizedFetch(`${HAZARDS_API_URL}/${id}/${action}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ deviceId }),
+    });
+    if (response.status === 404) {
+      this.applyHazardRemoved(id, { emit: true });
+      return;
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to ${action} hazard (status ${response.status})`);
+    }
+
+    const payload: unknown = await response.json();
+    if (isSingleHazardEnvelope(payload)) {
+      this.applyHazardCreated(withAbsolutePhotoUrl(payload.data), { emit: true });
+    } else {
+      // Enough denials removed the hazard outright.
+      this.applyHazardRemoved(id, { emit: true });
+    }
+  }
+
   private async startRealtimeSync(): Promise<void> {
     if (this.started) {
       return;
@@ -121,17 +263,27 @@ class HazardService {
 
     await socketService.start();
     this.offHazardCreated = socketService.on('hazard:created', (hazard) => {
-      this.applyHazardCreated(hazard, { emit: true });
+      this.applyHazardCreated(withAbsolutePhotoUrl(hazard), { emit: true });
+    });
+    this.offHazardUpdated = socketService.on('hazard:updated', (hazard) => {
+      this.applyHazardCreated(withAbsolutePhotoUrl(hazard), { emit: true });
     });
     this.offHazardRemoved = socketService.on('hazard:removed', ({ id }) => {
       this.applyHazardRemoved(id, { emit: true });
     });
+    // Covers reports delivered both immediately and later from the outbox.
+    this.offHazardDelivered = outboxService.on('DELIVERED', ({ entry, body }) => {
+      if (entry.kind === 'HAZARD_CREATE' && isSingleHazardEnvelope(body)) {
+        // A merge returns the existing hazard's id, which applyHazardCreated updates in place.
+        this.applyHazardCreated(withAbsolutePhotoUrl(body.data), { emit: true });
+      }
+    });
     this.started = true;
   }
 
   private async refreshFromBackend(): Promise<void> {
     try {
-      const response = await fetch(HAZARDS_API_URL);
+      const response = await deviceAuthService.authorizedFetch(await resolveHazardsUrl());
       if (!response.ok) {
         return;
       }
@@ -141,7 +293,7 @@ class HazardService {
         return;
       }
 
-      this.hazards = payload.data;
+      this.hazards = payload.data.map(withAbsolutePhotoUrl);
       await this.persist();
     } catch {
       // Keep existing cached hazards on transient network failures.
@@ -164,7 +316,11 @@ class HazardService {
     }
     void this.persist();
     if (options.emit) {
-      this.emit('HAZARD_ADDED', { type: 'HAZARD_ADDED', hazard });
+      if (existingIndex === -1) {
+        this.emit('HAZARD_ADDED', { type: 'HAZARD_ADDED', hazard });
+      } else {
+        this.emit('HAZARD_UPDATED', { type: 'HAZARD_UPDATED', hazard });
+      }
     }
   }
 
@@ -206,17 +362,40 @@ function isHazardRecord(value: unknown): value is HazardRecord {
   const candidate = value as Partial<HazardRecord>;
   return (
     typeof candidate.id === 'string' &&
-    (candidate.type === 'POTHOLE' ||
-      candidate.type === 'CONSTRUCTION' ||
-      candidate.type === 'WATERLOGGING' ||
-      candidate.type === 'ACCIDENT_ZONE') &&
+    typeof candidate.type === 'string' &&
+    HAZARD_TYPES.includes(candidate.type) &&
     typeof candidate.latitude === 'number' &&
     typeof candidate.longitude === 'number' &&
+    (typeof candidate.severity === 'number' || candidate.severity === null) &&
+    (typeof candidate.description === 'string' || candidate.description === null) &&
+    (typeof candidate.heading === 'number' || candidate.heading === null) &&
+    (typeof candidate.photoUrl === 'string' || candidate.photoUrl === null) &&
+    (typeof candidate.reporterDeviceId === 'string' || candidate.reporterDeviceId === null) &&
+    typeof candidate.reportCount === 'number' &&
+    typeof candidate.confirmations === 'number' &&
+    typeof candidate.denials === 'number' &&
+    typeof candidate.confidence === 'number' &&
+    (typeof candidate.lastConfirmedAt === 'number' || candidate.lastConfirmedAt === null) &&
+    typeof candidate.expiresAt === 'number' &&
     typeof candidate.createdAt === 'number' &&
     typeof candidate.updatedAt === 'number'
   );
 }
 
+async function resolveHazardsUrl(): Promise<string> {
+  try {
+    const { latitude, longitude } = await locationService.getCurrentLocation();
+    return nearbyHazardsApiUrl(latitude, longitude, HAZARD_QUERY_RADIUS_METERS);
+  } catch {
+    // Without a fix the backend falls back to its newest hazards, capped.
+    return HAZARDS_API_URL;
+  }
+}
+
+function withAbsolutePhotoUrl(hazard: HazardRecord): HazardRecord {
+  return hazard.photoUrl ? { ...hazard, photoUrl: resolveApiUrl(hazard.photoUrl) } : hazard;
+}
+
 function isSingleHazardEnvelope(value: unknown): value is { data: HazardRecord } {
   if (!value || typeof value !== 'object') {
     return false;
@@ -236,4 +415,4 @@ function isHazardsEnvelope(value: unknown): value is { data: HazardRecord[] } {
 }
 
 export const hazardService = new HazardService();
-export type { AddHazardInput, HazardRecord, HazardType };
+export type { AddHazardInput, AddHazardResult, HazardPhotoInput, HazardRecord, HazardType, HazardVote };
@@ -1,4 +1,8 @@
 export { alarmAudioService } from './alarmAudioService';
+export { alertResolutionService } from './alertResolutionService';
+export type { AlertResolutionReport } from './alertResolutionService';
+export { alertTimelineService } from './alertTimelineService';
+export type { AlertTimelineEvent, AlertTimelineEventType } from './alertTimelineService';
 export { appRuntimeService } from './appRuntimeService';
 export { crashDetectionService } from './crashDetectionService';
 export type {
@@ -9,10 +13,21 @@ export type {
   PhaseChangeReason,
   SpikeOrientation,
 } from './crashDetectionService';
+export { fatigueService } from './fatigueService';
+export type { FatigueAssessment, FatigueLevel, FatigueReason, FatigueWarningEvent } from './fatigueService';
+export { hazardProximityService } from './hazardProximityService';
+export type { HazardWarningEvent } from './hazardProximityService';
 export {
   hazardService
 } from './hazardService';
-export type { AddHazardInput, HazardRecord, HazardType } from './hazardService';
+export type {
+  AddHazardInput,
+  AddHazardResult,
+  HazardPhotoInput,
+  HazardRecord,
+  HazardType,
+  HazardVote,
+} from './hazardService';
 export {
   EMERGENCY_CONTACT_MAX_NAME_LENGTH,
   emergencyContactsService,
@@ -24,27 +39,38 @@ export type {
   EmergencyControllerLocationPayload,
   ResponderAssignedEvent,
   EmergencyControllerState,
+  ResolvedEvent,
 } from './emergencyControllerService';
+export { deviceAuthService } from './deviceAuthService';
 export { deviceIdentityService } from './deviceIdentityService';
 export { locationService } from './locationService';
 export { networkMeshService } from './networkMeshService';
 export type { NetworkMeshStatus } from './networkMeshService';
 export { onboardingService } from './onboardingService';
+export { outboxService } from './outboxService';
+export type { OutboxEntry, OutboxKind, OutboxRequest, OutboxResult } from './outboxService';
 export { permissionsService } from './permissionsService';
 export type { PermissionKey, PermissionSnapshot, PermissionStatus } from './permissionsService';
 export { profileService } from './profileService';
 export type { SaveProfileInput, UserProfile } from './profileService';
 export { rideSessionService } from './rideSessionService';
-export type { RideSession, RideSessionState, RideSummary } from './rideSessionService';
+export type { RideSession, RideSessionState, RideSummary, RideTrack, RideTrackPoint } from './rideSessionService';
 export { responderService } from './responderService';
-export type { ResponderAlert } from './responderService';
+export type { ResponderAlert, ResponderAssignment } from './responderService';
+export { responderTrackingService } from './responderTrackingService';
+export type { ResponderApproach } from './responderTrackingService';
 export { riderHeartbeatService } from './riderHeartbeatService';
 export { settingsService } from './settingsService';
 export { socketService } from './socketService';
+export type { AlertOutcome, AlertResolvedEvent } from './socketService';
 export type { AlertAssignedEvent, AlertCancelledEvent, NearbyAlertEvent } from './transport/alertTransport';
+export { transportRegistry } from './transport/transportRegistry';
 export { transportRouterService } from './transport/transportRouterService';
 export type {
+  AlertTransport,
   AlertTransportAvailability,
+  AlertTransportCapability,
+  AlertTransportDescriptor,
   AlertTransportEventMap,
   MeshAlertLocation,
   NearbyAlertEvent as MeshNearbyAlertEvent,
@@ -53,6 +79,7 @@ export type {
   SOSAssignedPayload,
   SOSCancelledPayload,
   SOSTriggeredPayload,
+  TransportStatusEntry,
   TransportStatusSnapshot,
 } from './transport/alertTransport';
 export type {
@@ -63,6 +90,8 @@ export type {
   SettingsChangedEvent,
   UserSettings,
 } from './settingsService';
+export { smsNotificationService } from './smsNotificationService';
+export type { SmsDelivery, SmsDeliveryStatus, SmsTrigger } from './smsNotificationService';
 export { sosSimulationService } from './sosSimulationService';
 export type { SosIncident, SosSeverity } from './sosSimulationService';
 export type { ServiceHealth, ServiceState } from './types';
@@ -10,6 +10,12 @@ export type LocationPoint = {
   timestamp: number;
 };
 
+export type LocationFix = LocationPoint & {
+  accuracy: number | null;
+  speed: number | null;
+  heading: number | null;
+};
+
 class LocationService {
   private tracking = false;
   private permissionGranted = false;
@@ -80,6 +86,31 @@ class LocationService {
     };
   }
 
+  async watchFixes(handler: (fix: LocationFix) => void): Promise<() => void> {
+    await this.ensurePermission();
+    const subscription = await Location.watchPositionAsync(
+      {
+        accuracy: Location.Accuracy.High,
+        timeInterval: 2000,
+        distanceInterval: 5,
+      },
+      (update) => {
+        handler({
+          latitude: update.coords.latitude,
+          longitude: update.coords.longitude,
+          timestamp: update.timestamp,
+          accuracy: toNullableNumber(update.coords.accuracy),
+          speed: toNullableNumber(update.coords.speed),
+          heading: toNullableNumber(update.coords.heading),
+        });
+      }
+    );
+
+    return () => {
+      subscription.remove();
+    };
+  }
+
   stopTracking(): void {
     this.subscription?.remove();
     this.subscription = null;
@@ -120,4 +151,8 @@ class LocationService {
   }
 }
 
+function toNullableNumber(value: number | null | undefined): number | null {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : null;
+}
+
 export const locationService = new LocationService();
@@ -0,0 +1,52 @@
+function bytesToBase64(bytes: Uint8Array): string {
+  const bufferModule = getBufferModule();
+  if (bufferModule) {
+    return bufferModule.from(bytes).toString('base64');
+  }
+
+  let binary = '';
+  for (const value of bytes) {
+    binary += String.fromCharCode(value);
+  }
+
+  if (typeof globalThis.btoa === 'function') {
+    return globalThis.btoa(binary);
+  }
+
+  throw new Error('No base64 encoder available.');
+}
+
+function base64ToBytes(value: string): Uint8Array {
+  const bufferModule = getBufferModule();
+  if (bufferModule) {
+    return new Uint8Array(bufferModule.from(value, 'base64'));
+  }
+
+  if (typeof globalThis.atob === 'function') {
+    const binary = globalThis.atob(value);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i += 1) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+  }
+
+  throw new Error('No base64 decoder available.');
+}
+
+function getBufferModule(): { from(value: string | Uint8Array, encoding?: string): Uint8Array & { toString(encoding?: string): string } } | null {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    const value = require('buffer') as { Buffer?: { from: (value: string | Uint8Array, encoding?: string) => Uint8Array & { toString(encoding?: string): string } } };
+    return value.Buffer ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/** Native modules that take a Node-style `Buffer` reject plain typed arrays. */
+function bytesToBuffer(bytes: Uint8Array): Uint8Array {
+  return getBufferModule()?.from(bytes) ?? bytes;
+}
+
+export { base64ToBytes, bytesToBase64, bytesToBuffer };
@@ -0,0 +1,473 @@
+import { base64ToBytes, bytesToBase64 } from './meshBytes';
+import type {
+  MeshEnvelope,
+  MeshEnvelopeType,
+  MeshEnvelopeV1,
+  MeshEnvelopeV2,
+  MeshRelayAttestation,
+} from './meshEnvelope';
+import type { MeshSealRecipient } from './meshSeal';
+
+/**
+ * Compact binary form of mesh envelopes for Bluetooth advertisements.
+ *
+ * v1 layout: version, type, hop, maxHops (1 byte each), createdAt (float64), messageId and originDeviceId
+ * (length-prefixed UTF-8), raw 32-byte public key, raw 64-byte signature, then the payload as tagged values
+ * with common keys shortened to an index.
+ * v2 layout: the same header without originDeviceId, then the raw 24-byte nonce, a recipient count, each
+ * recipient (kind, keyId, ephemeral key for gateways, raw 48-byte wrapped key) and the length-prefixed ciphertext.
+ * Both end with one relay attestation per hop (deviceId, raw public key, raw signature); origin frames have none,
+ * so they are byte-identical to those of builds that predate attestations.
+ * Decoding reproduces the exact values the origin signed, so the signature still verifies.
+ */
+
+const PUBLIC_KEY_BYTES = 32;
+const SIGNATURE_BYTES = 64;
+const NONCE_BYTES = 24;
+// A 32-byte content key plus the 16-byte authenticator.
+const WRAPPED_KEY_BYTES = 48;
+const MAX_RECIPIENTS = 8;
+const MAX_SHORT_STRING_BYTES = 255;
+const MAX_VALUE_DEPTH = 8;
+// Zigzag doubles the magnitude, so larger integers fall back to float64 to stay exact.
+const MAX_VARINT_MAGNITUDE = 2 ** 52;
+
+const TYPE_CODES: Record<MeshEnvelopeType, number> = {
+  SOS_TRIGGERED: 1,
+  SOS_CANCELLED: 2,
+  SOS_ASSIGNED: 3,
+  SOS_ACK: 4,
+};
+
+// Payload keys every SOS repeats (breadcrumbs especially) are sent as a one-byte index instead of their text.
+// Append only: reordering would make older builds decode the wrong keys.
+const KNOWN_KEYS = [
+  'alertId',
+  'victimDeviceId',
+  'victimName',
+  'triggeredAt',
+  'location',
+  'latitude',
+  'longitude',
+  'timestamp',
+  'breadcrumbTrail',
+  'distanceMeters',
+  'cancelledAt',
+  'responderDeviceId',
+  'responderName',
+  'assignedAt',
+  'ackedMessageId',
+  'ackedType',
+  'targetDeviceId',
+  'receivedAt',
+  'originCertificate',
+  'deviceId',
+  'publicKey',
+  'issuedAt',
+  'expiresAt',
+  'signature',
+];
+
+const RECIPIENT_CODES: Record<MeshSealRecipient['kind'], number> = {
+  GROUP: 1,
+  GATEWAY: 2,
+};
+
+const TAG_NULL = 0;
+const TAG_FALSE = 1;
+const TAG_TRUE = 2;
+const TAG_INTEGER = 3;
+const TAG_FLOAT = 4;
+const TAG_STRING = 5;
+const TAG_ARRAY = 6;
+const TAG_MAP = 7;
+
+class ByteWriter {
+  private bytes: number[] = [];
+
+  byte(value: number): void {
+    this.bytes.push(value & 0xff);
+  }
+
+  raw(values: Uint8Array): void {
+    for (const value of values) {
+      this.bytes.push(value);
+    }
+  }
+
+  varint(value: number): void {
+    let remaining = value;
+    while (remaining >= 0x80) {
+      this.bytes.push((remaining % 0x80) | 0x80);
+      remaining = Math.floor(remaining / 0x80);
+    }
+    this.bytes.push(remaining);
+  }
+
+  float64(value: number): void {
+    const view = new DataView(new ArrayBuffer(8));
+    view.setFloat64(0, value);
+    this.raw(new Uint8Array(view.buffer));
+  }
+
+  shortString(value: string): void {
+    const encoded = new TextEncoder().encode(value);
+    if (encoded.length > MAX_SHORT_STRING_BYTES) {
+      throw new Error('String too long for a length byte.');
+    }
+    this.byte(encoded.length);
+    this.raw(encoded);
+  }
+
+  string(value: string): void {
+    const encoded = new TextEncoder().encode(value);
+    this.varint(encoded.length);
+    this.raw(encoded);
+  }
+
+  toBytes(): Uint8Array {
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+class ByteReader {
+  private offset = 0;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  get done(): boolean {
+    return this.offset === this.bytes.length;
+  }
+
+  byte(): number {
+    if (this.offset >= this.bytes.length) {
+      throw new Error('Unexpected end of envelope.');
+    }
+    const value = this.bytes[this.offset];
+    this.offset += 1;
+    return value;
+  }
+
+  raw(length: number): Uint8Array {
+    if (this.offset + length > this.bytes.length) {
+      throw new Error('Unexpected end of envelope.');
+    }
+    const value = this.bytes.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+
+  varint(): number {
+    let value = 0;
+    let scale = 1;
+    for (;;) {
+      const next = this.byte();
+      value += (next & 0x7f) * scale;
+      if ((next & 0x80) === 0) {
+        return value;
+      }
+      scale *= 0x80;
+      if (scale > Number.MAX_SAFE_INTEGER) {
+        throw new Error('Varint overflow.');
+      }
+    }
+  }
+
+  float64(): number {
+    return new DataView(this.raw(8).buffer).getFloat64(0);
+  }
+
+  shortString(): string {
+    return new TextDecoder().decode(this.raw(this.byte()));
+  }
+
+  string(): string {
+    return new TextDecoder().decode(this.raw(this.varint()));
+  }
+}
+
+function writeValue(writer: ByteWriter, value: unknown, depth: number): void {
+  if (depth > MAX_VALUE_DEPTH) {
+    throw new Error('Payload nested too deeply.');
+  }
+
+  if (value === null) {
+    writer.byte(TAG_NULL);
+    return;
+  }
+  if (typeof value === 'boolean') {
+    writer.byte(value ? TAG_TRUE : TAG_FALSE);
+    return;
+  }
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new Error('Payload numbers must be finite.');
+    }
+    if (Number.isInteger(value) && Math.abs(value) < MAX_VARINT_MAGNITUDE && !Object.is(value, -0)) {
+      writer.byte(TAG_INTEGER);
+      writer.varint(value >= 0 ? value * 2 : -value * 2 - 1);
+      return;
+    }
+    writer.byte(TAG_FLOAT);
+    writer.float64(value);
+    return;
+  }
+  if (typeof value === 'string') {
+    writer.byte(TAG_STRING);
+    writer.string(value);
+    return;
+  }
+  if (Array.isArray(value)) {
+    writer.byte(TAG_ARRAY);
+    writer.varint(value.length);
+    for (const item of value) {
+      writeValue(writer, item, depth + 1);
+    }
+    return;
+  }
+  if (typeof value === 'object') {
+    // Undefined fields are dropped, exactly as JSON serialization would drop them.
+    const entries = Object.entries(value as Record<string, unknown>).filter(([, entry]) => entry !== undefined);
+    writer.byte(TAG_MAP);
+    writer.varint(entries.length);
+    for (const [key, entry] of entries) {
+      const knownIndex = KNOWN_KEYS.indexOf(key);
+      if (knownIndex >= 0) {
+        writer.varint(knownIndex + 1);
+      } else {
+        writer.varint(0);
+        writer.string(key);
+      }
+      writeValue(writer, entry, depth + 1);
+    }
+    return;
+  }
+
+  throw new Error(`Unsupported payload value of type ${typeof value}.`);
+}
+
+function readValue(reader: ByteReader, depth: number): unknown {
+  if (depth > MAX_VALUE_DEPTH) {
+    throw new Error('Payload nested too deeply.');
+  }
+
+  const tag = reader.byte();
+  switch (tag) {
+    case TAG_NULL:
+      return null;
+    case TAG_FALSE:
+      return false;
+    case TAG_TRUE:
+      return true;
+    case TAG_INTEGER: {
+      const zigzag = reader.varint();
+      return zigzag % 2 === 0 ? zigzag / 2 : -(zigzag + 1) / 2;
+    }
+    case TAG_FLOAT:
+      return reader.float64();
+    case TAG_STRING:
+      return reader.string();
+    case TAG_ARRAY: {
+      const length = reader.varint();
+      const items: unknown[] = [];
+      for (let index = 0; index < length; index += 1) {
+        items.push(readValue(reader, depth + 1));
+      }
+      return items;
+    }
+    case TAG_MAP: {
+      const length = reader.varint();
+      const entries: Record<string, unknown> = {};
+      for (let index = 0; index < length; index += 1) {
+        const keyIndex = reader.varint();
+        const key = keyIndex === 0 ? reader.string() : KNOWN_KEYS[keyIndex - 1];
+        if (key === undefined) {
+          throw new Error(`Unknown payload key index ${keyIndex}.`);
+        }
+        entries[key] = readValue(reader, depth + 1);
+      }
+      return entries;
+    }
+    default:
+      throw new Error(`Unknown payload tag ${tag}.`);
+  }
+}
+
+function decodeCanonicalBase64(value: string, length?: number): Uint8Array {
+  const bytes = base64ToBytes(value);
+  // Only canonical base64 round-trips to the exact string the signature covers.
+  if ((length !== undefined && bytes.length !== length) || bytesToBase64(bytes) !== value) {
+    throw new Error('Field is not canonical base64 of the expected length.');
+  }
+  return bytes;
+}
+
+function isUint8(value: number): boolean {
+  return Number.isInteger(value) && value >= 0 && value <= 0xff;
+}
+
+function writeHeader(writer: ByteWriter, envelope: MeshEnvelope): void {
+  writer.byte(envelope.version);
+  writer.byte(TYPE_CODES[envelope.type]);
+  writer.byte(envelope.hop);
+  writer.byte(envelope.maxHops);
+  writer.float64(envelope.createdAt);
+  writer.shortString(envelope.messageId);
+}
+
+function writeSealed(writer: ByteWriter, envelope: MeshEnvelopeV2): void {
+  const { nonce, recipients, ciphertext } = envelope.sealed;
+  if (recipients.length > MAX_RECIPIENTS) {
+    throw new Error('Too many recipients.');
+  }
+
+  writer.raw(decodeCanonicalBase64(nonce, NONCE_BYTES));
+  writer.byte(recipients.length);
+  for (const recipient of recipients) {
+    writer.byte(RECIPIENT_CODES[recipient.kind]);
+    writer.shortString(recipient.keyId);
+    if (recipient.kind === 'GATEWAY') {
+      writer.raw(decodeCanonicalBase64(recipient.ephemeralPublicKey, PUBLIC_KEY_BYTES));
+    }
+    writer.raw(decodeCanonicalBase64(recipient.wrappedKey, WRAPPED_KEY_BYTES));
+  }
+  const ciphertextBytes = decodeCanonicalBase64(ciphertext);
+  writer.varint(ciphertextBytes.length);
+  writer.raw(ciphertextBytes);
+}
+
+function readSealed(reader: ByteReader): MeshEnvelopeV2['sealed'] {
+  const nonce = bytesToBase64(reader.raw(NONCE_BYTES));
+  const count = reader.byte();
+  if (count > MAX_RECIPIENTS) {
+    throw new Error('Too many recipients.');
+  }
+
+  const recipients: MeshSealRecipient[] = [];
+  for (let index = 0; index < count; index += 1) {
+    const kindCode = reader.byte();
+    const keyId = reader.shortString();
+    if (kindCode === RECIPIENT_CODES.GROUP) {
+      recipients.push({ kind: 'GROUP', keyId, wrappedKey: bytesToBase64(reader.raw(WRAPPED_KEY_BYTES)) });
+    } else if (kindCode === RECIPIENT_CODES.GATEWAY) {
+      const ephemeralPublicKey = bytesToBase64(reader.raw(PUBLIC_KEY_BYTES));
+      recipients.push({
+        kind: 'GATEWAY',
+        keyId,
+        ephemeralPublicKey,
+        wrappedKey: bytesToBase64(reader.raw(WRAPPED_KEY_BYTES)),
+      });
+    } else {
+      throw new Error(`Unknown recipient kind ${kindCode}.`);
+    }
+  }
+
+  const ciphertext = bytesToBase64(reader.raw(reader.varint()));
+  return { nonce, recipients, ciphertext };
+}
+
+function writeRelays(writer: ByteWriter, relays: MeshRelayAttestation[]): void {
+  for (const relay of relays) {
+    writer.shortString(relay.deviceId);
+    writer.raw(decodeCanonicalBase64(relay.publicKey, PUBLIC_KEY_BYTES));
+    writer.raw(decodeCanonicalBase64(relay.signature, SIGNATURE_BYTES));
+  }
+}
+
+// The count is not on air: a verified envelope carries exactly one attestation per hop.
+function readRelays(reader: ByteReader, hop: number): MeshRelayAttestation[] {
+  const relays: MeshRelayAttestation[] = [];
+  for (let index = 0; index < hop; index += 1) {
+    const deviceId = reader.shortString();
+    const publicKey = bytesToBase64(reader.raw(PUBLIC_KEY_BYTES));
+    relays.push({ deviceId, publicKey, signature: bytesToBase64(reader.raw(SIGNATURE_BYTES)) });
+  }
+  return relays;
+}
+
+/** Returns null when the envelope cannot be represented exactly in the binary form. */
+function encodeEnvelope(envelope: MeshEnvelope): Uint8Array | null {
+  if (!isUint8(envelope.hop) || !isUint8(envelope.maxHops) || envelope.relays.length !== envelope.hop) {
+    return null;
+  }
+
+  try {
+    const writer = new ByteWriter();
+    writeHeader(writer, envelope);
+    if (envelope.version === 1) {
+      writer.shortString(envelope.originDeviceId);
+    }
+    writer.raw(decodeCanonicalBase64(envelope.originPublicKey, PUBLIC_KEY_BYTES));
+    writer.raw(decodeCanonicalBase64(envelope.signature, SIGNATURE_BYTES));
+    if (envelope.version === 1) {
+      writeValue(writer, envelope.payload, 0);
+    } else {
+      writeSealed(writer, envelope);
+    }
+    writeRelays(writer, envelope.relays);
+    return writer.toBytes();
+  } catch {
+    return null;
+  }
+}
+
+/** Structural decode only; callers still verify the signature and age. */
+function decodeEnvelope(bytes: Uint8Array): MeshEnvelope | null {
+  try {
+    const reader = new ByteReader(bytes);
+    const version = reader.byte();
+    if (version !== 1 && version !== 2) {
+      return null;
+    }
+
+    const typeCode = reader.byte();
+    const type = (Object.keys(TYPE_CODES) as MeshEnvelopeType[]).find((key) => TYPE_CODES[key] === typeCode);
+    if (!type) {
+      return null;
+    }
+
+    const hop = reader.byte();
+    const maxHops = reader.byte();
+    const createdAt = reader.float64();
+    const messageId = reader.shortString();
+
+    if (version === 2) {
+      const originPublicKey = bytesToBase64(reader.raw(PUBLIC_KEY_BYTES));
+      const signature = bytesToBase64(reader.raw(SIGNATURE_BYTES));
+      const sealed = readSealed(reader);
+      const relays = readRelays(reader, hop);
+      if (!reader.done) {
+        return null;
+      }
+      return { version: 2, messageId, originPublicKey, type, createdAt, hop, maxHops, sealed, signature, relays };
+    }
+
+    const originDeviceId = reader.shortString();
+    const originPublicKey = bytesToBase64(reader.raw(PUBLIC_KEY_BYTES));
+    const signature = bytesToBase64(reader.raw(SIGNATURE_BYTES));
+    const payload = readValue(reader, 0);
+    const relays = readRelays(reader, hop);
+    if (!reader.done || !payload || typeof payload !== 'object' || Array.isArray(payload)) {
+      return null;
+    }
+
+    const envelope: MeshEnvelopeV1 = {
+      version: 1,
+      messageId,
+      originDeviceId,
+      originPublicKey,
+      type,
+      createdAt,
+      hop,
+      maxHops,
+      payload: payload as Record<string, unknown>,
+      signature,
+      relays,
+    };
+    return envelope;
+  } catch {
+    return null;
+  }
+}
+
+export { decodeEnvelope, encodeEnvelope };
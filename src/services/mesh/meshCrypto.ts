@@ -1,59 +1,18 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import nacl from 'tweetnacl';
 
+import { base64ToBytes, bytesToBase64 } from './meshBytes';
+
 const KEYPAIR_STORAGE_KEY = '@dextrix/mesh-keypair/v1';
+const PENDING_KEYPAIR_STORAGE_KEY = '@dextrix/mesh-keypair-pending/v1';
 
 type MeshKeyPair = {
   publicKey: string;
   secretKey: string;
+  /** When the pair was generated; drives scheduled rotation. */
+  createdAt: number;
 };
 
-function bytesToBase64(bytes: Uint8Array): string {
-  const bufferModule = getBufferModule();
-  if (bufferModule) {
-    return bufferModule.from(bytes).toString('base64');
-  }
-
-  let binary = '';
-  for (const value of bytes) {
-    binary += String.fromCharCode(value);
-  }
-
-  if (typeof globalThis.btoa === 'function') {
-    return globalThis.btoa(binary);
-  }
-
-  throw new Error('No base64 encoder available.');
-}
-
-function base64ToBytes(value: string): Uint8Array {
-  const bufferModule = getBufferModule();
-  if (bufferModule) {
-    return new Uint8Array(bufferModule.from(value, 'base64'));
-  }
-
-  if (typeof globalThis.atob === 'function') {
-    const binary = globalThis.atob(value);
-    const bytes = new Uint8Array(binary.length);
-    for (let i = 0; i < binary.length; i += 1) {
-      bytes[i] = binary.charCodeAt(i);
-    }
-    return bytes;
-  }
-
-  throw new Error('No base64 decoder available.');
-}
-
-function getBufferModule(): { from(value: string | Uint8Array, encoding?: string): Uint8Array & { toString(encoding?: string): string } } | null {
-  try {
-    // eslint-disable-next-line @typescript-eslint/no-require-imports
-    const value = require('buffer') as { Buffer?: { from: (value: string | Uint8Array, encoding?: string) => Uint8Array & { toString(encoding?: string): string } } };
-    return value.Buffer ?? null;
-  } catch {
-    return null;
-  }
-}
-
 class MeshCryptoService {
   private keyPair: MeshKeyPair | null = null;
 
@@ -62,35 +21,77 @@ class MeshCryptoService {
       return this.keyPair;
     }
 
+    let parsed: Partial<MeshKeyPair> | null = null;
     try {
       const stored = await AsyncStorage.getItem(KEYPAIR_STORAGE_KEY);
-      if (stored) {
-        const parsed = JSON.parse(stored) as Partial<MeshKeyPair>;
-        if (typeof parsed.publicKey === 'string' && typeof parsed.secretKey === 'string') {
-          this.keyPair = {
-            publicKey: parsed.publicKey,
-            secretKey: parsed.secretKey,
-          };
-          return this.keyPair;
-        }
-      }
+      parsed = stored ? (JSON.parse(stored) as Partial<MeshKeyPair>) : null;
     } catch {
       // Ignore malformed key material and generate a new keypair.
     }
 
+    if (typeof parsed?.publicKey !== 'string' || typeof parsed.secretKey !== 'string') {
+      return this.replaceKeyPair(this.generateKeyPair());
+    }
+    if (typeof parsed.createdAt === 'number') {
+      this.keyPair = { publicKey: parsed.publicKey, secretKey: parsed.secretKey, createdAt: parsed.createdAt };
+      return this.keyPair;
+    }
+
+    // Pairs stored before rotation existed start their clock now rather than rotating at once. Persisted, or
+    // the clock would restart on every launch and the pair would never come due.
+    const backfilled = { publicKey: parsed.publicKey, secretKey: parsed.secretKey, createdAt: Date.now() };
+    return this.replaceKeyPair(backfilled);
+  }
+
+  /** Creates a pair without adopting it, so it can be proven to the backend before the old one is dropped. */
+  generateKeyPair(): MeshKeyPair {
     const created = nacl.sign.keyPair();
-    this.keyPair = {
+    return {
       publicKey: bytesToBase64(created.publicKey),
       secretKey: bytesToBase64(created.secretKey),
+      createdAt: Date.now(),
     };
-    await AsyncStorage.setItem(KEYPAIR_STORAGE_KEY, JSON.stringify(this.keyPair));
-    return this.keyPair;
+  }
+
+  async replaceKeyPair(keyPair: MeshKeyPair): Promise<MeshKeyPair> {
+    this.keyPair = keyPair;
+    await AsyncStorage.setItem(KEYPAIR_STORAGE_KEY, JSON.stringify(keyPair));
+    return keyPair;
+  }
+
+  /** A pair offered to the backend in a rotation that has not been confirmed yet; null when none is in flight. */
+  async getPendingKeyPair(): Promise<MeshKeyPair | null> {
+    try {
+      const stored = await AsyncStorage.getItem(PENDING_KEYPAIR_STORAGE_KEY);
+      const parsed = stored ? (JSON.parse(stored) as Partial<MeshKeyPair>) : null;
+      if (
+        typeof parsed?.publicKey === 'string' &&
+        typeof parsed.secretKey === 'string' &&
+        typeof parsed.createdAt === 'number'
+      ) {
+        return { publicKey: parsed.publicKey, secretKey: parsed.secretKey, createdAt: parsed.createdAt };
+      }
+    } catch {
+      // A malformed pending pair is treated as none; the next rotation offers a fresh one.
+    }
+    return null;
+  }
+
+  async setPendingKeyPair(keyPair: MeshKeyPair | null): Promise<void> {
+    if (keyPair) {
+      await AsyncStorage.setItem(PENDING_KEYPAIR_STORAGE_KEY, JSON.stringify(keyPair));
+    } else {
+      await AsyncStorage.removeItem(PENDING_KEYPAIR_STORAGE_KEY);
+    }
   }
 
   async sign(payload: string): Promise<string> {
-    const keys = await this.getOrCreateKeyPair();
+    return this.signWith(await this.getOrCreateKeyPair(), payload);
+  }
+
+  signWith(keyPair: MeshKeyPair, payload: string): string {
     const encoder = new TextEncoder();
-    const signature = nacl.sign.detached(encoder.encode(payload), base64ToBytes(keys.secretKey));
+    const signature = nacl.sign.detached(encoder.encode(payload), base64ToBytes(keyPair.secretKey));
     return bytesToBase64(signature);
   }
 
@@ -1,11 +1,17 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
+import type { MeshEnvelope } from './meshEnvelope';
+
 const DEDUP_STORAGE_KEY = '@dextrix/mesh-dedup/v1';
+const ENVELOPES_STORAGE_KEY = '@dextrix/mesh-envelopes/v1';
 const MAX_AGE_MS = 10 * 60 * 1000;
+// Envelopes kept to serve peers during GATT sync; the inventory characteristic lists at most this many.
+const MAX_STORED_ENVELOPES = 64;
 
 class MeshDedupStore {
   private loaded = false;
   private seenByMessageId = new Map<string, number>();
+  private envelopesByMessageId = new Map<string, MeshEnvelope>();
 
   async load(): Promise<void> {
     if (this.loaded) {
@@ -13,33 +19,60 @@ class MeshDedupStore {
     }
 
     try {
-      const raw = await AsyncStorage.getItem(DEDUP_STORAGE_KEY);
-      if (!raw) {
-        this.loaded = true;
-        return;
-      }
-
-      const parsed = JSON.parse(raw) as Record<string, number>;
+      const [raw, rawEnvelopes] = await Promise.all([
+        AsyncStorage.getItem(DEDUP_STORAGE_KEY),
+        AsyncStorage.getItem(ENVELOPES_STORAGE_KEY),
+      ]);
+      const parsed = (raw ? JSON.parse(raw) : {}) as Record<string, number>;
       for (const [messageId, timestamp] of Object.entries(parsed)) {
         if (typeof timestamp === 'number') {
           this.seenByMessageId.set(messageId, timestamp);
         }
       }
+
+      const envelopes: unknown = rawEnvelopes ? JSON.parse(rawEnvelopes) : [];
+      if (Array.isArray(envelopes)) {
+        for (const envelope of envelopes) {
+          if (isStoredEnvelope(envelope) && this.seenByMessageId.has(envelope.messageId)) {
+            this.envelopesByMessageId.set(envelope.messageId, envelope);
+          }
+        }
+      }
     } catch {
       this.seenByMessageId.clear();
+      this.envelopesByMessageId.clear();
     }
 
     this.cleanup(Date.now());
     this.loaded = true;
   }
 
-  async remember(messageId: string, seenAt: number): Promise<void> {
+  /** Pass the envelope to also serve it to peers that sync with this device. */
+  async remember(messageId: string, seenAt: number, envelope?: MeshEnvelope): Promise<void> {
     await this.load();
     this.seenByMessageId.set(messageId, seenAt);
+    if (envelope) {
+      this.envelopesByMessageId.set(messageId, envelope);
+    }
     this.cleanup(seenAt);
     await this.persist();
   }
 
+  /** Stored envelopes, most recently seen first. */
+  listEnvelopes(nowMs = Date.now()): MeshEnvelope[] {
+    this.cleanup(nowMs);
+    return this.listEnvelopesBySeenAt();
+  }
+
+  getEnvelope(messageId: string): MeshEnvelope | null {
+    return this.envelopesByMessageId.get(messageId) ?? null;
+  }
+
+  listMessageIds(nowMs = Date.now()): string[] {
+    this.cleanup(nowMs);
+    return [...this.seenByMessageId.keys()];
+  }
+
   async has(messageId: string, nowMs = Date.now()): Promise<boolean> {
     await this.load();
     this.cleanup(nowMs);
@@ -50,18 +83,48 @@ class MeshDedupStore {
     for (const [messageId, seenAt] of this.seenByMessageId) {
       if (seenAt < nowMs - MAX_AGE_MS) {
         this.seenByMessageId.delete(messageId);
+        this.envelopesByMessageId.delete(messageId);
+      }
+    }
+
+    if (this.envelopesByMessageId.size > MAX_STORED_ENVELOPES) {
+      const overflow = this.listEnvelopesBySeenAt().slice(MAX_STORED_ENVELOPES);
+      for (const envelope of overflow) {
+        this.envelopesByMessageId.delete(envelope.messageId);
       }
     }
   }
 
+  private listEnvelopesBySeenAt(): MeshEnvelope[] {
+    return [...this.envelopesByMessageId.values()].sort(
+      (a, b) => (this.seenByMessageId.get(b.messageId) ?? 0) - (this.seenByMessageId.get(a.messageId) ?? 0)
+    );
+  }
+
   private async persist(): Promise<void> {
     const serialized: Record<string, number> = {};
     for (const [messageId, seenAt] of this.seenByMessageId) {
       serialized[messageId] = seenAt;
     }
 
-    await AsyncStorage.setItem(DEDUP_STORAGE_KEY, JSON.stringify(serialized));
+    await AsyncStorage.multiSet([
+      [DEDUP_STORAGE_KEY, JSON.stringify(serialized)],
+      [ENVELOPES_STORAGE_KEY, JSON.stringify([...this.envelopesByMessageId.values()])],
+    ]);
+  }
+}
+
+function isStoredEnvelope(value: unknown): value is MeshEnvelope {
+  if (!value || typeof value !== 'object') {
+    return false;
   }
+  const candidate = value as Partial<MeshEnvelope>;
+  // Envelopes stored before relay attestations are dropped rather than served in a shape peers reject.
+  return (
+    typeof candidate.messageId === 'string' &&
+    typeof candidate.signature === 'string' &&
+    Array.isArray(candidate.relays)
+  );
 }
 
 export const meshDedupStore = new MeshDedupStore();
@@ -1,6 +1,25 @@
 import { meshCryptoService } from './meshCrypto';
+import {
+  openSealedContents,
+  readSealedPayload,
+  sealContents,
+  type MeshGroupKey,
+  type MeshSealedPayload,
+  type MeshSealKeys,
+} from './meshSeal';
 
-type MeshEnvelopeType = 'SOS_TRIGGERED' | 'SOS_CANCELLED' | 'SOS_ASSIGNED';
+/** `SOS_ACK` is sent back towards the origin by every device that received one of the SOS types. */
+type MeshEnvelopeType = 'SOS_TRIGGERED' | 'SOS_CANCELLED' | 'SOS_ASSIGNED' | 'SOS_ACK';
+
+/**
+ * Added by each device that rebroadcasts an envelope. Each one signs the previous signature in the chain
+ * (the origin's for the first relay) and its own hop number, so neither the path nor `hop` can be altered.
+ */
+type MeshRelayAttestation = {
+  deviceId: string;
+  publicKey: string;
+  signature: string;
+};
 
 type MeshEnvelopeV1 = {
   version: 1;
@@ -12,25 +31,55 @@ type MeshEnvelopeV1 = {
   hop: number;
   maxHops: number;
   payload: Record<string, unknown>;
+  /** Covers every field except `hop` and `relays`, which change on the way. */
+  signature: string;
+  relays: MeshRelayAttestation[];
+};
+
+/**
+ * Routing fields stay readable so any phone can verify, dedupe and relay the envelope; the origin device id
+ * and payload are sealed for registered responders and the backend.
+ */
+type MeshEnvelopeV2 = {
+  version: 2;
+  messageId: string;
+  originPublicKey: string;
+  type: MeshEnvelopeType;
+  createdAt: number;
+  hop: number;
+  maxHops: number;
+  sealed: MeshSealedPayload;
   signature: string;
+  relays: MeshRelayAttestation[];
 };
 
+type MeshEnvelope = MeshEnvelopeV1 | MeshEnvelopeV2;
+
+type UnsignedEnvelope = Omit<MeshEnvelopeV1, 'signature' | 'relays'> | Omit<MeshEnvelopeV2, 'signature' | 'relays'>;
+
+/** What a reader sees once a v2 envelope is opened; a v1 envelope carries it in clear. */
+type OpenedEnvelope = Pick<
+  MeshEnvelopeV1,
+  'messageId' | 'originDeviceId' | 'type' | 'createdAt' | 'maxHops' | 'payload'
+>;
+
 type CreateEnvelopeInput = {
   messageId: string;
   originDeviceId: string;
   originPublicKey: string;
   type: MeshEnvelopeType;
   createdAt: number;
-  hop: number;
   maxHops: number;
   payload: Record<string, unknown>;
 };
 
 type ParseEnvelopeResult =
-  | { ok: true; envelope: MeshEnvelopeV1 }
+  | { ok: true; envelope: MeshEnvelope }
   | { ok: false; reason: string };
 
-const MAX_AGE_MS = 120_000;
+// GATT sync hands over envelopes minutes after they were sent. Must not exceed the dedup store's window,
+// which is what stops an older envelope from being replayed.
+const MAX_AGE_MS = 10 * 60 * 1000;
 
 function canonicalize(value: unknown): string {
   if (value === null || typeof value !== 'object') {
@@ -47,27 +96,108 @@ function canonicalize(value: unknown): string {
     .join(',')}}`;
 }
 
-function envelopeWithoutSignature(envelope: Omit<MeshEnvelopeV1, 'signature'>): string {
-  return canonicalize(envelope);
+/**
+ * The origin signs the envelope as it left the origin, with `hop` at 0. Relays advance `hop` without
+ * invalidating that signature; their attestations are what vouch for the new value.
+ */
+function buildOriginSigningMessage(envelope: UnsignedEnvelope): string {
+  return canonicalize({ ...envelope, hop: 0 });
+}
+
+function buildRelaySigningMessage(input: {
+  messageId: string;
+  hop: number;
+  previousSignature: string;
+  deviceId: string;
+  publicKey: string;
+}): string {
+  const { messageId, hop, previousSignature, deviceId, publicKey } = input;
+  return `dextrix-relay:${messageId}:${hop}:${previousSignature}:${deviceId}:${publicKey}`;
 }
 
 async function createEnvelope(input: CreateEnvelopeInput): Promise<MeshEnvelopeV1> {
-  const unsignedEnvelope: Omit<MeshEnvelopeV1, 'signature'> = {
+  const unsignedEnvelope: Omit<MeshEnvelopeV1, 'signature' | 'relays'> = {
     version: 1,
     messageId: input.messageId,
     originDeviceId: input.originDeviceId,
     originPublicKey: input.originPublicKey,
     type: input.type,
     createdAt: input.createdAt,
-    hop: input.hop,
+    hop: 0,
     maxHops: input.maxHops,
     payload: input.payload,
   };
 
-  const signature = await meshCryptoService.sign(envelopeWithoutSignature(unsignedEnvelope));
+  const signature = await meshCryptoService.sign(buildOriginSigningMessage(unsignedEnvelope));
   return {
     ...unsignedEnvelope,
     signature,
+    relays: [],
+  };
+}
+
+/** Returns null when there is no key to seal for; callers fall back to a v1 envelope. */
+async function createSealedEnvelope(input: CreateEnvelopeInput, keys: MeshSealKeys): Promise<MeshEnvelopeV2 | null> {
+  const sealed = sealContents({ originDeviceId: input.originDeviceId, payload: input.payload }, keys);
+  if (!sealed) {
+    return null;
+  }
+
+  const unsignedEnvelope: Omit<MeshEnvelopeV2, 'signature' | 'relays'> = {
+    version: 2,
+    messageId: input.messageId,
+    originPublicKey: input.originPublicKey,
+    type: input.type,
+    createdAt: input.createdAt,
+    hop: 0,
+    maxHops: input.maxHops,
+    sealed,
+  };
+
+  const signature = await meshCryptoService.sign(buildOriginSigningMessage(unsignedEnvelope));
+  return {
+    ...unsignedEnvelope,
+    signature,
+    relays: [],
+  };
+}
+
+/** Copy of a received envelope with its hop count advanced and this device's attestation appended. */
+async function relayEnvelope(envelope: MeshEnvelope, relayDeviceId: string): Promise<MeshEnvelope> {
+  const { publicKey } = await meshCryptoService.getOrCreateKeyPair();
+  const hop = envelope.hop + 1;
+  const previousSignature = envelope.relays[envelope.relays.length - 1]?.signature ?? envelope.signature;
+  const signature = await meshCryptoService.sign(
+    buildRelaySigningMessage({
+      messageId: envelope.messageId,
+      hop,
+      previousSignature,
+      deviceId: relayDeviceId,
+      publicKey,
+    })
+  );
+  return { ...envelope, hop, relays: [...envelope.relays, { deviceId: relayDeviceId, publicKey, signature }] };
+}
+
+/** Returns null for a v2 envelope that was not sealed for `groupKey`. */
+function openEnvelope(envelope: MeshEnvelope, groupKey: MeshGroupKey | null): OpenedEnvelope | null {
+  const contents =
+    envelope.version === 1
+      ? { originDeviceId: envelope.originDeviceId, payload: envelope.payload }
+      : groupKey
+        ? openSealedContents(envelope.sealed, groupKey)
+        : null;
+  if (!contents) {
+    return null;
+  }
+
+  return {
+    messageId: envelope.messageId,
+    originDeviceId: contents.originDeviceId,
+    type: envelope.type,
+    createdAt: envelope.createdAt,
+    maxHops: envelope.maxHops,
+    payload: contents.payload,
   };
 }
 
@@ -79,69 +209,170 @@ function parseEnvelope(raw: string, nowMs = Date.now()): ParseEnvelopeResult {
     return { ok: false, reason: 'Invalid JSON payload' };
   }
 
+  return verifyEnvelope(parsed, nowMs);
+}
+
+/**
+ * Checks fields, age, hops, the origin signature and the relay chain of a v1 or v2 envelope decoded
+ * from either JSON or the binary codec.
+ */
+function verifyEnvelope(parsed: unknown, nowMs = Date.now()): ParseEnvelopeResult {
   if (!parsed || typeof parsed !== 'object') {
     return { ok: false, reason: 'Envelope must be an object' };
   }
 
-  const candidate = parsed as Partial<MeshEnvelopeV1>;
-  if (
-    candidate.version !== 1 ||
-    typeof candidate.messageId !== 'string' ||
-    typeof candidate.originDeviceId !== 'string' ||
-    typeof candidate.originPublicKey !== 'string' ||
-    (candidate.type !== 'SOS_TRIGGERED' && candidate.type !== 'SOS_CANCELLED' && candidate.type !== 'SOS_ASSIGNED') ||
-    typeof candidate.createdAt !== 'number' ||
-    typeof candidate.hop !== 'number' ||
-    typeof candidate.maxHops !== 'number' ||
-    !candidate.payload ||
-    typeof candidate.payload !== 'object' ||
-    typeof candidate.signature !== 'string'
-  ) {
+  const candidate = parsed as Partial<Record<keyof MeshEnvelopeV1 | keyof MeshEnvelopeV2, unknown>>;
+  const unsignedEnvelope = readUnsignedEnvelope(candidate);
+  if (!unsignedEnvelope || typeof candidate.signature !== 'string') {
     return { ok: false, reason: 'Invalid envelope fields' };
   }
 
-  if (candidate.createdAt < nowMs - MAX_AGE_MS) {
+  if (unsignedEnvelope.createdAt < nowMs - MAX_AGE_MS) {
     return { ok: false, reason: 'Expired envelope' };
   }
 
-  if (candidate.hop < 0 || candidate.maxHops < 0 || candidate.hop > candidate.maxHops) {
+  if (unsignedEnvelope.hop < 0 || unsignedEnvelope.maxHops < 0 || unsignedEnvelope.hop > unsignedEnvelope.maxHops) {
     return { ok: false, reason: 'Invalid hop values' };
   }
 
-  const unsignedEnvelope: Omit<MeshEnvelopeV1, 'signature'> = {
-    version: 1,
-    messageId: candidate.messageId,
-    originDeviceId: candidate.originDeviceId,
-    originPublicKey: candidate.originPublicKey,
-    type: candidate.type,
-    createdAt: candidate.createdAt,
-    hop: candidate.hop,
-    maxHops: candidate.maxHops,
-    payload: candidate.payload as Record<string, unknown>,
-  };
+  // Builds from before relay attestations send origin envelopes without the field.
+  const relays = candidate.relays === undefined ? [] : readRelayAttestations(candidate.relays);
+  if (!relays || relays.length !== unsignedEnvelope.hop) {
+    return { ok: false, reason: 'Relay chain does not match the hop count' };
+  }
 
   const verified = meshCryptoService.verify(
-    envelopeWithoutSignature(unsignedEnvelope),
+    buildOriginSigningMessage(unsignedEnvelope),
     candidate.signature,
-    candidate.originPublicKey
+    unsignedEnvelope.originPublicKey
   );
 
   if (!verified) {
     return { ok: false, reason: 'Invalid signature' };
   }
 
+  let previousSignature = candidate.signature;
+  for (const [index, relay] of relays.entries()) {
+    const message = buildRelaySigningMessage({
+      messageId: unsignedEnvelope.messageId,
+      hop: index + 1,
+      previousSignature,
+      deviceId: relay.deviceId,
+      publicKey: relay.publicKey,
+    });
+    if (!meshCryptoService.verify(message, relay.signature, relay.publicKey)) {
+      return { ok: false, reason: 'Invalid relay signature' };
+    }
+    previousSignature = relay.signature;
+  }
+
   return {
     ok: true,
     envelope: {
       ...unsignedEnvelope,
       signature: candidate.signature,
-    },
+      relays,
+    } as MeshEnvelope,
   };
 }
 
-function serializeEnvelope(envelope: MeshEnvelopeV1): string {
+function readRelayAttestations(value: unknown): MeshRelayAttestation[] | null {
+  if (!Array.isArray(value)) {
+    return null;
+  }
+
+  const relays: MeshRelayAttestation[] = [];
+  for (const entry of value) {
+    const candidate = entry as Partial<Record<keyof MeshRelayAttestation, unknown>> | null;
+    if (
+      !candidate ||
+      typeof candidate.deviceId !== 'string' ||
+      typeof candidate.publicKey !== 'string' ||
+      typeof candidate.signature !== 'string'
+    ) {
+      return null;
+    }
+    relays.push({ deviceId: candidate.deviceId, publicKey: candidate.publicKey, signature: candidate.signature });
+  }
+  return relays;
+}
+
+/** Rebuilds the signed fields only, so unknown extra fields can neither break nor forge a signature. */
+function readUnsignedEnvelope(
+  candidate: Partial<Record<keyof MeshEnvelopeV1 | keyof MeshEnvelopeV2, unknown>>
+): UnsignedEnvelope | null {
+  if (
+    typeof candidate.messageId !== 'string' ||
+    typeof candidate.originPublicKey !== 'string' ||
+    !isEnvelopeType(candidate.type) ||
+    typeof candidate.createdAt !== 'number' ||
+    typeof candidate.hop !== 'number' ||
+    typeof candidate.maxHops !== 'number'
+  ) {
+    return null;
+  }
+
+  if (candidate.version === 2) {
+    const sealed = readSealedPayload(candidate.sealed);
+    if (!sealed) {
+      return null;
+    }
+    return {
+      version: 2,
+      messageId: candidate.messageId,
+      originPublicKey: candidate.originPublicKey,
+      type: candidate.type,
+      createdAt: candidate.createdAt,
+      hop: candidate.hop,
+      maxHops: candidate.maxHops,
+      sealed,
+    };
+  }
+
+  if (
+    candidate.version !== 1 ||
+    typeof candidate.originDeviceId !== 'string' ||
+    !candidate.payload ||
+    typeof candidate.payload !== 'object'
+  ) {
+    return null;
+  }
+  return {
+    version: 1,
+    messageId: candidate.messageId,
+    originDeviceId: candidate.originDeviceId,
+    originPublicKey: candidate.originPublicKey,
+    type: candidate.type,
+    createdAt: candidate.createdAt,
+    hop: candidate.hop,
+    maxHops: candidate.maxHops,
+    payload: candidate.payload as Record<string, unknown>,
+  };
+}
+
+function isEnvelopeType(value: unknown): value is MeshEnvelopeType {
+  return value === 'SOS_TRIGGERED' || value === 'SOS_CANCELLED' || value === 'SOS_ASSIGNED' || value === 'SOS_ACK';
+}
+
+function serializeEnvelope(envelope: MeshEnvelope): string {
   return JSON.stringify(envelope);
 }
 
-export { createEnvelope, parseEnvelope, serializeEnvelope };
-export type { MeshEnvelopeType, MeshEnvelopeV1 };
+export {
+  createEnvelope,
+  createSealedEnvelope,
+  openEnvelope,
+  parseEnvelope,
+  relayEnvelope,
+  serializeEnvelope,
+  verifyEnvelope,
+};
+export type {
+  MeshEnvelope,
+  MeshEnvelopeType,
+  MeshEnvelopeV1,
+  MeshEnvelopeV2,
+  MeshRelayAttestation,
+  OpenedEnvelope,
+  ParseEnvelopeResult,
+};
@@ -0,0 +1,193 @@
+/**
+ * Splits an encoded envelope into advertisement-sized fragments and reassembles them on the receiving side.
+ *
+ * Fragment layout: marker byte, 32-bit frame id, fragment index, fragment count, then a slice of the frame.
+ * The frame id is a hash of the whole frame, so the same envelope rebroadcast by several relays fills one buffer.
+ */
+
+const FRAGMENT_MARKER = 0xd7;
+const FRAGMENT_HEADER_BYTES = 7;
+const MAX_FRAGMENTS = 255;
+// Fragments are advertised under a 16-bit form UUID; a 128-bit one would take 18 of the 31 bytes on its own.
+const MESH_ADVERTISEMENT_UUID = '0000d827-0000-1000-8000-00805f9b34fb';
+// 31-byte legacy advertisement: flags (3), the 16-bit service UUID list (4) and the manufacturer data
+// length, type and company id (4) leave 20 bytes for the fragment itself.
+const DEFAULT_FRAGMENT_BYTES = 20;
+const DEFAULT_REASSEMBLY_TIMEOUT_MS = 30_000;
+const DEFAULT_MAX_PENDING_FRAMES = 32;
+
+type ReassemblyBuffer = {
+  count: number;
+  parts: (Uint8Array | null)[];
+  received: number;
+  firstSeenAt: number;
+};
+
+type FragmentHeader = {
+  frameId: number;
+  index: number;
+  count: number;
+};
+
+type MeshReassemblerOptions = {
+  timeoutMs?: number;
+  maxPendingFrames?: number;
+};
+
+function hashFrame(bytes: Uint8Array): number {
+  // FNV-1a; only used to group fragments and catch corrupted reassembly, not for authenticity.
+  let hash = 0x811c9dc5;
+  for (const value of bytes) {
+    hash ^= value;
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function isFragment(bytes: Uint8Array): boolean {
+  return bytes.length > FRAGMENT_HEADER_BYTES && bytes[0] === FRAGMENT_MARKER;
+}
+
+function readFragmentHeader(fragment: Uint8Array): FragmentHeader | null {
+  if (!isFragment(fragment)) {
+    return null;
+  }
+  const view = new DataView(fragment.buffer, fragment.byteOffset, fragment.byteLength);
+  const header = { frameId: view.getUint32(1), index: view.getUint8(5), count: view.getUint8(6) };
+  return header.count > 0 && header.index < header.count ? header : null;
+}
+
+/** Returns an empty list when the frame needs more fragments than the header can count. */
+function fragmentFrame(frame: Uint8Array, fragmentBytes = DEFAULT_FRAGMENT_BYTES): Uint8Array[] {
+  const chunkBytes = fragmentBytes - FRAGMENT_HEADER_BYTES;
+  if (chunkBytes <= 0 || frame.length === 0) {
+    return [];
+  }
+
+  const count = Math.ceil(frame.length / chunkBytes);
+  if (count > MAX_FRAGMENTS) {
+    return [];
+  }
+
+  const frameId = hashFrame(frame);
+  const fragments: Uint8Array[] = [];
+  for (let index = 0; index < count; index += 1) {
+    const chunk = frame.subarray(index * chunkBytes, (index + 1) * chunkBytes);
+    const fragment = new Uint8Array(FRAGMENT_HEADER_BYTES + chunk.length);
+    const view = new DataView(fragment.buffer);
+    view.setUint8(0, FRAGMENT_MARKER);
+    view.setUint32(1, frameId);
+    view.setUint8(5, index);
+    view.setUint8(6, count);
+    fragment.set(chunk, FRAGMENT_HEADER_BYTES);
+    fragments.push(fragment);
+  }
+  return fragments;
+}
+
+class MeshReassembler {
+  private buffers = new Map<number, ReassemblyBuffer>();
+  // Fragments keep arriving for a while after a frame completes; this stops them from starting a new buffer.
+  private completedAt = new Map<number, number>();
+  private readonly timeoutMs: number;
+  private readonly maxPendingFrames: number;
+
+  constructor(options: MeshReassemblerOptions = {}) {
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_REASSEMBLY_TIMEOUT_MS;
+    this.maxPendingFrames = options.maxPendingFrames ?? DEFAULT_MAX_PENDING_FRAMES;
+  }
+
+  get pendingFrames(): number {
+    return this.buffers.size;
+  }
+
+  /** Returns the whole frame once its last missing fragment arrives, otherwise null. */
+  push(fragment: Uint8Array, nowMs = Date.now()): Uint8Array | null {
+    this.prune(nowMs);
+    const header = readFragmentHeader(fragment);
+    if (!header || this.completedAt.has(header.frameId)) {
+      return null;
+    }
+
+    const { frameId, index, count } = header;
+
+    let buffer = this.buffers.get(frameId);
+    if (buffer && buffer.count !== count) {
+      // Two different frames hashed to the same id; start over rather than splice them together.
+      this.buffers.delete(frameId);
+      buffer = undefined;
+    }
+    if (!buffer) {
+      this.evictOldestIfFull();
+      buffer = { count, parts: new Array(count).fill(null), received: 0, firstSeenAt: nowMs };
+      this.buffers.set(frameId, buffer);
+    }
+
+    if (buffer.parts[index]) {
+      return null;
+    }
+    buffer.parts[index] = fragment.slice(FRAGMENT_HEADER_BYTES);
+    buffer.received += 1;
+    if (buffer.received < buffer.count) {
+      return null;
+    }
+
+    this.buffers.delete(frameId);
+    const frame = concatParts(buffer.parts as Uint8Array[]);
+    if (hashFrame(frame) !== frameId) {
+      return null;
+    }
+    this.completedAt.set(frameId, nowMs);
+    return frame;
+  }
+
+  prune(nowMs = Date.now()): void {
+    for (const [frameId, buffer] of this.buffers) {
+      if (nowMs - buffer.firstSeenAt > this.timeoutMs) {
+        this.buffers.delete(frameId);
+      }
+    }
+    for (const [frameId, completedAt] of this.completedAt) {
+      if (nowMs - completedAt > this.timeoutMs) {
+        this.completedAt.delete(frameId);
+      }
+    }
+  }
+
+  clear(): void {
+    this.buffers.clear();
+    this.completedAt.clear();
+  }
+
+  private evictOldestIfFull(): void {
+    if (this.buffers.size < this.maxPendingFrames) {
+      return;
+    }
+
+    let oldestId: number | null = null;
+    let oldestSeenAt = Infinity;
+    for (const [frameId, buffer] of this.buffers) {
+      if (buffer.firstSeenAt < oldestSeenAt) {
+        oldestId = frameId;
+        oldestSeenAt = buffer.firstSeenAt;
+      }
+    }
+    if (oldestId !== null) {
+      this.buffers.delete(oldestId);
+    }
+  }
+}
+
+function concatParts(parts: Uint8Array[]): Uint8Array {
+  const length = parts.reduce((total, part) => total + part.length, 0);
+  const frame = new Uint8Array(length);
+  let offset = 0;
+  for (const part of parts) {
+    frame.set(part, offset);
+    offset += part.length;
+  }
+  return frame;
+}
+
+export { fragmentFrame, isFragment, MESH_ADVERTISEMENT_UUID, MeshReassembler, readFragmentHeader };
+export type { FragmentHeader, MeshReassemblerOptions };
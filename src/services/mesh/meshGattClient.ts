@@ -0,0 +1,102 @@
+import type { BleManager, Device } from 'react-native-ble-plx';
+
+import { base64ToBytes, bytesToBase64 } from './meshBytes';
+import { decodeEnvelope } from './meshCodec';
+import type { MeshEnvelope } from './meshEnvelope';
+import { MeshReassembler, readFragmentHeader } from './meshFraming';
+import {
+  decodeInventory,
+  decodeSyncResponse,
+  digestMessageId,
+  encodeSyncRequest,
+  MESH_SERVICE_UUID,
+  MESH_SYNC_INVENTORY_UUID,
+  MESH_SYNC_REQUEST_UUID,
+  MESH_SYNC_RESPONSE_UUID,
+} from './meshSync';
+
+const CONNECT_TIMEOUT_MS = 8000;
+const REQUESTED_MTU = 517;
+const MAX_ENVELOPES_PER_SYNC = 8;
+// Another central may overwrite the response between our write and read; retry that many times per fragment.
+const MAX_RACE_RETRIES = 3;
+
+async function readCharacteristic(device: Device, characteristicUuid: string): Promise<Uint8Array> {
+  const characteristic = await device.readCharacteristicForService(MESH_SERVICE_UUID, characteristicUuid);
+  return typeof characteristic?.value === 'string' ? base64ToBytes(characteristic.value) : new Uint8Array(0);
+}
+
+async function pullFrame(device: Device, digest: number): Promise<Uint8Array | null> {
+  const reassembler = new MeshReassembler();
+  let fragmentIndex = 0;
+  let fragmentCount = 1;
+  let retries = 0;
+
+  while (fragmentIndex < fragmentCount) {
+    await device.writeCharacteristicWithResponseForService(
+      MESH_SERVICE_UUID,
+      MESH_SYNC_REQUEST_UUID,
+      bytesToBase64(encodeSyncRequest({ digest, fragmentIndex }))
+    );
+    const response = decodeSyncResponse(await readCharacteristic(device, MESH_SYNC_RESPONSE_UUID));
+    if (response?.digest === digest && response.fragment.length === 0) {
+      // The peer dropped the envelope after listing it.
+      return null;
+    }
+
+    const header = response?.digest === digest ? readFragmentHeader(response.fragment) : null;
+    if (!response || !header || header.index !== fragmentIndex) {
+      retries += 1;
+      if (retries > MAX_RACE_RETRIES) {
+        return null;
+      }
+      continue;
+    }
+
+    fragmentCount = header.count;
+    const frame = reassembler.push(response.fragment);
+    if (frame) {
+      return frame;
+    }
+    fragmentIndex += 1;
+  }
+
+  return null;
+}
+
+/**
+ * Connects to a nearby peer's mesh GATT service, compares its inventory with `knownMessageIds`
+ * and pulls the envelopes this device has not seen. Returned envelopes are decoded but not yet verified.
+ */
+async function pullMissingEnvelopes(
+  bleManager: BleManager,
+  peerId: string,
+  knownMessageIds: string[]
+): Promise<MeshEnvelope[]> {
+  const known = new Set(knownMessageIds.map((messageId) => digestMessageId(messageId)));
+  const pulled: MeshEnvelope[] = [];
+
+  try {
+    const connected = await bleManager.connectToDevice(peerId, { timeout: CONNECT_TIMEOUT_MS });
+    const device = await connected.requestMTU(REQUESTED_MTU).catch(() => connected);
+    await device.discoverAllServicesAndCharacteristics();
+
+    const inventory = decodeInventory(await readCharacteristic(device, MESH_SYNC_INVENTORY_UUID)) ?? [];
+    const missing = inventory.filter((digest) => !known.has(digest)).slice(0, MAX_ENVELOPES_PER_SYNC);
+    for (const digest of missing) {
+      const frame = await pullFrame(device, digest);
+      const envelope = frame ? decodeEnvelope(frame) : null;
+      if (envelope && digestMessageId(envelope.messageId) === digest) {
+        pulled.push(envelope);
+      }
+    }
+  } catch {
+    // Peers walk out of range mid-sync all the time; whatever was pulled so far is still useful.
+  } finally {
+    await bleManager.cancelDeviceConnection(peerId).catch(() => undefined);
+  }
+
+  return pulled;
+}
+
+export { pullMissingEnvelopes };
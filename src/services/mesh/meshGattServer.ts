@@ -0,0 +1,189 @@
+import type { Buffer } from 'buffer';
+import type Peripheral from 'react-native-multi-ble-peripheral';
+import type { WriteEvent } from 'react-native-multi-ble-peripheral';
+
+import { base64ToBytes, bytesToBuffer } from './meshBytes';
+import { encodeEnvelope } from './meshCodec';
+import type { MeshEnvelope } from './meshEnvelope';
+import { fragmentFrame } from './meshFraming';
+import {
+  decodeSyncRequest,
+  digestMessageId,
+  encodeInventory,
+  encodeSyncResponse,
+  MAX_INVENTORY_DIGESTS,
+  MESH_SERVICE_UUID,
+  MESH_SYNC_FRAGMENT_BYTES,
+  MESH_SYNC_INVENTORY_UUID,
+  MESH_SYNC_REQUEST_UUID,
+  MESH_SYNC_RESPONSE_UUID,
+} from './meshSync';
+
+const READY_TIMEOUT_MS = 5000;
+
+type PeripheralModule = typeof import('react-native-multi-ble-peripheral');
+
+// The library is typed against the `buffer` package; bytesToBuffer hands back one whenever it is available.
+function toBuffer(bytes: Uint8Array): Buffer {
+  return bytesToBuffer(bytes) as Buffer;
+}
+
+function sameUuid(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+/** Serves this device's recent envelopes to peers running GATT anti-entropy against it. */
+class MeshGattServer {
+  private peripheral: Peripheral | null = null;
+  private envelopesByDigest = new Map<number, MeshEnvelope>();
+  private fragmentsByDigest = new Map<number, Uint8Array[]>();
+
+  get running(): boolean {
+    return this.peripheral !== null;
+  }
+
+  async start(): Promise<boolean> {
+    if (this.peripheral) {
+      return true;
+    }
+
+    const module = this.loadPeripheralModule();
+    if (!module) {
+      return false;
+    }
+
+    let peripheral: Peripheral | null = null;
+    try {
+      // The constructor throws when the native module is not linked, e.g. in Expo Go or before prebuild.
+      peripheral = new module.default();
+      await this.waitForReady(peripheral);
+      await peripheral.addService(MESH_SERVICE_UUID, true);
+      await peripheral.addCharacteristic(
+        MESH_SERVICE_UUID,
+        MESH_SYNC_INVENTORY_UUID,
+        module.Property.READ,
+        module.Permission.READABLE
+      );
+      await peripheral.addCharacteristic(
+        MESH_SERVICE_UUID,
+        MESH_SYNC_REQUEST_UUID,
+        module.Property.WRITE,
+        module.Permission.WRITEABLE
+      );
+      await peripheral.addCharacteristic(
+        MESH_SERVICE_UUID,
+        MESH_SYNC_RESPONSE_UUID,
+        module.Property.READ,
+        module.Permission.READABLE
+      );
+      peripheral.on('write', (event: WriteEvent) => {
+        void this.handleWrite(event);
+      });
+      await peripheral.startAdvertising({ [MESH_SERVICE_UUID]: toBuffer(new Uint8Array(0)) }, {
+        connectable: true,
+      });
+    } catch {
+      void peripheral?.destroy().catch(() => undefined);
+      return false;
+    }
+
+    this.peripheral = peripheral;
+    await this.publishInventory();
+    return true;
+  }
+
+  stop(): void {
+    const peripheral = this.peripheral;
+    this.peripheral = null;
+    this.fragmentsByDigest.clear();
+    if (peripheral) {
+      void peripheral.destroy().catch(() => undefined);
+    }
+  }
+
+  /** Replaces the envelopes offered to peers; pass them most recent first. */
+  async setEnvelopes(envelopes: MeshEnvelope[]): Promise<void> {
+    this.envelopesByDigest.clear();
+    this.fragmentsByDigest.clear();
+    for (const envelope of envelopes.slice(0, MAX_INVENTORY_DIGESTS)) {
+      this.envelopesByDigest.set(digestMessageId(envelope.messageId), envelope);
+    }
+    await this.publishInventory();
+  }
+
+  private async publishInventory(): Promise<void> {
+    if (!this.peripheral) {
+      return;
+    }
+
+    const inventory = encodeInventory([...this.envelopesByDigest.keys()]);
+    try {
+      await this.peripheral.updateValue(MESH_SERVICE_UUID, MESH_SYNC_INVENTORY_UUID, toBuffer(inventory));
+    } catch {
+      // Peers will read the previous inventory; anything missing is picked up on their next sync.
+    }
+  }
+
+  private async handleWrite(event: WriteEvent): Promise<void> {
+    if (!this.peripheral || !sameUuid(event.characteristicUuid, MESH_SYNC_REQUEST_UUID)) {
+      return;
+    }
+
+    let request;
+    try {
+      request = decodeSyncRequest(base64ToBytes(event.value));
+    } catch {
+      return;
+    }
+    if (!request) {
+      return;
+    }
+
+    const fragment = this.resolveFragments(request.digest)[request.fragmentIndex] ?? new Uint8Array(0);
+    const response = encodeSyncResponse({ digest: request.digest, fragment });
+    try {
+      await this.peripheral.updateValue(MESH_SERVICE_UUID, MESH_SYNC_RESPONSE_UUID, toBuffer(response));
+    } catch {
+      // The central sees a stale response digest and retries its request.
+    }
+  }
+
+  private resolveFragments(digest: number): Uint8Array[] {
+    const cached = this.fragmentsByDigest.get(digest);
+    if (cached) {
+      return cached;
+    }
+
+    const envelope = this.envelopesByDigest.get(digest);
+    const frame = envelope ? encodeEnvelope(envelope) : null;
+    const fragments = frame ? fragmentFrame(frame, MESH_SYNC_FRAGMENT_BYTES) : [];
+    this.fragmentsByDigest.set(digest, fragments);
+    return fragments;
+  }
+
+  private waitForReady(peripheral: Peripheral): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error('GATT server did not become ready.')), READY_TIMEOUT_MS);
+      peripheral.once('ready', () => {
+        clearTimeout(timer);
+        resolve();
+      });
+      peripheral.once('error', (error: unknown) => {
+        clearTimeout(timer);
+        reject(error);
+      });
+    });
+  }
+
+  private loadPeripheralModule(): PeripheralModule | null {
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-require-imports
+      const module = require('react-native-multi-ble-peripheral') as PeripheralModule;
+      return module.default ? module : null;
+    } catch {
+      return null;
+    }
+  }
+}
+
+export const meshGattServer = new MeshGattServer();
@@ -0,0 +1,80 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { MESH_KEYS_API_URL } from '@/src/config/api';
+
+import { deviceAuthService } from '../deviceAuthService';
+import type { MeshGatewayKey, MeshGroupKey, MeshSealKeys } from './meshSeal';
+
+const MESH_KEYS_STORAGE_KEY = '@dextrix/mesh-keys/v1';
+
+/**
+ * Sealing keys issued by the backend to registered devices. Cached, because the mesh is used exactly
+ * when the backend cannot be reached.
+ */
+class MeshKeyService {
+  private keys: MeshSealKeys | null = null;
+  private loaded = false;
+
+  async getKeys(): Promise<MeshSealKeys | null> {
+    if (this.loaded) {
+      return this.keys;
+    }
+
+    try {
+      const raw = await AsyncStorage.getItem(MESH_KEYS_STORAGE_KEY);
+      const parsed: unknown = raw ? JSON.parse(raw) : null;
+      this.keys = isMeshSealKeys(parsed) ? parsed : null;
+    } catch {
+      this.keys = null;
+    }
+    this.loaded = true;
+    return this.keys;
+  }
+
+  /** Keeps the cached keys when the backend is unreachable. */
+  async refresh(): Promise<MeshSealKeys | null> {
+    try {
+      const response = await deviceAuthService.authorizedFetch(MESH_KEYS_API_URL);
+      if (!response.ok) {
+        return this.getKeys();
+      }
+
+      const body: unknown = await response.json();
+      const data = (body as { data?: unknown } | null)?.data;
+      if (!isMeshSealKeys(data)) {
+        return this.getKeys();
+      }
+
+      const keys: MeshSealKeys = { groupKey: data.groupKey, gatewayKey: data.gatewayKey };
+      this.keys = keys;
+      this.loaded = true;
+      await AsyncStorage.setItem(MESH_KEYS_STORAGE_KEY, JSON.stringify(keys));
+      return keys;
+    } catch {
+      return this.getKeys();
+    }
+  }
+}
+
+function isGroupKey(value: unknown): value is MeshGroupKey {
+  const candidate = value as Partial<MeshGroupKey> | null;
+  return !!candidate && typeof candidate.keyId === 'string' && typeof candidate.key === 'string';
+}
+
+function isGatewayKey(value: unknown): value is MeshGatewayKey {
+  const candidate = value as Partial<MeshGatewayKey> | null;
+  return !!candidate && typeof candidate.keyId === 'string' && typeof candidate.publicKey === 'string';
+}
+
+function isMeshSealKeys(value: unknown): value is MeshSealKeys {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const candidate = value as Partial<MeshSealKeys>;
+  return (
+    (candidate.groupKey === null || isGroupKey(candidate.groupKey)) &&
+    (candidate.gatewayKey === null || isGatewayKey(candidate.gatewayKey))
+  );
+}
+
+export const meshKeyService = new MeshKeyService();
@@ -0,0 +1,229 @@
+/**
+ * Decides whether and when a received envelope is rebroadcast, so one faulty or hostile phone cannot keep
+ * every radio in a crowd busy:
+ * - each certified origin device may inject a small burst of envelopes, then a steady trickle, and all
+ *   uncertified senders share one such allowance, so minting fresh keys buys no extra airtime;
+ * - relays wait a random delay and are dropped if enough other phones were overheard relaying meanwhile;
+ * - beyond the first hop, only a share of phones relay at all;
+ * - a device-wide budget caps relays per minute whatever the mix of origins.
+ */
+
+type MeshRelayPolicyOptions = {
+  originBurst: number;
+  originRefillMs: number;
+  /** The shared allowance of every uncertified sender together, so sized for a crowd rather than one phone. */
+  unverifiedBurst: number;
+  unverifiedRefillMs: number;
+  relayBudgetPerMinute: number;
+  relayProbability: number;
+  /** Envelopes heard straight from their origin are always relayed, so a lone victim still reaches the second ring. */
+  guaranteedHops: number;
+  minDelayMs: number;
+  maxDelayMs: number;
+  /** Distinct neighbours heard carrying the same message before this device stops bothering. */
+  suppressAfterHeard: number;
+};
+
+type MeshRelayDiagnostics = {
+  admitted: number;
+  droppedOriginLimit: number;
+  skippedByChance: number;
+  scheduled: number;
+  suppressed: number;
+  droppedBudget: number;
+  relayed: number;
+  pending: number;
+};
+
+const DEFAULT_OPTIONS: MeshRelayPolicyOptions = {
+  originBurst: 6,
+  originRefillMs: 20_000,
+  unverifiedBurst: 12,
+  unverifiedRefillMs: 5_000,
+  relayBudgetPerMinute: 30,
+  relayProbability: 0.7,
+  guaranteedHops: 1,
+  minDelayMs: 100,
+  maxDelayMs: 1500,
+  suppressAfterHeard: 3,
+};
+
+const MINUTE_MS = 60_000;
+// Sources are only tracked while a relay could still be pending.
+const HEARD_TTL_MS = 60_000;
+const MAX_TRACKED_ORIGINS = 256;
+
+class TokenBucket {
+  private tokens: number;
+  private updatedAt: number;
+
+  constructor(
+    private readonly capacity: number,
+    private readonly refillMs: number,
+    nowMs: number
+  ) {
+    this.tokens = capacity;
+    this.updatedAt = nowMs;
+  }
+
+  take(nowMs: number): boolean {
+    this.refill(nowMs);
+    if (this.tokens < 1) {
+      return false;
+    }
+    this.tokens -= 1;
+    return true;
+  }
+
+  isFull(nowMs: number): boolean {
+    this.refill(nowMs);
+    return this.tokens >= this.capacity;
+  }
+
+  private refill(nowMs: number): void {
+    const elapsed = Math.max(0, nowMs - this.updatedAt);
+    this.tokens = Math.min(this.capacity, this.tokens + elapsed / this.refillMs);
+    this.updatedAt = nowMs;
+  }
+}
+
+class MeshRelayPolicy {
+  private readonly options: MeshRelayPolicyOptions;
+  private readonly originBuckets = new Map<string, TokenBucket>();
+  private readonly heardByMessageId = new Map<string, { firstHeardAt: number; sources: Set<string> }>();
+  private readonly pendingTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private readonly unverifiedBucket: TokenBucket;
+  private readonly budget: TokenBucket;
+  private counters: Omit<MeshRelayDiagnostics, 'pending'> = {
+    admitted: 0,
+    droppedOriginLimit: 0,
+    skippedByChance: 0,
+    scheduled: 0,
+    suppressed: 0,
+    droppedBudget: 0,
+    relayed: 0,
+  };
+
+  constructor(
+    options: Partial<MeshRelayPolicyOptions> = {},
+    private readonly random: () => number = Math.random
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    const { relayBudgetPerMinute, unverifiedBurst, unverifiedRefillMs } = this.options;
+    this.unverifiedBucket = new TokenBucket(unverifiedBurst, unverifiedRefillMs, Date.now());
+    this.budget = new TokenBucket(relayBudgetPerMinute, MINUTE_MS / relayBudgetPerMinute, Date.now());
+  }
+
+  /**
+   * Spends one of the origin's tokens; false means the envelope should be neither shown nor relayed.
+   * `certifiedDeviceId` is the origin's device id only when its certificate verified, otherwise null.
+   */
+  admitOrigin(certifiedDeviceId: string | null, nowMs = Date.now()): boolean {
+    const bucket = certifiedDeviceId === null ? this.unverifiedBucket : this.getOriginBucket(certifiedDeviceId, nowMs);
+
+    if (!bucket.take(nowMs)) {
+      this.counters.droppedOriginLimit += 1;
+      return false;
+    }
+    this.counters.admitted += 1;
+    return true;
+  }
+
+  /** Call for every copy received, duplicates included; `sourceId` identifies the neighbour it came from. */
+  noteHeard(messageId: string, sourceId: string, nowMs = Date.now()): void {
+    for (const [knownMessageId, heard] of this.heardByMessageId) {
+      if (nowMs - heard.firstHeardAt > HEARD_TTL_MS && !this.pendingTimers.has(knownMessageId)) {
+        this.heardByMessageId.delete(knownMessageId);
+      }
+    }
+
+    const heard = this.heardByMessageId.get(messageId) ?? { firstHeardAt: nowMs, sources: new Set<string>() };
+    heard.sources.add(sourceId);
+    this.heardByMessageId.set(messageId, heard);
+  }
+
+  /** `hop` is the envelope's hop count as received, before this device increments it. */
+  scheduleRelay(messageId: string, hop: number, relay: () => Promise<void> | void): void {
+    if (this.pendingTimers.has(messageId)) {
+      return;
+    }
+    if (hop >= this.options.guaranteedHops && this.random() >= this.options.relayProbability) {
+      this.counters.skippedByChance += 1;
+      return;
+    }
+
+    const { minDelayMs, maxDelayMs } = this.options;
+    const delayMs = minDelayMs + Math.floor(this.random() * (maxDelayMs - minDelayMs));
+    this.counters.scheduled += 1;
+    this.pendingTimers.set(
+      messageId,
+      setTimeout(() => {
+        this.pendingTimers.delete(messageId);
+        void this.fire(messageId, relay);
+      }, delayMs)
+    );
+  }
+
+  /** Drops pending relays, e.g. when the transport stops. */
+  cancelAll(): void {
+    for (const timer of this.pendingTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.pendingTimers.clear();
+  }
+
+  getDiagnostics(): MeshRelayDiagnostics {
+    return { ...this.counters, pending: this.pendingTimers.size };
+  }
+
+  private async fire(messageId: string, relay: () => Promise<void> | void): Promise<void> {
+    const heardFrom = this.heardByMessageId.get(messageId)?.sources.size ?? 0;
+    if (heardFrom >= this.options.suppressAfterHeard) {
+      this.counters.suppressed += 1;
+      return;
+    }
+    if (!this.budget.take(Date.now())) {
+      this.counters.droppedBudget += 1;
+      return;
+    }
+
+    this.counters.relayed += 1;
+    try {
+      await relay();
+    } catch {
+      // A relay is best-effort; peers that missed it can still pull the envelope over GATT sync.
+    }
+  }
+
+  private getOriginBucket(deviceId: string, nowMs: number): TokenBucket {
+    let bucket = this.originBuckets.get(deviceId);
+    if (!bucket) {
+      this.pruneOrigins(nowMs);
+      bucket = new TokenBucket(this.options.originBurst, this.options.originRefillMs, nowMs);
+      this.originBuckets.set(deviceId, bucket);
+    }
+    return bucket;
+  }
+
+  private pruneOrigins(nowMs: number): void {
+    if (this.originBuckets.size < MAX_TRACKED_ORIGINS) {
+      return;
+    }
+    // A full bucket holds no state worth keeping; it would be recreated full.
+    for (const [deviceId, bucket] of this.originBuckets) {
+      if (bucket.isFull(nowMs)) {
+        this.originBuckets.delete(deviceId);
+      }
+    }
+    // Still full means a crowd of busy certified devices; forget the oldest rather than grow without bound.
+    for (const deviceId of this.originBuckets.keys()) {
+      if (this.originBuckets.size < MAX_TRACKED_ORIGINS) {
+        break;
+      }
+      this.originBuckets.delete(deviceId);
+    }
+  }
+}
+
+export { MeshRelayPolicy };
+export type { MeshRelayDiagnostics, MeshRelayPolicyOptions };
@@ -0,0 +1,174 @@
+import nacl from 'tweetnacl';
+
+import { base64ToBytes, bytesToBase64 } from './meshBytes';
+
+/**
+ * Encryption of the personal part of a v2 envelope: the origin device id and the payload.
+ *
+ * The contents are encrypted once under a fresh content key, and that key is wrapped for each reader:
+ * the responder group key (secretbox) and/or the backend's gateway key (box from a one-off key pair).
+ * Every wrap and the contents use different keys, so they can share the envelope's single nonce.
+ */
+
+type MeshGroupKey = {
+  keyId: string;
+  /** Base64 32-byte secretbox key shared by registered responders. */
+  key: string;
+};
+
+type MeshGatewayKey = {
+  keyId: string;
+  /** Base64 X25519 public key; only the backend holds the secret half. */
+  publicKey: string;
+};
+
+type MeshSealKeys = {
+  groupKey: MeshGroupKey | null;
+  gatewayKey: MeshGatewayKey | null;
+};
+
+type MeshSealRecipient =
+  | { kind: 'GROUP'; keyId: string; wrappedKey: string }
+  | { kind: 'GATEWAY'; keyId: string; ephemeralPublicKey: string; wrappedKey: string };
+
+type MeshSealedPayload = {
+  nonce: string;
+  recipients: MeshSealRecipient[];
+  ciphertext: string;
+};
+
+type MeshSealedContents = {
+  originDeviceId: string;
+  payload: Record<string, unknown>;
+};
+
+/** Returns null when there is no key to seal for. */
+function sealContents(contents: MeshSealedContents, keys: MeshSealKeys): MeshSealedPayload | null {
+  if (!keys.groupKey && !keys.gatewayKey) {
+    return null;
+  }
+
+  const nonce = nacl.randomBytes(nacl.secretbox.nonceLength);
+  const contentKey = nacl.randomBytes(nacl.secretbox.keyLength);
+  // JSON rather than the binary codec, so the backend can open gateway uploads without porting the codec.
+  const plaintext = new TextEncoder().encode(JSON.stringify(contents));
+  const recipients: MeshSealRecipient[] = [];
+
+  if (keys.groupKey) {
+    recipients.push({
+      kind: 'GROUP',
+      keyId: keys.groupKey.keyId,
+      wrappedKey: bytesToBase64(nacl.secretbox(contentKey, nonce, base64ToBytes(keys.groupKey.key))),
+    });
+  }
+
+  if (keys.gatewayKey) {
+    const ephemeral = nacl.box.keyPair();
+    recipients.push({
+      kind: 'GATEWAY',
+      keyId: keys.gatewayKey.keyId,
+      ephemeralPublicKey: bytesToBase64(ephemeral.publicKey),
+      wrappedKey: bytesToBase64(
+        nacl.box(contentKey, nonce, base64ToBytes(keys.gatewayKey.publicKey), ephemeral.secretKey)
+      ),
+    });
+  }
+
+  return {
+    nonce: bytesToBase64(nonce),
+    recipients,
+    ciphertext: bytesToBase64(nacl.secretbox(plaintext, nonce, contentKey)),
+  };
+}
+
+/** Returns null when the envelope was not sealed for this group key or does not decrypt. */
+function openSealedContents(sealed: MeshSealedPayload, groupKey: MeshGroupKey): MeshSealedContents | null {
+  const recipient = sealed.recipients.find(
+    (candidate) => candidate.kind === 'GROUP' && candidate.keyId === groupKey.keyId
+  );
+  if (!recipient) {
+    return null;
+  }
+
+  try {
+    const nonce = base64ToBytes(sealed.nonce);
+    const contentKey = nacl.secretbox.open(base64ToBytes(recipient.wrappedKey), nonce, base64ToBytes(groupKey.key));
+    const plaintext = contentKey ? nacl.secretbox.open(base64ToBytes(sealed.ciphertext), nonce, contentKey) : null;
+    if (!plaintext) {
+      return null;
+    }
+
+    const contents = JSON.parse(new TextDecoder().decode(plaintext)) as Partial<MeshSealedContents>;
+    if (
+      typeof contents.originDeviceId !== 'string' ||
+      !contents.payload ||
+      typeof contents.payload !== 'object' ||
+      Array.isArray(contents.payload)
+    ) {
+      return null;
+    }
+    return { originDeviceId: contents.originDeviceId, payload: contents.payload };
+  } catch {
+    return null;
+  }
+}
+
+/** Rebuilds the sealed payload from known fields only, so the signature check sees exactly what was signed. */
+function readSealedPayload(value: unknown): MeshSealedPayload | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+
+  const candidate = value as Partial<Record<keyof MeshSealedPayload, unknown>>;
+  if (
+    typeof candidate.nonce !== 'string' ||
+    typeof candidate.ciphertext !== 'string' ||
+    !Array.isArray(candidate.recipients)
+  ) {
+    return null;
+  }
+
+  const recipients: MeshSealRecipient[] = [];
+  for (const entry of candidate.recipients) {
+    const recipient = readRecipient(entry);
+    if (!recipient) {
+      return null;
+    }
+    recipients.push(recipient);
+  }
+
+  return { nonce: candidate.nonce, recipients, ciphertext: candidate.ciphertext };
+}
+
+function readRecipient(value: unknown): MeshSealRecipient | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+
+  const candidate = value as Record<string, unknown>;
+  if (typeof candidate.keyId !== 'string' || typeof candidate.wrappedKey !== 'string') {
+    return null;
+  }
+  if (candidate.kind === 'GROUP') {
+    return { kind: 'GROUP', keyId: candidate.keyId, wrappedKey: candidate.wrappedKey };
+  }
+  if (candidate.kind === 'GATEWAY' && typeof candidate.ephemeralPublicKey === 'string') {
+    return {
+      kind: 'GATEWAY',
+      keyId: candidate.keyId,
+      ephemeralPublicKey: candidate.ephemeralPublicKey,
+      wrappedKey: candidate.wrappedKey,
+    };
+  }
+  return null;
+}
+
+export { openSealedContents, readSealedPayload, sealContents };
+export type {
+  MeshGatewayKey,
+  MeshGroupKey,
+  MeshSealedContents,
+  MeshSealedPayload,
+  MeshSealKeys,
+  MeshSealRecipient,
+};
@@ -0,0 +1,113 @@
+/**
+ * Wire format for GATT anti-entropy between nearby phones.
+ *
+ * The mesh service exposes three characteristics: INVENTORY (read) lists digests of the envelopes the peer can
+ * serve, REQUEST (write) asks for one fragment of one envelope, and RESPONSE (read) then holds that fragment
+ * prefixed with the digest it answers, so a central can tell when another central's request raced its own.
+ */
+
+const MESH_SERVICE_UUID = '6a08d827-d31f-4d45-af58-4515cb2f44a5';
+const MESH_SYNC_INVENTORY_UUID = '6a08d828-d31f-4d45-af58-4515cb2f44a5';
+const MESH_SYNC_REQUEST_UUID = '6a08d829-d31f-4d45-af58-4515cb2f44a5';
+const MESH_SYNC_RESPONSE_UUID = '6a08d82a-d31f-4d45-af58-4515cb2f44a5';
+
+// Attribute values top out at 512 bytes; leave room for the digest prefix.
+const MESH_SYNC_FRAGMENT_BYTES = 480;
+const MAX_INVENTORY_DIGESTS = 64;
+const DIGEST_BYTES = 4;
+
+type MeshSyncRequest = {
+  digest: number;
+  fragmentIndex: number;
+};
+
+type MeshSyncResponse = {
+  digest: number;
+  /** Empty when the peer no longer holds the envelope. */
+  fragment: Uint8Array;
+};
+
+/** 32-bit FNV-1a of the message id; a collision only means one sync round skips a message. */
+function digestMessageId(messageId: string): number {
+  let hash = 0x811c9dc5;
+  for (const value of new TextEncoder().encode(messageId)) {
+    hash ^= value;
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function encodeInventory(digests: number[]): Uint8Array {
+  const limited = digests.slice(0, MAX_INVENTORY_DIGESTS);
+  const bytes = new Uint8Array(1 + limited.length * DIGEST_BYTES);
+  const view = new DataView(bytes.buffer);
+  view.setUint8(0, limited.length);
+  limited.forEach((digest, index) => {
+    view.setUint32(1 + index * DIGEST_BYTES, digest);
+  });
+  return bytes;
+}
+
+function decodeInventory(bytes: Uint8Array): number[] | null {
+  if (bytes.length === 0) {
+    return null;
+  }
+  const count = bytes[0];
+  if (bytes.length !== 1 + count * DIGEST_BYTES) {
+    return null;
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const digests: number[] = [];
+  for (let index = 0; index < count; index += 1) {
+    digests.push(view.getUint32(1 + index * DIGEST_BYTES));
+  }
+  return digests;
+}
+
+function encodeSyncRequest(request: MeshSyncRequest): Uint8Array {
+  const bytes = new Uint8Array(DIGEST_BYTES + 1);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, request.digest);
+  view.setUint8(DIGEST_BYTES, request.fragmentIndex);
+  return bytes;
+}
+
+function decodeSyncRequest(bytes: Uint8Array): MeshSyncRequest | null {
+  if (bytes.length !== DIGEST_BYTES + 1) {
+    return null;
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return { digest: view.getUint32(0), fragmentIndex: view.getUint8(DIGEST_BYTES) };
+}
+
+function encodeSyncResponse(response: MeshSyncResponse): Uint8Array {
+  const bytes = new Uint8Array(DIGEST_BYTES + response.fragment.length);
+  new DataView(bytes.buffer).setUint32(0, response.digest);
+  bytes.set(response.fragment, DIGEST_BYTES);
+  return bytes;
+}
+
+function decodeSyncResponse(bytes: Uint8Array): MeshSyncResponse | null {
+  if (bytes.length < DIGEST_BYTES) {
+    return null;
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return { digest: view.getUint32(0), fragment: bytes.slice(DIGEST_BYTES) };
+}
+
+export {
+  decodeInventory,
+  decodeSyncRequest,
+  decodeSyncResponse,
+  digestMessageId,
+  encodeInventory,
+  encodeSyncRequest,
+  encodeSyncResponse,
+  MAX_INVENTORY_DIGESTS,
+  MESH_SERVICE_UUID,
+  MESH_SYNC_FRAGMENT_BYTES,
+  MESH_SYNC_INVENTORY_UUID,
+  MESH_SYNC_REQUEST_UUID,
+  MESH_SYNC_RESPONSE_UUID,
+};
+export type { MeshSyncRequest, MeshSyncResponse };
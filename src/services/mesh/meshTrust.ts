@@ -0,0 +1,169 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { MESH_TRUST_API_URL } from '@/src/config/api';
+
+import { deviceAuthService } from '../deviceAuthService';
+import { meshCryptoService } from './meshCrypto';
+import type { OpenedEnvelope } from './meshEnvelope';
+
+const MESH_TRUST_STORAGE_KEY = '@dextrix/mesh-trust/v1';
+
+/** Backend-signed binding of a device id to the key it signs mesh envelopes with. */
+type DeviceCertificate = {
+  deviceId: string;
+  publicKey: string;
+  issuedAt: number;
+  expiresAt: number;
+  signature: string;
+};
+
+type MeshTrustList = {
+  authorityPublicKey: string;
+  certificate: DeviceCertificate | null;
+  revokedKeys: string[];
+  issuedAt: number;
+};
+
+/**
+ * VERIFIED: a valid certificate binds the origin device to the signing key.
+ * UNVERIFIED: no certificate, an expired one, or no trust list yet; older builds send none.
+ * FORGED: the certificate does not match the envelope or was not signed by the authority.
+ */
+type MeshOriginTrust = 'VERIFIED' | 'UNVERIFIED' | 'FORGED';
+
+function buildCertificateMessage(certificate: Omit<DeviceCertificate, 'signature'>): string {
+  const { deviceId, publicKey, issuedAt, expiresAt } = certificate;
+  return `dextrix-cert:${deviceId}:${publicKey}:${issuedAt}:${expiresAt}`;
+}
+
+/**
+ * Trust anchor and revocation list from the backend, cached so mesh senders can be checked offline.
+ * Also holds this device's own certificate, which it attaches to the envelopes it originates.
+ */
+class MeshTrustStore {
+  private trust: MeshTrustList | null = null;
+  private revoked = new Set<string>();
+  private loaded = false;
+
+  async getTrust(): Promise<MeshTrustList | null> {
+    if (this.loaded) {
+      return this.trust;
+    }
+
+    try {
+      const raw = await AsyncStorage.getItem(MESH_TRUST_STORAGE_KEY);
+      const parsed: unknown = raw ? JSON.parse(raw) : null;
+      this.adopt(isMeshTrustList(parsed) ? parsed : null);
+    } catch {
+      this.adopt(null);
+    }
+    return this.trust;
+  }
+
+  /** Keeps the cached list when the backend is unreachable. */
+  async refresh(): Promise<MeshTrustList | null> {
+    try {
+      const response = await deviceAuthService.authorizedFetch(MESH_TRUST_API_URL);
+      if (!response.ok) {
+        return this.getTrust();
+      }
+
+      const body: unknown = await response.json();
+      const data = (body as { data?: unknown } | null)?.data;
+      if (!isMeshTrustList(data)) {
+        return this.getTrust();
+      }
+
+      const trust: MeshTrustList = {
+        authorityPublicKey: data.authorityPublicKey,
+        certificate: data.certificate,
+        revokedKeys: data.revokedKeys,
+        issuedAt: data.issuedAt,
+      };
+      this.adopt(trust);
+      await AsyncStorage.setItem(MESH_TRUST_STORAGE_KEY, JSON.stringify(trust));
+      return trust;
+    } catch {
+      return this.getTrust();
+    }
+  }
+
+  async isRevoked(publicKey: string): Promise<boolean> {
+    await this.getTrust();
+    return this.revoked.has(publicKey);
+  }
+
+  /** Null until the backend has certified this key, e.g. right after a rotation. */
+  async getOwnCertificate(publicKey: string): Promise<DeviceCertificate | null> {
+    const certificate = (await this.getTrust())?.certificate ?? null;
+    return certificate?.publicKey === publicKey ? certificate : null;
+  }
+
+  async checkOrigin(envelope: OpenedEnvelope, originPublicKey: string, nowMs = Date.now()): Promise<MeshOriginTrust> {
+    const trust = await this.getTrust();
+    const certificate = readCertificate(envelope.payload.originCertificate);
+    if (!trust || !certificate) {
+      return 'UNVERIFIED';
+    }
+
+    const { signature, ...unsigned } = certificate;
+    const victimDeviceId = envelope.payload.victimDeviceId;
+    if (
+      certificate.publicKey !== originPublicKey ||
+      certificate.deviceId !== envelope.originDeviceId ||
+      (typeof victimDeviceId === 'string' && victimDeviceId !== certificate.deviceId) ||
+      !meshCryptoService.verify(buildCertificateMessage(unsigned), signature, trust.authorityPublicKey)
+    ) {
+      return 'FORGED';
+    }
+
+    return nowMs <= certificate.expiresAt ? 'VERIFIED' : 'UNVERIFIED';
+  }
+
+  private adopt(trust: MeshTrustList | null): void {
+    this.trust = trust;
+    this.revoked = new Set(trust?.revokedKeys ?? []);
+    this.loaded = true;
+  }
+}
+
+function readCertificate(value: unknown): DeviceCertificate | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+
+  const candidate = value as Partial<Record<keyof DeviceCertificate, unknown>>;
+  if (
+    typeof candidate.deviceId !== 'string' ||
+    typeof candidate.publicKey !== 'string' ||
+    typeof candidate.issuedAt !== 'number' ||
+    typeof candidate.expiresAt !== 'number' ||
+    typeof candidate.signature !== 'string'
+  ) {
+    return null;
+  }
+  return {
+    deviceId: candidate.deviceId,
+    publicKey: candidate.publicKey,
+    issuedAt: candidate.issuedAt,
+    expiresAt: candidate.expiresAt,
+    signature: candidate.signature,
+  };
+}
+
+function isMeshTrustList(value: unknown): value is MeshTrustList {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const candidate = value as Partial<MeshTrustList>;
+  return (
+    typeof candidate.authorityPublicKey === 'string' &&
+    (candidate.certificate === null || readCertificate(candidate.certificate) !== null) &&
+    Array.isArray(candidate.revokedKeys) &&
+    candidate.revokedKeys.every((key) => typeof key === 'string') &&
+    typeof candidate.issuedAt === 'number'
+  );
+}
+
+export const meshTrustStore = new MeshTrustStore();
+export type { DeviceCertificate, MeshOriginTrust, MeshTrustList };
@@ -0,0 +1,13 @@
+/**
+ * Whether a backend answer means "try again later" rather than a final verdict on the entry.
+ * A 401 counts: the token may have expired or registration may not have finished while offline, and
+ * `authorizedFetch` has already dropped the cached token, so the next attempt re-authenticates.
+ */
+export function isRetryableResponse(status: number, body: unknown): boolean {
+  if (status >= 500 || status === 401 || status === 408 || status === 429) {
+    return true;
+  }
+  // A duplicate still in flight on the backend; the stored response is replayed once it finishes.
+  const code = (body as { error?: { code?: unknown } } | null)?.error?.code;
+  return status === 409 && code === 'IDEMPOTENCY_IN_PROGRESS';
+}
@@ -0,0 +1,377 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState, type NativeEventSubscription } from 'react-native';
+
+import { deviceAuthService } from './deviceAuthService';
+import { isRetryableResponse } from './outboxPolicy';
+import { socketService } from './socketService';
+
+type OutboxKind = 'HAZARD_CREATE' | 'RIDE_TRACK' | 'RIDE_END' | 'ALERT_STATUS' | 'MESH_RELAY';
+
+type OutboxRequest = {
+  kind: OutboxKind;
+  /** Entries sharing a resource are delivered strictly in order; different resources never block each other. */
+  resource: string;
+  method: 'POST' | 'PATCH' | 'DELETE';
+  url: string;
+  body: unknown;
+};
+
+type OutboxEntry = OutboxRequest & {
+  id: string;
+  /** Sent as `Idempotency-Key` on every attempt so the backend replays instead of duplicating. */
+  idempotencyKey: string;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError: string | null;
+  createdAt: number;
+};
+
+type OutboxResult =
+  | { kind: 'delivered'; status: number; body: unknown }
+  | { kind: 'rejected'; status: number; body: unknown }
+  | { kind: 'queued' };
+
+type OutboxEventMap = {
+  DELIVERED: { type: 'DELIVERED'; entry: OutboxEntry; status: number; body: unknown };
+  FAILED: {
+    type: 'FAILED';
+    entry: OutboxEntry;
+    status: number | null;
+    body: unknown;
+    reason: 'REJECTED' | 'EXPIRED';
+  };
+  QUEUE_CHANGED: { type: 'QUEUE_CHANGED'; pending: number };
+};
+
+type OutboxListener<TEvent extends keyof OutboxEventMap> = (payload: OutboxEventMap[TEvent]) => void;
+
+const OUTBOX_STORAGE_KEY = '@dextrix/outbox/v1';
+const MAX_OUTBOX_ENTRIES = 500;
+// Matches the backend's idempotency key retention; older entries could no longer be deduplicated.
+const MAX_ENTRY_AGE_MS = 24 * 60 * 60 * 1000;
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 15_000;
+
+class OutboxService {
+  private entries: OutboxEntry[] = [];
+  private awaitingResult = new Set<string>();
+  private results = new Map<string, OutboxResult>();
+  private loaded = false;
+  private started = false;
+  private draining: Promise<void> | null = null;
+  private drainRequested = false;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private unsubscribers: (() => void)[] = [];
+  private appStateSubscription: NativeEventSubscription | null = null;
+  private listeners: {
+    [K in keyof OutboxEventMap]: Set<OutboxListener<K>>;
+  } = {
+    DELIVERED: new Set(),
+    FAILED: new Set(),
+    QUEUE_CHANGED: new Set(),
+  };
+
+  async load(): Promise<void> {
+    if (this.loaded) {
+      return;
+    }
+
+    try {
+      const raw = await AsyncStorage.getItem(OUTBOX_STORAGE_KEY);
+      const parsed: unknown = raw ? JSON.parse(raw) : [];
+      this.entries = Array.isArray(parsed) ? parsed.filter(isOutboxEntry) : [];
+    } catch {
+      this.entries = [];
+    } finally {
+      this.loaded = true;
+    }
+  }
+
+  async start(): Promise<void> {
+    if (this.started) {
+      return;
+    }
+
+    await this.load();
+    this.started = true;
+    this.unsubscribers = [
+      socketService.onConnected(() => {
+        void this.drain();
+      }),
+    ];
+    this.appStateSubscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        void this.drain();
+      }
+    });
+    void this.drain();
+  }
+
+  stop(): void {
+    for (const off of this.unsubscribers) {
+      off();
+    }
+    this.unsubscribers = [];
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    this.clearRetryTimer();
+    this.started = false;
+  }
+
+  /**
+   * Persists the request before attempting it, so it survives an app restart if the backend is unreachable.
+   * Resolves `queued` when it could not be delivered yet; owners learn the outcome from DELIVERED/FAILED.
+   */
+  async send(request: OutboxRequest): Promise<OutboxResult> {
+    await this.load();
+    const createdAt = Date.now();
+    const entry: OutboxEntry = {
+      ...request,
+      id: createId('outbox'),
+      idempotencyKey: createId('idem'),
+      attempts: 0,
+      nextAttemptAt: createdAt,
+      lastError: null,
+      createdAt,
+    };
+    this.entries = [...this.entries, entry];
+    this.trimOverflow();
+    await this.persist();
+    this.emitQueueChanged();
+
+    this.awaitingResult.add(entry.id);
+    try {
+      await this.drain();
+      return this.results.get(entry.id) ?? { kind: 'queued' };
+    } finally {
+      this.awaitingResult.delete(entry.id);
+      this.results.delete(entry.id);
+    }
+  }
+
+  drain(): Promise<void> {
+    if (this.draining) {
+      this.drainRequested = true;
+      return this.draining;
+    }
+
+    this.draining = this.runDrain().finally(() => {
+      this.draining = null;
+    });
+    return this.draining;
+  }
+
+  getPendingCount(): number {
+    return this.entries.length;
+  }
+
+  on<TEvent extends keyof OutboxEventMap>(event: TEvent, listener: OutboxListener<TEvent>): () => void {
+    this.listeners[event].add(listener);
+    return () => {
+      this.listeners[event].delete(listener);
+    };
+  }
+
+  private async runDrain(): Promise<void> {
+    do {
+      this.drainRequested = false;
+      await this.drainDueEntries();
+    } while (this.drainRequested);
+    this.scheduleRetry();
+  }
+
+  private async drainDueEntries(): Promise<void> {
+    await this.load();
+    this.dropExpiredEntries();
+    if (!isBackendReachable()) {
+      return;
+    }
+
+    for (const resource of new Set(this.entries.map((entry) => entry.resource))) {
+      for (;;) {
+        const head = this.entries.find((entry) => entry.resource === resource);
+        if (!head || head.nextAttemptAt > Date.now() || !(await this.attempt(head))) {
+          break;
+        }
+      }
+    }
+  }
+
+  // Only the oldest entry of each resource is eligible; the rest wait behind it.
+  private resourceHeads(): OutboxEntry[] {
+    const heads = new Map<string, OutboxEntry>();
+    for (const entry of this.entries) {
+      if (!heads.has(entry.resource)) {
+        heads.set(entry.resource, entry);
+      }
+    }
+    return [...heads.values()];
+  }
+
+  // Returns true once the entry has left the queue, delivered or rejected for good.
+  private async attempt(entry: OutboxEntry): Promise<boolean> {
+    let status: number;
+    let body: unknown;
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+    try {
+      const response = await deviceAuthService.authorizedFetch(entry.url, {
+        method: entry.method,
+        headers: {
+          'Content-Type': 'application/json',
+          'Idempotency-Key': entry.idempotencyKey,
+        },
+        body: JSON.stringify(entry.body),
+        signal: controller.signal,
+      });
+      status = response.status;
+      body = await response.json().catch(() => null);
+    } catch (error) {
+      await this.scheduleEntryRetry(entry, error instanceof Error ? error.message : 'Network error');
+      return false;
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    if (isRetryableResponse(status, body)) {
+      await this.scheduleEntryRetry(entry, `Backend responded with status ${status}`);
+      return false;
+    }
+
+    await this.removeEntry(entry.id);
+    const delivered = status >= 200 && status < 300;
+    if (this.awaitingResult.has(entry.id)) {
+      this.results.set(entry.id, { kind: delivered ? 'delivered' : 'rejected', status, body });
+    }
+    if (delivered) {
+      this.emit('DELIVERED', { type: 'DELIVERED', entry, status, body });
+    } else {
+      this.emit('FAILED', { type: 'FAILED', entry, status, body, reason: 'REJECTED' });
+    }
+    return true;
+  }
+
+  private async scheduleEntryRetry(entry: OutboxEntry, lastError: string): Promise<void> {
+    const attempts = entry.attempts + 1;
+    const nextAttemptAt = Date.now() + retryDelayMs(attempts);
+    this.entries = this.entries.map((item) =>
+      item.id === entry.id ? { ...item, attempts, nextAttemptAt, lastError } : item
+    );
+    await this.persist();
+  }
+
+  private scheduleRetry(): void {
+    this.clearRetryTimer();
+    // Reconnecting triggers a drain through onConnected, so no timer is needed while offline.
+    if (!this.started || this.entries.length === 0 || !isBackendReachable()) {
+      return;
+    }
+
+    const nextAttemptAt = Math.min(...this.resourceHeads().map((entry) => entry.nextAttemptAt));
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      void this.drain();
+    }, Math.max(0, nextAttemptAt - Date.now()));
+  }
+
+  private clearRetryTimer(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private dropExpiredEntries(): void {
+    const cutoff = Date.now() - MAX_ENTRY_AGE_MS;
+    const expired = this.entries.filter((entry) => entry.createdAt < cutoff);
+    if (expired.length === 0) {
+      return;
+    }
+
+    this.entries = this.entries.filter((entry) => entry.createdAt >= cutoff);
+    void this.persist();
+    this.emitQueueChanged();
+    for (const entry of expired) {
+      this.emit('FAILED', { type: 'FAILED', entry, status: null, body: null, reason: 'EXPIRED' });
+    }
+  }
+
+  private trimOverflow(): void {
+    const overflow = this.entries.length - MAX_OUTBOX_ENTRIES;
+    if (overflow <= 0) {
+      return;
+    }
+
+    const dropped = this.entries.slice(0, overflow);
+    this.entries = this.entries.slice(overflow);
+    for (const entry of dropped) {
+      this.emit('FAILED', { type: 'FAILED', entry, status: null, body: null, reason: 'EXPIRED' });
+    }
+  }
+
+  private async removeEntry(id: string): Promise<void> {
+    this.entries = this.entries.filter((entry) => entry.id !== id);
+    await this.persist();
+    this.emitQueueChanged();
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(OUTBOX_STORAGE_KEY, JSON.stringify(this.entries));
+    } catch {
+      // The in-memory queue keeps draining; only restart durability is lost.
+    }
+  }
+
+  private emitQueueChanged(): void {
+    this.emit('QUEUE_CHANGED', { type: 'QUEUE_CHANGED', pending: this.entries.length });
+  }
+
+  private emit<TEvent extends keyof OutboxEventMap>(event: TEvent, payload: OutboxEventMap[TEvent]): void {
+    for (const listener of this.listeners[event]) {
+      listener(payload);
+    }
+  }
+}
+
+// Not networkMeshService: its status follows the SOS mesh mode, and FORCE_MESH must not hold back hazards or ride ends.
+function isBackendReachable(): boolean {
+  return socketService.isConnected();
+}
+
+function retryDelayMs(attempts: number): number {
+  const exponential = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** (attempts - 1));
+  // Jitter keeps a fleet of devices that regained signal together from retrying in lockstep.
+  return Math.round(exponential * (0.8 + Math.random() * 0.4));
+}
+
+function createId(prefix: string): string {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+function isOutboxEntry(value: unknown): value is OutboxEntry {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const candidate = value as Partial<OutboxEntry>;
+  return (
+    typeof candidate.id === 'string' &&
+    typeof candidate.idempotencyKey === 'string' &&
+    (candidate.kind === 'HAZARD_CREATE' ||
+      candidate.kind === 'RIDE_TRACK' ||
+      candidate.kind === 'RIDE_END' ||
+      candidate.kind === 'ALERT_STATUS' ||
+      candidate.kind === 'MESH_RELAY') &&
+    typeof candidate.resource === 'string' &&
+    (candidate.method === 'POST' || candidate.method === 'PATCH' || candidate.method === 'DELETE') &&
+    typeof candidate.url === 'string' &&
+    typeof candidate.attempts === 'number' &&
+    typeof candidate.nextAttemptAt === 'number' &&
+    (typeof candidate.lastError === 'string' || candidate.lastError === null) &&
+    typeof candidate.createdAt === 'number'
+  );
+}
+
+export const outboxService = new OutboxService();
+export type { OutboxEntry, OutboxKind, OutboxRequest, OutboxResult };
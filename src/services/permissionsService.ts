@@ -1,6 +1,7 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as Location from 'expo-location';
 import { Accelerometer } from 'expo-sensors';
+import * as SMS from 'expo-sms';
 import { PermissionsAndroid, Platform } from 'react-native';
 
 const PERMISSIONS_STORAGE_KEY = '@dextrix/permissions-snapshot/v1';
@@ -42,7 +43,7 @@ class PermissionsService {
     next.notifications = await this.requestNotificationsBestEffort();
     next.motion = await this.requestMotionBestEffort();
     next.bluetooth = await this.requestBluetoothBestEffort();
-    next.sms = 'unknown';
+    next.sms = await this.requestSmsBestEffort();
     next.updatedAt = Date.now();
 
     await this.saveSnapshot(next);
@@ -88,6 +89,15 @@ class PermissionsService {
     }
   }
 
+  private async requestSmsBestEffort(): Promise<PermissionStatus> {
+    try {
+      const available = await SMS.isAvailableAsync();
+      return available ? 'granted' : 'unavailable';
+    } catch {
+      return 'unavailable';
+    }
+  }
+
   private async requestBluetoothBestEffort(): Promise<PermissionStatus> {
     if (Platform.OS !== 'android') {
       return 'unavailable';
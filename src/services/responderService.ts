@@ -1,5 +1,12 @@
+import { alertApiUrl, nearbyAlertsApiUrl } from '@/src/config/api';
+
+import { alertResolutionService, type AlertResolutionReport } from './alertResolutionService';
+import { deviceAuthService } from './deviceAuthService';
 import { deviceIdentityService } from './deviceIdentityService';
+import { locationService, type LocationPoint } from './locationService';
 import { profileService } from './profileService';
+import { responderTrackingService } from './responderTrackingService';
+import { socketService } from './socketService';
 import { transportRouterService } from './transport/transportRouterService';
 import {
   type AlertAssignedEvent,
@@ -9,10 +16,39 @@ import {
 
 export type ResponderAlert = NearbyAlertEvent;
 
+type ResponderAssignment = {
+  alertId: string;
+  victimDeviceId: string;
+  victimName: string | null;
+  acceptedAt: number;
+  arrivedAt: number | null;
+};
+
+type BackendAlertLocation = NonNullable<NearbyAlertEvent['location']>;
+
+type BackendNearbyAlert = {
+  id: string;
+  deviceId: string;
+  victimName?: string | null;
+  status: string;
+  triggeredAt: number;
+  location: BackendAlertLocation | null;
+  responderDeviceId?: string | null;
+  distanceMeters: number;
+};
+
+type BackendAlertLookup = 'open' | 'closed' | 'unknown' | 'error';
+
+const INBOX_RADIUS_METERS = 10_000;
+const OPEN_ALERT_STATUSES = new Set(['TRIGGERED', 'DISPATCHING', 'DISPATCHED']);
+
 type ResponderEventMap = {
   ALERTS_UPDATED: {
     alerts: ResponderAlert[];
   };
+  ASSIGNMENT_UPDATED: {
+    assignment: ResponderAssignment | null;
+  };
 };
 
 class ResponderService {
@@ -21,11 +57,16 @@ class ResponderService {
     [K in keyof ResponderEventMap]: Set<(payload: ResponderEventMap[K]) => void>;
   } = {
     ALERTS_UPDATED: new Set(),
+    ASSIGNMENT_UPDATED: new Set(),
   };
+  private assignment: ResponderAssignment | null = null;
   private started = false;
   private offNearby: (() => void) | null = null;
   private offAssigned: (() => void) | null = null;
   private offCancelled: (() => void) | null = null;
+  private offResolved: (() => void) | null = null;
+  private offReconnected: (() => void) | null = null;
+  private refreshInFlight: Promise<void> | null = null;
 
   async start(): Promise<void> {
     if (this.started) {
@@ -42,7 +83,15 @@ class ResponderService {
     this.offCancelled = transportRouterService.on('cancelled', (event) => {
       this.handleCancelled(event);
     });
+    this.offResolved = alertResolutionService.onResolved((event) => {
+      this.handleResolved(event.alertId);
+    });
+    // Pushes sent while the socket was down are lost, so rebuild the inbox from the server on every reconnect.
+    this.offReconnected = socketService.onConnected(() => {
+      void this.refreshInbox();
+    });
     this.started = true;
+    void this.refreshInbox();
   }
 
   stop(): void {
@@ -52,6 +101,10 @@ class ResponderService {
     this.offAssigned = null;
     this.offCancelled?.();
     this.offCancelled = null;
+    this.offResolved?.();
+    this.offResolved = null;
+    this.offReconnected?.();
+    this.offReconnected = null;
     this.started = false;
   }
 
@@ -69,6 +122,44 @@ class ResponderService {
     return [...this.alerts].sort((a, b) => b.triggeredAt - a.triggeredAt);
   }
 
+  getAssignment(): ResponderAssignment | null {
+    return this.assignment ? { ...this.assignment } : null;
+  }
+
+  markArrived(): void {
+    if (!this.assignment || this.assignment.arrivedAt !== null) {
+      return;
+    }
+    this.setAssignment({ ...this.assignment, arrivedAt: Date.now() });
+  }
+
+  async resolveAssignment(
+    report: Omit<AlertResolutionReport, 'arrivedAt'>
+  ): Promise<{ ok: boolean; reason?: string }> {
+    const assignment = this.assignment;
+    if (!assignment) {
+      return { ok: false, reason: 'No accepted alert to resolve.' };
+    }
+
+    const result = await alertResolutionService.resolve(assignment.alertId, {
+      ...report,
+      arrivedAt: assignment.arrivedAt,
+    });
+    if (result.ok) {
+      this.handleResolved(assignment.alertId);
+    }
+    return result;
+  }
+
+  refreshInbox(): Promise<void> {
+    if (!this.refreshInFlight) {
+      this.refreshInFlight = this.rebuildInbox().finally(() => {
+        this.refreshInFlight = null;
+      });
+    }
+    return this.refreshInFlight;
+  }
+
   async acceptAlert(alertId: string): Promise<{ ok: boolean; reason?: string }> {
     try {
       const [responderDeviceId, profile] = await Promise.all([
@@ -93,6 +184,14 @@ class ResponderService {
           console.log('[responder] accept ok', { alertId });
         }
         this.removeAlert(alertId);
+        this.setAssignment({
+          alertId,
+          victimDeviceId: alert.victimDeviceId,
+          victimName: alert.victimName ?? null,
+          acceptedAt: Date.now(),
+          arrivedAt: null,
+        });
+        void responderTrackingService.startStreaming(alertId);
         return { ok: true };
       }
 
@@ -108,6 +207,71 @@ class ResponderService {
     }
   }
 
+  private async rebuildInbox(): Promise<void> {
+    const [deviceId, position] = await Promise.all([deviceIdentityService.getDeviceId(), this.resolvePosition()]);
+    if (!position) {
+      return;
+    }
+
+    let fetched: BackendNearbyAlert[];
+    try {
+      const response = await deviceAuthService.authorizedFetch(
+        nearbyAlertsApiUrl(position.latitude, position.longitude, INBOX_RADIUS_METERS)
+      );
+      if (!response.ok) {
+        return;
+      }
+      const payload: unknown = await response.json();
+      if (!isNearbyAlertListEnvelope(payload)) {
+        return;
+      }
+      fetched = payload.data;
+    } catch {
+      return;
+    }
+
+    const serverAlerts = fetched
+      .filter((alert) => alert.deviceId !== deviceId && !alert.responderDeviceId)
+      .map(toResponderAlert);
+    const serverIds = new Set(serverAlerts.map((alert) => alert.alertId));
+
+    // Alerts missing from the nearby list were either closed while we were offline or only ever travelled
+    // over the mesh; ask for each one so mesh-only alerts are not dropped.
+    const retained: ResponderAlert[] = [];
+    const checkedIds = new Set<string>();
+    for (const alert of [...this.alerts]) {
+      if (serverIds.has(alert.alertId)) {
+        continue;
+      }
+      checkedIds.add(alert.alertId);
+      const lookup = await lookupAlert(alert.alertId);
+      if (lookup === 'unknown' || lookup === 'error') {
+        retained.push(alert);
+      }
+    }
+
+    const arrivedDuringRefresh = this.alerts.filter(
+      (alert) => !serverIds.has(alert.alertId) && !checkedIds.has(alert.alertId)
+    );
+    this.alerts = [...serverAlerts, ...retained, ...arrivedDuringRefresh];
+    if (__DEV__) {
+      console.log('[responder] inbox rebuilt', { fromServer: serverAlerts.length, retained: retained.length });
+    }
+    this.emit('ALERTS_UPDATED', { alerts: this.getAlerts() });
+  }
+
+  private async resolvePosition(): Promise<LocationPoint | null> {
+    const lastPoint = locationService.getBreadcrumbTrail(1)[0];
+    if (lastPoint) {
+      return lastPoint;
+    }
+    try {
+      return await locationService.getCurrentLocation();
+    } catch {
+      return null;
+    }
+  }
+
   private upsertAlert(alert: NearbyAlertEvent): void {
     const idx = this.alerts.findIndex((item) => item.alertId === alert.alertId);
     if (idx === -1) {
@@ -127,6 +291,22 @@ class ResponderService {
 
   private handleCancelled(event: AlertCancelledEvent): void {
     this.removeAlert(event.alertId);
+    if (this.assignment?.alertId === event.alertId) {
+      this.setAssignment(null);
+    }
+  }
+
+  private handleResolved(alertId: string): void {
+    this.removeAlert(alertId);
+    if (this.assignment?.alertId === alertId) {
+      responderTrackingService.stopStreaming();
+      this.setAssignment(null);
+    }
+  }
+
+  private setAssignment(next: ResponderAssignment | null): void {
+    this.assignment = next;
+    this.emit('ASSIGNMENT_UPDATED', { assignment: this.getAssignment() });
   }
 
   private removeAlert(alertId: string): void {
@@ -149,4 +329,65 @@ class ResponderService {
   }
 }
 
+async function lookupAlert(alertId: string): Promise<BackendAlertLookup> {
+  try {
+    const response = await deviceAuthService.authorizedFetch(alertApiUrl(alertId));
+    if (response.status === 404 || response.status === 400) {
+      return 'unknown';
+    }
+    if (!response.ok) {
+      return 'error';
+    }
+    const payload: unknown = await response.json();
+    const data = payload && typeof payload === 'object' ? (payload as { data?: unknown }).data : null;
+    if (!data || typeof data !== 'object') {
+      return 'error';
+    }
+    const record = data as { status?: unknown; responderDeviceId?: unknown };
+    return typeof record.status === 'string' && OPEN_ALERT_STATUSES.has(record.status) && !record.responderDeviceId
+      ? 'open'
+      : 'closed';
+  } catch {
+    return 'error';
+  }
+}
+
+function toResponderAlert(alert: BackendNearbyAlert): ResponderAlert {
+  return {
+    alertId: alert.id,
+    victimDeviceId: alert.deviceId,
+    victimName: alert.victimName ?? null,
+    triggeredAt: alert.triggeredAt,
+    location: alert.location,
+    distanceMeters: alert.distanceMeters,
+  };
+}
+
+function isBackendNearbyAlert(value: unknown): value is BackendNearbyAlert {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const candidate = value as Partial<BackendNearbyAlert>;
+  return (
+    typeof candidate.id === 'string' &&
+    typeof candidate.deviceId === 'string' &&
+    typeof candidate.status === 'string' &&
+    typeof candidate.triggeredAt === 'number' &&
+    (candidate.location === null ||
+      (!!candidate.location &&
+        typeof candidate.location.latitude === 'number' &&
+        typeof candidate.location.longitude === 'number')) &&
+    typeof candidate.distanceMeters === 'number'
+  );
+}
+
+function isNearbyAlertListEnvelope(value: unknown): value is { data: BackendNearbyAlert[] } {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const data = (value as { data?: unknown }).data;
+  return Array.isArray(data) && data.every(isBackendNearbyAlert);
+}
+
 export const responderService = new ResponderService();
+export type { ResponderAssignment };
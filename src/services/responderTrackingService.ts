@@ -0,0 +1,178 @@
+import { locationService, type LocationFix } from './locationService';
+import { socketService, type ResponderLocationEvent } from './socketService';
+import { transportRouterService } from './transport/transportRouterService';
+
+const SEND_INTERVAL_MS = 3000;
+// Safety net in case the end of the alert never reaches this device.
+const MAX_STREAM_DURATION_MS = 2 * 60 * 60 * 1000;
+// Used for the ETA when the responder is stationary or the fix carries no speed.
+const ASSUMED_SPEED_MPS = 30 / 3.6;
+const MIN_USABLE_SPEED_MPS = 2;
+
+type ResponderApproach = ResponderLocationEvent & {
+  etaSeconds: number | null;
+};
+
+type ResponderTrackingEventMap = {
+  RESPONDER_LOCATION: ResponderApproach;
+};
+
+class ResponderTrackingService {
+  private listeners: {
+    [K in keyof ResponderTrackingEventMap]: Set<(payload: ResponderTrackingEventMap[K]) => void>;
+  } = {
+    RESPONDER_LOCATION: new Set(),
+  };
+  private streamingAlertId: string | null = null;
+  private stopWatch: (() => void) | null = null;
+  private offStreamEnded: (() => void)[] = [];
+  private streamTimeout: ReturnType<typeof setTimeout> | null = null;
+  private lastSentAt = 0;
+  private followedAlertId: string | null = null;
+  private offFollow: (() => void)[] = [];
+  private lastApproach: ResponderApproach | null = null;
+
+  /** Responder side: share this device's position with the victim of an accepted alert. */
+  async startStreaming(alertId: string): Promise<void> {
+    if (this.streamingAlertId === alertId) {
+      return;
+    }
+
+    this.stopStreaming();
+    this.streamingAlertId = alertId;
+    this.offStreamEnded = [
+      transportRouterService.on('cancelled', (event) => {
+        if (event.alertId === alertId) {
+          this.stopStreaming();
+        }
+      }),
+      socketService.on('responder:tracking_stopped', (event) => {
+        if (event.alertId === alertId) {
+          this.stopStreaming();
+        }
+      }),
+    ];
+    this.streamTimeout = setTimeout(() => this.stopStreaming(), MAX_STREAM_DURATION_MS);
+
+    try {
+      const stopWatch = await locationService.watchFixes((fix) => this.sendFix(alertId, fix));
+      if (this.streamingAlertId !== alertId) {
+        stopWatch();
+        return;
+      }
+      this.stopWatch = stopWatch;
+      if (__DEV__) {
+        console.log('[responder-tracking] streaming started', { alertId });
+      }
+    } catch {
+      // Without location permission the victim simply sees no live position.
+      this.stopStreaming();
+    }
+  }
+
+  stopStreaming(): void {
+    if (!this.streamingAlertId) {
+      return;
+    }
+
+    if (__DEV__) {
+      console.log('[responder-tracking] streaming stopped', { alertId: this.streamingAlertId });
+    }
+    this.stopWatch?.();
+    this.stopWatch = null;
+    for (const off of this.offStreamEnded) {
+      off();
+    }
+    this.offStreamEnded = [];
+    if (this.streamTimeout) {
+      clearTimeout(this.streamTimeout);
+      this.streamTimeout = null;
+    }
+    this.streamingAlertId = null;
+    this.lastSentAt = 0;
+  }
+
+  /** Victim side: start receiving the assigned responder's position for an alert. */
+  follow(alertId: string): void {
+    if (this.followedAlertId === alertId) {
+      return;
+    }
+
+    this.unfollow();
+    this.followedAlertId = alertId;
+    this.offFollow = [
+      socketService.on('responder:location', (event) => {
+        if (event.alertId !== alertId) {
+          return;
+        }
+        this.lastApproach = { ...event, etaSeconds: estimateEtaSeconds(event) };
+        this.emit('RESPONDER_LOCATION', this.lastApproach);
+      }),
+      transportRouterService.on('cancelled', (event) => {
+        if (event.alertId === alertId) {
+          this.unfollow();
+        }
+      }),
+    ];
+  }
+
+  unfollow(): void {
+    for (const off of this.offFollow) {
+      off();
+    }
+    this.offFollow = [];
+    this.followedAlertId = null;
+    this.lastApproach = null;
+  }
+
+  getLastApproach(): ResponderApproach | null {
+    return this.lastApproach ? { ...this.lastApproach } : null;
+  }
+
+  on<TEvent extends keyof ResponderTrackingEventMap>(
+    event: TEvent,
+    listener: (payload: ResponderTrackingEventMap[TEvent]) => void
+  ): () => void {
+    this.listeners[event].add(listener);
+    return () => {
+      this.listeners[event].delete(listener);
+    };
+  }
+
+  private sendFix(alertId: string, fix: LocationFix): void {
+    if (this.streamingAlertId !== alertId || fix.timestamp - this.lastSentAt < SEND_INTERVAL_MS) {
+      return;
+    }
+
+    this.lastSentAt = fix.timestamp;
+    socketService.sendResponderLocation({
+      alertId,
+      latitude: fix.latitude,
+      longitude: fix.longitude,
+      timestamp: fix.timestamp,
+      speedMps: fix.speed,
+      heading: fix.heading,
+    });
+  }
+
+  private emit<TEvent extends keyof ResponderTrackingEventMap>(
+    event: TEvent,
+    payload: ResponderTrackingEventMap[TEvent]
+  ): void {
+    for (const listener of this.listeners[event]) {
+      listener(payload);
+    }
+  }
+}
+
+function estimateEtaSeconds(event: ResponderLocationEvent): number | null {
+  if (event.distanceMeters === null) {
+    return null;
+  }
+  const speed =
+    event.speedMps !== null && event.speedMps >= MIN_USABLE_SPEED_MPS ? event.speedMps : ASSUMED_SPEED_MPS;
+  return Math.round(event.distanceMeters / speed);
+}
+
+export const responderTrackingService = new ResponderTrackingService();
+export type { ResponderApproach };
@@ -1,8 +1,12 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
-import { RIDES_START_API_URL, rideEndApiUrl, ridesByDeviceApiUrl } from '@/src/config/api';
+import { RIDES_START_API_URL, rideEndApiUrl, rideTrackApiUrl, ridesByDeviceApiUrl } from '@/src/config/api';
+import { haversineMeters } from '@/src/utils/geo';
 
+import { deviceAuthService } from './deviceAuthService';
 import { deviceIdentityService } from './deviceIdentityService';
+import { locationService, type LocationFix, type LocationPoint } from './locationService';
+import { outboxService } from './outboxService';
 
 type RideSessionState = 'IDLE' | 'ACTIVE' | 'ENDED';
 
@@ -19,15 +23,49 @@ type RideSummary = {
   durationMs: number;
   distanceKm: number;
   fatigueWarnings: number;
+  hazardWarnings: number;
   hazardsReported: number;
   sosTriggered: number;
   createdAt: number;
 };
 
+type RideDistanceState = {
+  sessionId: string;
+  distanceMeters: number;
+  lastPoint: LocationPoint | null;
+};
+
+type RideTrackPoint = {
+  timestamp: number;
+  latitude: number;
+  longitude: number;
+  speed: number | null;
+  accuracy: number | null;
+};
+
+type RideTrackState = {
+  sessionId: string;
+  nextSeq: number;
+  lastKept: RideTrackPoint | null;
+  pending: RideTrackPoint[];
+};
+
+type RideTrack = {
+  rideId: string;
+  points: RideTrackPoint[];
+};
+
+type RideCountersState = {
+  sessionId: string;
+  fatigueWarnings: number;
+  hazardWarnings: number;
+};
+
 type RideSessionEventMap = {
   RIDE_STARTED: { type: 'RIDE_STARTED'; session: RideSession };
   RIDE_ENDED: { type: 'RIDE_ENDED'; session: RideSession; summary: RideSummary };
   RIDE_TICK: { type: 'RIDE_TICK'; elapsedMs: number };
+  RIDE_LOCATION: { type: 'RIDE_LOCATION'; sessionId: string; fix: LocationFix };
 };
 
 type RideSessionListener<TEvent extends keyof RideSessionEventMap> = (
@@ -37,7 +75,17 @@ type RideSessionListener<TEvent extends keyof RideSessionEventMap> = (
 const CURRENT_SESSION_KEY = '@dextrix/ride-session/current/v1';
 const SUMMARIES_KEY = '@dextrix/ride-session/summaries/v1';
 const ACTIVE_RIDE_RECORD_ID_KEY = '@dextrix/ride-session/active-ride-record-id/v1';
+const DISTANCE_STATE_KEY = '@dextrix/ride-session/distance/v1';
+const TRACK_STATE_KEY = '@dextrix/ride-session/track/v1';
+const COUNTERS_KEY = '@dextrix/ride-session/counters/v1';
 const MAX_SUMMARIES = 50;
+const MAX_FIX_ACCURACY_METERS = 35;
+const MIN_SEGMENT_METERS = 5;
+const MAX_PLAUSIBLE_SPEED_MPS = 70;
+const TRACK_MIN_INTERVAL_MS = 5000;
+const TRACK_MIN_SPACING_METERS = 25;
+const TRACK_UPLOAD_CHUNK_SIZE = 50;
+const MAX_PENDING_TRACK_POINTS = 5000;
 
 class RideSessionService {
   private currentSession: RideSession = {
@@ -48,6 +96,11 @@ class RideSessionService {
   };
   private activeRideRecordId: string | null = null;
   private summaries: RideSummary[] = [];
+  private distanceState: RideDistanceState | null = null;
+  private stopDistanceWatch: (() => void) | null = null;
+  private trackState: RideTrackState | null = null;
+  private trackUploadInFlight: Promise<void> | null = null;
+  private counters: RideCountersState | null = null;
   private tickTimer: ReturnType<typeof setInterval> | null = null;
   private loaded = false;
   private listeners: {
@@ -56,6 +109,7 @@ class RideSessionService {
     RIDE_STARTED: new Set(),
     RIDE_ENDED: new Set(),
     RIDE_TICK: new Set(),
+    RIDE_LOCATION: new Set(),
   };
 
   async load(): Promise<void> {
@@ -64,11 +118,15 @@ class RideSessionService {
     }
 
     try {
-      const [currentRaw, summariesRaw, activeRideRecordIdRaw] = await Promise.all([
-        AsyncStorage.getItem(CURRENT_SESSION_KEY),
-        AsyncStorage.getItem(SUMMARIES_KEY),
-        AsyncStorage.getItem(ACTIVE_RIDE_RECORD_ID_KEY),
-      ]);
+      const [currentRaw, summariesRaw, activeRideRecordIdRaw, distanceRaw, trackRaw, countersRaw] =
+        await Promise.all([
+          AsyncStorage.getItem(CURRENT_SESSION_KEY),
+          AsyncStorage.getItem(SUMMARIES_KEY),
+          AsyncStorage.getItem(ACTIVE_RIDE_RECORD_ID_KEY),
+          AsyncStorage.getItem(DISTANCE_STATE_KEY),
+          AsyncStorage.getItem(TRACK_STATE_KEY),
+          AsyncStorage.getItem(COUNTERS_KEY),
+        ]);
 
       if (currentRaw) {
         const parsedCurrent: unknown = JSON.parse(currentRaw);
@@ -80,21 +138,50 @@ class RideSessionService {
       if (summariesRaw) {
         const parsedSummaries: unknown = JSON.parse(summariesRaw);
         if (Array.isArray(parsedSummaries)) {
-          this.summaries = parsedSummaries.filter(isRideSummary);
+          this.summaries = parsedSummaries.map(withDefaultHazardWarnings).filter(isRideSummary);
         }
       }
       if (activeRideRecordIdRaw && typeof activeRideRecordIdRaw === 'string') {
         this.activeRideRecordId = activeRideRecordIdRaw || null;
       }
+      if (distanceRaw) {
+        const parsedDistance: unknown = JSON.parse(distanceRaw);
+        if (isRideDistanceState(parsedDistance) && parsedDistance.sessionId === this.currentSession.id) {
+          this.distanceState = parsedDistance;
+        }
+      }
+      if (trackRaw) {
+        const parsedTrack: unknown = JSON.parse(trackRaw);
+        if (isRideTrackState(parsedTrack) && parsedTrack.sessionId === this.currentSession.id) {
+          this.trackState = parsedTrack;
+        }
+      }
+      if (countersRaw) {
+        const parsedCounters: unknown = JSON.parse(countersRaw);
+        if (isRideCountersState(parsedCounters) && parsedCounters.sessionId === this.currentSession.id) {
+          // Counters persisted before hazard warnings existed start that count at zero.
+          this.counters = { ...parsedCounters, hazardWarnings: parsedCounters.hazardWarnings ?? 0 };
+        }
+      }
     } catch {
       this.currentSession = { id: '', state: 'IDLE', startedAt: null, endedAt: null };
       this.activeRideRecordId = null;
       this.summaries = [];
+      this.distanceState = null;
+      this.trackState = null;
+      this.counters = null;
     } finally {
       this.loaded = true;
       this.syncTickTimer();
+      this.syncDistanceTracking();
     }
 
+    // A ride ended offline is replaced by the backend's summary once the outbox delivers it.
+    outboxService.on('DELIVERED', ({ entry }) => {
+      if (entry.kind === 'RIDE_END') {
+        void this.syncSummariesFromBackend();
+      }
+    });
     await this.syncSummariesFromBackend();
   }
 
@@ -113,6 +200,53 @@ class RideSessionService {
     return Math.max(0, Date.now() - this.currentSession.startedAt);
   }
 
+  getDistanceKm(): number {
+    if (this.currentSession.state !== 'ACTIVE' || !this.distanceState) {
+      return 0;
+    }
+    return toDistanceKm(this.distanceState.distanceMeters);
+  }
+
+  getFatigueWarnings(): number {
+    if (this.currentSession.state !== 'ACTIVE' || !this.counters) {
+      return 0;
+    }
+    return this.counters.fatigueWarnings;
+  }
+
+  getHazardWarnings(): number {
+    if (this.currentSession.state !== 'ACTIVE' || !this.counters) {
+      return 0;
+    }
+    return this.counters.hazardWarnings;
+  }
+
+  async recordFatigueWarning(): Promise<number> {
+    const counters = await this.incrementCounter('fatigueWarnings');
+    return counters?.fatigueWarnings ?? 0;
+  }
+
+  async recordHazardWarning(): Promise<number> {
+    const counters = await this.incrementCounter('hazardWarnings');
+    return counters?.hazardWarnings ?? 0;
+  }
+
+  async fetchTrack(rideId: string): Promise<RideTrack | null> {
+    try {
+      const response = await deviceAuthService.authorizedFetch(rideTrackApiUrl(rideId));
+      if (!response.ok) {
+        return null;
+      }
+      const payload: unknown = await response.json();
+      if (!isRideTrackEnvelope(payload)) {
+        return null;
+      }
+      return { rideId: payload.data.rideId, points: payload.data.points };
+    } catch {
+      return null;
+    }
+  }
+
   async startRide(): Promise<RideSession> {
     await this.load();
     if (this.currentSession.state === 'ACTIVE') {
@@ -130,7 +264,7 @@ class RideSessionService {
 
     try {
       const deviceId = await deviceIdentityService.getDeviceId();
-      const response = await fetch(RIDES_START_API_URL, {
+      const response = await deviceAuthService.authorizedFetch(RIDES_START_API_URL, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -154,8 +288,18 @@ class RideSessionService {
     }
 
     this.currentSession = session;
-    await Promise.all([this.persistCurrentSession(), this.persistActiveRideRecordId()]);
+    this.distanceState = { sessionId: session.id, distanceMeters: 0, lastPoint: null };
+    this.trackState = { sessionId: session.id, nextSeq: 0, lastKept: null, pending: [] };
+    this.counters = { sessionId: session.id, fatigueWarnings: 0, hazardWarnings: 0 };
+    await Promise.all([
+      this.persistCurrentSession(),
+      this.persistActiveRideRecordId(),
+      this.persistDistanceState(),
+      this.persistTrackState(),
+      this.persistCounters(),
+    ]);
     this.syncTickTimer();
+    this.syncDistanceTracking();
     this.emit('RIDE_STARTED', { type: 'RIDE_STARTED', session: this.getCurrentSession() });
     return this.getCurrentSession();
   }
@@ -174,51 +318,62 @@ class RideSessionService {
       endedAt,
     };
     this.currentSession = session;
+    this.syncDistanceTracking();
+    const distanceKm = toDistanceKm(this.distanceState?.distanceMeters ?? 0);
+    const fatigueWarnings = this.counters?.sessionId === session.id ? this.counters.fatigueWarnings : 0;
+    const hazardWarnings = this.counters?.sessionId === session.id ? this.counters.hazardWarnings : 0;
 
     let summary: RideSummary = {
       id: createId('summary'),
       sessionId: session.id,
       durationMs: Math.max(0, endedAt - startedAt),
-      distanceKm: 0,
-      fatigueWarnings: 0,
+      distanceKm,
+      fatigueWarnings,
+      hazardWarnings,
       hazardsReported: 0,
       sosTriggered: 0,
       createdAt: endedAt,
     };
 
     if (this.activeRideRecordId) {
-      try {
-        const response = await fetch(rideEndApiUrl(this.activeRideRecordId), {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            endedAt,
-            distanceKm: 0,
-            fatigueWarnings: 0,
-            hazardsReported: 0,
-            sosTriggered: 0,
-          }),
-        });
-        if (response.ok) {
-          const payload: unknown = await response.json();
-          if (isSingleRideEnvelope(payload)) {
-            summary = mapRideRecordToSummary(payload.data);
-            session.id = payload.data.id;
-          }
-        }
-      } catch {
-        // Keep local summary if backend end ride fails.
+      const rideId = this.activeRideRecordId;
+      // Ending never waits on a live upload: the remaining points, including the partial chunk, go
+      // through the outbox ahead of the end request. A chunk still in flight shares its seq, so the
+      // server keeps whichever copy lands first.
+      await this.queuePendingTrack(rideId);
+      const result = await outboxService.send({
+        kind: 'RIDE_END',
+        resource: `ride:${rideId}`,
+        method: 'POST',
+        url: rideEndApiUrl(rideId),
+        body: {
+          endedAt,
+          distanceKm,
+          fatigueWarnings,
+          hazardWarnings,
+          hazardsReported: 0,
+          sosTriggered: 0,
+        },
+      });
+      // A queued or rejected end keeps the local summary.
+      if (result.kind === 'delivered' && isSingleRideEnvelope(result.body)) {
+        summary = mapRideRecordToSummary(result.body.data);
+        session.id = result.body.data.id;
       }
     }
 
     this.summaries = [summary, ...this.summaries].slice(0, MAX_SUMMARIES);
     this.activeRideRecordId = null;
+    this.distanceState = null;
+    this.trackState = null;
+    this.counters = null;
     await Promise.all([
       this.persistCurrentSession(),
       this.persistSummaries(),
       this.persistActiveRideRecordId(),
+      this.persistDistanceState(),
+      this.persistTrackState(),
+      this.persistCounters(),
     ]);
     await this.syncSummariesFromBackend();
     this.syncTickTimer();
@@ -236,6 +391,23 @@ class RideSessionService {
     };
   }
 
+  private async incrementCounter(
+    counter: keyof Omit<RideCountersState, 'sessionId'>
+  ): Promise<RideCountersState | null> {
+    await this.load();
+    if (this.currentSession.state !== 'ACTIVE') {
+      return null;
+    }
+
+    const current =
+      this.counters?.sessionId === this.currentSession.id
+        ? this.counters
+        : { sessionId: this.currentSession.id, fatigueWarnings: 0, hazardWarnings: 0 };
+    this.counters = { ...current, [counter]: current[counter] + 1 };
+    await this.persistCounters();
+    return this.counters;
+  }
+
   private syncTickTimer(): void {
     const shouldTick = this.currentSession.state === 'ACTIVE' && !!this.currentSession.startedAt;
     if (!shouldTick) {
@@ -255,6 +427,186 @@ class RideSessionService {
     }, 1000);
   }
 
+  private syncDistanceTracking(): void {
+    const shouldTrack = this.currentSession.state === 'ACTIVE' && !!this.currentSession.startedAt;
+    if (!shouldTrack) {
+      this.stopDistanceWatch?.();
+      this.stopDistanceWatch = null;
+      return;
+    }
+
+    if (this.stopDistanceWatch) {
+      return;
+    }
+
+    if (!this.distanceState || this.distanceState.sessionId !== this.currentSession.id) {
+      this.distanceState = { sessionId: this.currentSession.id, distanceMeters: 0, lastPoint: null };
+    }
+    if (!this.trackState || this.trackState.sessionId !== this.currentSession.id) {
+      this.trackState = { sessionId: this.currentSession.id, nextSeq: 0, lastKept: null, pending: [] };
+    }
+
+    let cancelled = false;
+    this.stopDistanceWatch = () => {
+      cancelled = true;
+    };
+    locationService
+      .watchFixes((fix) => {
+        this.handleLocationFix(fix);
+      })
+      .then((off) => {
+        if (cancelled) {
+          off();
+          return;
+        }
+        this.stopDistanceWatch = off;
+      })
+      .catch(() => {
+        // Distance stays at its last known value when location permission is unavailable.
+        if (!cancelled) {
+          this.stopDistanceWatch = null;
+        }
+      });
+  }
+
+  private handleLocationFix(fix: LocationFix): void {
+    if (this.currentSession.state !== 'ACTIVE') {
+      return;
+    }
+
+    this.emit('RIDE_LOCATION', { type: 'RIDE_LOCATION', sessionId: this.currentSession.id, fix });
+    this.recordTrackFix(fix);
+
+    if (!this.distanceState) {
+      return;
+    }
+
+    const next = applyFixToDistance(this.distanceState, fix);
+    if (!next) {
+      return;
+    }
+
+    this.distanceState = next;
+    void this.persistDistanceState();
+  }
+
+  private recordTrackFix(fix: LocationFix): void {
+    if (!this.trackState || !shouldKeepTrackFix(this.trackState.lastKept, fix)) {
+      return;
+    }
+
+    const point: RideTrackPoint = {
+      timestamp: fix.timestamp,
+      latitude: fix.latitude,
+      longitude: fix.longitude,
+      speed: fix.speed,
+      accuracy: fix.accuracy,
+    };
+    this.trackState = {
+      ...this.trackState,
+      lastKept: point,
+      pending: [...this.trackState.pending, point].slice(-MAX_PENDING_TRACK_POINTS),
+    };
+    void this.persistTrackState();
+
+    if (this.trackState.pending.length >= TRACK_UPLOAD_CHUNK_SIZE) {
+      void this.flushTrack();
+    }
+  }
+
+  private async flushTrack(): Promise<void> {
+    if (this.trackUploadInFlight) {
+      await this.trackUploadInFlight;
+    }
+
+    const upload = this.uploadPendingTrack();
+    this.trackUploadInFlight = upload;
+    try {
+      await upload;
+    } finally {
+      if (this.trackUploadInFlight === upload) {
+        this.trackUploadInFlight = null;
+      }
+    }
+  }
+
+  private async uploadPendingTrack(): Promise<void> {
+    const rideId = this.activeRideRecordId;
+    while (rideId && this.trackState && this.trackState.pending.length >= TRACK_UPLOAD_CHUNK_SIZE) {
+      const { sessionId, nextSeq, pending } = this.trackState;
+      const chunk = pending.slice(0, TRACK_UPLOAD_CHUNK_SIZE);
+      try {
+        const response = await deviceAuthService.authorizedFetch(rideTrackApiUrl(rideId), {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ seq: nextSeq, points: chunk }),
+        });
+        if (!response.ok) {
+          return;
+        }
+      } catch {
+        // Pending points stay buffered and are retried with the next chunk.
+        return;
+      }
+
+      if (!this.trackState || this.trackState.sessionId !== sessionId) {
+        return;
+      }
+      this.trackState = {
+        ...this.trackState,
+        nextSeq: nextSeq + 1,
+        pending: this.trackState.pending.slice(chunk.length),
+      };
+      await this.persistTrackState();
+    }
+  }
+
+  private async queuePendingTrack(rideId: string): Promise<void> {
+    if (!this.trackState) {
+      return;
+    }
+
+    const { nextSeq, pending } = this.trackState;
+    for (let offset = 0; offset < pending.length; offset += TRACK_UPLOAD_CHUNK_SIZE) {
+      await outboxService.send({
+        kind: 'RIDE_TRACK',
+        resource: `ride:${rideId}`,
+        method: 'POST',
+        url: rideTrackApiUrl(rideId),
+        body: {
+          seq: nextSeq + offset / TRACK_UPLOAD_CHUNK_SIZE,
+          points: pending.slice(offset, offset + TRACK_UPLOAD_CHUNK_SIZE),
+        },
+      });
+    }
+  }
+
+  private async persistTrackState(): Promise<void> {
+    if (!this.trackState) {
+      await AsyncStorage.removeItem(TRACK_STATE_KEY);
+      return;
+    }
+    await AsyncStorage.setItem(TRACK_STATE_KEY, JSON.stringify(this.trackState));
+  }
+
+  private async persistDistanceState(): Promise<void> {
+    if (!this.distanceState) {
+      await AsyncStorage.removeItem(DISTANCE_STATE_KEY);
+      return;
+    }
+    await AsyncStorage.setItem(DISTANCE_STATE_KEY, JSON.stringify(this.distanceState));
+  }
+
+  private async persistCounters(): Promise<void> {
+    if (!this.counters) {
+      await AsyncStorage.removeItem(COUNTERS_KEY);
+      return;
+    }
+    await AsyncStorage.setItem(COUNTERS_KEY, JSON.stringify(this.counters));
+  }
+
   private async persistCurrentSession(): Promise<void> {
     await AsyncStorage.setItem(CURRENT_SESSION_KEY, JSON.stringify(this.currentSession));
   }
@@ -274,7 +626,7 @@ class RideSessionService {
   private async syncSummariesFromBackend(): Promise<void> {
     try {
       const deviceId = await deviceIdentityService.getDeviceId();
-      const response = await fetch(ridesByDeviceApiUrl(deviceId));
+      const response = await deviceAuthService.authorizedFetch(ridesByDeviceApiUrl(deviceId));
       if (!response.ok) {
         return;
       }
@@ -307,6 +659,130 @@ function createId(prefix: string): string {
   return `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
 }
 
+function applyFixToDistance(state: RideDistanceState, fix: LocationFix): RideDistanceState | null {
+  if (fix.accuracy !== null && fix.accuracy > MAX_FIX_ACCURACY_METERS) {
+    return null;
+  }
+
+  const point: LocationPoint = {
+    latitude: fix.latitude,
+    longitude: fix.longitude,
+    timestamp: fix.timestamp,
+  };
+  const previous = state.lastPoint;
+  if (!previous) {
+    return { ...state, lastPoint: point };
+  }
+
+  const elapsedSeconds = (point.timestamp - previous.timestamp) / 1000;
+  if (elapsedSeconds <= 0) {
+    return null;
+  }
+
+  // Keep the anchor on jitter so slow genuine movement still accumulates across fixes.
+  const segmentMeters = haversineMeters(previous, point);
+  if (segmentMeters < Math.max(MIN_SEGMENT_METERS, fix.accuracy ?? 0)) {
+    return null;
+  }
+
+  if (segmentMeters / elapsedSeconds > MAX_PLAUSIBLE_SPEED_MPS) {
+    return null;
+  }
+
+  return {
+    ...state,
+    distanceMeters: state.distanceMeters + segmentMeters,
+    lastPoint: point,
+  };
+}
+
+function shouldKeepTrackFix(lastKept: RideTrackPoint | null, fix: LocationFix): boolean {
+  if (fix.accuracy !== null && fix.accuracy > MAX_FIX_ACCURACY_METERS) {
+    return false;
+  }
+  if (!lastKept) {
+    return true;
+  }
+  if (fix.timestamp <= lastKept.timestamp) {
+    return false;
+  }
+  return (
+    fix.timestamp - lastKept.timestamp >= TRACK_MIN_INTERVAL_MS ||
+    haversineMeters(lastKept, fix) >= TRACK_MIN_SPACING_METERS
+  );
+}
+
+function toDistanceKm(distanceMeters: number): number {
+  return Math.round(distanceMeters) / 1000;
+}
+
+function isRideDistanceState(value: unknown): value is RideDistanceState {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const candidate = value as Partial<RideDistanceState>;
+  const lastPoint = candidate.lastPoint as Partial<LocationPoint> | null | undefined;
+  return (
+    typeof candidate.sessionId === 'string' &&
+    typeof candidate.distanceMeters === 'number' &&
+    Number.isFinite(candidate.distanceMeters) &&
+    candidate.distanceMeters >= 0 &&
+    (lastPoint === null ||
+      (!!lastPoint &&
+        typeof lastPoint.latitude === 'number' &&
+        typeof lastPoint.longitude === 'number' &&
+        typeof lastPoint.timestamp === 'number'))
+  );
+}
+
+function isRideTrackPoint(value: unknown): value is RideTrackPoint {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const candidate = value as Partial<RideTrackPoint>;
+  return (
+    typeof candidate.timestamp === 'number' &&
+    typeof candidate.latitude === 'number' &&
+    typeof candidate.longitude === 'number' &&
+    (candidate.speed === null || typeof candidate.speed === 'number') &&
+    (candidate.accuracy === null || typeof candidate.accuracy === 'number')
+  );
+}
+
+function isRideTrackState(value: unknown): value is RideTrackState {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const candidate = value as Partial<RideTrackState>;
+  return (
+    typeof candidate.sessionId === 'string' &&
+    typeof candidate.nextSeq === 'number' &&
+    Number.isInteger(candidate.nextSeq) &&
+    candidate.nextSeq >= 0 &&
+    (candidate.lastKept === null || isRideTrackPoint(candidate.lastKept)) &&
+    Array.isArray(candidate.pending) &&
+    candidate.pending.every(isRideTrackPoint)
+  );
+}
+
+function isRideCountersState(
+  value: unknown
+): value is Omit<RideCountersState, 'hazardWarnings'> & { hazardWarnings?: number } {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const candidate = value as Partial<RideCountersState>;
+  return (
+    typeof candidate.sessionId === 'string' &&
+    isCount(candidate.fatigueWarnings) &&
+    (candidate.hazardWarnings === undefined || isCount(candidate.hazardWarnings))
+  );
+}
+
+function isCount(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
 function isRideSession(value: unknown): value is RideSession {
   if (!value || typeof value !== 'object') {
     return false;
@@ -320,6 +796,14 @@ function isRideSession(value: unknown): value is RideSession {
   );
 }
 
+// Summaries cached before hazard warnings were counted report zero rather than being dropped.
+function withDefaultHazardWarnings(value: unknown): unknown {
+  if (!value || typeof value !== 'object' || 'hazardWarnings' in value) {
+    return value;
+  }
+  return { ...value, hazardWarnings: 0 };
+}
+
 function isRideSummary(value: unknown): value is RideSummary {
   if (!value || typeof value !== 'object') {
     return false;
@@ -331,6 +815,7 @@ function isRideSummary(value: unknown): value is RideSummary {
     typeof candidate.durationMs === 'number' &&
     typeof candidate.distanceKm === 'number' &&
     typeof candidate.fatigueWarnings === 'number' &&
+    typeof candidate.hazardWarnings === 'number' &&
     typeof candidate.hazardsReported === 'number' &&
     typeof candidate.sosTriggered === 'number' &&
     typeof candidate.createdAt === 'number'
@@ -346,6 +831,7 @@ type BackendRideRecord = {
   durationMs: number | null;
   distanceKm: number;
   fatigueWarnings: number;
+  hazardWarnings: number;
   hazardsReported: number;
   sosTriggered: number;
   createdAt: number;
@@ -366,6 +852,7 @@ function isBackendRideRecord(value: unknown): value is BackendRideRecord {
     (candidate.durationMs === null || typeof candidate.durationMs === 'number') &&
     typeof candidate.distanceKm === 'number' &&
     typeof candidate.fatigueWarnings === 'number' &&
+    typeof candidate.hazardWarnings === 'number' &&
     typeof candidate.hazardsReported === 'number' &&
     typeof candidate.sosTriggered === 'number' &&
     typeof candidate.createdAt === 'number' &&
@@ -389,6 +876,19 @@ function isRideListEnvelope(value: unknown): value is { data: BackendRideRecord[
   return Array.isArray(data) && data.every((item) => isBackendRideRecord(item));
 }
 
+function isRideTrackEnvelope(value: unknown): value is { data: RideTrack } {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const data = (value as { data?: Partial<RideTrack> }).data;
+  return (
+    !!data &&
+    typeof data.rideId === 'string' &&
+    Array.isArray(data.points) &&
+    data.points.every(isRideTrackPoint)
+  );
+}
+
 function mapRideRecordToSummary(record: BackendRideRecord): RideSummary {
   return {
     id: record.id,
@@ -396,6 +896,7 @@ function mapRideRecordToSummary(record: BackendRideRecord): RideSummary {
     durationMs: record.durationMs ?? Math.max(0, (record.endedAt ?? record.updatedAt) - record.startedAt),
     distanceKm: record.distanceKm,
     fatigueWarnings: record.fatigueWarnings,
+    hazardWarnings: record.hazardWarnings,
     hazardsReported: record.hazardsReported,
     sosTriggered: record.sosTriggered,
     createdAt: record.endedAt ?? record.updatedAt,
@@ -403,4 +904,4 @@ function mapRideRecordToSummary(record: BackendRideRecord): RideSummary {
 }
 
 export const rideSessionService = new RideSessionService();
-export type { RideSession, RideSessionState, RideSummary };
+export type { RideSession, RideSessionState, RideSummary, RideTrack, RideTrackPoint };
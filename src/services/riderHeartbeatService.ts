@@ -1,5 +1,6 @@
 import { RIDER_HEARTBEAT_API_URL } from '@/src/config/api';
 
+import { deviceAuthService } from './deviceAuthService';
 import { deviceIdentityService } from './deviceIdentityService';
 import { locationService } from './locationService';
 
@@ -34,7 +35,7 @@ class RiderHeartbeatService {
       const deviceId = await deviceIdentityService.getDeviceId();
       const location = await locationService.getCurrentLocation();
 
-      await fetch(RIDER_HEARTBEAT_API_URL, {
+      await deviceAuthService.authorizedFetch(RIDER_HEARTBEAT_API_URL, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
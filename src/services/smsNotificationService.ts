@@ -0,0 +1,409 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SMS from 'expo-sms';
+
+import { emergencyContactsService, type EmergencyContact } from './emergencyContactsService';
+import {
+  emergencyControllerService,
+  type EmergencyControllerLocationPayload,
+} from './emergencyControllerService';
+import { profileService } from './profileService';
+import type { ServiceHealth } from './types';
+
+type SmsTrigger = 'SOS_DISPATCHED' | 'ALERT_ESCALATED' | 'SOS_CANCELLED';
+
+type SmsDeliveryStatus = 'PENDING' | 'SENDING' | 'SENT' | 'SUBMITTED' | 'FAILED' | 'CANCELLED';
+
+type SmsDelivery = {
+  id: string;
+  alertId: string;
+  trigger: SmsTrigger;
+  contactId: string;
+  contactName: string;
+  phone: string;
+  message: string;
+  status: SmsDeliveryStatus;
+  attempts: number;
+  lastAttemptAt: number | null;
+  lastError: string | null;
+  createdAt: number;
+};
+
+type SmsNotificationEventMap = {
+  DELIVERY_UPDATED: { type: 'DELIVERY_UPDATED'; delivery: SmsDelivery };
+};
+
+type SmsNotificationListener<TEvent extends keyof SmsNotificationEventMap> = (
+  payload: SmsNotificationEventMap[TEvent]
+) => void;
+
+const DELIVERIES_STORAGE_KEY = '@dextrix/sms-notifications/v1';
+const MAX_STORED_DELIVERIES = 30;
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAYS_MS = [5000, 15000, 45000];
+const REACHED_STATUSES: SmsDeliveryStatus[] = ['SENDING', 'SENT', 'SUBMITTED'];
+
+class SmsNotificationService {
+  private running = false;
+  private loaded = false;
+  private deliveries: SmsDelivery[] = [];
+  private retryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private sendQueue: Promise<void> = Promise.resolve();
+  private unsubscribers: (() => void)[] = [];
+  private listeners: {
+    [K in keyof SmsNotificationEventMap]: Set<SmsNotificationListener<K>>;
+  } = {
+    DELIVERY_UPDATED: new Set(),
+  };
+
+  async start(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    await this.load();
+    // SMS uses the cellular network rather than mobile data, so it is never gated on networkMeshService.
+    this.unsubscribers = [
+      emergencyControllerService.on('SOS_DISPATCHED', (event) => {
+        if (event.alertId) {
+          void this.notifyContacts(event.alertId, 'SOS_DISPATCHED', event.location);
+        }
+      }),
+      emergencyControllerService.on('ALERT_TRIGGERED', (event) => {
+        if (event.alertId) {
+          void this.notifyContacts(event.alertId, 'ALERT_ESCALATED', event.location);
+        }
+      }),
+      emergencyControllerService.on('CANCELLED', (event) => {
+        void this.cancelDeliveries(event.alertId);
+      }),
+    ];
+
+    for (const delivery of this.deliveries) {
+      if (delivery.status === 'PENDING' || delivery.status === 'SENDING') {
+        this.scheduleAttempt(delivery.id, 0);
+      }
+    }
+  }
+
+  stop(): void {
+    this.running = false;
+    for (const off of this.unsubscribers) {
+      off();
+    }
+    this.unsubscribers = [];
+    for (const timer of this.retryTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.retryTimers.clear();
+  }
+
+  getDeliveries(alertId?: string): SmsDelivery[] {
+    return this.deliveries
+      .filter((delivery) => !alertId || delivery.alertId === alertId)
+      .map((delivery) => ({ ...delivery }));
+  }
+
+  async retryFailed(alertId: string): Promise<void> {
+    await this.load();
+    for (const delivery of this.deliveries) {
+      if (delivery.alertId === alertId && delivery.status === 'FAILED') {
+        this.updateDelivery(delivery.id, { status: 'PENDING', attempts: 0, lastError: null });
+        this.scheduleAttempt(delivery.id, 0);
+      }
+    }
+    await this.persist();
+  }
+
+  on<TEvent extends keyof SmsNotificationEventMap>(
+    event: TEvent,
+    listener: SmsNotificationListener<TEvent>
+  ): () => void {
+    this.listeners[event].add(listener);
+    return () => {
+      this.listeners[event].delete(listener);
+    };
+  }
+
+  getHealth(): ServiceHealth {
+    const failed = this.deliveries.filter((delivery) => delivery.status === 'FAILED').length;
+    return {
+      name: 'SMS Notification Service',
+      state: !this.running ? 'idle' : failed > 0 ? 'error' : 'active',
+      detail: this.running
+        ? `${this.deliveries.length} tracked deliveries, ${failed} failed.`
+        : 'SMS notifications are not running.',
+    };
+  }
+
+  private async load(): Promise<void> {
+    if (this.loaded) {
+      return;
+    }
+
+    try {
+      const raw = await AsyncStorage.getItem(DELIVERIES_STORAGE_KEY);
+      if (raw) {
+        const parsed: unknown = JSON.parse(raw);
+        if (Array.isArray(parsed)) {
+          this.deliveries = parsed.filter(isSmsDelivery);
+        }
+      }
+    } catch {
+      this.deliveries = [];
+    } finally {
+      this.loaded = true;
+    }
+  }
+
+  private async notifyContacts(
+    alertId: string,
+    trigger: SmsTrigger,
+    location: EmergencyControllerLocationPayload | null
+  ): Promise<void> {
+    await this.load();
+    if (this.deliveries.some((delivery) => delivery.alertId === alertId && delivery.trigger === trigger)) {
+      return;
+    }
+
+    const [contacts, profile] = await Promise.all([
+      emergencyContactsService.loadContacts(),
+      profileService.getProfile(),
+    ]);
+    if (contacts.length === 0) {
+      return;
+    }
+
+    const message = buildMessage({
+      trigger,
+      alertId,
+      victimName: profile?.name?.trim() || null,
+      location,
+    });
+    const createdAt = Date.now();
+    const created = contacts.map((contact) => createDelivery(contact, alertId, trigger, message, createdAt));
+    this.deliveries = [...created, ...this.deliveries].slice(0, MAX_STORED_DELIVERIES);
+    await this.persist();
+
+    for (const delivery of created) {
+      this.emit('DELIVERY_UPDATED', { type: 'DELIVERY_UPDATED', delivery: { ...delivery } });
+      this.scheduleAttempt(delivery.id, 0);
+    }
+  }
+
+  private scheduleAttempt(deliveryId: string, delayMs: number): void {
+    const existing = this.retryTimers.get(deliveryId);
+    if (existing) {
+      clearTimeout(existing);
+    }
+
+    const timer = setTimeout(() => {
+      this.retryTimers.delete(deliveryId);
+      // Composer-based senders cannot overlap, so every attempt goes through one queue.
+      this.sendQueue = this.sendQueue.then(() => this.attemptDelivery(deliveryId)).catch(() => {});
+    }, delayMs);
+    this.retryTimers.set(deliveryId, timer);
+  }
+
+  private async attemptDelivery(deliveryId: string): Promise<void> {
+    const delivery = this.deliveries.find((item) => item.id === deliveryId);
+    if (!this.running || !delivery || (delivery.status !== 'PENDING' && delivery.status !== 'SENDING')) {
+      return;
+    }
+
+    const attempts = delivery.attempts + 1;
+    this.updateDelivery(deliveryId, { status: 'SENDING', attempts, lastAttemptAt: Date.now() });
+
+    let failure: string | null = null;
+    let outcome: 'SENT' | 'SUBMITTED' | null = null;
+    try {
+      if (!(await SMS.isAvailableAsync())) {
+        failure = 'SMS is not available on this device.';
+      } else {
+        const { result } = await SMS.sendSMSAsync([delivery.phone], delivery.message);
+        if (result === 'sent') {
+          outcome = 'SENT';
+        } else if (result === 'unknown') {
+          outcome = 'SUBMITTED';
+        } else {
+          failure = 'SMS was cancelled before sending.';
+        }
+      }
+    } catch (error) {
+      failure = error instanceof Error ? error.message : 'SMS send failed.';
+    }
+
+    // The SOS may have been cancelled while the composer was open; that contact already has a follow-up queued.
+    if (this.deliveries.find((item) => item.id === deliveryId)?.status === 'CANCELLED') {
+      await this.persist();
+      return;
+    }
+
+    if (outcome) {
+      this.updateDelivery(deliveryId, { status: outcome, lastError: null });
+    }
+    if (failure) {
+      const canRetry = attempts < MAX_ATTEMPTS;
+      this.updateDelivery(deliveryId, { status: canRetry ? 'PENDING' : 'FAILED', lastError: failure });
+      if (canRetry) {
+        this.scheduleAttempt(deliveryId, RETRY_DELAYS_MS[attempts - 1] ?? RETRY_DELAYS_MS[RETRY_DELAYS_MS.length - 1]);
+      }
+    }
+
+    await this.persist();
+  }
+
+  private async cancelDeliveries(alertId: string | null): Promise<void> {
+    await this.load();
+    const notified = new Map<string, SmsDelivery>();
+    for (const delivery of this.deliveries) {
+      if (delivery.trigger === 'SOS_CANCELLED') {
+        continue;
+      }
+      // SENDING may already have reached the contact, so it is told about the cancellation like SENT.
+      if (delivery.alertId === alertId && REACHED_STATUSES.includes(delivery.status)) {
+        notified.set(delivery.phone, delivery);
+      }
+      if (delivery.status !== 'PENDING' && delivery.status !== 'SENDING') {
+        continue;
+      }
+      const timer = this.retryTimers.get(delivery.id);
+      if (timer) {
+        clearTimeout(timer);
+        this.retryTimers.delete(delivery.id);
+      }
+      this.updateDelivery(delivery.id, { status: 'CANCELLED' });
+    }
+
+    if (alertId && notified.size > 0) {
+      await this.queueCancellationNotices(alertId, [...notified.values()]);
+      return;
+    }
+    await this.persist().catch(() => {});
+  }
+
+  private async queueCancellationNotices(alertId: string, notified: SmsDelivery[]): Promise<void> {
+    const profile = await profileService.getProfile();
+    const message = buildMessage({
+      trigger: 'SOS_CANCELLED',
+      alertId,
+      victimName: profile?.name?.trim() || null,
+      location: null,
+    });
+    const createdAt = Date.now();
+    const created = notified.map((delivery) =>
+      createDelivery(
+        { id: delivery.contactId, name: delivery.contactName, phone: delivery.phone },
+        alertId,
+        'SOS_CANCELLED',
+        message,
+        createdAt
+      )
+    );
+    this.deliveries = [...created, ...this.deliveries].slice(0, MAX_STORED_DELIVERIES);
+    await this.persist();
+
+    for (const delivery of created) {
+      this.emit('DELIVERY_UPDATED', { type: 'DELIVERY_UPDATED', delivery: { ...delivery } });
+      this.scheduleAttempt(delivery.id, 0);
+    }
+  }
+
+  private updateDelivery(deliveryId: string, patch: Partial<Omit<SmsDelivery, 'id'>>): void {
+    const index = this.deliveries.findIndex((delivery) => delivery.id === deliveryId);
+    if (index < 0) {
+      return;
+    }
+
+    const updated: SmsDelivery = { ...this.deliveries[index], ...patch };
+    this.deliveries = [...this.deliveries.slice(0, index), updated, ...this.deliveries.slice(index + 1)];
+    this.emit('DELIVERY_UPDATED', { type: 'DELIVERY_UPDATED', delivery: { ...updated } });
+  }
+
+  private async persist(): Promise<void> {
+    await AsyncStorage.setItem(DELIVERIES_STORAGE_KEY, JSON.stringify(this.deliveries));
+  }
+
+  private emit<TEvent extends keyof SmsNotificationEventMap>(
+    event: TEvent,
+    payload: SmsNotificationEventMap[TEvent]
+  ): void {
+    for (const listener of this.listeners[event]) {
+      listener(payload);
+    }
+  }
+}
+
+function createDelivery(
+  contact: Pick<EmergencyContact, 'id' | 'name' | 'phone'>,
+  alertId: string,
+  trigger: SmsTrigger,
+  message: string,
+  createdAt: number
+): SmsDelivery {
+  return {
+    id: `sms-${createdAt}-${Math.random().toString(36).slice(2, 8)}`,
+    alertId,
+    trigger,
+    contactId: contact.id,
+    contactName: contact.name,
+    phone: contact.phone,
+    message,
+    status: 'PENDING',
+    attempts: 0,
+    lastAttemptAt: null,
+    lastError: null,
+    createdAt,
+  };
+}
+
+function buildMessage(input: {
+  trigger: SmsTrigger;
+  alertId: string;
+  victimName: string | null;
+  location: EmergencyControllerLocationPayload | null;
+}): string {
+  const name = input.victimName ?? 'A Dextrix rider';
+  if (input.trigger === 'SOS_CANCELLED') {
+    return `Update: ${name} cancelled their SOS. No help is needed.\nAlert ID: ${input.alertId}`;
+  }
+  const locationLine = input.location
+    ? `Location: https://maps.google.com/?q=${input.location.latitude.toFixed(6)},${input.location.longitude.toFixed(6)}`
+    : 'Location: unavailable';
+  const headline =
+    input.trigger === 'ALERT_ESCALATED'
+      ? `URGENT: ${name} has not cancelled their SOS and it has been escalated.`
+      : `SOS: ${name} may have crashed and needs help.`;
+  return `${headline}\n${locationLine}\nAlert ID: ${input.alertId}`;
+}
+
+function isSmsDelivery(value: unknown): value is SmsDelivery {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const candidate = value as Partial<SmsDelivery>;
+  return (
+    typeof candidate.id === 'string' &&
+    typeof candidate.alertId === 'string' &&
+    (candidate.trigger === 'SOS_DISPATCHED' ||
+      candidate.trigger === 'ALERT_ESCALATED' ||
+      candidate.trigger === 'SOS_CANCELLED') &&
+    typeof candidate.contactId === 'string' &&
+    typeof candidate.contactName === 'string' &&
+    typeof candidate.phone === 'string' &&
+    typeof candidate.message === 'string' &&
+    (candidate.status === 'PENDING' ||
+      candidate.status === 'SENDING' ||
+      candidate.status === 'SENT' ||
+      candidate.status === 'SUBMITTED' ||
+      candidate.status === 'FAILED' ||
+      candidate.status === 'CANCELLED') &&
+    typeof candidate.attempts === 'number' &&
+    (candidate.lastAttemptAt === null || typeof candidate.lastAttemptAt === 'number') &&
+    (candidate.lastError === null || typeof candidate.lastError === 'string') &&
+    typeof candidate.createdAt === 'number'
+  );
+}
+
+export const smsNotificationService = new SmsNotificationService();
+export type { SmsDelivery, SmsDeliveryStatus, SmsTrigger };
@@ -2,6 +2,7 @@ import { io, type Socket } from 'socket.io-client';
 
 import { SOCKET_BASE_URL } from '@/src/config/api';
 
+import { deviceAuthService } from './deviceAuthService';
 import { deviceIdentityService } from './deviceIdentityService';
 import type { EmergencyControllerLocationPayload } from './emergencyControllerService';
 import type { HazardRecord } from './hazardService';
@@ -28,8 +29,46 @@ export type AlertCancelledEvent = {
   cancelledAt: number;
 };
 
+export type AlertOutcome = 'FALSE_ALARM' | 'MINOR' | 'HOSPITAL_TRANSFER';
+
+export type AlertResolvedEvent = {
+  alertId: string;
+  victimDeviceId: string;
+  responderDeviceId: string | null;
+  outcome: AlertOutcome;
+  resolvedByDeviceId: string;
+  resolvedAt: number;
+};
+
+export type ResponderLocationEvent = {
+  alertId: string;
+  responderDeviceId: string;
+  latitude: number;
+  longitude: number;
+  timestamp: number;
+  speedMps: number | null;
+  heading: number | null;
+  distanceMeters: number | null;
+};
+
+export type ResponderTrackingStoppedEvent = {
+  alertId: string;
+  status: string;
+};
+
+export type ResponderLocationUpdate = {
+  alertId: string;
+  latitude: number;
+  longitude: number;
+  timestamp: number;
+  speedMps: number | null;
+  heading: number | null;
+};
+
 export type HazardCreatedEvent = HazardRecord;
 
+export type HazardUpdatedEvent = HazardRecord;
+
 export type HazardRemovedEvent = {
   id: string;
 };
@@ -38,7 +77,11 @@ type SocketEventMap = {
   'alert:new_nearby': NearbyAlertEvent;
   'alert:assigned': AlertAssignedEvent;
   'alert:cancelled': AlertCancelledEvent;
+  'alert:resolved': AlertResolvedEvent;
+  'responder:location': ResponderLocationEvent;
+  'responder:tracking_stopped': ResponderTrackingStoppedEvent;
   'hazard:created': HazardCreatedEvent;
+  'hazard:updated': HazardUpdatedEvent;
   'hazard:removed': HazardRemovedEvent;
 };
 
@@ -57,6 +100,16 @@ class SocketService {
       reconnectionAttempts: Infinity,
       reconnectionDelay: 500,
       timeout: 8000,
+      // Evaluated on every (re)connect so the handshake always carries a current device token.
+      auth: (cb) => {
+        void deviceAuthService.getToken().then((token) => cb({ token: token ?? '' }));
+      },
+    });
+
+    this.socket.on('connect_error', (error) => {
+      if (error.message === 'UNAUTHORIZED') {
+        void deviceAuthService.invalidateToken();
+      }
     });
 
     this.socket.on('connect', () => {
@@ -89,6 +142,13 @@ class SocketService {
     return this.socket?.connected ?? false;
   }
 
+  onConnected(listener: () => void): () => void {
+    this.socket?.on('connect', listener);
+    return () => {
+      this.socket?.off('connect', listener);
+    };
+  }
+
   on<TEvent extends keyof SocketEventMap>(
     event: TEvent,
     listener: (payload: SocketEventMap[TEvent]) => void
@@ -99,6 +159,11 @@ class SocketService {
     };
   }
 
+  /** Live positions are only useful while fresh, so they are dropped rather than buffered while offline. */
+  sendResponderLocation(update: ResponderLocationUpdate): void {
+    this.socket?.volatile.emit('responder:location', update);
+  }
+
   private async registerDevice(): Promise<void> {
     const deviceId = await deviceIdentityService.getDeviceId();
     if (__DEV__) {
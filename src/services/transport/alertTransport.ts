@@ -1,3 +1,4 @@
+import type { MeshEnvelope } from '../mesh/meshEnvelope';
 import type { NetworkMeshStatus } from '../networkMeshService';
 
 export type MeshLocationPoint = {
@@ -17,6 +18,8 @@ export type NearbyAlertEvent = {
   triggeredAt: number;
   location: MeshAlertLocation | null;
   distanceMeters: number;
+  /** False when a mesh sender could not prove its device id with a backend certificate. */
+  originVerified?: boolean;
 };
 
 export type AlertAssignedEvent = {
@@ -32,6 +35,14 @@ export type AlertCancelledEvent = {
   cancelledAt: number;
 };
 
+/** A nearby device confirmed over the mesh that it received one of this device's SOS envelopes. */
+export type AlertDeliveredEvent = {
+  alertId: string;
+  messageId: string;
+  receiverDeviceId: string;
+  receivedAt: number;
+};
+
 export type AlertTransportAvailability = {
   canPublish: boolean;
   canReceive: boolean;
@@ -63,6 +74,7 @@ export type AlertTransportEventMap = {
   nearby_alert: NearbyAlertEvent;
   assigned: AlertAssignedEvent;
   cancelled: AlertCancelledEvent;
+  delivered: AlertDeliveredEvent;
 };
 
 export type AlertTransportListener<TEvent extends keyof AlertTransportEventMap> = (
@@ -78,8 +90,24 @@ export type PublishTriggerResult = PublishResult & {
   alertId: string;
 };
 
+/**
+ * REACHES_BACKEND: delivers to the backend, which fans out to responders anywhere.
+ * PEER_TO_PEER: reaches nearby phones directly, with no infrastructure in between.
+ */
+export type AlertTransportCapability = 'REACHES_BACKEND' | 'PEER_TO_PEER';
+
+/** How the router ranks a transport; policies select transports by capability, never by id. */
+export type AlertTransportDescriptor = {
+  /** Lower is tried first as the primary transport. */
+  priority: number;
+  /** Relative cost of one publish in battery, data or money; policies cap which transports mirror an alert. */
+  cost: number;
+  capabilities: readonly AlertTransportCapability[];
+};
+
 export interface AlertTransport {
-  readonly id: 'internet' | 'bluetooth';
+  readonly id: string;
+  readonly descriptor: AlertTransportDescriptor;
   start(): Promise<void>;
   stop(): void;
   getAvailability(): AlertTransportAvailability;
@@ -90,13 +118,22 @@ export interface AlertTransport {
     event: TEvent,
     listener: AlertTransportListener<TEvent>
   ): () => void;
+  /** Mesh transports: verified envelopes heard from other devices, for gateways to upload. */
+  onEnvelopeReceived?(listener: (envelope: MeshEnvelope) => void): () => void;
+  /** Backend transports: uploads an envelope heard over a mesh on behalf of its origin. */
+  relayMeshEnvelope?(envelope: MeshEnvelope): Promise<PublishResult>;
 }
 
 export type MeshMode = 'AUTO' | 'FORCE_MESH' | 'FORCE_INTERNET';
 
+export type TransportStatusEntry = AlertTransportDescriptor & {
+  id: string;
+  availability: AlertTransportAvailability;
+};
+
 export type TransportStatusSnapshot = {
   meshMode: MeshMode;
-  bluetooth: AlertTransportAvailability;
-  internet: AlertTransportAvailability;
+  /** Every registered transport, in priority order. */
+  transports: TransportStatusEntry[];
   networkStatus: NetworkMeshStatus;
 };
@@ -1,13 +1,35 @@
 import { Platform } from 'react-native';
 
+import { deviceAuthService } from '../deviceAuthService';
 import { deviceIdentityService } from '../deviceIdentityService';
+import { base64ToBytes } from '../mesh/meshBytes';
+import { decodeEnvelope, encodeEnvelope } from '../mesh/meshCodec';
 import { meshCryptoService } from '../mesh/meshCrypto';
 import { meshDedupStore } from '../mesh/meshDedupStore';
-import { createEnvelope, parseEnvelope, serializeEnvelope, type MeshEnvelopeV1 } from '../mesh/meshEnvelope';
+import {
+  createEnvelope,
+  createSealedEnvelope,
+  openEnvelope,
+  relayEnvelope,
+  verifyEnvelope,
+  type MeshEnvelope,
+  type MeshEnvelopeType,
+  type OpenedEnvelope,
+  type ParseEnvelopeResult,
+} from '../mesh/meshEnvelope';
+import { fragmentFrame, MeshReassembler, MESH_ADVERTISEMENT_UUID } from '../mesh/meshFraming';
+import { pullMissingEnvelopes } from '../mesh/meshGattClient';
+import { meshGattServer } from '../mesh/meshGattServer';
+import { meshKeyService } from '../mesh/meshKeys';
+import { MeshRelayPolicy, type MeshRelayDiagnostics } from '../mesh/meshRelayPolicy';
+import { MESH_SERVICE_UUID } from '../mesh/meshSync';
+import { meshTrustStore } from '../mesh/meshTrust';
 import type {
   AlertAssignedEvent,
   AlertCancelledEvent,
+  AlertDeliveredEvent,
   AlertTransport,
+  AlertTransportDescriptor,
   AlertTransportEventMap,
   AlertTransportListener,
   NearbyAlertEvent,
@@ -18,7 +40,18 @@ import type {
   SOSTriggeredPayload,
 } from './alertTransport';
 
-const MESH_SERVICE_UUID = '6a08d827-d31f-4d45-af58-4515cb2f44a5';
+// 0xFFFF is the Bluetooth SIG id reserved for internal use; the advertiser refuses to broadcast without one.
+const MESH_COMPANY_ID = 0xffff;
+const COMPANY_ID_BYTES = 2;
+// Each fragment stays on air long enough for a scanner to catch it; repeated rounds cover missed fragments.
+const FRAGMENT_DWELL_MS = 150;
+const FRAGMENT_ROUNDS = 3;
+// A peer is synced with at most this often; discovery callbacks fire many times a second.
+const PEER_SYNC_INTERVAL_MS = 30_000;
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
 
 function createMessageId(): string {
   return `mesh-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
@@ -28,23 +61,31 @@ type BleDeviceLike = {
   id: string;
   name?: string | null;
   manufacturerData?: string | null;
-  serviceData?: Record<string, string> | null;
+  serviceUUIDs?: string[] | null;
 };
 
 class BluetoothAlertTransport implements AlertTransport {
   readonly id = 'bluetooth' as const;
+  readonly descriptor: AlertTransportDescriptor = { priority: 10, cost: 1, capabilities: ['PEER_TO_PEER'] };
 
   private started = false;
   private bleManager: any = null;
   private advertiser: any = null;
   private scanSubscription: { remove: () => void } | null = null;
+  private reassembler = new MeshReassembler();
+  private broadcastQueue: Promise<void> = Promise.resolve();
   private listeners: {
     [K in keyof AlertTransportEventMap]: Set<AlertTransportListener<K>>;
   } = {
     nearby_alert: new Set(),
     assigned: new Set(),
     cancelled: new Set(),
+    delivered: new Set(),
   };
+  private lastSyncByPeer = new Map<string, number>();
+  private syncing = false;
+  private relayPolicy = new MeshRelayPolicy();
+  private envelopeListeners = new Set<(envelope: MeshEnvelope) => void>();
 
   private deviceId: string | null = null;
   private publicKey: string | null = null;
@@ -60,6 +101,9 @@ class BluetoothAlertTransport implements AlertTransport {
     const keyPair = await meshCryptoService.getOrCreateKeyPair();
     this.publicKey = keyPair.publicKey;
     await meshDedupStore.load();
+    // Cached keys are enough to seal; the refresh only picks up rotated ones.
+    void meshKeyService.refresh();
+    void this.refreshTrust();
 
     if (Platform.OS !== 'android') {
       this.started = true;
@@ -68,23 +112,33 @@ class BluetoothAlertTransport implements AlertTransport {
 
     this.bleManager = this.loadBleManager();
     this.advertiser = this.loadAdvertiser();
+    this.advertiser?.setCompanyId?.(MESH_COMPANY_ID);
 
     if (this.bleManager?.startDeviceScan) {
-      this.bleManager.startDeviceScan([MESH_SERVICE_UUID], null, (error: unknown, device: BleDeviceLike | null) => {
+      const serviceUuids = [MESH_ADVERTISEMENT_UUID, MESH_SERVICE_UUID];
+      this.bleManager.startDeviceScan(serviceUuids, null, (error: unknown, device: BleDeviceLike | null) => {
         if (error || !device) {
           return;
         }
 
-        const encoded = this.extractEnvelope(device);
-        if (!encoded) {
+        // Fragment advertisements are not connectable; only the GATT server's own one can be synced with.
+        if (device.serviceUUIDs?.some((uuid) => uuid.toLowerCase() === MESH_SERVICE_UUID)) {
+          void this.syncWithPeer(device.id);
+        }
+
+        const fragment = this.extractFragment(device);
+        if (!fragment) {
           return;
         }
 
-        void this.consumeReceivedEnvelope(encoded);
+        void this.consumeReceivedFragment(fragment, device.id);
       });
     }
 
     this.started = true;
+    if (await meshGattServer.start()) {
+      await meshGattServer.setEnvelopes(meshDedupStore.listEnvelopes());
+    }
   }
 
   stop(): void {
@@ -99,6 +153,10 @@ class BluetoothAlertTransport implements AlertTransport {
       // Ignore transport teardown errors.
     }
 
+    meshGattServer.stop();
+    this.relayPolicy.cancelAll();
+    this.reassembler.clear();
+    this.lastSyncByPeer.clear();
     this.started = false;
   }
 
@@ -124,7 +182,7 @@ class BluetoothAlertTransport implements AlertTransport {
       return { ok: false, reason: 'Bluetooth unavailable', alertId: payload.alertId };
     }
 
-    await this.broadcastEnvelope(envelope);
+    await this.publishEnvelope(envelope);
     return { ok: true, alertId: payload.alertId };
   }
 
@@ -134,7 +192,7 @@ class BluetoothAlertTransport implements AlertTransport {
       return { ok: false, reason: 'Bluetooth unavailable' };
     }
 
-    await this.broadcastEnvelope(envelope);
+    await this.publishEnvelope(envelope);
     return { ok: true };
   }
 
@@ -144,7 +202,7 @@ class BluetoothAlertTransport implements AlertTransport {
       return { ok: false, reason: 'Bluetooth unavailable' };
     }
 
-    await this.broadcastEnvelope(envelope);
+    await this.publishEnvelope(envelope);
     return { ok: true };
   }
 
@@ -180,104 +238,255 @@ class BluetoothAlertTransport implements AlertTransport {
     }
   }
 
-  private extractEnvelope(device: BleDeviceLike): string | null {
-    if (device.serviceData) {
-      const maybeValue = device.serviceData[MESH_SERVICE_UUID];
-      if (typeof maybeValue === 'string' && maybeValue.length > 0) {
-        return maybeValue;
-      }
+  /** Verified envelopes from other devices, exactly as their origin signed them. */
+  onEnvelopeReceived(listener: (envelope: MeshEnvelope) => void): () => void {
+    this.envelopeListeners.add(listener);
+    return () => {
+      this.envelopeListeners.delete(listener);
+    };
+  }
+
+  /** ble-plx reports manufacturer data with its little-endian company id still in front. */
+  private extractFragment(device: BleDeviceLike): Uint8Array | null {
+    if (typeof device.manufacturerData !== 'string' || device.manufacturerData.length === 0) {
+      return null;
     }
 
-    if (typeof device.manufacturerData === 'string' && device.manufacturerData.length > 0) {
-      return device.manufacturerData;
+    let bytes: Uint8Array;
+    try {
+      bytes = base64ToBytes(device.manufacturerData);
+    } catch {
+      return null;
     }
 
-    return null;
+    const companyId = bytes.length > COMPANY_ID_BYTES ? bytes[0] | (bytes[1] << 8) : null;
+    return companyId === MESH_COMPANY_ID ? bytes.subarray(COMPANY_ID_BYTES) : null;
+  }
+
+  /** Counters for diagnostics: how much relaying this device did and why it held back. */
+  getRelayDiagnostics(): MeshRelayDiagnostics {
+    return this.relayPolicy.getDiagnostics();
   }
 
-  private async consumeReceivedEnvelope(rawEnvelope: string): Promise<void> {
+  private async consumeReceivedFragment(fragment: Uint8Array, sourceId: string): Promise<void> {
+    const parsed = this.readFragment(fragment);
+    if (parsed?.ok) {
+      await this.consumeEnvelope(parsed.envelope, sourceId);
+    }
+  }
+
+  private async consumeEnvelope(envelope: MeshEnvelope, sourceId: string): Promise<void> {
     if (!this.deviceId) {
       return;
     }
 
-    const parsed = parseEnvelope(rawEnvelope);
-    if (!parsed.ok) {
+    // Duplicates count too: hearing enough neighbours carry a message is what suppresses our own relay.
+    this.relayPolicy.noteHeard(envelope.messageId, sourceId);
+    if (await meshDedupStore.has(envelope.messageId)) {
       return;
     }
 
-    const envelope = parsed.envelope;
+    // Neither shown nor relayed, so a stolen phone's key stops carrying alerts as the list spreads.
+    if (await meshTrustStore.isRevoked(envelope.originPublicKey)) {
+      return;
+    }
 
-    if (await meshDedupStore.has(envelope.messageId)) {
+    // Envelopes sealed for a group this device is not in are still relayed, just not shown.
+    const keys = await meshKeyService.getKeys();
+    const opened = openEnvelope(envelope, keys?.groupKey ?? null);
+    const originTrust = opened ? await meshTrustStore.checkOrigin(opened, envelope.originPublicKey) : null;
+    // Keys cost nothing to mint, so only a certified device id earns its own rate limit.
+    const certifiedDeviceId = opened && originTrust === 'VERIFIED' ? opened.originDeviceId : null;
+    const isOwnEnvelope = envelope.originPublicKey === this.publicKey;
+    if (!isOwnEnvelope && !this.relayPolicy.admitOrigin(certifiedDeviceId)) {
       return;
     }
 
-    await meshDedupStore.remember(envelope.messageId, Date.now());
+    await meshDedupStore.remember(envelope.messageId, Date.now(), envelope);
+    await meshGattServer.setEnvelopes(meshDedupStore.listEnvelopes());
 
-    if (envelope.originDeviceId === this.deviceId) {
+    if (isOwnEnvelope || originTrust === 'FORGED') {
       return;
     }
 
-    this.emitEnvelope(envelope);
+    // An uncertified sender may still be a victim on an old build, so its SOS is surfaced (marked unverified)
+    // while its cancels, assignments and receipts are only relayed.
+    const surfaced = opened && (originTrust === 'VERIFIED' || opened.type === 'SOS_TRIGGERED') ? opened : null;
+    if (surfaced?.type === 'SOS_ACK') {
+      if (surfaced.payload.targetDeviceId === this.deviceId) {
+        this.emitDelivered(surfaced);
+        return;
+      }
+    } else if (surfaced) {
+      this.emitEnvelope(surfaced, originTrust === 'VERIFIED');
+      // Only the SOS itself is acknowledged; acking cancels and assignments would double mesh traffic for little gain.
+      if (surfaced.type === 'SOS_TRIGGERED') {
+        await this.acknowledge(surfaced);
+      }
+    }
 
+    for (const listener of this.envelopeListeners) {
+      listener(envelope);
+    }
+
+    const relayDeviceId = this.deviceId;
     if (envelope.hop < envelope.maxHops) {
-      const relayed = await createEnvelope({
-        messageId: envelope.messageId,
-        originDeviceId: envelope.originDeviceId,
-        originPublicKey: envelope.originPublicKey,
-        type: envelope.type,
-        createdAt: envelope.createdAt,
-        hop: envelope.hop + 1,
-        maxHops: envelope.maxHops,
-        payload: envelope.payload,
+      this.relayPolicy.scheduleRelay(envelope.messageId, envelope.hop, async () => {
+        await this.broadcastEnvelope(await relayEnvelope(envelope, relayDeviceId));
       });
-      await this.broadcastEnvelope(relayed);
     }
   }
 
+  /** Rotation comes first so the trust list certifies the key this device will actually sign with. */
+  private async refreshTrust(): Promise<void> {
+    if (await deviceAuthService.rotateKeyIfDue()) {
+      this.publicKey = (await meshCryptoService.getOrCreateKeyPair()).publicKey;
+    }
+    await meshTrustStore.refresh();
+  }
+
+  /** Anti-entropy: pulls envelopes a nearby peer holds that this device missed while scanning. */
+  private async syncWithPeer(peerId: string): Promise<void> {
+    const nowMs = Date.now();
+    const lastSyncAt = this.lastSyncByPeer.get(peerId) ?? 0;
+    if (this.syncing || !this.bleManager?.connectToDevice || nowMs - lastSyncAt < PEER_SYNC_INTERVAL_MS) {
+      return;
+    }
+
+    this.syncing = true;
+    this.lastSyncByPeer.set(peerId, nowMs);
+    for (const [knownPeerId, syncedAt] of this.lastSyncByPeer) {
+      if (nowMs - syncedAt >= PEER_SYNC_INTERVAL_MS) {
+        this.lastSyncByPeer.delete(knownPeerId);
+      }
+    }
+
+    try {
+      const envelopes = await pullMissingEnvelopes(this.bleManager, peerId, meshDedupStore.listMessageIds(nowMs));
+      for (const candidate of envelopes) {
+        const verified = verifyEnvelope(candidate);
+        if (verified.ok) {
+          await this.consumeEnvelope(verified.envelope, peerId);
+        }
+      }
+    } finally {
+      this.syncing = false;
+    }
+  }
+
+  /** Tells the origin this device received its SOS; travels back over the same mesh. */
+  private async acknowledge(envelope: OpenedEnvelope): Promise<void> {
+    const ack = await this.buildEnvelope(
+      'SOS_ACK',
+      {
+        ackedMessageId: envelope.messageId,
+        ackedType: envelope.type,
+        alertId: typeof envelope.payload.alertId === 'string' ? envelope.payload.alertId : '',
+        targetDeviceId: envelope.originDeviceId,
+        receivedAt: Date.now(),
+      },
+      envelope.maxHops
+    );
+    if (ack) {
+      await this.publishEnvelope(ack);
+    }
+  }
+
+  /** Own envelopes are remembered too, so they are served to peers that sync later. */
+  private async publishEnvelope(envelope: MeshEnvelope): Promise<void> {
+    await meshDedupStore.remember(envelope.messageId, Date.now(), envelope);
+    await meshGattServer.setEnvelopes(meshDedupStore.listEnvelopes());
+    await this.broadcastEnvelope(envelope);
+  }
+
+  /** Returns null while the envelope's fragments are still arriving. */
+  private readFragment(fragment: Uint8Array): ParseEnvelopeResult | null {
+    const frame = this.reassembler.push(fragment);
+    if (!frame) {
+      return null;
+    }
+
+    const envelope = decodeEnvelope(frame);
+    return envelope ? verifyEnvelope(envelope) : { ok: false, reason: 'Invalid binary envelope' };
+  }
+
   private async buildEnvelope(
-    type: MeshEnvelopeV1['type'],
+    type: MeshEnvelopeType,
     payload: Record<string, unknown>,
     maxHops: number
-  ): Promise<MeshEnvelopeV1 | null> {
+  ): Promise<MeshEnvelope | null> {
     if (!this.deviceId || !this.publicKey || !this.started) {
       return null;
     }
 
-    return createEnvelope({
+    // The certificate rides inside the payload, so v2 seals it together with the device id it names.
+    const certificate = await meshTrustStore.getOwnCertificate(this.publicKey);
+    const input = {
       messageId: createMessageId(),
       originDeviceId: this.deviceId,
       originPublicKey: this.publicKey,
       type,
       createdAt: Date.now(),
-      hop: 0,
       maxHops,
-      payload,
-    });
+      payload: certificate ? { ...payload, originCertificate: certificate } : payload,
+    };
+    // Devices that never reached the backend have no keys yet and still send v1 in clear.
+    const keys = await meshKeyService.getKeys();
+    const sealed = keys ? await createSealedEnvelope(input, keys) : null;
+    return sealed ?? createEnvelope(input);
   }
 
-  private async broadcastEnvelope(envelope: MeshEnvelopeV1): Promise<void> {
-    const serialized = serializeEnvelope(envelope);
+  /** Queues the envelope's fragments without waiting for them to go out, so an SOS is never held up on air time. */
+  private async broadcastEnvelope(envelope: MeshEnvelope): Promise<void> {
+    const frame = encodeEnvelope(envelope);
+    const fragments = frame ? fragmentFrame(frame) : [];
+    if (fragments.length === 0) {
+      return;
+    }
 
-    try {
-      if (this.advertiser?.broadcast) {
-        await this.advertiser.broadcast(MESH_SERVICE_UUID, serialized);
-        return;
-      }
+    // The native broadcast takes the manufacturer data as a plain array of byte values.
+    const advertisements = fragments.map((fragment) => Array.from(fragment));
+    // There is a single advertising slot, so envelopes go out one after another instead of interleaving.
+    this.broadcastQueue = this.broadcastQueue.then(() => this.advertiseFragments(advertisements));
+  }
 
-      if (this.advertiser?.startAdvertising) {
-        await this.advertiser.startAdvertising(MESH_SERVICE_UUID, serialized);
-        return;
+  private async advertiseFragments(advertisements: number[][]): Promise<void> {
+    for (let round = 0; round < FRAGMENT_ROUNDS; round += 1) {
+      for (const advertisement of advertisements) {
+        if (!this.started) {
+          return;
+        }
+        await this.advertise(advertisement);
+        await delay(FRAGMENT_DWELL_MS);
       }
+    }
+  }
 
-      if (this.advertiser?.advertiseData) {
-        await this.advertiser.advertiseData(serialized);
-      }
+  private async advertise(data: number[]): Promise<void> {
+    try {
+      // Fragments are broadcast-only; peers connect through the GATT server's own advertisement.
+      await this.advertiser?.broadcast?.(MESH_ADVERTISEMENT_UUID, data, {
+        connectable: false,
+        includeDeviceName: false,
+        includeTxPowerLevel: false,
+      });
     } catch {
       // Bluetooth publish is best-effort. The internet transport can still mirror in AUTO mode.
     }
   }
 
-  private emitEnvelope(envelope: MeshEnvelopeV1): void {
+  private emitDelivered(envelope: OpenedEnvelope): void {
+    const payload = envelope.payload;
+    const event: AlertDeliveredEvent = {
+      alertId: typeof payload.alertId === 'string' ? payload.alertId : '',
+      messageId: typeof payload.ackedMessageId === 'string' ? payload.ackedMessageId : '',
+      receiverDeviceId: envelope.originDeviceId,
+      receivedAt: typeof payload.receivedAt === 'number' ? payload.receivedAt : envelope.createdAt,
+    };
+    this.emit('delivered', event);
+  }
+
+  private emitEnvelope(envelope: OpenedEnvelope, originVerified: boolean): void {
     if (envelope.type === 'SOS_TRIGGERED') {
       const payload = envelope.payload;
       const event: NearbyAlertEvent = {
@@ -287,6 +496,7 @@ class BluetoothAlertTransport implements AlertTransport {
         triggeredAt: typeof payload.triggeredAt === 'number' ? payload.triggeredAt : envelope.createdAt,
         location: isLocationPayload(payload.location) ? payload.location : null,
         distanceMeters: typeof payload.distanceMeters === 'number' ? payload.distanceMeters : 0,
+        originVerified,
       };
       this.emit('nearby_alert', event);
       return;
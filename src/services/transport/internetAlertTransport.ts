@@ -1,10 +1,15 @@
-import { ALERTS_API_URL, alertAcceptApiUrl, buildAlertStatusApiUrl } from '@/src/config/api';
+import { ALERTS_API_URL, MESH_RELAY_API_URL, alertAcceptApiUrl, buildAlertStatusApiUrl } from '@/src/config/api';
 
+import { deviceAuthService } from '../deviceAuthService';
+import { deviceIdentityService } from '../deviceIdentityService';
+import type { MeshEnvelope } from '../mesh/meshEnvelope';
+import { outboxService } from '../outboxService';
 import { socketService } from '../socketService';
 import type {
   AlertAssignedEvent,
   AlertCancelledEvent,
   AlertTransport,
+  AlertTransportDescriptor,
   AlertTransportEventMap,
   AlertTransportListener,
   NearbyAlertEvent,
@@ -17,6 +22,7 @@ import type {
 
 class InternetAlertTransport implements AlertTransport {
   readonly id = 'internet' as const;
+  readonly descriptor: AlertTransportDescriptor = { priority: 20, cost: 1, capabilities: ['REACHES_BACKEND'] };
 
   private started = false;
 
@@ -43,7 +49,7 @@ class InternetAlertTransport implements AlertTransport {
 
   async publishSosTriggered(payload: SOSTriggeredPayload): Promise<PublishTriggerResult> {
     try {
-      const response = await fetch(ALERTS_API_URL, {
+      const response = await deviceAuthService.authorizedFetch(ALERTS_API_URL, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -74,28 +80,48 @@ class InternetAlertTransport implements AlertTransport {
   }
 
   async publishSosCancelled(payload: SOSCancelledPayload): Promise<PublishResult> {
-    try {
-      const response = await fetch(buildAlertStatusApiUrl(payload.alertId), {
-        method: 'PATCH',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ status: 'CANCELLED' }),
-      });
-
-      if (!response.ok && response.status !== 404) {
-        return { ok: false, reason: `Cancel failed with status ${response.status}` };
-      }
+    // Queued per alert so a cancellation made offline still reaches responders, after any earlier update.
+    const result = await outboxService.send({
+      kind: 'ALERT_STATUS',
+      resource: `alert:${payload.alertId}`,
+      method: 'PATCH',
+      url: buildAlertStatusApiUrl(payload.alertId),
+      body: { status: 'CANCELLED' },
+    });
+
+    if (result.kind === 'queued') {
+      return { ok: true, reason: 'Cancellation queued until the backend is reachable.' };
+    }
+    if (result.kind === 'rejected' && result.status !== 404) {
+      return { ok: false, reason: `Cancel failed with status ${result.status}` };
+    }
+    return { ok: true };
+  }
 
-      return { ok: true };
-    } catch {
-      return { ok: false, reason: 'Network error sending cancellation' };
+  /**
+   * Gateway upload of an SOS heard over Bluetooth, so victims without data still reach the backend.
+   * Queued per origin device so a trigger is always applied before its cancellation.
+   */
+  async relayMeshEnvelope(envelope: MeshEnvelope): Promise<PublishResult> {
+    const relayDeviceId = await deviceIdentityService.getDeviceId();
+    const result = await outboxService.send({
+      kind: 'MESH_RELAY',
+      // v2 envelopes hide the origin device id; its key identifies the origin just as well.
+      resource: `mesh:${envelope.originPublicKey}`,
+      method: 'POST',
+      url: MESH_RELAY_API_URL,
+      body: { relayDeviceId, envelope },
+    });
+
+    if (result.kind === 'rejected') {
+      return { ok: false, reason: `Mesh relay rejected with status ${result.status}` };
     }
+    return { ok: true };
   }
 
   async publishSosAssigned(payload: SOSAssignedPayload): Promise<PublishResult> {
     try {
-      const response = await fetch(alertAcceptApiUrl(payload.alertId), {
+      const response = await deviceAuthService.authorizedFetch(alertAcceptApiUrl(payload.alertId), {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -132,6 +158,11 @@ class InternetAlertTransport implements AlertTransport {
       return socketService.on('alert:assigned', listener as unknown as (payload: AlertAssignedEvent) => void);
     }
 
+    if (event === 'delivered') {
+      // Delivery receipts only travel over the mesh.
+      return () => {};
+    }
+
     return socketService.on('alert:cancelled', listener as unknown as (payload: AlertCancelledEvent) => void);
   }
 }
@@ -0,0 +1,63 @@
+import type { NetworkMeshStatus } from '../networkMeshService';
+import type { AlertTransport, AlertTransportCapability, MeshMode } from './alertTransport';
+
+type TransportPolicy = {
+  /** Only transports with this capability may carry the alert; null allows any. */
+  requiredCapability: AlertTransportCapability | null;
+  /** Other available transports up to this cost mirror the alert; null publishes on the primary only. */
+  maxMirrorCost: number | null;
+};
+
+type PublishPlan = {
+  primary: AlertTransport | null;
+  mirrors: AlertTransport[];
+};
+
+// AUTO mirrors on every cheap route so an SOS reaches both nearby phones and the backend.
+const MESH_MODE_POLICIES: Record<MeshMode, TransportPolicy> = {
+  AUTO: { requiredCapability: null, maxMirrorCost: 5 },
+  FORCE_MESH: { requiredCapability: 'PEER_TO_PEER', maxMirrorCost: null },
+  FORCE_INTERNET: { requiredCapability: 'REACHES_BACKEND', maxMirrorCost: null },
+};
+
+/** Priority first, then the cheaper of two equally preferred transports. */
+function compareTransports(a: AlertTransport, b: AlertTransport): number {
+  return a.descriptor.priority - b.descriptor.priority || a.descriptor.cost - b.descriptor.cost;
+}
+
+function listEligibleTransports(transports: AlertTransport[], meshMode: MeshMode): AlertTransport[] {
+  const { requiredCapability } = MESH_MODE_POLICIES[meshMode];
+  return transports
+    .filter(
+      (transport) =>
+        transport.getAvailability().canPublish &&
+        (!requiredCapability || transport.descriptor.capabilities.includes(requiredCapability))
+    )
+    .sort(compareTransports);
+}
+
+function resolvePublishPlan(transports: AlertTransport[], meshMode: MeshMode): PublishPlan {
+  const [primary = null, ...others] = listEligibleTransports(transports, meshMode);
+  const { maxMirrorCost } = MESH_MODE_POLICIES[meshMode];
+  return {
+    primary,
+    mirrors: maxMirrorCost === null ? [] : others.filter((transport) => transport.descriptor.cost <= maxMirrorCost),
+  };
+}
+
+function resolveNetworkStatus(transports: AlertTransport[], meshMode: MeshMode): NetworkMeshStatus {
+  const eligible = listEligibleTransports(transports, meshMode);
+  const peerToPeer = eligible.some((transport) => transport.descriptor.capabilities.includes('PEER_TO_PEER'));
+  const backend = eligible.some((transport) => transport.descriptor.capabilities.includes('REACHES_BACKEND'));
+
+  if (peerToPeer && backend) {
+    return 'HYBRID';
+  }
+  if (peerToPeer) {
+    return 'MESH_ONLY';
+  }
+  return backend ? 'INTERNET' : 'OFFLINE';
+}
+
+export { compareTransports, MESH_MODE_POLICIES, resolveNetworkStatus, resolvePublishPlan };
+export type { PublishPlan, TransportPolicy };
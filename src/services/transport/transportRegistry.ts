@@ -0,0 +1,32 @@
+import type { AlertTransport } from './alertTransport';
+import { bluetoothAlertTransport } from './bluetoothAlertTransport';
+import { internetAlertTransport } from './internetAlertTransport';
+import { compareTransports } from './transportPolicy';
+
+/** Every alert transport the router starts, publishes through and listens to. */
+class TransportRegistry {
+  private transports = new Map<string, AlertTransport>();
+
+  /** Register before the router starts; a transport added later is only started on the next start. */
+  register(transport: AlertTransport): () => void {
+    if (this.transports.has(transport.id)) {
+      throw new Error(`Alert transport "${transport.id}" is already registered.`);
+    }
+    this.transports.set(transport.id, transport);
+    return () => {
+      if (this.transports.get(transport.id) === transport) {
+        this.transports.delete(transport.id);
+      }
+    };
+  }
+
+  /** In priority order. */
+  list(): AlertTransport[] {
+    return [...this.transports.values()].sort(compareTransports);
+  }
+}
+
+export const transportRegistry = new TransportRegistry();
+
+transportRegistry.register(bluetoothAlertTransport);
+transportRegistry.register(internetAlertTransport);
@@ -1,6 +1,5 @@
-import { networkMeshService, type NetworkMeshStatus } from '../networkMeshService';
+import { networkMeshService } from '../networkMeshService';
 import { settingsService } from '../settingsService';
-import { bluetoothAlertTransport } from './bluetoothAlertTransport';
 import type {
   AlertTransport,
   AlertTransportEventMap,
@@ -12,7 +11,8 @@ import type {
   SOSTriggeredPayload,
   TransportStatusSnapshot,
 } from './alertTransport';
-import { internetAlertTransport } from './internetAlertTransport';
+import { resolveNetworkStatus, resolvePublishPlan, type PublishPlan } from './transportPolicy';
+import { transportRegistry } from './transportRegistry';
 
 class TransportRouterService {
   private started = false;
@@ -23,9 +23,11 @@ class TransportRouterService {
     nearby_alert: new Set(),
     assigned: new Set(),
     cancelled: new Set(),
+    delivered: new Set(),
   };
   private removeTransportListeners: (() => void)[] = [];
-  private transports: AlertTransport[] = [bluetoothAlertTransport, internetAlertTransport];
+  // Fixed at start, so stop() tears down exactly what was started.
+  private transports: AlertTransport[] = [];
   private assignedAlerts = new Set<string>();
 
   async start(): Promise<void> {
@@ -35,6 +37,7 @@ class TransportRouterService {
 
     await settingsService.loadSettings();
 
+    this.transports = transportRegistry.list();
     for (const transport of this.transports) {
       try {
         await transport.start();
@@ -80,14 +83,14 @@ class TransportRouterService {
   }
 
   async publishSosTriggered(payload: SOSTriggeredPayload): Promise<PublishTriggerResult> {
-    const { primary, mirror } = this.resolvePublishPlan();
+    const { primary, mirrors } = this.resolvePublishPlan();
     if (!primary) {
       return { ok: false, alertId: payload.alertId, reason: 'No SOS transport available.' };
     }
 
     const result = await primary.publishSosTriggered(payload);
 
-    if (mirror) {
+    for (const mirror of mirrors) {
       void mirror.publishSosTriggered(payload);
     }
 
@@ -96,13 +99,13 @@ class TransportRouterService {
   }
 
   async publishSosCancelled(payload: SOSCancelledPayload): Promise<PublishResult> {
-    const { primary, mirror } = this.resolvePublishPlan();
+    const { primary, mirrors } = this.resolvePublishPlan();
     if (!primary) {
       return { ok: false, reason: 'No SOS transport available.' };
     }
 
     const result = await primary.publishSosCancelled(payload);
-    if (mirror) {
+    for (const mirror of mirrors) {
       void mirror.publishSosCancelled(payload);
     }
 
@@ -111,13 +114,13 @@ class TransportRouterService {
   }
 
   async publishSosAssigned(payload: SOSAssignedPayload): Promise<PublishResult> {
-    const { primary, mirror } = this.resolvePublishPlan();
+    const { primary, mirrors } = this.resolvePublishPlan();
     if (!primary) {
       return { ok: false, reason: 'No SOS transport available.' };
     }
 
     const primaryResult = await primary.publishSosAssigned(payload);
-    if (mirror) {
+    for (const mirror of mirrors) {
       void mirror.publishSosAssigned(payload);
     }
 
@@ -126,14 +129,16 @@ class TransportRouterService {
   }
 
   getStatusSnapshot(): TransportStatusSnapshot {
-    const settings = settingsService.getSettings();
-    const bluetooth = bluetoothAlertTransport.getAvailability();
-    const internet = internetAlertTransport.getAvailability();
+    const { meshMode } = settingsService.getSettings();
+    const transports = this.listTransports();
     return {
-      meshMode: settings.meshMode,
-      bluetooth,
-      internet,
-      networkStatus: resolveNetworkStatus(settings.meshMode, bluetooth.canPublish, internet.canPublish),
+      meshMode,
+      transports: transports.map((transport) => ({
+        id: transport.id,
+        ...transport.descriptor,
+        availability: transport.getAvailability(),
+      })),
+      networkStatus: resolveNetworkStatus(transports, meshMode),
     };
   }
 
@@ -158,39 +163,37 @@ class TransportRouterService {
           this.emit('cancelled', payload);
         })
       );
-    }
-  }
-
-  private resolvePublishPlan(): { primary: AlertTransport | null; mirror: AlertTransport | null } {
-    const settings = settingsService.getSettings();
-    const bluetoothAvailable = bluetoothAlertTransport.getAvailability().canPublish;
-    const internetAvailable = internetAlertTransport.getAvailability().canPublish;
-
-    if (settings.meshMode === 'FORCE_MESH') {
-      return {
-        primary: bluetoothAvailable ? bluetoothAlertTransport : null,
-        mirror: null,
-      };
+      this.removeTransportListeners.push(
+        transport.on('delivered', (payload) => {
+          this.emit('delivered', payload);
+        })
+      );
     }
 
-    if (settings.meshMode === 'FORCE_INTERNET') {
-      return {
-        primary: internetAvailable ? internetAlertTransport : null,
-        mirror: null,
-      };
+    // Any device with a backend connection acts as a gateway for SOS traffic it hears over the mesh.
+    for (const transport of this.transports) {
+      const off = transport.onEnvelopeReceived?.((envelope) => {
+        // Receipts only matter to the origin's phone; the backend has nothing to apply them to.
+        if (envelope.type === 'SOS_ACK') {
+          return;
+        }
+        const gateway = this.transports.find(
+          (candidate) => candidate.relayMeshEnvelope && candidate.getAvailability().canPublish
+        );
+        void gateway?.relayMeshEnvelope?.(envelope);
+      });
+      if (off) {
+        this.removeTransportListeners.push(off);
+      }
     }
+  }
 
-    if (bluetoothAvailable) {
-      return {
-        primary: bluetoothAlertTransport,
-        mirror: internetAvailable ? internetAlertTransport : null,
-      };
-    }
+  private resolvePublishPlan(): PublishPlan {
+    return resolvePublishPlan(this.listTransports(), settingsService.getSettings().meshMode);
+  }
 
-    return {
-      primary: internetAvailable ? internetAlertTransport : null,
-      mirror: null,
-    };
+  private listTransports(): AlertTransport[] {
+    return this.started ? this.transports : transportRegistry.list();
   }
 
   private async syncNetworkStatus(): Promise<void> {
@@ -208,32 +211,4 @@ class TransportRouterService {
   }
 }
 
-function resolveNetworkStatus(
-  meshMode: 'AUTO' | 'FORCE_MESH' | 'FORCE_INTERNET',
-  bluetoothAvailable: boolean,
-  internetAvailable: boolean
-): NetworkMeshStatus {
-  if (meshMode === 'FORCE_MESH') {
-    return bluetoothAvailable ? 'MESH_ONLY' : 'OFFLINE';
-  }
-
-  if (meshMode === 'FORCE_INTERNET') {
-    return internetAvailable ? 'INTERNET' : 'OFFLINE';
-  }
-
-  if (bluetoothAvailable && internetAvailable) {
-    return 'HYBRID';
-  }
-
-  if (bluetoothAvailable) {
-    return 'MESH_ONLY';
-  }
-
-  if (internetAvailable) {
-    return 'INTERNET';
-  }
-
-  return 'OFFLINE';
-}
-
 export const transportRouterService = new TransportRouterService();
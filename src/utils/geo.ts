@@ -0,0 +1,20 @@
+const EARTH_RADIUS_METERS = 6_371_000;
+
+type GeoPoint = {
+  latitude: number;
+  longitude: number;
+};
+
+export function toRadians(value: number): number {
+  return (value * Math.PI) / 180;
+}
+
+/** Great-circle distance between two coordinates, in meters. */
+export function haversineMeters(from: GeoPoint, to: GeoPoint): number {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+  return EARTH_RADIUS_METERS * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}